@@ -1,4 +1,19 @@
 const OpenAI = require('openai');
+const {
+  DEFAULT_TAX_YEAR,
+  isSupportedTaxYear,
+  getTaxYearRules,
+  getBracketRate,
+  calculateCPP,
+  calculateEI,
+  calculateRRSPRoom
+} = require('./tax/rules');
+const { calculateQPP, calculateSelfEmployedQPIP } = require('./tax/quebec');
+const { calculateBusinessStatements, calculateSelfEmployedCPP } = require('./tax/business');
+const { getFilingDeadlines, getInstallmentDueDates } = require('./tax/deadlines');
+const { getPrescribedRate } = require('./tax/interest');
+const penaltyRules = require('../shared/penalties.json');
+const registeredAccounts = require('../shared/registeredAccounts.json');
 require('dotenv').config();
 
 class EnhancedCanadianTaxAI {
@@ -28,66 +43,107 @@ class EnhancedCanadianTaxAI {
         keywords: ['rrsp', 'registered retirement', 'retirement savings', 'contribution room'],
         response: (context) => {
           const income = context.income || 0;
-          const rrspRoom = Math.min(income * 0.18, 31560);
-          const taxSavings = rrspRoom * (this.getMarginalRate(income) / 100);
+          const taxYear = this.getTaxYear(context);
+          const rules = getTaxYearRules(taxYear);
+          const rrsp = context.registeredAccounts?.rrsp;
+          // Room left from the contribution ledger when the user has entered their Notice of Assessment
+          const rrspRoom = rrsp ? Math.max(0, rrsp.deductionLimit - rrsp.deduction) : calculateRRSPRoom(income, rules);
+          const taxSavings = rrspRoom * (this.getMarginalRate(income, taxYear) / 100);
+          const deadline = getFilingDeadlines(taxYear).rrspContributionDeadline;
           
           return `🏦 RRSP Advice for ${context.province || 'Canada'}:\n\n` +
                  `📊 Your Details:\n` +
                  `• Income: $${income.toLocaleString()}\n` +
-                 `• Max RRSP Room: $${rrspRoom.toLocaleString()}\n` +
+                 (rrsp
+                   ? `• ${taxYear} Deduction Limit: $${Math.round(rrsp.deductionLimit).toLocaleString()}\n` +
+                     `• Contributions for ${taxYear}: $${Math.round(rrsp.contributions).toLocaleString()}` +
+                     (rrsp.unusedContributions > 0 ? ` (plus $${Math.round(rrsp.unusedContributions).toLocaleString()} unused from earlier years)` : '') + `\n` +
+                     `• Room Left: $${Math.round(rrspRoom).toLocaleString()}\n` +
+                     (rrsp.nextYearDeductionLimit !== null ? `• ${Number(taxYear) + 1} Deduction Limit: $${Math.round(rrsp.nextYearDeductionLimit).toLocaleString()}\n` : '')
+                   : `• Max RRSP Room: $${rrspRoom.toLocaleString()}\n`) +
                  `• Potential Tax Savings: $${Math.round(taxSavings).toLocaleString()}\n\n` +
+                 this.formatAccountWarnings(context, 'RRSP') +
                  `✅ Key Benefits:\n` +
                  `• Tax deduction for contributions\n` +
                  `• Tax-deferred growth\n` +
-                 `• Contribution deadline: March 1, 2025\n\n` +
-                 `💡 Tip: Contributing your maximum RRSP room could save you $${Math.round(taxSavings)} in taxes!`;
+                 `• Contribution deadline: ${this.formatDeadline(deadline)}\n\n` +
+                 (rrsp && rrspRoom === 0
+                   ? `💡 Tip: You have used your ${taxYear} deduction limit - contributions beyond it carry forward as unused contributions, and only $${registeredAccounts.rrsp.overContributionAllowance.toLocaleString()} over the limit is penalty-free.`
+                   : `💡 Tip: Contributing your ${rrsp ? 'remaining' : 'maximum'} RRSP room could save you $${Math.round(taxSavings)} in taxes!`);
         }
       },
       tfsa: {
         keywords: ['tfsa', 'tax free savings', 'tfsa limit', 'tax-free'],
         response: (context) => {
+          const taxYear = this.getTaxYear(context);
+          const rules = getTaxYearRules(taxYear);
+          const tfsa = context.registeredAccounts?.tfsa;
           return `🏦 TFSA Guidance for ${context.province || 'Canada'}:\n\n` +
-                 `📊 2024 TFSA Details:\n` +
-                 `• Annual Contribution Limit: $7,000\n` +
+                 `📊 ${taxYear} TFSA Details:\n` +
+                 `• Annual Contribution Limit: $${rules.tfsa.limit.toLocaleString()}\n` +
+                 (tfsa
+                   ? `• Your Room on January 1: $${Math.round(tfsa.roomAtStart).toLocaleString()}\n` +
+                     `• Contributed in ${taxYear}: $${Math.round(tfsa.contributions).toLocaleString()}\n` +
+                     `• Room Left: $${Math.round(tfsa.availableRoom).toLocaleString()}\n` +
+                     (tfsa.recontributionRoom > 0 ? `• Withdrawals Added Back Next January 1: $${Math.round(tfsa.recontributionRoom).toLocaleString()}\n` : '')
+                   : '') +
                  `• Tax-free growth and withdrawals\n` +
                  `• No tax deduction for contributions\n` +
                  `• Contribution room accumulates from age 18\n\n` +
+                 this.formatAccountWarnings(context, 'TFSA') +
                  `✅ Best Uses:\n` +
                  `• Emergency fund\n` +
                  `• Short to medium-term goals\n` +
                  `• Tax-free investment growth\n\n` +
-                 `💡 Tip: Unlike RRSP, you can withdraw and re-contribute to TFSA without penalty!`;
+                 `💡 Tip: Withdrawals are added back to your room on January 1 of the following year - re-contributing sooner can trigger the 1% per month over-contribution tax.`;
         }
       },
       brackets: {
         keywords: ['tax brackets', 'tax rates', 'marginal tax', 'income tax'],
         response: (context) => {
           const province = context.province || 'ON';
-          return `📊 Canadian Tax Brackets for 2024:\n\n` +
+          const taxYear = this.getTaxYear(context);
+          const rules = getTaxYearRules(taxYear);
+          const provincialRules = rules.provinces[province] || rules.provinces.ON;
+          return `📊 Canadian Tax Brackets for ${taxYear}:\n\n` +
                  `🇨🇦 Federal Tax Brackets:\n` +
-                 `• 15% on income up to $55,867\n` +
-                 `• 20.5% on income $55,867 - $111,733\n` +
-                 `• 26% on income $111,733 - $173,205\n` +
-                 `• 29% on income $173,205 - $246,752\n` +
-                 `• 33% on income over $246,752\n\n` +
-                 `🏛️ Provincial rates vary by province.\n` +
-                 `📍 Your province: ${this.getProvinceName(province)}\n\n` +
+                 `${this.formatBrackets(rules.federal.brackets)}\n\n` +
+                 `🏛️ ${provincialRules.name} Tax Brackets:\n` +
+                 `${this.formatBrackets(provincialRules.brackets)}\n` +
+                 (provincialRules.surtax ? `• Plus Ontario surtax and Ontario Health Premium\n` : '') +
+                 `\n📍 Your province: ${this.getProvinceName(province)}\n\n` +
                  `💡 Remember: These are marginal rates - you don't pay the top rate on all your income!`;
         }
       },
       deadline: {
         keywords: ['deadline', 'due date', 'filing deadline', 'when to file'],
         response: (context) => {
-          return `📅 Important Canadian Tax Deadlines:\n\n` +
+          const taxYear = this.getTaxYear(context);
+          const deadlines = getFilingDeadlines(taxYear);
+          const selfEmployment = this.getSelfEmployment(context, taxYear);
+          const { lateFiling, repeatLateFiling } = penaltyRules;
+
+          return `📅 Important Canadian Tax Deadlines for ${taxYear}:\n\n` +
                  `🗓️ Individual Tax Returns:\n` +
-                 `• Filing Deadline: April 30, 2025\n` +
-                 `• Payment Due: April 30, 2025\n\n` +
+                 `• Filing Deadline: ${this.formatDeadline(deadlines.filingDeadline)}\n` +
+                 `• Payment Due: ${this.formatDeadline(deadlines.balanceDue)}\n\n` +
                  `🏢 Self-Employed:\n` +
-                 `• Filing Deadline: June 15, 2025\n` +
-                 `• Payment Still Due: April 30, 2025\n\n` +
-                 `💰 RRSP Contributions:\n` +
-                 `• Deadline: March 1, 2025\n\n` +
-                 `⚠️ Late filing penalties apply, so don't miss these dates!`;
+                 `• Filing Deadline: ${this.formatDeadline(deadlines.selfEmployedFilingDeadline)}\n` +
+                 `• Payment Still Due: ${this.formatDeadline(deadlines.balanceDue)}\n` +
+                 (selfEmployment
+                   ? `• Your net business income: $${Math.round(selfEmployment.netIncome).toLocaleString()}\n` +
+                     `• ${selfEmployment.pensionPlan} payable on self-employment (both halves): $${Math.round(selfEmployment.contribution).toLocaleString()}, due with your balance\n` +
+                     (selfEmployment.qpipPremium > 0 ? `• QPIP payable on self-employment: $${Math.round(selfEmployment.qpipPremium).toLocaleString()}\n` : '')
+                   : '') +
+                 `\n💰 RRSP Contributions:\n` +
+                 `• Deadline: ${this.formatDeadline(deadlines.rrspContributionDeadline)}\n\n` +
+                 `📆 ${Number(taxYear) + 1} Installments (if net tax owing is over $3,000):\n` +
+                 `• ${getInstallmentDueDates(Number(taxYear) + 1).map(date => this.formatDeadline(date)).join(', ')}\n\n` +
+                 `⚠️ Late Filing Penalty (on any balance unpaid at the filing deadline):\n` +
+                 `• ${Math.round(lateFiling.rate * 10000) / 100}% plus ${Math.round(lateFiling.monthlyRate * 10000) / 100}% per full month late, up to ${lateFiling.maxMonths} months\n` +
+                 `• Repeat late filers: ${Math.round(repeatLateFiling.rate * 10000) / 100}% plus ${Math.round(repeatLateFiling.monthlyRate * 10000) / 100}% per month, up to ${repeatLateFiling.maxMonths} months\n` +
+                 `• Arrears interest compounds daily at the prescribed rate (${Math.round(getPrescribedRate(new Date().toISOString().slice(0, 10)) * 10000) / 100}% this quarter)\n\n` +
+                 `💡 File on time even if you can't pay - the penalty only applies to late returns!`;
         }
       },
       deductions: {
@@ -112,14 +168,23 @@ class EnhancedCanadianTaxAI {
         keywords: ['cpp', 'canada pension', 'pension plan', 'contributions'],
         response: (context) => {
           const income = context.income || 0;
-          const cppContribution = Math.min(Math.max(0, income - 3500) * 0.0595, 4055);
+          const taxYear = this.getTaxYear(context);
+          const rules = getTaxYearRules(taxYear);
+          const cppContribution = calculateCPP(income, rules).total;
+          const cpp2Line = rules.cpp.yampe
+            ? `• CPP2: ${rules.cpp.cpp2Rate * 100}% on earnings $${rules.cpp.ympe.toLocaleString()} - $${rules.cpp.yampe.toLocaleString()}\n`
+            : '';
           
-          return `🏛️ Canada Pension Plan (CPP) for 2024:\n\n` +
+          return `🏛️ Canada Pension Plan (CPP) for ${taxYear}:\n\n` +
                  `📊 CPP Details:\n` +
-                 `• Maximum pensionable earnings: $68,500\n` +
-                 `• Contribution rate: 5.95% (employee)\n` +
-                 `• Basic exemption: $3,500\n` +
-                 `• Maximum contribution: $4,055\n\n` +
+                 `• Maximum pensionable earnings: $${rules.cpp.ympe.toLocaleString()}\n` +
+                 `• Contribution rate: ${Math.round(rules.cpp.rate * 10000) / 100}% (employee)\n` +
+                 `• Basic exemption: $${rules.cpp.basicExemption.toLocaleString()}\n` +
+                 `• Maximum contribution: $${rules.cpp.maxContribution.toLocaleString('en-CA', { minimumFractionDigits: 2 })}\n` +
+                 cpp2Line + `\n` +
+                 (context.province === 'QC'
+                   ? `⚜️ Quebec workers contribute to the QPP instead: ${Math.round(rules.quebec.qpp.rate * 10000) / 100}% up to $${rules.quebec.qpp.maxContribution.toLocaleString('en-CA', { minimumFractionDigits: 2 })}\n\n`
+                   : '') +
                  `💰 Your CPP contribution: $${Math.round(cppContribution).toLocaleString()}\n\n` +
                  `✅ Benefits:\n` +
                  `• Retirement pension\n` +
@@ -131,13 +196,18 @@ class EnhancedCanadianTaxAI {
         keywords: ['ei', 'employment insurance', 'ei premium', 'unemployment'],
         response: (context) => {
           const income = context.income || 0;
-          const eiContribution = Math.min(income * 0.0229, 1505);
+          const taxYear = this.getTaxYear(context);
+          const rules = getTaxYearRules(taxYear);
+          const eiContribution = calculateEI(income, rules);
           
-          return `🛡️ Employment Insurance (EI) for 2024:\n\n` +
+          return `🛡️ Employment Insurance (EI) for ${taxYear}:\n\n` +
                  `📊 EI Details:\n` +
-                 `• Maximum insurable earnings: $65,700\n` +
-                 `• Premium rate: 2.29% (employee)\n` +
-                 `• Maximum premium: $1,505\n\n` +
+                 `• Maximum insurable earnings: $${rules.ei.maxInsurableEarnings.toLocaleString()}\n` +
+                 `• Premium rate: ${Math.round(rules.ei.rate * 10000) / 100}% (employee)\n` +
+                 `• Maximum premium: $${rules.ei.maxPremium.toLocaleString('en-CA', { minimumFractionDigits: 2 })}\n\n` +
+                 (context.province === 'QC'
+                   ? `⚜️ Quebec: reduced EI rate of ${Math.round(rules.quebec.ei.rate * 10000) / 100}% plus QPIP premiums of ${Math.round(rules.quebec.qpip.rate * 100000) / 1000}%\n\n`
+                   : '') +
                  `💰 Your EI premium: $${Math.round(eiContribution).toLocaleString()}\n\n` +
                  `✅ Coverage:\n` +
                  `• Regular benefits (unemployment)\n` +
@@ -149,12 +219,70 @@ class EnhancedCanadianTaxAI {
   }
 
   // Helper methods
-  getMarginalRate(income) {
-    if (income <= 55867) return 15;
-    if (income <= 111733) return 20.5;
-    if (income <= 173205) return 26;
-    if (income <= 246752) return 29;
-    return 33;
+  getTaxYear(context) {
+    return isSupportedTaxYear(context.taxYear) ? String(context.taxYear) : DEFAULT_TAX_YEAR;
+  }
+
+  // YYYY-MM-DD deadline as "April 30, 2025"
+  formatDeadline(date) {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', {
+      year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC'
+    });
+  }
+
+  // T2125 statements from the tax form in context, with CPP/QPP (and QPIP in Quebec) owing on the net business income
+  getSelfEmployment(context, taxYear) {
+    const businesses = context.taxFormData?.businesses;
+    if (!Array.isArray(businesses) || businesses.length === 0) return null;
+
+    try {
+      const rules = getTaxYearRules(taxYear);
+      const isQuebec = context.province === 'QC';
+      const { netIncome } = calculateBusinessStatements(businesses, rules);
+      const selfEmployedCpp = calculateSelfEmployedCPP(context.income || 0, netIncome, isQuebec ? calculateQPP : calculateCPP, rules);
+      const selfEmployedQpip = isQuebec ? calculateSelfEmployedQPIP(context.income || 0, netIncome, rules) : null;
+      return {
+        netIncome,
+        contribution: selfEmployedCpp.total,
+        pensionPlan: isQuebec ? 'QPP' : 'CPP',
+        qpipPremium: selfEmployedQpip ? selfEmployedQpip.total : 0
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // One line of RRSP/TFSA/FHSA room and penalties for the OpenAI system prompt
+  describeRegisteredAccounts(context) {
+    const accounts = context.registeredAccounts;
+    if (!accounts || (!accounts.rrsp && !accounts.tfsa && !accounts.fhsa)) return 'Not provided';
+
+    return [
+      accounts.rrsp && `RRSP room left $${Math.round(Math.max(0, accounts.rrsp.deductionLimit - accounts.rrsp.deduction))}`,
+      accounts.tfsa && `TFSA room left $${Math.round(accounts.tfsa.availableRoom)}`,
+      accounts.fhsa && `FHSA room left $${Math.round(accounts.fhsa.availableRoom)}`,
+      accounts.totalPenalty > 0 && `over-contribution tax $${Math.round(accounts.totalPenalty)}`
+    ].filter(Boolean).join(', ');
+  }
+
+  // Over-contribution warnings from the registered account ledger in context, for one account
+  formatAccountWarnings(context, account) {
+    const warnings = (context.registeredAccounts?.warnings || []).filter(warning => warning.startsWith(account));
+    return warnings.length > 0 ? `⚠️ Over-contribution:\n${warnings.map(warning => `• ${warning}`).join('\n')}\n\n` : '';
+  }
+
+  getMarginalRate(income, taxYear = DEFAULT_TAX_YEAR) {
+    const brackets = getTaxYearRules(taxYear).federal.brackets;
+    return Math.round(getBracketRate(income, brackets) * 1000) / 10;
+  }
+
+  formatBrackets(brackets) {
+    return brackets.map((bracket, index) => {
+      const rate = `${Math.round(bracket.rate * 10000) / 100}%`;
+      if (index === 0) return `• ${rate} on income up to $${bracket.max.toLocaleString()}`;
+      if (bracket.max === null) return `• ${rate} on income over $${bracket.min.toLocaleString()}`;
+      return `• ${rate} on income $${bracket.min.toLocaleString()} - $${bracket.max.toLocaleString()}`;
+    }).join('\n');
   }
 
   getProvinceName(code) {
@@ -267,15 +395,17 @@ class EnhancedCanadianTaxAI {
 
   // Generate OpenAI response
   async generateOpenAIResponse(message, userId, context) {
-    const systemPrompt = `You are a Canadian Tax AI Assistant specialized in CRA regulations for 2024. 
+    const taxYear = this.getTaxYear(context);
+    const systemPrompt = `You are a Canadian Tax AI Assistant specialized in CRA regulations for ${taxYear}. 
     
     User Context:
     - Name: ${context.userName || 'User'}
     - Province: ${this.getProvinceName(context.province)}
     - Income: ${context.income ? `$${context.income.toLocaleString()}` : 'Not provided'}
-    - Filing Status: ${context.filingStatus || 'Not specified'}
+    - Marital Status: ${context.maritalStatus || 'Not specified'}
+    - Registered Accounts: ${this.describeRegisteredAccounts(context)}
     
-    Always provide accurate Canadian tax advice, mention specific 2024 rates and limits, and suggest actionable next steps.
+    Always provide accurate Canadian tax advice, mention specific ${taxYear} rates and limits, and suggest actionable next steps.
     Keep responses concise but informative, and always include relevant CRA references.`;
 
     const completion = await this.openai.chat.completions.create({
@@ -319,8 +449,11 @@ class EnhancedCanadianTaxAI {
 
   // Generate error response
   generateErrorResponse(message, context) {
+    const taxYear = this.getTaxYear(context);
+    const rules = getTaxYearRules(taxYear);
+    const filingYear = Number(taxYear) + 1;
     return {
-      message: `I apologize, but I'm having trouble processing your request right now. 😔\n\nLet me try to help with general Canadian tax guidance instead!\n\n🇨🇦 Quick Tax Tips:\n• Tax filing deadline: April 30, 2025\n• RRSP deadline: March 1, 2025\n• TFSA limit 2024: $7,000\n• Basic personal amount: $15,705\n\nPlease try rephrasing your question, and I'll do my best to help! 🍁`,
+      message: `I apologize, but I'm having trouble processing your request right now. 😔\n\nLet me try to help with general Canadian tax guidance instead!\n\n🇨🇦 Quick Tax Tips:\n• Tax filing deadline: April 30, ${filingYear}\n• RRSP deadline: March 1, ${filingYear}\n• TFSA limit ${taxYear}: $${rules.tfsa.limit.toLocaleString()}\n• Basic personal amount: $${rules.federal.basicPersonalAmount.max.toLocaleString()}\n\nPlease try rephrasing your question, and I'll do my best to help! 🍁`,
       confidence: 60,
       sources: ['Canadian Tax AI Assistant'],
       aiInsight: true,
@@ -407,7 +540,7 @@ module.exports = {
   enhancedCanadianTaxAI
 };
 
-// Clean up cache every hour
+// Clean up cache every hour (without keeping the process alive on its own)
 setInterval(() => {
   enhancedCanadianTaxAI.clearExpiredCache();
-}, 60 * 60 * 1000);
\ No newline at end of file
+}, 60 * 60 * 1000).unref();
\ No newline at end of file
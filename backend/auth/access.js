@@ -0,0 +1,42 @@
+// Preparer access to client accounts. A preparer invites a client by email, asking for some scopes; the
+// client accepts (with all or some of them) or declines, and can narrow or revoke the grant at any time.
+// Grants and invitations are the same record, moving from 'pending' to 'active', 'declined' or 'revoked'.
+// Every account signs up as a client; it becomes a preparer only when the reviewer at PREPARER_REVIEWER_EMAIL
+// approves its application.
+const ROLES = ['client', 'preparer'];
+const DEFAULT_ROLE = 'client';
+
+// returns: saved returns, schedules and ledgers; documents: uploaded slips and receipts; chat: the AI
+// assistant history
+const ACCESS_SCOPES = ['returns', 'documents', 'chat'];
+const INVITATION_TTL_DAYS = 14;
+
+const getUserRole = (user) => (ROLES.includes(user.role) ? user.role : DEFAULT_ROLE);
+
+// Known scopes only, in ACCESS_SCOPES order, without duplicates
+const normalizeScopes = (scopes) => ACCESS_SCOPES.filter(scope => (scopes || []).includes(scope));
+
+const getInvitationExpiry = (from = new Date()) => {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+const isInvitationOpen = (grant) => {
+  return Boolean(grant) && grant.status === 'pending' && new Date(grant.expiresAt) > new Date();
+};
+
+const isGrantActive = (grant) => Boolean(grant) && grant.status === 'active';
+
+const grantAllows = (grant, scope) => isGrantActive(grant) && grant.scopes.includes(scope);
+
+module.exports = {
+  ROLES,
+  DEFAULT_ROLE,
+  ACCESS_SCOPES,
+  INVITATION_TTL_DAYS,
+  getUserRole,
+  normalizeScopes,
+  getInvitationExpiry,
+  isInvitationOpen,
+  isGrantActive,
+  grantAllows
+};
@@ -0,0 +1,177 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const request = require('supertest');
+const { grantAllows, isGrantActive } = require('./access');
+
+const REVIEWER_EMAIL = 'reviewer@example.com';
+const mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'access-test-mail-'));
+process.env.JWT_SECRET = 'test-secret';
+process.env.STORAGE_BACKEND = 'memory';
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_DIR = mailDir;
+process.env.PREPARER_REVIEWER_EMAIL = REVIEWER_EMAIL;
+const app = require('../server');
+
+afterAll(() => {
+  fs.rmSync(mailDir, { recursive: true, force: true });
+});
+
+const register = async (name, email) => {
+  const response = await request(app)
+    .post('/api/auth/register')
+    .send({ name, email, password: 'correct-horse' })
+    .expect(201);
+  return response.body;
+};
+
+// The token in the newest `param` link the file transport wrote to `to`. Some emails are sent without the
+// request waiting for them, so this waits for a complete file to appear.
+const readMailedToken = async (to, param) => {
+  const pattern = new RegExp(`${param}=([^\\s]+)`);
+  const readMessage = (file) => {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(mailDir, file), 'utf8'));
+    } catch (error) {
+      return null;
+    }
+  };
+  // File names end in the transport's send sequence number
+  const sequenceOf = (file) => Number(file.match(/-(\d+)\.json$/)[1]);
+
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const message = fs.readdirSync(mailDir)
+      .sort((a, b) => sequenceOf(b) - sequenceOf(a))
+      .map(readMessage)
+      .find(sent => sent && sent.to === to && pattern.test(sent.text));
+    if (message) return message.text.match(pattern)[1];
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`No ${param} email for ${to}`);
+};
+
+const verifyEmail = async (email) => {
+  await request(app)
+    .post('/api/auth/verify-email')
+    .send({ token: await readMailedToken(email, 'verifyEmailToken') })
+    .expect(200);
+};
+
+// A client account that applied to be a preparer and was approved by the reviewer, with the session
+// refreshed so its access token carries the new role
+const registerPreparer = async (name, email) => {
+  const account = await register(name, email);
+  await verifyEmail(email);
+  await request(app)
+    .post('/api/auth/preparer-application')
+    .set('Authorization', `Bearer ${account.token}`)
+    .send({ details: 'Sole practitioner, EFILE number X1234' })
+    .expect(200);
+  await request(app)
+    .post('/api/auth/preparer-application/approve')
+    .send({ token: await readMailedToken(REVIEWER_EMAIL, 'approvePreparerToken') })
+    .expect(200);
+
+  const refreshed = await request(app)
+    .post('/api/auth/refresh')
+    .send({ refreshToken: account.refreshToken })
+    .expect(200);
+  return refreshed.body;
+};
+
+describe('grantAllows', () => {
+  const grant = { status: 'active', scopes: ['returns', 'documents'] };
+
+  test('allows only the scopes of an active grant', () => {
+    expect(grantAllows(grant, 'returns')).toBe(true);
+    expect(grantAllows(grant, 'chat')).toBe(false);
+  });
+
+  test('refuses a grant that is pending, declined or revoked', () => {
+    ['pending', 'declined', 'revoked'].forEach(status => {
+      expect(isGrantActive({ ...grant, status })).toBe(false);
+      expect(grantAllows({ ...grant, status }, 'returns')).toBe(false);
+    });
+    expect(grantAllows(null, 'returns')).toBe(false);
+  });
+});
+
+describe('preparer accounts', () => {
+  test('sign-up refuses a self-assigned role', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Sam Self', email: 'self@example.com', password: 'correct-horse', role: 'preparer' })
+      .expect(400);
+    expect(response.body.errors.map(error => error.path)).toEqual(['role']);
+  });
+
+  test('a client becomes a preparer only through an approved application', async () => {
+    const account = await register('Robin Reviewed', 'robin@example.com');
+    expect(account.user.role).toBe('client');
+
+    const invite = (token) => request(app)
+      .post('/api/clients/invitations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email: 'someone@example.com', scopes: ['returns'] });
+    await invite(account.token).expect(403);
+
+    // Applying needs a confirmed email address, and the approval link works once
+    const apply = () => request(app)
+      .post('/api/auth/preparer-application')
+      .set('Authorization', `Bearer ${account.token}`)
+      .send({ details: 'Chartered professional accountant' });
+    await apply().expect(403);
+    await verifyEmail('robin@example.com');
+    const applied = await apply().expect(200);
+    expect(applied.body.data.preparerApplication.status).toBe('pending');
+
+    const approvalToken = await readMailedToken(REVIEWER_EMAIL, 'approvePreparerToken');
+    await request(app).post('/api/auth/preparer-application/approve').send({ token: approvalToken }).expect(200);
+    await request(app).post('/api/auth/preparer-application/approve').send({ token: approvalToken }).expect(400);
+
+    const refreshed = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: account.refreshToken })
+      .expect(200);
+    expect(refreshed.body.user.role).toBe('preparer');
+    await invite(refreshed.body.token).expect(201);
+  });
+});
+
+describe('preparer access to a client', () => {
+  test('a preparer is refused a scope the client did not grant, and everything once the grant is revoked', async () => {
+    const preparer = await registerPreparer('Pat Preparer', 'preparer@example.com');
+    const client = await register('Casey Client', 'client@example.com');
+    await verifyEmail('client@example.com');
+
+    const invited = await request(app)
+      .post('/api/clients/invitations')
+      .set('Authorization', `Bearer ${preparer.token}`)
+      .send({ email: 'client@example.com', scopes: ['returns', 'documents'] })
+      .expect(201);
+
+    // The client shares their returns only
+    const accepted = await request(app)
+      .post(`/api/access/invitations/${invited.body.data.id}/accept`)
+      .set('Authorization', `Bearer ${client.token}`)
+      .send({ scopes: ['returns'] })
+      .expect(200);
+
+    const asPreparer = (path) => request(app)
+      .get(path)
+      .set('Authorization', `Bearer ${preparer.token}`)
+      .set('X-Client-Id', client.user.id);
+
+    await asPreparer('/api/tax-forms').expect(200);
+    const documents = await asPreparer('/api/documents').expect(403);
+    expect(documents.body.message).toBe('You do not have documents access for this client');
+
+    await request(app)
+      .delete(`/api/access/${accepted.body.data.id}`)
+      .set('Authorization', `Bearer ${client.token}`)
+      .expect(200);
+
+    const returns = await asPreparer('/api/tax-forms').expect(403);
+    expect(returns.body.message).toBe('You do not have returns access for this client');
+  });
+});
@@ -0,0 +1,39 @@
+const request = require('supertest');
+
+process.env.JWT_SECRET = 'test-secret';
+process.env.STORAGE_BACKEND = 'memory';
+const app = require('../server');
+
+describe('refresh token rotation', () => {
+  test('reusing a rotated refresh token signs the whole session out', async () => {
+    const registered = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Rotation Test', email: 'rotation@example.com', password: 'correct-horse' })
+      .expect(201);
+    const { refreshToken: firstRefreshToken } = registered.body;
+
+    const rotated = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: firstRefreshToken })
+      .expect(200);
+    const { token, refreshToken } = rotated.body;
+    expect(refreshToken).not.toBe(firstRefreshToken);
+
+    // The old token turning up again means it leaked, so the session it belonged to is revoked
+    await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: firstRefreshToken })
+      .expect(401);
+
+    await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken })
+      .expect(401);
+
+    const sessions = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+    expect(sessions.body.message).toBe('Session has been signed out');
+  });
+});
@@ -0,0 +1,68 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// Access tokens are short-lived JWTs naming the user, their role and the session they belong to. Refresh, password
+// reset, email verification and preparer approval tokens are opaque '<recordId>.<secret>' strings; only a
+// SHA-256 hash of the secret is stored. Every refresh swaps the refresh token for a new one.
+const BCRYPT_ROUNDS = 12;
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const PREPARER_APPROVAL_TTL_DAYS = 14;
+const OPAQUE_SECRET_BYTES = 32;
+
+const getJwtSecret = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set to sign access tokens');
+  }
+  return process.env.JWT_SECRET;
+};
+
+const signAccessToken = (userId, sessionId, role) => {
+  return jwt.sign({ userId, sid: sessionId, role }, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+};
+
+// Throws jwt's TokenExpiredError or JsonWebTokenError
+const verifyAccessToken = (token) => jwt.verify(token, getJwtSecret());
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const tokenHashMatches = (secret, expectedHash) => {
+  if (!expectedHash) return false;
+  const actual = Buffer.from(hashToken(secret), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+const generateOpaqueToken = (recordId) => {
+  const secret = crypto.randomBytes(OPAQUE_SECRET_BYTES).toString('base64url');
+  return { token: `${recordId}.${secret}`, hash: hashToken(secret) };
+};
+
+const parseOpaqueToken = (token) => {
+  const separator = typeof token === 'string' ? token.indexOf('.') : -1;
+  if (separator <= 0) return null;
+  return { id: token.slice(0, separator), secret: token.slice(separator + 1) };
+};
+
+const getRefreshExpiry = (from = new Date()) => {
+  return new Date(from.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+module.exports = {
+  BCRYPT_ROUNDS,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_DAYS,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  PREPARER_APPROVAL_TTL_DAYS,
+  getJwtSecret,
+  signAccessToken,
+  verifyAccessToken,
+  hashToken,
+  tokenHashMatches,
+  generateOpaqueToken,
+  parseOpaqueToken,
+  getRefreshExpiry
+};
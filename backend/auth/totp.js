@@ -0,0 +1,97 @@
+const crypto = require('crypto');
+
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30-second steps, 6 digits) as used by
+// authenticator apps, and single-use backup codes for when the app is unavailable
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+const BACKUP_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer) => {
+  let bits = '';
+  buffer.forEach(byte => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  const chunks = bits.match(/.{1,5}/g) || [];
+  return chunks.map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+const base32Decode = (encoded) => {
+  const bits = encoded
+    .toUpperCase()
+    .replace(/[\s=-]/g, '')
+    .split('')
+    .map(char => {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+      return index.toString(2).padStart(5, '0');
+    })
+    .join('');
+  const bytes = (bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2));
+  return Buffer.from(bytes);
+};
+
+const generateTotpSecret = () => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+const getTimeStep = (time = Date.now()) => Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+
+const generateTotp = (secret, step = getTimeStep()) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// The time step the code belongs to, or null. Steps at or before `lastUsedStep` are refused so a code
+// cannot be replayed.
+const verifyTotp = (secret, code, lastUsedStep = -1, time = Date.now()) => {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = getTimeStep(time);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    const expected = generateTotp(secret, step);
+    if (step > lastUsedStep && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const buildOtpauthUri = ({ secret, accountName, issuer }) => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_STEP_SECONDS}`
+  ];
+  return `otpauth://totp/${label}?${params.join('&')}`;
+};
+
+// Backup codes are shown once as 'xxxxx-xxxxx' and compared without case or the dash
+const normalizeBackupCode = (code) => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const generateBackupCodes = (count = BACKUP_CODE_COUNT) => {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+module.exports = {
+  TOTP_STEP_SECONDS,
+  BACKUP_CODE_COUNT,
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+  normalizeBackupCode,
+  generateBackupCodes
+};
@@ -0,0 +1,42 @@
+const { TOTP_STEP_SECONDS, generateTotp, verifyTotp } = require('./totp');
+
+// RFC 6238 appendix B: the SHA1 seed is the ASCII '12345678901234567890', here in base32, and the
+// 8-digit reference codes are cut to their last six digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130']
+];
+
+describe('TOTP (RFC 6238)', () => {
+  test.each(RFC_VECTORS)('at %i seconds the code is %s', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, Math.floor(seconds / TOTP_STEP_SECONDS))).toBe(code);
+    expect(verifyTotp(RFC_SECRET, code, -1, seconds * 1000)).toBe(Math.floor(seconds / TOTP_STEP_SECONDS));
+  });
+
+  test('a code from one step either side is accepted, two steps away is not', () => {
+    const time = 1111111111 * 1000;
+    const step = Math.floor(1111111111 / TOTP_STEP_SECONDS);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), -1, time)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), -1, time)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), -1, time)).toBeNull();
+  });
+
+  test('a code cannot be replayed once its step has been used', () => {
+    const time = 1234567890 * 1000;
+    const step = verifyTotp(RFC_SECRET, '005924', -1, time);
+    expect(verifyTotp(RFC_SECRET, '005924', step, time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), step, time)).toBe(step + 1);
+  });
+
+  test('anything but six digits is refused', () => {
+    expect(verifyTotp(RFC_SECRET, '', -1, 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708', -1, 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708a', -1, 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '287 082', -1, 59 * 1000)).toBe(1);
+  });
+});
@@ -33,11 +33,10 @@ const initializeFirebase = () => {
       return true;
     } catch (error) {
       console.log('⚠️  Firebase initialization failed:', error.message);
-      console.log('📝 Using in-memory storage as fallback');
       return false;
     }
   } else {
-    console.log('⚠️  Firebase not configured, using in-memory storage');
+    console.log('⚠️  Firebase not configured (FIREBASE_STORAGE_BUCKET is not set)');
     return false;
   }
 };
@@ -45,284 +44,8 @@ const initializeFirebase = () => {
 // Initialize on module load
 const isFirebaseEnabled = initializeFirebase();
 
-const saveUser = async (user) => {
-  if (db) {
-    try {
-      const userDoc = {
-        ...user,
-        createdAt: admin.firestore.Timestamp.fromDate(user.createdAt || new Date()),
-        updatedAt: admin.firestore.Timestamp.fromDate(new Date())
-      };
-
-      await db.collection('users').doc(user.id).set(userDoc);
-      console.log(`💾 User saved to Firebase: ${user.email}`);
-      return user;
-    } catch (error) {
-      console.error('❌ Firebase save user error:', error);
-      throw new Error('Failed to save user to database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const findUser = async (criteria) => {
-  if (db) {
-    try {
-      const usersRef = db.collection('users');
-
-      if (criteria.email) {
-        const query = usersRef.where('email', '==', criteria.email);
-        const snapshot = await query.get();
-
-        if (!snapshot.empty) {
-          const doc = snapshot.docs[0];
-          const userData = doc.data();
-          return {
-            id: doc.id,
-            ...userData,
-            createdAt: userData.createdAt?.toDate() || new Date(),
-            updatedAt: userData.updatedAt?.toDate() || new Date()
-          };
-        }
-      } else if (criteria.id) {
-        const doc = await usersRef.doc(criteria.id).get();
-
-        if (doc.exists) {
-          const userData = doc.data();
-          return {
-            id: doc.id,
-            ...userData,
-            createdAt: userData.createdAt?.toDate() || new Date(),
-            updatedAt: userData.updatedAt?.toDate() || new Date()
-          };
-        }
-      }
-
-      return null;
-    } catch (error) {
-      console.error('❌ Firebase find user error:', error);
-      throw new Error('Failed to find user in database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const updateUser = async (userId, updates) => {
-  if (db) {
-    try {
-      const updateData = {
-        ...updates,
-        updatedAt: admin.firestore.Timestamp.fromDate(new Date())
-      };
-
-      await db.collection('users').doc(userId).update(updateData);
-      console.log(`🔄 User updated in Firebase: ${userId}`);
-
-      // Return updated user
-      return await findUser({ id: userId });
-    } catch (error) {
-      console.error('❌ Firebase update user error:', error);
-      throw new Error('Failed to update user in database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-// ==========================================
-// DOCUMENT OPERATIONS
-// ==========================================
-
-const saveDocument = async (document) => {
-  if (db) {
-    try {
-      const docData = {
-        ...document,
-        uploadDate: admin.firestore.Timestamp.fromDate(document.uploadDate || new Date()),
-        createdAt: admin.firestore.Timestamp.fromDate(new Date())
-      };
-
-      await db.collection('documents').doc(document.id).set(docData);
-      console.log(`📄 Document saved to Firebase: ${document.name}`);
-      return document;
-    } catch (error) {
-      console.error('❌ Firebase save document error:', error);
-      throw new Error('Failed to save document to database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const getUserDocuments = async (userId) => {
-  if (db) {
-    try {
-      const snapshot = await db.collection('documents')
-        .where('userId', '==', userId)
-        .orderBy('uploadDate', 'desc')
-        .get();
-
-      const documents = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          uploadDate: data.uploadDate?.toDate() || new Date(),
-          createdAt: data.createdAt?.toDate() || new Date()
-        };
-      });
-
-      console.log(`📋 Retrieved ${documents.length} documents for user: ${userId}`);
-      return documents;
-    } catch (error) {
-      console.error('❌ Firebase get documents error:', error);
-      throw new Error('Failed to retrieve documents from database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const deleteDocument = async (documentId, userId) => {
-  if (db) {
-    try {
-      // Verify document belongs to user
-      const doc = await db.collection('documents').doc(documentId).get();
-      if (!doc.exists || doc.data().userId !== userId) {
-        throw new Error('Document not found or access denied');
-      }
-
-      await db.collection('documents').doc(documentId).delete();
-      console.log(`🗑️ Document deleted from Firebase: ${documentId}`);
-      return true;
-    } catch (error) {
-      console.error('❌ Firebase delete document error:', error);
-      throw new Error('Failed to delete document from database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-// ==========================================
-// TAX FORM OPERATIONS
-// ==========================================
-
-const saveTaxForm = async (taxForm) => {
-  if (db) {
-    try {
-      const formData = {
-        ...taxForm,
-        createdAt: admin.firestore.Timestamp.fromDate(taxForm.createdAt || new Date()),
-        updatedAt: admin.firestore.Timestamp.fromDate(new Date())
-      };
-
-      await db.collection('taxForms').doc(taxForm.id).set(formData);
-      console.log(`🧮 Tax form saved to Firebase: ${taxForm.id}`);
-      return taxForm;
-    } catch (error) {
-      console.error('❌ Firebase save tax form error:', error);
-      throw new Error('Failed to save tax form to database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const getUserTaxForms = async (userId) => {
-  if (db) {
-    try {
-      const snapshot = await db.collection('taxForms')
-        .where('userId', '==', userId)
-        .orderBy('createdAt', 'desc')
-        .get();
-
-      const taxForms = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        };
-      });
-
-      console.log(`📊 Retrieved ${taxForms.length} tax forms for user: ${userId}`);
-      return taxForms;
-    } catch (error) {
-      console.error('❌ Firebase get tax forms error:', error);
-      throw new Error('Failed to retrieve tax forms from database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-// ==========================================
-// CHAT OPERATIONS
-// ==========================================
-
-const saveChatMessage = async (chatMessage) => {
-  if (db) {
-    try {
-      const messageData = {
-        ...chatMessage,
-        timestamp: admin.firestore.Timestamp.fromDate(chatMessage.timestamp || new Date())
-      };
-
-      await db.collection('chatHistory').doc(chatMessage.id).set(messageData);
-      return chatMessage;
-    } catch (error) {
-      console.error('❌ Firebase save chat error:', error);
-      throw new Error('Failed to save chat message to database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const getUserChatHistory = async (userId, limit = 20) => {
-  if (db) {
-    try {
-      const snapshot = await db.collection('chatHistory')
-        .where('userId', '==', userId)
-        .orderBy('timestamp', 'desc')
-        .limit(limit)
-        .get();
-
-      const chatHistory = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          timestamp: data.timestamp?.toDate() || new Date()
-        };
-      }).reverse(); // Reverse to get chronological order
-
-      return chatHistory;
-    } catch (error) {
-      console.error('❌ Firebase get chat history error:', error);
-      throw new Error('Failed to retrieve chat history from database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
-
-const clearUserChatHistory = async (userId) => {
-  if (db) {
-    try {
-      const snapshot = await db.collection('chatHistory')
-        .where('userId', '==', userId)
-        .get();
-
-      const batch = db.batch();
-      snapshot.docs.forEach(doc => {
-        batch.delete(doc.ref);
-      });
-
-      await batch.commit();
-      console.log(`🗑️ Chat history cleared for user: ${userId}`);
-      return snapshot.docs.length;
-    } catch (error) {
-      console.error('❌ Firebase clear chat history error:', error);
-      throw new Error('Failed to clear chat history from database');
-    }
-  }
-  throw new Error('Firebase not available');
-};
+// Users, tax forms, documents and chat history are read and written through the storage layer
+// (storage/firestore.js when STORAGE_BACKEND=firestore)
 
 // ==========================================
 // FILE STORAGE OPERATIONS
@@ -440,25 +163,6 @@ module.exports = {
   getFirebaseStatus,
   testFirebaseConnection,
 
-  // User operations
-  saveUser,
-  findUser,
-  updateUser,
-
-  // Document operations
-  saveDocument,
-  getUserDocuments,
-  deleteDocument,
-
-  // Tax form operations
-  saveTaxForm,
-  getUserTaxForms,
-
-  // Chat operations
-  saveChatMessage,
-  getUserChatHistory,
-  clearUserChatHistory,
-
   // Storage operations
   uploadToFirebaseStorage,
   deleteFromFirebaseStorage,
@@ -0,0 +1,10 @@
+// Prints each message to the server log instead of delivering it
+const createConsoleTransport = () => ({
+  send: async (message) => {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+module.exports = {
+  createConsoleTransport
+};
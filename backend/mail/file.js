@@ -0,0 +1,20 @@
+const fs = require('fs');
+const path = require('path');
+
+// Writes each message to its own JSON file in `directory`, named by send time, for development and tests
+const createFileTransport = (directory) => {
+  fs.mkdirSync(directory, { recursive: true });
+  let sequence = 0;
+
+  return {
+    send: async (message) => {
+      sequence += 1;
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${sequence}.json`;
+      await fs.promises.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+    }
+  };
+};
+
+module.exports = {
+  createFileTransport
+};
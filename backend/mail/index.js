@@ -0,0 +1,41 @@
+const path = require('path');
+const { createConsoleTransport } = require('./console');
+const { createFileTransport } = require('./file');
+
+// Mail transport from MAIL_TRANSPORT: 'console' (default, server log) or 'file' (one JSON file per
+// message in MAIL_DIR or data/mail). A production transport only needs an async send(message).
+const MAIL_TRANSPORTS = ['console', 'file'];
+const DEFAULT_MAIL_DIR = path.join(__dirname, '..', 'data', 'mail');
+const DEFAULT_FROM = 'Tax Prep AI <no-reply@taxprep.local>';
+
+const createTransport = (transport, options) => {
+  switch (transport) {
+    case 'console':
+      return createConsoleTransport();
+    case 'file':
+      return createFileTransport(options.directory || DEFAULT_MAIL_DIR);
+    default:
+      throw new Error(`Unsupported mail transport: ${transport}. Use one of ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+};
+
+// send({ to, subject, text }) fills in the sender and timestamp before handing off to the transport
+const createMailer = (
+  transport = process.env.MAIL_TRANSPORT || 'console',
+  options = { directory: process.env.MAIL_DIR, from: process.env.MAIL_FROM }
+) => {
+  const sender = createTransport(transport, options);
+  return {
+    transport,
+    send: (message) => sender.send({
+      from: options.from || DEFAULT_FROM,
+      ...message,
+      sentAt: new Date().toISOString()
+    })
+  };
+};
+
+module.exports = {
+  MAIL_TRANSPORTS,
+  createMailer
+};
@@ -0,0 +1,100 @@
+// Account emails, as { subject, text }
+const passwordResetMessage = ({ name, link, expiresInMinutes }) => ({
+  subject: 'Reset your Tax Prep AI password',
+  text: [
+    `Hi ${name},`,
+    '',
+    'Someone asked to reset the password for your Tax Prep AI account. To choose a new password, open:',
+    link,
+    '',
+    `The link works once and expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email; your password has not changed.`
+  ].join('\n')
+});
+
+const emailVerificationMessage = ({ name, link, expiresInHours }) => ({
+  subject: 'Confirm your email address for Tax Prep AI',
+  text: [
+    `Hi ${name},`,
+    '',
+    'Please confirm this email address for your Tax Prep AI account by opening:',
+    link,
+    '',
+    `The link works once and expires in ${expiresInHours} hours.`
+  ].join('\n')
+});
+
+const emailChangeNoticeMessage = ({ name, newEmail }) => ({
+  subject: 'Your Tax Prep AI email address is changing',
+  text: [
+    `Hi ${name},`,
+    '',
+    `A request was made to change the email address on your Tax Prep AI account to ${newEmail}. The change takes effect once the new address is confirmed.`,
+    '',
+    'If this was not you, sign in and change your password, then sign out of all sessions from your profile.'
+  ].join('\n')
+});
+
+const passwordChangedMessage = ({ name }) => ({
+  subject: 'Your Tax Prep AI password was changed',
+  text: [
+    `Hi ${name},`,
+    '',
+    'The password for your Tax Prep AI account was just reset, and every signed-in session was signed out.',
+    '',
+    'If this was not you, reset your password again right away.'
+  ].join('\n')
+});
+
+const SCOPE_DESCRIPTIONS = {
+  returns: 'your saved returns, schedules and ledgers',
+  documents: 'your uploaded documents',
+  chat: 'your tax assistant conversations'
+};
+
+const clientInvitationMessage = ({ preparerName, scopes, link, expiresInDays }) => ({
+  subject: `${preparerName} asked for access to your Tax Prep AI account`,
+  text: [
+    'Hi,',
+    '',
+    `${preparerName} is using Tax Prep AI to prepare returns and asked to work with:`,
+    ...scopes.map(scope => `- ${SCOPE_DESCRIPTIONS[scope]}`),
+    '',
+    'To accept or decline, sign in (or create an account with this email address) and open your profile:',
+    link,
+    '',
+    `The invitation expires in ${expiresInDays} days. You can narrow or revoke access from your profile at any time.`
+  ].join('\n')
+});
+
+const preparerApplicationMessage = ({ name, email, details, link, expiresInDays }) => ({
+  subject: `Preparer application from ${name}`,
+  text: [
+    `${name} (${email}) asked to use Tax Prep AI as a tax preparer:`,
+    '',
+    details,
+    '',
+    'To approve the application, open:',
+    link,
+    '',
+    `The link works once and expires in ${expiresInDays} days. To turn the application down, ignore this email.`
+  ].join('\n')
+});
+
+const preparerApprovedMessage = ({ name }) => ({
+  subject: 'You can now prepare returns with Tax Prep AI',
+  text: [
+    `Hi ${name},`,
+    '',
+    'Your preparer application was approved. Sign in again to invite clients from your profile.'
+  ].join('\n')
+});
+
+module.exports = {
+  passwordResetMessage,
+  emailVerificationMessage,
+  emailChangeNoticeMessage,
+  passwordChangedMessage,
+  clientInvitationMessage,
+  preparerApplicationMessage,
+  preparerApprovedMessage
+};
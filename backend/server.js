@@ -5,14 +5,102 @@ const dotenv = require('dotenv');
 const rateLimit = require('express-rate-limit');
 const multer = require('multer');
 const path = require('path');
-const jwt = require('jsonwebtoken');
 const bcrypt = require('bcryptjs');
-const { body, validationResult } = require('express-validator');
+const { body, param, query, validationResult } = require('express-validator');
 const fs = require('fs');
 const { enhancedCanadianTaxAI } = require('./ai-chatbot');
+const { createStore } = require('./storage');
+const { createMailer } = require('./mail');
+const {
+  passwordResetMessage,
+  emailVerificationMessage,
+  emailChangeNoticeMessage,
+  passwordChangedMessage,
+  clientInvitationMessage,
+  preparerApplicationMessage,
+  preparerApprovedMessage
+} = require('./mail/messages');
+const {
+  BCRYPT_ROUNDS,
+  ACCESS_TOKEN_TTL_SECONDS,
+  getJwtSecret,
+  signAccessToken,
+  verifyAccessToken,
+  tokenHashMatches,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  PREPARER_APPROVAL_TTL_DAYS,
+  generateOpaqueToken,
+  parseOpaqueToken,
+  getRefreshExpiry,
+  hashToken
+} = require('./auth/tokens');
+const {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  normalizeBackupCode,
+  generateBackupCodes
+} = require('./auth/totp');
+const {
+  DEFAULT_ROLE,
+  ACCESS_SCOPES,
+  INVITATION_TTL_DAYS,
+  getUserRole,
+  normalizeScopes,
+  getInvitationExpiry,
+  isInvitationOpen,
+  isGrantActive,
+  grantAllows
+} = require('./auth/access');
+const { toSnapshot, diffSnapshots, createRevision, summarizeRevision } = require('./storage/revisions');
+const { createAuditLog } = require('./storage/audit');
+const { SUPPORTED_TAX_YEARS, DEFAULT_TAX_YEAR, isSupportedTaxYear, getTaxYearRules } = require('./tax/rules');
+const { PROVINCE_CODES } = require('./tax/provincial');
+const { MARITAL_STATUSES, PARTNERED_STATUSES, DEPENDANT_RELATIONSHIPS } = require('./tax/credits');
+const { getProvinceInfo, getSalesTaxInfo, calculateCanadianTax } = require('./tax/calculator');
+const { calculateHouseholdTax } = require('./tax/household');
+const { optimizeRRSPContribution } = require('./tax/rrspOptimizer');
+const { DRAWDOWN_ORDERS, projectRetirement } = require('./tax/projection');
+const { calculateInstallments, getNetTaxOwing } = require('./tax/installments');
+const { calculateArrears } = require('./tax/penalties');
+const { EARLIEST_INTEREST_DATE, getLatestInterestDate, isWithinInterestWindow } = require('./tax/interest');
+const { calculateBenefits } = require('./tax/benefits');
+const { calculateMETRCurve } = require('./tax/metr');
+const { PAY_FREQUENCIES, PAYROLL_PROVINCE_CODES, simulatePayroll } = require('./tax/payroll');
+const { SLIP_TYPES } = require('./tax/income');
+const { CCA_CLASSES } = require('./tax/business');
+const {
+  RENTAL_CCA_CLASSES,
+  calculateRentalSchedule,
+  carryForwardRentalProperties,
+  applyPriorYearUcc,
+  summarizeRentalSchedule
+} = require('./tax/rental');
+const {
+  TRANSACTION_TYPES,
+  calculateInvestmentLedger,
+  calculateCapitalLossHistory,
+  importT5008,
+  summarizeInvestmentLedger,
+  summarizeCapitalLossHistory
+} = require('./tax/capitalGains');
+const {
+  ACCOUNT_TYPES,
+  TRANSACTION_TYPES: REGISTERED_TRANSACTION_TYPES,
+  calculateRegisteredAccounts,
+  summarizeRegisteredAccounts
+} = require('./tax/registeredAccounts');
 
 dotenv.config();
 
+try {
+  getJwtSecret();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -47,6 +135,37 @@ const authLimiter = rateLimit({
   message: { success: false, message: 'Too many authentication attempts, please try again later.' }
 });
 
+// Signed-in password checks (step-up, password change) are limited per account and only count failures,
+// so routine confirmations never use up sign-in attempts or lock out others behind the same IP
+const accountPasswordLimiter = (message) => rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => req.userId,
+  message: { success: false, message }
+});
+const stepUpLimiter = accountPasswordLimiter('Too many incorrect confirmations, please try again later.');
+const passwordChangeLimiter = accountPasswordLimiter('Too many incorrect password attempts, please try again later.');
+
+// Account emails are limited separately from sign-in: reset links per IP, verification resends per account
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { success: false, message: 'Too many password reset requests, please try again later.' }
+});
+const verificationEmailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 3,
+  keyGenerator: (req) => req.userId,
+  message: { success: false, message: 'Too many verification emails requested, please try again later.' }
+});
+const preparerApplicationLimiter = rateLimit({
+  windowMs: 24 * 60 * 60 * 1000,
+  max: 3,
+  keyGenerator: (req) => req.userId,
+  message: { success: false, message: 'Too many preparer applications, please try again tomorrow.' }
+});
+
 // File upload configuration
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -73,191 +192,364 @@ const upload = multer({
   }
 });
 
-// In-memory storage
-const users = [];
-const taxForms = [];
-const documents = [];
-const chatHistory = [];
+// Users, tax forms, documents, chat history and saved schedules and ledgers (STORAGE_BACKEND selects
+// the file, memory or Firestore backend; see storage/index.js)
+const store = createStore();
+
+// Account emails (MAIL_TRANSPORT selects the console or file transport; see mail/index.js)
+const mailer = createMailer();
 
 // Utility functions
 const generateId = () => Math.random().toString(36).substr(2, 9);
-const generateToken = (userId) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET || 'canadian-tax-secret-2024', { expiresIn: '7d' });
+
+// Who changed or viewed each user's data, chained per user so tampering shows (see storage/audit.js)
+const auditLog = createAuditLog(store.auditLog, store.auditHeads, generateId);
+
+const toAuditActor = (user) => ({ id: user.id, role: getUserRole(user) });
+
+// Records an audit entry about `subjectId`'s data (by default, whose data the request is about). Entries
+// are written after the change is saved, so a failure to write one is logged rather than failing the request.
+const recordAudit = async (req, action, resource, { subjectId = req.subjectId || req.userId, actor, before, after } = {}) => {
+  try {
+    await auditLog.append({
+      subjectId,
+      actor: actor || { id: req.userId, role: req.userRole },
+      action,
+      resource,
+      ip: req.ip,
+      changes: before || after ? diffSnapshots(before || {}, after || {}) : []
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
+
+// Sessions: one per sign-in, holding the hash of its current refresh token. A revoked or expired
+// session is the revocation store for its access tokens, which authenticateToken checks on every request.
+const isSessionActive = (session) => {
+  return Boolean(session) && !session.revokedAt && new Date(session.expiresAt) > new Date();
+};
+
+const createSession = async (user, req) => {
+  const id = generateId();
+  const refreshToken = generateOpaqueToken(id);
+  const now = new Date();
+  await store.sessions.save({
+    id,
+    userId: user.id,
+    refreshTokenHash: refreshToken.hash,
+    previousRefreshTokenHash: null,
+    userAgent: (req.get('user-agent') || '').slice(0, 200),
+    ip: req.ip,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: getRefreshExpiry(now),
+    revokedAt: null,
+    revokedReason: null
+  });
+
+  return {
+    token: signAccessToken(user.id, id, getUserRole(user)),
+    refreshToken: refreshToken.token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+};
+
+const revokeSession = (sessionId, reason) => {
+  return store.sessions.update(sessionId, { revokedAt: new Date(), revokedReason: reason });
+};
+
+// Revokes every active session of the user except `keepSessionId`, returning how many were revoked
+const revokeUserSessions = async (userId, reason, keepSessionId = null) => {
+  const sessions = await store.sessions.find({ userId });
+  const revocable = sessions.filter(session => isSessionActive(session) && session.id !== keepSessionId);
+  await Promise.all(revocable.map(session => revokeSession(session.id, reason)));
+  return revocable.length;
+};
+
+// Swaps a refresh token for a new one. Presenting the token that was already swapped out means it was
+// copied, so the whole session is revoked.
+const rotateSession = async (refreshToken, req) => {
+  const parsed = parseOpaqueToken(refreshToken);
+  const session = parsed ? await store.sessions.findOne({ id: parsed.id }) : null;
+  if (!isSessionActive(session)) return null;
+
+  if (tokenHashMatches(parsed.secret, session.previousRefreshTokenHash)) {
+    await revokeSession(session.id, 'Refresh token reused');
+    return null;
+  }
+  if (!tokenHashMatches(parsed.secret, session.refreshTokenHash)) return null;
+
+  const user = await findUserData({ id: session.userId });
+  if (!user) return null;
+
+  const nextRefreshToken = generateOpaqueToken(session.id);
+  await store.sessions.update(session.id, {
+    refreshTokenHash: nextRefreshToken.hash,
+    previousRefreshTokenHash: session.refreshTokenHash,
+    userAgent: (req.get('user-agent') || '').slice(0, 200),
+    ip: req.ip,
+    lastUsedAt: new Date()
+  });
+
+  return {
+    user,
+    tokens: {
+      token: signAccessToken(user.id, session.id, getUserRole(user)),
+      refreshToken: nextRefreshToken.token,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
+    }
+  };
+};
+
+const summarizeSession = (session, currentSessionId) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId
+});
+
+// Single-use account tokens for password resets, email verification and preparer approval. Issuing a
+// token replaces any earlier one for the same purpose.
+const ACCOUNT_TOKEN_TTLS_MS = {
+  passwordReset: PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+  emailVerification: EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+  preparerApproval: PREPARER_APPROVAL_TTL_DAYS * 24 * 60 * 60 * 1000
+};
+
+const issueAccountToken = async (userId, purpose, details = {}) => {
+  await store.accountTokens.removeWhere({ userId, purpose });
+  const id = generateId();
+  const token = generateOpaqueToken(id);
+  const now = new Date();
+  await store.accountTokens.save({
+    id,
+    userId,
+    purpose,
+    tokenHash: token.hash,
+    ...details,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ACCOUNT_TOKEN_TTLS_MS[purpose]),
+    usedAt: null
+  });
+  return token.token;
+};
+
+// The token's record if it is for `purpose`, unused and unexpired, marked used; otherwise null
+const redeemAccountToken = async (token, purpose) => {
+  const parsed = parseOpaqueToken(token);
+  const record = parsed ? await store.accountTokens.findOne({ id: parsed.id, purpose }) : null;
+  if (!record || record.usedAt || new Date(record.expiresAt) <= new Date()) return null;
+  if (!tokenHashMatches(parsed.secret, record.tokenHash)) return null;
+  return store.accountTokens.update(record.id, { usedAt: new Date() });
+};
+
+// Links in account emails open the frontend with the token in the query string
+const getAppLink = (params) => {
+  return `${process.env.FRONTEND_URL || 'http://localhost:5173'}/?${new URLSearchParams(params).toString()}`;
+};
+
+const sendEmailVerification = async (user, email) => {
+  const token = await issueAccountToken(user.id, 'emailVerification', { email });
+  await mailer.send({
+    to: email,
+    ...emailVerificationMessage({
+      name: user.name,
+      link: getAppLink({ verifyEmailToken: token }),
+      expiresInHours: EMAIL_VERIFICATION_TTL_HOURS
+    })
+  });
+};
+
+// Step-up re-authentication: sensitive operations need the password (and second factor, when enabled)
+// re-entered on this session within the last few minutes
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+const hasRecentStepUp = (req) => {
+  const { stepUpAt } = req.authSession || {};
+  return Boolean(stepUpAt) && Date.now() - new Date(stepUpAt).getTime() < STEP_UP_WINDOW_MS;
+};
+
+const stepUpRequired = (res) => {
+  return res.status(403).json({
+    success: false,
+    stepUpRequired: true,
+    message: 'Please confirm your password to continue'
+  });
+};
+
+// Runs after authenticateToken
+const requireStepUp = (req, res, next) => {
+  if (!hasRecentStepUp(req)) {
+    return stepUpRequired(res);
+  }
+  next();
 };
 
 // Authentication middleware
-const authenticateToken = (req, res, next) => {
+const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
   if (!token) {
     return res.status(401).json({ success: false, message: 'Access token required' });
   }
-  jwt.verify(token, process.env.JWT_SECRET || 'canadian-tax-secret-2024', (err, decoded) => {
-    if (err) {
-      return res.status(403).json({ success: false, message: 'Invalid token' });
+
+  let decoded;
+  try {
+    decoded = verifyAccessToken(token);
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({ success: false, message: 'Access token expired' });
+    }
+    return res.status(403).json({ success: false, message: 'Invalid token' });
+  }
+
+  try {
+    const session = await store.sessions.findOne({ id: decoded.sid });
+    if (!isSessionActive(session) || session.userId !== decoded.userId) {
+      return res.status(401).json({ success: false, message: 'Session has been signed out' });
     }
     req.userId = decoded.userId;
+    req.userRole = decoded.role || DEFAULT_ROLE;
+    req.sessionId = decoded.sid;
+    req.authSession = session;
     next();
-  });
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({ success: false, message: 'Failed to verify session' });
+  }
+};
+
+// Role and client access checks, run after authenticateToken
+const requireRole = (role) => (req, res, next) => {
+  if (req.userRole !== role) {
+    return res.status(403).json({ success: false, message: `Only ${role} accounts can do this` });
+  }
+  next();
+};
+
+// Whose data the request is about: the signed-in user, or the client named in the X-Client-Id header
+// when the signed-in preparer holds an active grant with `scope`. Routes then use req.subjectId. Deletes
+// skip this and stay with the account owner. A preparer reading a client's data is audited here; changes
+// are audited by the routes that make them.
+const resolveSubject = (scope) => async (req, res, next) => {
+  const clientId = req.get('x-client-id');
+  if (!clientId || clientId === req.userId) {
+    req.subjectId = req.userId;
+    return next();
+  }
+
+  if (req.userRole !== 'preparer') {
+    return res.status(403).json({ success: false, message: 'Only preparer accounts can act for a client' });
+  }
+
+  try {
+    const grant = await store.clientGrants.findOne({ preparerId: req.userId, clientId, status: 'active' });
+    if (!grantAllows(grant, scope)) {
+      return res.status(403).json({ success: false, message: `You do not have ${scope} access for this client` });
+    }
+    req.subjectId = clientId;
+    if (req.method === 'GET') {
+      await recordAudit(req, 'client.view', { type: scope, path: req.path });
+    }
+    next();
+  } catch (error) {
+    console.error('Client access error:', error);
+    res.status(500).json({ success: false, message: 'Failed to verify client access' });
+  }
 };
 
 // Helper functions
 const findUserData = async (criteria) => {
   if (criteria.email) {
-    return users.find(u => u.email === criteria.email);
+    return store.users.findOne({ email: criteria.email });
   }
   if (criteria.id) {
-    return users.find(u => u.id === criteria.id);
+    return store.users.findOne({ id: criteria.id });
   }
   return null;
 };
 
 const saveUserData = async (userData) => {
-  users.push(userData);
-  return userData;
-};
-
-// Province information
-const getProvinceInfo = (province) => {
-  const provinceData = {
-    'ON': { name: 'Ontario', basicPersonal: 11865, hst: 13 },
-    'BC': { name: 'British Columbia', basicPersonal: 11980, pst: 7, gst: 5 },
-    'AB': { name: 'Alberta', basicPersonal: 21003, gst: 5 },
-    'SK': { name: 'Saskatchewan', basicPersonal: 17661, pst: 6, gst: 5 },
-    'MB': { name: 'Manitoba', basicPersonal: 15000, pst: 7, gst: 5 },
-    'QC': { name: 'Quebec', basicPersonal: 18056, qst: 9.975, gst: 5 },
-    'NB': { name: 'New Brunswick', basicPersonal: 12458, hst: 15 },
-    'NS': { name: 'Nova Scotia', basicPersonal: 8744, hst: 15 },
-    'PE': { name: 'Prince Edward Island', basicPersonal: 12500, hst: 15 },
-    'NL': { name: 'Newfoundland and Labrador', basicPersonal: 10382, hst: 15 },
-    'YT': { name: 'Yukon', basicPersonal: 15705, gst: 5 },
-    'NT': { name: 'Northwest Territories', basicPersonal: 16593, gst: 5 },
-    'NU': { name: 'Nunavut', basicPersonal: 18767, gst: 5 }
-  };
-  return provinceData[province] || provinceData['ON'];
-};
-
-const getSalesTaxInfo = (province) => {
-  const salesTax = {
-    'ON': 'HST: 13%', 'BC': 'GST: 5% + PST: 7%', 'AB': 'GST: 5%',
-    'SK': 'GST: 5% + PST: 6%', 'MB': 'GST: 5% + PST: 7%',
-    'QC': 'GST: 5% + QST: 9.975%', 'NB': 'HST: 15%', 'NS': 'HST: 15%',
-    'PE': 'HST: 15%', 'NL': 'HST: 15%', 'YT': 'GST: 5%',
-    'NT': 'GST: 5%', 'NU': 'GST: 5%'
-  };
-  return salesTax[province] || 'GST: 5%';
+  return store.users.save(userData);
 };
 
-// Tax calculation functions
-const getMarginalRate = (taxableIncome) => {
-  if (taxableIncome <= 55867) return 15;
-  if (taxableIncome <= 111733) return 20.5;
-  if (taxableIncome <= 173205) return 26;
-  if (taxableIncome <= 246752) return 29;
-  return 33;
-};
+// Users as sent to the client: no password hash or two-factor secrets
+const toPublicUser = ({ password, twoFactor, ...user }) => ({
+  ...user,
+  role: getUserRole(user),
+  emailVerified: Boolean(user.emailVerified),
+  pendingEmail: user.pendingEmail || null,
+  twoFactorEnabled: Boolean(twoFactor && twoFactor.enabled)
+});
 
-const calculateProvincialTax = (taxableIncome, province) => {
-  const provinceInfo = getProvinceInfo(province);
-  const provincialTaxable = Math.max(0, taxableIncome - (provinceInfo.basicPersonal - 15705));
-
-  switch (province) {
-    case 'ON':
-      return provincialTaxable > 0 ? provincialTaxable * 0.0505 : 0;
-    case 'AB':
-      return provincialTaxable > 0 ? provincialTaxable * 0.10 : 0;
-    case 'BC':
-      return provincialTaxable > 0 ? provincialTaxable * 0.0506 : 0;
-    case 'QC':
-      return provincialTaxable > 0 ? provincialTaxable * 0.14 : 0;
-    default:
-      return provincialTaxable > 0 ? provincialTaxable * 0.075 : 0;
-  }
-};
+// The profile fields an audit entry diffs; never credentials or two-factor secrets
+const toAuditProfile = (user) => ({
+  name: user.name,
+  email: user.email,
+  pendingEmail: user.pendingEmail || null,
+  emailVerified: Boolean(user.emailVerified),
+  province: user.province
+});
 
-const generateTaxOptimizations = (income, taxableIncome, rrspRoom, tfsaRoom) => {
-  const optimizations = [];
-  let potentialSavings = 0;
+const toAuditDocument = ({ originalName, mimetype, size, category }) => ({ originalName, mimetype, size, category });
 
-  if (rrspRoom > 0) {
-    const rrspSavings = rrspRoom * (getMarginalRate(taxableIncome) / 100);
-    optimizations.push(`Maximize RRSP contribution: Save $${Math.round(rrspSavings)} in taxes`);
-    potentialSavings += rrspSavings;
-  }
+const isTwoFactorEnabled = (user) => Boolean(user.twoFactor && user.twoFactor.enabled);
 
-  if (tfsaRoom > 0) {
-    const tfsaGrowth = tfsaRoom * 0.06;
-    optimizations.push(`Use TFSA room: $${tfsaRoom} tax-free growth potential`);
-    potentialSavings += tfsaGrowth * 0.25;
+// Checks an authenticator or backup code, returning the twoFactor changes that use it up (the TOTP step,
+// or the backup code removed), or null when the code is wrong
+const verifySecondFactor = (user, code) => {
+  const { secret, lastUsedStep, backupCodeHashes = [] } = user.twoFactor;
+  const step = verifyTotp(secret, code, lastUsedStep);
+  if (step !== null) {
+    return { ...user.twoFactor, lastUsedStep: step };
   }
 
-  if (income > 30000) {
-    optimizations.push('Claim home office expenses if working from home');
-    potentialSavings += 400;
+  const backupCodeHash = hashToken(normalizeBackupCode(code));
+  if (normalizeBackupCode(code) && backupCodeHashes.includes(backupCodeHash)) {
+    return { ...user.twoFactor, backupCodeHashes: backupCodeHashes.filter(hash => hash !== backupCodeHash) };
   }
-
-  return {
-    potentialSavings: Math.round(potentialSavings),
-    recommendedActions: optimizations,
-    confidence: 94
-  };
+  return null;
 };
 
-// Main Canadian Tax Calculation Function
-const calculateCanadianTax = (income, deductions, filingStatus, province = 'ON') => {
-  const basicPersonalAmount = 15705;
-  const totalDeductions = Math.max(deductions, basicPersonalAmount);
-  const taxableIncome = Math.max(0, income - totalDeductions);
-
-  // Federal Tax
-  let federalTax = 0;
-  if (taxableIncome > 0) {
-    if (taxableIncome <= 55867) {
-      federalTax = taxableIncome * 0.15;
-    } else if (taxableIncome <= 111733) {
-      federalTax = 8380 + (taxableIncome - 55867) * 0.205;
-    } else if (taxableIncome <= 173205) {
-      federalTax = 19822 + (taxableIncome - 111733) * 0.26;
-    } else if (taxableIncome <= 246752) {
-      federalTax = 35814 + (taxableIncome - 173205) * 0.29;
-    } else {
-      federalTax = 57168 + (taxableIncome - 246752) * 0.33;
-    }
-  }
+const issueBackupCodes = () => {
+  const codes = generateBackupCodes();
+  return { codes, hashes: codes.map(code => hashToken(normalizeBackupCode(code))) };
+};
 
-  // Provincial Tax
-  const provincialTax = calculateProvincialTax(taxableIncome, province);
+// Tax form revisions: one per save, recorded with the signed-in user as author
+const saveTaxFormRevision = async (userId, form, previous, action, restoredFrom = null) => {
+  const user = await findUserData({ id: userId });
+  return store.taxFormRevisions.save(createRevision({
+    id: generateId(),
+    form,
+    previous,
+    author: { id: userId, name: user ? user.name : null },
+    action,
+    restoredFrom
+  }));
+};
 
-  // CPP and EI
-  const cppContribution = Math.min(Math.max(0, income - 3500) * 0.0595, 4055);
-  const eiContribution = Math.min(income * 0.0229, 1505);
+// Deleting a return only marks it deleted, so its revision history is never lost; deleted returns are
+// hidden from every route
+const isTaxFormLive = (taxForm) => Boolean(taxForm) && !taxForm.deletedAt;
 
-  const totalTax = federalTax + provincialTax;
-  const totalTaxAndContributions = totalTax + cppContribution + eiContribution;
-  const effectiveRate = income > 0 ? (totalTaxAndContributions / income) * 100 : 0;
-  const rrspRoom = Math.min(income * 0.18, 31560);
-  const tfsaRoom = 7000;
+const findTaxForm = async (query) => {
+  const taxForm = await store.taxForms.findOne(query);
+  return isTaxFormLive(taxForm) ? taxForm : null;
+};
 
-  const provinceInfo = getProvinceInfo(province);
+const findTaxForms = async (query) => (await store.taxForms.find(query)).filter(isTaxFormLive);
 
-  return {
-    tax: Math.round(totalTaxAndContributions),
-    federalTax: Math.round(federalTax),
-    provincialTax: Math.round(provincialTax),
-    cppContribution: Math.round(cppContribution),
-    eiContribution: Math.round(eiContribution),
-    effectiveRate: Math.round(effectiveRate * 100) / 100,
-    taxableIncome: Math.round(taxableIncome),
-    basicPersonalAmount,
-    rrspRoom: Math.round(rrspRoom),
-    tfsaRoom,
-    marginalRate: getMarginalRate(taxableIncome),
-    provinceName: provinceInfo.name,
-    salesTax: getSalesTaxInfo(province),
-    aiOptimizations: generateTaxOptimizations(income, taxableIncome, rrspRoom, tfsaRoom)
-  };
+const findTaxFormRevision = (taxForm, revision) => {
+  return store.taxFormRevisions.findOne({ taxFormId: taxForm.id, userId: taxForm.userId, revision: Number(revision) });
 };
 
+const toTaxFormResource = (taxForm) => ({ type: 'taxForm', id: taxForm.id, taxYear: taxForm.taxYear || null, revision: taxForm.revision });
+
 // ROUTES
 
 // Health check
@@ -268,15 +560,19 @@ app.get('/api/health', (req, res) => {
     timestamp: new Date().toISOString(),
     version: '2.0.0',
     country: 'Canada',
-    taxYear: '2024'
+    taxYear: DEFAULT_TAX_YEAR,
+    supportedTaxYears: SUPPORTED_TAX_YEARS,
+    storage: store.backend
   });
 });
 
-// Authentication routes
+// Authentication routes. Sign-up always creates a client account: preparers are approved separately
+// (see /api/auth/preparer-application), so a role in the request is refused rather than ignored.
 app.post('/api/auth/register', authLimiter, [
   body('email').isEmail().normalizeEmail(),
-  body('password').isLength({ min: 6 }),
-  body('name').trim().isLength({ min: 1 })
+  body('password').isLength({ min: 8, max: 128 }),
+  body('name').trim().isLength({ min: 1 }),
+  body('role').not().exists().withMessage('Accounts are created as client accounts; apply to be a preparer from your profile')
 ], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -298,25 +594,32 @@ app.post('/api/auth/register', authLimiter, [
       });
     }
 
-    const hashedPassword = await bcrypt.hash(password, 12);
+    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
     const newUser = {
       id: generateId(),
       name,
       email,
       password: hashedPassword,
+      role: DEFAULT_ROLE,
       province: 'ON',
+      emailVerified: false,
       createdAt: new Date()
     };
 
     await saveUserData(newUser);
-    const token = generateToken(newUser.id);
-    const { password: _, ...userWithoutPassword } = newUser;
+    sendEmailVerification(newUser, newUser.email).catch(error => console.error('Verification email error:', error));
+    const session = await createSession(newUser, req);
+    await recordAudit(req, 'account.register', { type: 'user', id: newUser.id }, {
+      subjectId: newUser.id,
+      actor: toAuditActor(newUser),
+      after: toAuditProfile(newUser)
+    });
 
     res.status(201).json({
       success: true,
       message: 'User created successfully',
-      token,
-      user: userWithoutPassword
+      ...session,
+      user: toPublicUser(newUser)
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -329,7 +632,8 @@ app.post('/api/auth/register', authLimiter, [
 
 app.post('/api/auth/login', authLimiter, [
   body('email').isEmail().normalizeEmail(),
-  body('password').exists()
+  body('password').exists(),
+  body('code').optional().isString().isLength({ max: 20 })
 ], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -340,7 +644,7 @@ app.post('/api/auth/login', authLimiter, [
     });
   }
 
-  const { email, password } = req.body;
+  const { email, password, code } = req.body;
 
   try {
     const user = await findUserData({ email });
@@ -359,14 +663,32 @@ app.post('/api/auth/login', authLimiter, [
       });
     }
 
-    const token = generateToken(user.id);
-    const { password: _, ...userWithoutPassword } = user;
+    // With two-factor authentication on, the password alone is not enough
+    if (isTwoFactorEnabled(user)) {
+      const twoFactor = code ? verifySecondFactor(user, code) : null;
+      if (!twoFactor) {
+        return res.status(401).json({
+          success: false,
+          twoFactorRequired: true,
+          message: code ? 'Invalid authentication code' : 'Enter the code from your authenticator app or a backup code'
+        });
+      }
+      await store.users.update(user.id, { twoFactor });
+    }
+
+    // Hashes made with fewer rounds are upgraded while the password is at hand
+    if (bcrypt.getRounds(user.password) < BCRYPT_ROUNDS) {
+      await store.users.update(user.id, { password: await bcrypt.hash(password, BCRYPT_ROUNDS) });
+    }
+
+    const session = await createSession(user, req);
+    await recordAudit(req, 'auth.login', { type: 'user', id: user.id }, { subjectId: user.id, actor: toAuditActor(user) });
 
     res.json({
       success: true,
       message: 'Login successful',
-      token,
-      user: userWithoutPassword
+      ...session,
+      user: toPublicUser(user)
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -377,37 +699,9 @@ app.post('/api/auth/login', authLimiter, [
   }
 });
 
-// Province routes
-app.get('/api/provinces', (req, res) => {
-  const provinces = [
-    { code: 'ON', name: 'Ontario', basicPersonal: 11865, salesTax: 'HST: 13%' },
-    { code: 'BC', name: 'British Columbia', basicPersonal: 11980, salesTax: 'GST: 5% + PST: 7%' },
-    { code: 'AB', name: 'Alberta', basicPersonal: 21003, salesTax: 'GST: 5%' },
-    { code: 'SK', name: 'Saskatchewan', basicPersonal: 17661, salesTax: 'GST: 5% + PST: 6%' },
-    { code: 'MB', name: 'Manitoba', basicPersonal: 15000, salesTax: 'GST: 5% + PST: 7%' },
-    { code: 'QC', name: 'Quebec', basicPersonal: 18056, salesTax: 'GST: 5% + QST: 9.975%' },
-    { code: 'NB', name: 'New Brunswick', basicPersonal: 12458, salesTax: 'HST: 15%' },
-    { code: 'NS', name: 'Nova Scotia', basicPersonal: 8744, salesTax: 'HST: 15%' },
-    { code: 'PE', name: 'Prince Edward Island', basicPersonal: 12500, salesTax: 'HST: 15%' },
-    { code: 'NL', name: 'Newfoundland and Labrador', basicPersonal: 10382, salesTax: 'HST: 15%' },
-    { code: 'YT', name: 'Yukon', basicPersonal: 15705, salesTax: 'GST: 5%' },
-    { code: 'NT', name: 'Northwest Territories', basicPersonal: 16593, salesTax: 'GST: 5%' },
-    { code: 'NU', name: 'Nunavut', basicPersonal: 18767, salesTax: 'GST: 5%' }
-  ];
-
-  res.json({
-    success: true,
-    data: provinces
-  });
-});
-
-// Tax calculation routes
-app.post('/api/tax/calculate-by-province', authenticateToken, [
-  body('income').isNumeric(),
-  body('deductions').isNumeric(),
-  body('province').isLength({ min: 2, max: 2 }),
-  body('filingStatus').isIn(['single', 'married_joint', 'married_separate', 'head_of_household'])
-], (req, res) => {
+app.post('/api/auth/refresh', [
+  body('refreshToken').isString().isLength({ min: 1, max: 200 })
+], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -418,445 +712,2767 @@ app.post('/api/tax/calculate-by-province', authenticateToken, [
   }
 
   try {
-    const { income, deductions, province, filingStatus } = req.body;
+    const rotated = await rotateSession(req.body.refreshToken, req);
+    if (!rotated) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session expired, please sign in again'
+      });
+    }
 
-    const calculation = calculateCanadianTax(
-      parseFloat(income),
-      parseFloat(deductions),
-      filingStatus,
-      province.toUpperCase()
-    );
+    res.json({
+      success: true,
+      ...rotated.tokens,
+      user: toPublicUser(rotated.user)
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh session'
+    });
+  }
+});
 
-    const enhancedCalculation = {
-      ...calculation,
-      inputData: {
-        income: parseFloat(income),
-        deductions: parseFloat(deductions),
-        province: province.toUpperCase(),
-        filingStatus
-      }
-    };
+app.post('/api/auth/logout', authenticateToken, async (req, res) => {
+  try {
+    await revokeSession(req.sessionId, 'Signed out');
+    await recordAudit(req, 'auth.logout', { type: 'session', id: req.sessionId });
 
     res.json({
       success: true,
-      data: enhancedCalculation
+      message: 'Signed out'
     });
   } catch (error) {
-    console.error('Tax calculation error:', error);
+    console.error('Logout error:', error);
     res.status(500).json({
       success: false,
-      message: 'Tax calculation failed. Please try again.'
+      message: 'Failed to sign out'
     });
   }
 });
 
-app.post('/api/tax/compare-provinces', authenticateToken, [
-  body('income').isNumeric(),
-  body('deductions').isNumeric(),
-  body('provinces').isArray().isLength({ min: 2, max: 5 })
-], (req, res) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({
+// Signs out every device, including this one
+app.post('/api/auth/logout-all', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.userId, 'Signed out everywhere');
+    await recordAudit(req, 'auth.logoutAll', { type: 'user', id: req.userId });
+
+    res.json({
+      success: true,
+      message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`,
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Logout everywhere error:', error);
+    res.status(500).json({
       success: false,
-      message: 'Validation errors',
-      errors: errors.array()
+      message: 'Failed to sign out everywhere'
     });
   }
+});
 
+app.get('/api/auth/sessions', authenticateToken, async (req, res) => {
   try {
-    const { income, deductions, provinces } = req.body;
-    const filingStatus = 'single';
+    const sessions = await store.sessions.find({ userId: req.userId });
 
-    const comparisons = provinces.map(province => {
-      const calculation = calculateCanadianTax(
-        parseFloat(income),
-        parseFloat(deductions),
-        filingStatus,
-        province
-      );
-
-      return {
-        province: province,
-        provinceName: calculation.provinceName,
-        totalTax: calculation.tax,
-        federalTax: calculation.federalTax,
-        provincialTax: calculation.provincialTax,
-        netIncome: parseFloat(income) - calculation.tax,
-        marginalRate: calculation.marginalRate,
-        basicPersonal: getProvinceInfo(province).basicPersonal,
-        salesTax: getSalesTaxInfo(province)
-      };
+    res.json({
+      success: true,
+      data: sessions
+        .filter(isSessionActive)
+        .sort((a, b) => new Date(b.lastUsedAt) - new Date(a.lastUsedAt))
+        .map(session => summarizeSession(session, req.sessionId))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve sessions'
     });
+  }
+});
 
-    const sortedByTax = [...comparisons].sort((a, b) => a.totalTax - b.totalTax);
-    const bestProvince = sortedByTax[0];
-    const worstProvince = sortedByTax[sortedByTax.length - 1];
-    const savings = worstProvince.totalTax - bestProvince.totalTax;
+app.delete('/api/auth/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await store.sessions.findOne({ id: req.params.id, userId: req.userId });
+
+    if (!isSessionActive(session)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await revokeSession(session.id, 'Signed out remotely');
+    await recordAudit(req, 'session.revoke', { type: 'session', id: session.id });
 
     res.json({
       success: true,
-      data: {
-        comparisons,
-        summary: {
-          income: parseFloat(income),
-          bestProvince: {
-            province: bestProvince.province,
-            name: bestProvince.provinceName,
-            totalTax: bestProvince.totalTax,
-            netIncome: bestProvince.netIncome
-          },
-          worstProvince: {
-            province: worstProvince.province,
-            name: worstProvince.provinceName,
-            totalTax: worstProvince.totalTax,
-            netIncome: worstProvince.netIncome
-          },
-          potentialSavings: Math.round(savings),
-          recommendations: ['Consider provincial tax differences when relocating']
-        }
-      }
+      message: 'Session signed out'
     });
   } catch (error) {
-    console.error('Province comparison error:', error);
+    console.error('Revoke session error:', error);
     res.status(500).json({
       success: false,
-      message: 'Province comparison failed. Please try again.'
+      message: 'Failed to sign out session'
     });
   }
 });
 
-// AI Chat route
-app.post('/api/ai/chat', authenticateToken, [
-  body('message').trim().isLength({ min: 1, max: 1000 }),
-  body('context').optional().isObject()
+// Re-authenticates this session for sensitive operations (see requireStepUp)
+app.post('/api/auth/step-up', authenticateToken, stepUpLimiter, [
+  body('password').isString().isLength({ min: 1 }),
+  body('code').optional().isString().isLength({ max: 20 })
 ], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
       success: false,
-      message: 'Invalid input',
+      message: 'Validation errors',
       errors: errors.array()
     });
   }
 
   try {
-    const { message, context = {} } = req.body;
-    const userId = req.userId;
+    const user = await findUserData({ id: req.userId });
 
-    console.log(`🤖 AI Chat Request from user ${userId}: "${message.substring(0, 50)}..."`);
+    if (!user || !(await bcrypt.compare(req.body.password, user.password))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Incorrect password'
+      });
+    }
 
-    // Get user data for context
-    const user = await findUserData({ id: userId });
+    if (isTwoFactorEnabled(user)) {
+      const twoFactor = req.body.code ? verifySecondFactor(user, req.body.code) : null;
+      if (!twoFactor) {
+        return res.status(401).json({
+          success: false,
+          twoFactorRequired: true,
+          message: req.body.code ? 'Invalid authentication code' : 'Enter the code from your authenticator app or a backup code'
+        });
+      }
+      await store.users.update(user.id, { twoFactor });
+    }
+
+    const stepUpAt = new Date();
+    await store.sessions.update(req.sessionId, { stepUpAt });
+
+    res.json({
+      success: true,
+      message: 'Identity confirmed',
+      data: { expiresAt: new Date(stepUpAt.getTime() + STEP_UP_WINDOW_MS) }
+    });
+  } catch (error) {
+    console.error('Step-up authentication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to confirm identity'
+    });
+  }
+});
+
+// Two-factor authentication
+app.get('/api/auth/2fa', authenticateToken, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const enabled = isTwoFactorEnabled(user);
+
+    res.json({
+      success: true,
+      data: {
+        enabled,
+        enabledAt: enabled ? user.twoFactor.enabledAt : null,
+        backupCodesRemaining: enabled ? user.twoFactor.backupCodeHashes.length : 0
+      }
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve two-factor status'
+    });
+  }
+});
+
+// Starts enrolment with a new secret; it only takes effect once a code from it is confirmed
+app.post('/api/auth/2fa/setup', authenticateToken, requireStepUp, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (isTwoFactorEnabled(user)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await store.users.update(user.id, { twoFactor: { enabled: false, pendingSecret: secret } });
+    await recordAudit(req, 'twoFactor.setup', { type: 'user', id: user.id });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri({ secret, accountName: user.email, issuer: 'Tax Prep AI' })
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start two-factor setup'
+    });
+  }
+});
+
+app.post('/api/auth/2fa/enable', authenticateToken, [
+  body('code').isString().isLength({ min: 6, max: 10 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const user = await findUserData({ id: req.userId });
+    const pendingSecret = user && user.twoFactor && !user.twoFactor.enabled ? user.twoFactor.pendingSecret : null;
+
+    if (!pendingSecret) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup first'
+      });
+    }
+
+    const step = verifyTotp(pendingSecret, req.body.code);
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const backupCodes = issueBackupCodes();
+    await store.users.update(user.id, {
+      twoFactor: {
+        enabled: true,
+        secret: pendingSecret,
+        lastUsedStep: step,
+        backupCodeHashes: backupCodes.hashes,
+        enabledAt: new Date()
+      }
+    });
+    await recordAudit(req, 'twoFactor.enable', { type: 'user', id: user.id });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { backupCodes: backupCodes.codes }
+    });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to enable two-factor authentication'
+    });
+  }
+});
+
+// Replaces every backup code; the old ones stop working
+app.post('/api/auth/2fa/backup-codes', authenticateToken, requireStepUp, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
+
+    if (!user || !isTwoFactorEnabled(user)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    const backupCodes = issueBackupCodes();
+    await store.users.update(user.id, {
+      twoFactor: { ...user.twoFactor, backupCodeHashes: backupCodes.hashes }
+    });
+    await recordAudit(req, 'twoFactor.backupCodes', { type: 'user', id: user.id });
+
+    res.json({
+      success: true,
+      message: 'New backup codes generated',
+      data: { backupCodes: backupCodes.codes }
+    });
+  } catch (error) {
+    console.error('Backup codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate backup codes'
+    });
+  }
+});
+
+app.delete('/api/auth/2fa', authenticateToken, requireStepUp, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
+
+    if (!user || !isTwoFactorEnabled(user)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    await store.users.update(user.id, { twoFactor: null });
+    await recordAudit(req, 'twoFactor.disable', { type: 'user', id: user.id });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disable two-factor authentication'
+    });
+  }
+});
+
+// Password reset. The response is the same whether or not the email has an account.
+app.post('/api/auth/password-reset/request', passwordResetLimiter, [
+  body('email').isEmail().normalizeEmail()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const user = await findUserData({ email: req.body.email });
+
+    if (user) {
+      const token = await issueAccountToken(user.id, 'passwordReset');
+      await mailer.send({
+        to: user.email,
+        ...passwordResetMessage({
+          name: user.name,
+          link: getAppLink({ resetToken: token }),
+          expiresInMinutes: PASSWORD_RESET_TTL_MINUTES
+        })
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way'
+    });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send password reset email'
+    });
+  }
+});
+
+// Choosing a new password signs out every session; two-factor authentication stays on
+app.post('/api/auth/password-reset/confirm', passwordResetLimiter, [
+  body('token').isString().isLength({ min: 1, max: 200 }),
+  body('password').isLength({ min: 8, max: 128 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const record = await redeemAccountToken(req.body.token, 'passwordReset');
+    const user = record ? await findUserData({ id: record.userId }) : null;
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This reset link is invalid or has expired'
+      });
+    }
+
+    await store.users.update(user.id, {
+      password: await bcrypt.hash(req.body.password, BCRYPT_ROUNDS),
+      updatedAt: new Date()
+    });
+    await revokeUserSessions(user.id, 'Password reset');
+    await recordAudit(req, 'password.reset', { type: 'user', id: user.id }, { subjectId: user.id, actor: toAuditActor(user) });
+    await mailer.send({ to: user.email, ...passwordChangedMessage({ name: user.name }) });
+
+    res.json({
+      success: true,
+      message: 'Password reset. Please sign in with your new password.'
+    });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset password'
+    });
+  }
+});
+
+// Confirms the address a verification email was sent to: the account email, or a pending new one
+app.post('/api/auth/verify-email', [
+  body('token').isString().isLength({ min: 1, max: 200 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const record = await redeemAccountToken(req.body.token, 'emailVerification');
+    const user = record ? await findUserData({ id: record.userId }) : null;
+
+    if (!user || (record.email !== user.email && record.email !== user.pendingEmail)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    if (record.email !== user.email) {
+      const existingUser = await findUserData({ email: record.email });
+      if (existingUser) {
+        return res.status(400).json({
+          success: false,
+          message: 'Email already in use'
+        });
+      }
+    }
+
+    const updatedUser = await store.users.update(user.id, {
+      email: record.email,
+      emailVerified: true,
+      pendingEmail: null,
+      updatedAt: new Date()
+    });
+    await recordAudit(req, 'email.verify', { type: 'user', id: user.id }, {
+      subjectId: user.id,
+      actor: toAuditActor(user),
+      before: toAuditProfile(user),
+      after: toAuditProfile(updatedUser)
+    });
+
+    res.json({
+      success: true,
+      message: record.email === user.email ? 'Email address confirmed' : `Your email address is now ${record.email}`,
+      data: toPublicUser(updatedUser)
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify email address'
+    });
+  }
+});
+
+app.post('/api/auth/verify-email/resend', authenticateToken, verificationEmailLimiter, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
+    const email = user && (user.pendingEmail || (!user.emailVerified ? user.email : null));
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your email address is already confirmed'
+      });
+    }
+
+    await sendEmailVerification(user, email);
+
+    res.json({
+      success: true,
+      message: `Verification email sent to ${email}`
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send verification email'
+    });
+  }
+});
+
+// Preparer applications go by email to the reviewer at PREPARER_REVIEWER_EMAIL with a single-use approval
+// link; without a reviewer, applications are closed
+app.post('/api/auth/preparer-application', authenticateToken, preparerApplicationLimiter, [
+  body('details').trim().isLength({ min: 1, max: 2000 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  const reviewerEmail = process.env.PREPARER_REVIEWER_EMAIL;
+  if (!reviewerEmail) {
+    return res.status(503).json({
+      success: false,
+      message: 'Preparer applications are not open'
+    });
+  }
+
+  try {
+    const user = await findUserData({ id: req.userId });
+    if (getUserRole(user) === 'preparer') {
+      return res.status(400).json({
+        success: false,
+        message: 'Your account is already a preparer account'
+      });
+    }
+    if (!user.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Confirm your email address before applying to be a preparer'
+      });
+    }
+
+    const { details } = req.body;
+    const updatedUser = await store.users.update(user.id, {
+      preparerApplication: { status: 'pending', details, appliedAt: new Date() },
+      updatedAt: new Date()
+    });
+    const token = await issueAccountToken(user.id, 'preparerApproval', { email: user.email });
+    await mailer.send({
+      to: reviewerEmail,
+      ...preparerApplicationMessage({
+        name: user.name,
+        email: user.email,
+        details,
+        link: getAppLink({ approvePreparerToken: token }),
+        expiresInDays: PREPARER_APPROVAL_TTL_DAYS
+      })
+    });
+    await recordAudit(req, 'preparer.apply', { type: 'user', id: user.id });
+
+    res.json({
+      success: true,
+      message: 'Your application was sent for review',
+      data: toPublicUser(updatedUser)
+    });
+  } catch (error) {
+    console.error('Preparer application error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send preparer application'
+    });
+  }
+});
+
+// The reviewer's approval link. The account's access tokens carry its role, so it acts as a preparer from
+// its next token refresh.
+app.post('/api/auth/preparer-application/approve', [
+  body('token').isString().isLength({ min: 1, max: 200 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const record = await redeemAccountToken(req.body.token, 'preparerApproval');
+    const user = record ? await findUserData({ id: record.userId }) : null;
+    const application = user && user.preparerApplication;
+
+    if (!application || application.status !== 'pending' || record.email !== user.email) {
+      return res.status(400).json({
+        success: false,
+        message: 'This approval link is invalid or has expired'
+      });
+    }
+
+    await store.users.update(user.id, {
+      role: 'preparer',
+      preparerApplication: { ...application, status: 'approved', approvedAt: new Date() },
+      updatedAt: new Date()
+    });
+    await recordAudit(req, 'preparer.approve', { type: 'user', id: user.id }, {
+      subjectId: user.id,
+      actor: { id: null, role: 'reviewer' },
+      before: { role: getUserRole(user) },
+      after: { role: 'preparer' }
+    });
+    await mailer.send({ to: user.email, ...preparerApprovedMessage({ name: user.name }) });
+
+    res.json({
+      success: true,
+      message: `${user.name} can now prepare returns`
+    });
+  } catch (error) {
+    console.error('Approve preparer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to approve preparer application'
+    });
+  }
+});
+
+// Province routes
+app.get('/api/provinces', (req, res) => {
+  const taxYear = isSupportedTaxYear(req.query.taxYear) ? String(req.query.taxYear) : DEFAULT_TAX_YEAR;
+  const provinces = PROVINCE_CODES.map(code => ({
+    code,
+    name: getProvinceInfo(code, taxYear).name,
+    basicPersonal: getProvinceInfo(code, taxYear).basicPersonal,
+    salesTax: getSalesTaxInfo(code)
+  }));
+
+  res.json({
+    success: true,
+    data: provinces
+  });
+});
+
+// Optional non-refundable credit inputs shared by calculation and tax form routes
+// T776 properties, validated under `field` (rentals on tax calculations, properties on rental schedules)
+const rentalPropertyValidators = (field) => [
+  body(field).optional().isArray({ max: 20 }),
+  body(`${field}.*.address`).optional().trim().isLength({ max: 200 }),
+  body(`${field}.*.ownershipPercent`).optional({ checkFalsy: true }).isFloat({ min: 0, max: 100 }),
+  body(`${field}.*.grossRents`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.otherIncome`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.personalUsePercent`).optional({ checkFalsy: true }).isFloat({ min: 0, max: 100 }),
+  body(`${field}.*.expenses`).optional().isObject(),
+  body(`${field}.*.expenses.*`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.assets`).optional().isArray({ max: 20 }),
+  body(`${field}.*.assets.*.ccaClass`).isIn(RENTAL_CCA_CLASSES),
+  body(`${field}.*.assets.*.description`).optional().trim().isLength({ max: 100 }),
+  body(`${field}.*.assets.*.openingUcc`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.assets.*.additions`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.assets.*.dispositions`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.assets.*.ccaClaim`).optional({ checkFalsy: true }).isFloat({ min: 0 })
+];
+
+// ACB ledger transactions, validated under `field`; the ledger must also run (no selling more than is held)
+const investmentTransactionValidators = (field) => [
+  body(field).optional().isArray({ max: 2000 }),
+  body(`${field}.*.security`).trim().notEmpty().isLength({ max: 50 }),
+  body(`${field}.*.date`).isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+  body(`${field}.*.type`).isIn(TRANSACTION_TYPES),
+  body(`${field}.*.quantity`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.amount`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.commission`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${field}.*.ratio`).optional({ checkFalsy: true }).isFloat({ gt: 0 }),
+  body(field).optional().custom(transactions => {
+    calculateInvestmentLedger(transactions);
+    return true;
+  })
+];
+
+// RRSP/TFSA/FHSA room settings and contributions, validated under `prefix` ('' for a ledger sent on its own)
+const registeredAccountValidators = (prefix) => [
+  body(`${prefix}rrsp.noaYear`).optional({ checkFalsy: true }).isIn(SUPPORTED_TAX_YEARS),
+  body(`${prefix}rrsp.deductionLimit`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${prefix}rrsp.unusedContributions`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${prefix}rrsp.incomeHistory`).optional().isArray({ max: 20 }),
+  body(`${prefix}rrsp.incomeHistory.*.taxYear`).isIn(SUPPORTED_TAX_YEARS),
+  body(`${prefix}rrsp.incomeHistory.*.earnedIncome`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${prefix}rrsp.incomeHistory.*.pensionAdjustment`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${prefix}tfsa.roomYear`).optional({ checkFalsy: true }).isInt({ min: 2009, max: 2100 }),
+  body(`${prefix}tfsa.room`).optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body(`${prefix}tfsa.eligibleSince`).optional({ checkFalsy: true }).isInt({ min: 1900, max: 2100 }),
+  body(`${prefix}fhsa.openedYear`).optional({ checkFalsy: true }).isInt({ min: 2023, max: 2100 }),
+  body(`${prefix}transactions`).optional().isArray({ max: 2000 }),
+  body(`${prefix}transactions.*.account`).isIn(ACCOUNT_TYPES),
+  body(`${prefix}transactions.*.type`).isIn(REGISTERED_TRANSACTION_TYPES),
+  body(`${prefix}transactions.*.date`).isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+  body(`${prefix}transactions.*.amount`).optional({ checkFalsy: true }).isFloat({ min: 0 })
+];
+
+const creditValidators = [
+  body('credits').optional().isObject(),
+  body('credits.age').optional({ checkFalsy: true }).isInt({ min: 0, max: 130 }),
+  body('credits.tuition').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('credits.medicalExpenses').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('credits.donations').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('credits.disability').optional().isBoolean(),
+  body('credits.pensionIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('spouseNetIncome').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0 }),
+  body('dependants').optional().isArray({ max: 10 }),
+  body('dependants.*.age').optional({ checkFalsy: true }).isInt({ min: 0, max: 130 }),
+  body('dependants.*.netIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('dependants.*.relationship').isIn(DEPENDANT_RELATIONSHIPS),
+  body('dependants.*.infirm').optional().isBoolean(),
+  body('slips').optional().isArray({ max: 50 }),
+  body('slips.*.type').isIn(SLIP_TYPES),
+  body('slips.*.issuer').optional().trim().isLength({ max: 100 }),
+  body('slips.*.boxes').isObject(),
+  body('slips.*.boxes.*').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses').optional().isArray({ max: 10 }),
+  body('businesses.*.name').optional().trim().isLength({ max: 100 }),
+  body('businesses.*.grossIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.expenses').optional().isObject(),
+  body('businesses.*.expenses.*').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.vehicle.businessKm').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.vehicle.totalKm').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.vehicle.expenses.*').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.homeOffice.businessUsePercent').optional({ checkFalsy: true }).isFloat({ min: 0, max: 100 }),
+  body('businesses.*.homeOffice.priorYearCarryforward').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.homeOffice.expenses.*').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.assets').optional().isArray({ max: 50 }),
+  body('businesses.*.assets.*.ccaClass').isIn(CCA_CLASSES),
+  body('businesses.*.assets.*.description').optional().trim().isLength({ max: 100 }),
+  body('businesses.*.assets.*.openingUcc').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.assets.*.additions').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.assets.*.dispositions').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('businesses.*.assets.*.businessUsePercent').optional({ checkFalsy: true }).isFloat({ min: 0, max: 100 }),
+  ...rentalPropertyValidators('rentals'),
+  body('investments').optional().isObject(),
+  body('investments.priorNetCapitalLosses').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  ...investmentTransactionValidators('investments.transactions'),
+  body('registeredAccounts').optional().isObject(),
+  ...registeredAccountValidators('registeredAccounts.')
+];
+
+// Spouse, dependant and information slip details sit beside the credit inputs on calculation
+// requests and tax forms
+const getCreditInputs = (source) => ({
+  ...(source.credits || {}),
+  spouseNetIncome: source.spouseNetIncome,
+  dependants: source.dependants,
+  slips: source.slips,
+  businesses: source.businesses,
+  rentals: source.rentals,
+  investments: source.investments,
+  registeredAccounts: source.registeredAccounts
+});
+
+// Saved T776 schedules: one per user and tax year, stored alongside tax forms
+const findRentalSchedule = (userId, taxYear) => {
+  return store.rentalSchedules.findOne({ userId, taxYear: String(taxYear) });
+};
+
+const withRentalCalculation = (schedule) => ({
+  ...schedule,
+  calculation: summarizeRentalSchedule(calculateRentalSchedule(schedule.properties, getTaxYearRules(schedule.taxYear)))
+});
+
+// Saved ACB ledgers: one per user, spanning tax years
+const findInvestmentLedger = (userId) => store.investmentLedgers.findOne({ userId });
+
+const saveInvestmentLedger = async (userId, transactions, priorNetCapitalLosses) => {
+  const existing = await findInvestmentLedger(userId);
+  const ledger = {
+    id: existing ? existing.id : generateId(),
+    userId,
+    transactions: transactions.map(transaction => ({ ...transaction, id: transaction.id || generateId() })),
+    priorNetCapitalLosses,
+    createdAt: existing ? existing.createdAt : new Date(),
+    updatedAt: new Date()
+  };
+
+  return store.investmentLedgers.save(ledger);
+};
+
+const withLedgerCalculation = (ledger) => {
+  const calculation = calculateInvestmentLedger(ledger.transactions);
+  return {
+    ...ledger,
+    calculation: summarizeInvestmentLedger(calculation),
+    capitalLosses: summarizeCapitalLossHistory(
+      calculateCapitalLossHistory(calculation.dispositions, ledger.priorNetCapitalLosses)
+    )
+  };
+};
+
+// Saved RRSP/TFSA/FHSA ledgers: one per user, spanning tax years
+const EMPTY_REGISTERED_ACCOUNTS = {
+  rrsp: { noaYear: '', deductionLimit: '', unusedContributions: '', incomeHistory: [] },
+  tfsa: { roomYear: '', room: '', eligibleSince: '' },
+  fhsa: { openedYear: '' },
+  transactions: []
+};
+
+const findRegisteredAccounts = (userId) => store.registeredAccountLedgers.findOne({ userId });
+
+const saveRegisteredAccounts = async (userId, { rrsp, tfsa, fhsa, transactions }) => {
+  const existing = await findRegisteredAccounts(userId);
+  const ledger = {
+    id: existing ? existing.id : generateId(),
+    userId,
+    rrsp: { ...EMPTY_REGISTERED_ACCOUNTS.rrsp, ...(rrsp || {}) },
+    tfsa: { ...EMPTY_REGISTERED_ACCOUNTS.tfsa, ...(tfsa || {}) },
+    fhsa: { ...EMPTY_REGISTERED_ACCOUNTS.fhsa, ...(fhsa || {}) },
+    transactions: (transactions || []).map(transaction => ({ ...transaction, id: transaction.id || generateId() })),
+    createdAt: existing ? existing.createdAt : new Date(),
+    updatedAt: new Date()
+  };
+
+  return store.registeredAccountLedgers.save(ledger);
+};
+
+// Room for `taxYear`; without earned income for the year, next year's RRSP limit only reflects the
+// income history entered in the ledger
+const withRegisteredAccountsCalculation = (ledger, taxYear, current = {}) => ({
+  ...ledger,
+  calculation: summarizeRegisteredAccounts(calculateRegisteredAccounts(ledger, taxYear, current))
+});
+
+// Tax calculation routes
+app.post('/api/tax/calculate-by-province', authenticateToken, [
+  body('income').isNumeric(),
+  body('deductions').isNumeric(),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { income, deductions, province, maritalStatus, taxYear = DEFAULT_TAX_YEAR, credits = {} } = req.body;
+
+    const calculation = calculateCanadianTax(
+      parseFloat(income),
+      parseFloat(deductions),
+      maritalStatus,
+      province.toUpperCase(),
+      String(taxYear),
+      getCreditInputs(req.body)
+    );
+
+    const enhancedCalculation = {
+      ...calculation,
+      // Last year's net tax owing when working out next year's installments
+      netTaxOwing: getNetTaxOwing(calculation, province.toUpperCase()),
+      inputData: {
+        income: parseFloat(income),
+        deductions: parseFloat(deductions),
+        province: province.toUpperCase(),
+        maritalStatus,
+        taxYear: String(taxYear),
+        credits,
+        spouseNetIncome: req.body.spouseNetIncome,
+        dependants: req.body.dependants || [],
+        slips: req.body.slips || [],
+        businesses: req.body.businesses || [],
+        rentals: req.body.rentals || [],
+        investments: req.body.investments || { transactions: [], priorNetCapitalLosses: '' },
+        registeredAccounts: req.body.registeredAccounts || EMPTY_REGISTERED_ACCOUNTS
+      }
+    };
+
+    res.json({
+      success: true,
+      data: enhancedCalculation
+    });
+  } catch (error) {
+    console.error('Tax calculation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Tax calculation failed. Please try again.'
+    });
+  }
+});
+
+app.post('/api/tax/compare-provinces', authenticateToken, [
+  body('income').isNumeric(),
+  body('deductions').isNumeric(),
+  body('provinces').isArray({ min: 2, max: 5 }),
+  body('provinces.*').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').optional().isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { income, deductions, provinces, maritalStatus = 'single', taxYear = DEFAULT_TAX_YEAR } = req.body;
+
+    const comparisons = provinces.map(province => {
+      const calculation = calculateCanadianTax(
+        parseFloat(income),
+        parseFloat(deductions),
+        maritalStatus,
+        province,
+        String(taxYear),
+        getCreditInputs(req.body)
+      );
+
+      return {
+        province: province,
+        provinceName: calculation.provinceName,
+        totalTax: calculation.tax,
+        federalTax: calculation.federalTax,
+        federalAbatement: calculation.federalAbatement,
+        provincialTax: calculation.provincialTax,
+        pensionPlan: calculation.pensionPlan,
+        qpipPremium: calculation.qpipPremium,
+        netIncome: calculation.totalIncome - calculation.tax,
+        marginalRate: calculation.marginalRate,
+        provincialMarginalRate: Math.round(calculation.provincialBreakdown.marginalBracketRate * 10000) / 100,
+        basicPersonal: getProvinceInfo(province, String(taxYear)).basicPersonal,
+        surtax: calculation.provincialBreakdown.surtax,
+        healthPremium: calculation.provincialBreakdown.healthPremium,
+        provincialBreakdown: calculation.provincialBreakdown,
+        salesTax: getSalesTaxInfo(province)
+      };
+    });
+
+    const sortedByTax = [...comparisons].sort((a, b) => a.totalTax - b.totalTax);
+    const bestProvince = sortedByTax[0];
+    const worstProvince = sortedByTax[sortedByTax.length - 1];
+    const savings = worstProvince.totalTax - bestProvince.totalTax;
+
+    res.json({
+      success: true,
+      data: {
+        comparisons,
+        summary: {
+          income: parseFloat(income),
+          bestProvince: {
+            province: bestProvince.province,
+            name: bestProvince.provinceName,
+            totalTax: bestProvince.totalTax,
+            netIncome: bestProvince.netIncome
+          },
+          worstProvince: {
+            province: worstProvince.province,
+            name: worstProvince.provinceName,
+            totalTax: worstProvince.totalTax,
+            netIncome: worstProvince.netIncome
+          },
+          potentialSavings: Math.round(savings),
+          recommendations: ['Consider provincial tax differences when relocating']
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Province comparison error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Province comparison failed. Please try again.'
+    });
+  }
+});
+
+// Couple return: pension income splitting (T1032), Schedule 2 credit transfers and pooled claims
+app.post('/api/tax/household', authenticateToken, [
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(PARTNERED_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('spouses').isArray({ min: 2, max: 2 }),
+  body('spouses.*.name').optional().trim().isLength({ max: 50 }),
+  body('spouses.*.income').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('spouses.*.deductions').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('spouses.*.pensionIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('spouses.*.age').optional({ checkFalsy: true }).isInt({ min: 0, max: 130 }),
+  body('spouses.*.tuition').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('spouses.*.disability').optional().isBoolean(),
+  body('medicalExpenses').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('donations').optional({ checkFalsy: true }).isFloat({ min: 0 })
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { province, taxYear = DEFAULT_TAX_YEAR } = req.body;
+    const household = calculateHouseholdTax(req.body, province.toUpperCase(), String(taxYear));
+
+    res.json({
+      success: true,
+      data: household
+    });
+  } catch (error) {
+    console.error('Household calculation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Household calculation failed. Please try again.'
+    });
+  }
+});
+
+// RRSP optimizer: the full return recalculated at contributions from zero to the available room
+app.post('/api/tax/rrsp-optimizer', authenticateToken, [
+  body('income').isNumeric(),
+  body('deductions').optional().isNumeric(),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('rrspRoom').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('steps').optional({ checkFalsy: true }).isInt({ min: 1, max: 100 }),
+  body('futureIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('deferralYears').optional({ checkFalsy: true }).isInt({ min: 1, max: 40 }),
+  body('discountRate').optional({ checkFalsy: true }).isFloat({ min: 0, max: 0.2 }),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { income, deductions = 0, province, maritalStatus, taxYear = DEFAULT_TAX_YEAR } = req.body;
+
+    const optimization = optimizeRRSPContribution({
+      income: parseFloat(income),
+      deductions: parseFloat(deductions) || 0,
+      maritalStatus,
+      province: province.toUpperCase(),
+      taxYear: String(taxYear),
+      creditInputs: getCreditInputs(req.body)
+    }, {
+      room: req.body.rrspRoom,
+      steps: req.body.steps,
+      futureIncome: req.body.futureIncome,
+      deferralYears: req.body.deferralYears,
+      discountRate: req.body.discountRate
+    });
+
+    res.json({
+      success: true,
+      data: optimization
+    });
+  } catch (error) {
+    console.error('RRSP optimizer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'RRSP optimization failed. Please try again.'
+    });
+  }
+});
+
+// Multi-year projection: year-by-year tax and after-tax income through retirement and RRIF drawdown
+app.post('/api/tax/projection', authenticateToken, [
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('currentAge').isInt({ min: 18, max: 100 }),
+  body('retirementAge').optional({ checkFalsy: true }).isInt({ min: 18, max: 100 }),
+  body('endAge').optional({ checkFalsy: true }).isInt({ min: 18, max: 110 }),
+  body('employmentIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('incomeGrowth').optional({ checkFalsy: true }).isFloat({ min: -0.1, max: 0.2 }),
+  body('inflation').optional({ checkFalsy: true }).isFloat({ min: 0, max: 0.1 }),
+  body('expectedReturn').optional({ checkFalsy: true }).isFloat({ min: -0.1, max: 0.2 }),
+  body('rrspBalance').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('tfsaBalance').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('rrspContribution').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('tfsaContribution').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('retirementSpending').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('cppAt65').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('oasAt65').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('cppStartAge').optional({ checkFalsy: true }).isInt({ min: 60, max: 70 }),
+  body('oasStartAge').optional({ checkFalsy: true }).isInt({ min: 65, max: 70 }),
+  body('drawdownOrder').optional().isIn(DRAWDOWN_ORDERS)
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const projection = projectRetirement({
+      ...req.body,
+      province: req.body.province.toUpperCase(),
+      taxYear: req.body.taxYear || DEFAULT_TAX_YEAR
+    });
+
+    res.json({
+      success: true,
+      data: projection
+    });
+  } catch (error) {
+    console.error('Projection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Projection failed. Please try again.'
+    });
+  }
+});
+
+// Payment and as-of dates for interest calculations: calendar dates inside the window interest is accrued for
+const interestDate = (field) => body(field)
+  .isISO8601({ strict: true })
+  .isLength({ min: 10, max: 10 })
+  .custom(isWithinInterestWindow)
+  .withMessage(`Dates must be between ${EARLIEST_INTEREST_DATE} and ${getLatestInterestDate()}`);
+
+// Quarterly installments: whether they're required, the three CRA reminder options and interest on missed payments
+app.post('/api/tax/installments', authenticateToken, [
+  // Interest on the year's installments runs from its first due date to the following spring's balance-due date
+  body('installmentYear').isInt()
+    .custom(year => isWithinInterestWindow(`${Number(year)}-01-01`) && isWithinInterestWindow(`${Number(year) + 1}-12-31`))
+    .withMessage(`Installment years must fall between ${EARLIEST_INTEREST_DATE} and ${getLatestInterestDate()}`),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('currentYear').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('previousYear').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('twoYearsAgo').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('payments').optional().isArray(),
+  interestDate('payments.*.date'),
+  body('payments.*.amount').isFloat({ min: 0 }),
+  interestDate('asOf').optional()
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const installments = calculateInstallments({
+      ...req.body,
+      province: req.body.province.toUpperCase()
+    });
+
+    res.json({
+      success: true,
+      data: installments
+    });
+  } catch (error) {
+    console.error('Installments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Installment calculation failed. Please try again.'
+    });
+  }
+});
+
+// Late-filing penalty and arrears interest on a balance owing, given the filing date and payments made
+app.post('/api/tax/late-filing', authenticateToken, [
+  body('taxYear').isIn(SUPPORTED_TAX_YEARS),
+  body('balanceOwing').isFloat({ min: 0 }),
+  body('selfEmployed').optional().isBoolean(),
+  interestDate('filingDate').optional({ checkFalsy: true }),
+  body('repeatOffender').optional().isBoolean(),
+  body('payments').optional().isArray(),
+  interestDate('payments.*.date'),
+  body('payments.*.amount').isFloat({ min: 0 }),
+  interestDate('asOf').optional()
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const arrears = calculateArrears(req.body);
+
+    res.json({
+      success: true,
+      data: arrears
+    });
+  } catch (error) {
+    console.error('Late filing error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Penalty calculation failed. Please try again.'
+    });
+  }
+});
+
+// Benefits and refundable credits for the July-June benefit year based on this return and household
+app.post('/api/tax/benefits', authenticateToken, [
+  body('income').isNumeric(),
+  body('deductions').isNumeric(),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('benefits').optional().isObject(),
+  body('benefits.rentPaid').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.propertyTaxPaid').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.spouseWorkingIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.rural').optional().isBoolean(),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { income, deductions, maritalStatus, taxYear = DEFAULT_TAX_YEAR } = req.body;
+    const province = req.body.province.toUpperCase();
+    const creditInputs = getCreditInputs(req.body);
+
+    const calculation = calculateCanadianTax(
+      parseFloat(income),
+      parseFloat(deductions),
+      maritalStatus,
+      province,
+      String(taxYear),
+      creditInputs
+    );
+
+    res.json({
+      success: true,
+      data: calculateBenefits(calculation, province, maritalStatus, creditInputs, req.body.benefits)
+    });
+  } catch (error) {
+    console.error('Benefits error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Benefit estimate failed. Please try again.'
+    });
+  }
+});
+
+// Marginal effective tax rate curve: tax, CPP/EI and benefit clawbacks on the next dollar earned
+app.post('/api/tax/metr', authenticateToken, [
+  body('income').isNumeric(),
+  body('deductions').isNumeric(),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('minIncome').optional({ checkFalsy: true }).isFloat({ min: 0, max: 10000000 }),
+  body('maxIncome').optional({ checkFalsy: true }).isFloat({ min: 1, max: 10000000 })
+    .custom((value, { req }) => parseFloat(value) > (parseFloat(req.body.minIncome) || 0)),
+  body('steps').optional({ checkFalsy: true }).isInt({ min: 2, max: 200 }),
+  body('raise').optional({ checkFalsy: true }).isFloat({ min: 0, max: 10000000 }),
+  body('benefits').optional().isObject(),
+  body('benefits.rentPaid').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.propertyTaxPaid').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.spouseWorkingIncome').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('benefits.rural').optional().isBoolean(),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { income, deductions, maritalStatus, taxYear = DEFAULT_TAX_YEAR, minIncome, maxIncome, steps, raise } = req.body;
+
+    const curve = calculateMETRCurve({
+      income: parseFloat(income),
+      deductions: parseFloat(deductions),
+      maritalStatus,
+      province: req.body.province.toUpperCase(),
+      taxYear: String(taxYear),
+      creditInputs: getCreditInputs(req.body),
+      benefitInputs: req.body.benefits
+    }, { minIncome, maxIncome, steps, raise });
+
+    res.json({
+      success: true,
+      data: curve
+    });
+  } catch (error) {
+    console.error('METR error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Marginal rate calculation failed. Please try again.'
+    });
+  }
+});
+
+// Payroll simulator: per-cheque deductions under the CRA payroll formulas (T4127) and the year's
+// withholding against the return
+app.post('/api/tax/payroll', authenticateToken, [
+  body('grossPay').isFloat({ min: 0, max: 1000000 }),
+  body('payFrequency').isIn(Object.keys(PAY_FREQUENCIES)),
+  body('periodNumber').optional({ checkFalsy: true }).isInt({ min: 1, max: 52 }),
+  body('province').toUpperCase().isIn(PAYROLL_PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('deductions').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('td1').optional().isObject(),
+  body('td1.federal').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('td1.provincial').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('pensionContributions').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('unionDues').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('ytd').optional().isObject(),
+  body('ytd.earnings').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('ytd.cpp').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('ytd.cpp2').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('ytd.ei').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  body('ytd.tax').optional({ checkFalsy: true }).isFloat({ min: 0 }),
+  ...creditValidators
+], (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { grossPay, payFrequency, periodNumber, maritalStatus, taxYear = DEFAULT_TAX_YEAR, deductions } = req.body;
+
+    const simulation = simulatePayroll({
+      grossPay: parseFloat(grossPay),
+      payFrequency,
+      periodNumber,
+      province: req.body.province.toUpperCase(),
+      taxYear: String(taxYear),
+      td1: req.body.td1,
+      pensionContributions: req.body.pensionContributions,
+      unionDues: req.body.unionDues,
+      ytd: req.body.ytd
+    }, {
+      deductions,
+      maritalStatus,
+      creditInputs: getCreditInputs(req.body)
+    });
+
+    res.json({
+      success: true,
+      data: simulation
+    });
+  } catch (error) {
+    console.error('Payroll simulation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Payroll simulation failed. Please try again.'
+    });
+  }
+});
+
+// AI Chat route
+app.post('/api/ai/chat', authenticateToken, [
+  body('message').trim().isLength({ min: 1, max: 1000 }),
+  body('context').optional().isObject()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid input',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { message, context = {} } = req.body;
+    const userId = req.userId;
+
+    console.log(`🤖 AI Chat Request from user ${userId}: "${message.substring(0, 50)}..."`);
+
+    // Get user data for context
+    const user = await findUserData({ id: userId });
+    const taxYear = isSupportedTaxYear(context.taxFormData?.taxYear) ? String(context.taxFormData.taxYear) : DEFAULT_TAX_YEAR;
+    const registeredAccounts = context.taxFormData?.registeredAccounts || await findRegisteredAccounts(userId);
+
+    // Build comprehensive user context
+    const userContext = {
+      // User profile data
+      userName: user?.name,
+      userEmail: user?.email,
+      province: user?.province || context.selectedProvince || 'ON',
+
+      // Tax form data
+      income: context.taxFormData?.income ? parseFloat(context.taxFormData.income) : null,
+      deductions: context.taxFormData?.deductions ? parseFloat(context.taxFormData.deductions) : null,
+      maritalStatus: context.taxFormData?.maritalStatus || null,
+      taxYear,
+
+      // RRSP/TFSA/FHSA room and over-contribution penalties from the form, or the saved ledger
+      registeredAccounts: registeredAccounts
+        ? summarizeRegisteredAccounts(calculateRegisteredAccounts(registeredAccounts, taxYear, {
+          earnedIncome: Math.max(0, parseFloat(context.taxFormData?.income) || 0)
+        }))
+        : null,
+
+      // App context
+      activeTab: context.activeTab || 'Dashboard',
+      hasDocuments: (context.documentsCount || 0) > 0,
+      documentCount: context.documentsCount || 0,
+      uploadedFileTypes: context.uploadedFileTypes || [],
+
+      // Chat history context
+      chatHistory: context.chatHistory || [],
+
+      // Additional context
+      timestamp: new Date().toISOString(),
+      userAgent: req.get('User-Agent'),
+      ...context
+    };
+
+    console.log(`📊 Context for user ${userId}:`, {
+      province: userContext.province,
+      income: userContext.income ? `$${userContext.income.toLocaleString()}` : 'Not provided',
+      hasDocuments: userContext.hasDocuments,
+      activeTab: userContext.activeTab
+    });
+
+    // Generate AI response using enhanced system
+    const startTime = Date.now();
+    const aiResponse = await enhancedCanadianTaxAI.generateResponse(message, userId, userContext);
+    const responseTime = Date.now() - startTime;
+
+    console.log(`✅ AI Response generated in ${responseTime}ms with confidence: ${aiResponse.confidence}%`);
+
+    // Format response for frontend
+    const formattedResponse = {
+      message: aiResponse.message,
+      confidence: aiResponse.confidence,
+      sources: aiResponse.sources || ['Canadian Tax AI Assistant'],
+      aiInsight: aiResponse.aiInsight !== false,
+      suggestedActions: aiResponse.suggestedActions || [],
+      responseType: aiResponse.responseType || 'general',
+      timestamp: aiResponse.timestamp,
+      metadata: {
+        userId: userId,
+        responseTime: responseTime,
+        fromCache: aiResponse.fromCache || false,
+        tokensUsed: aiResponse.tokens_used || 0,
+        conversationId: aiResponse.conversationId
+      }
+    };
+
+    const chatEntry = await store.chatHistory.save({
+      id: generateId(),
+      userId,
+      message,
+      response: aiResponse.message,
+      confidence: aiResponse.confidence,
+      responseType: formattedResponse.responseType,
+      timestamp: new Date()
+    });
+    await recordAudit(req, 'chat.message', { type: 'chatHistory', id: chatEntry.id });
+
+    // Log successful interaction
+    console.log(`💬 Successful AI chat interaction:`, {
+      userId,
+      messageLength: message.length,
+      responseType: aiResponse.responseType,
+      confidence: aiResponse.confidence,
+      fromCache: aiResponse.fromCache,
+      responseTime: `${responseTime}ms`
+    });
+
+    res.json({
+      success: true,
+      data: formattedResponse
+    });
+
+  } catch (error) {
+    console.error('❌ AI Chat Error:', error);
+
+    // Enhanced error response
+    const errorResponse = {
+      message: "I apologize, but I'm having trouble processing your request right now. Let me try to help with a general Canadian tax response instead!\n\n🇨🇦 I can assist with:\n• Tax calculations and planning\n• RRSP and TFSA advice\n• Deductions and credits\n• CRA deadlines and requirements\n\nCould you please rephrase your question or ask about a specific Canadian tax topic?",
+      confidence: 60,
+      sources: ['Canadian Tax AI Assistant'],
+      aiInsight: true,
+      suggestedActions: [
+        'Calculate my taxes',
+        'RRSP vs TFSA advice',
+        'Find tax deductions',
+        'Check tax deadlines'
+      ],
+      responseType: 'error_fallback',
+      timestamp: new Date().toISOString(),
+      metadata: {
+        error: error.message,
+        userId: req.userId
+      }
+    };
+
+    res.status(200).json({
+      success: true,
+      data: errorResponse
+    });
+  }
+});
+
+// Additional utility routes for the AI system
+
+// Get conversation history
+app.get('/api/ai/history', authenticateToken, resolveSubject('chat'), async (req, res) => {
+  try {
+    const userId = req.subjectId;
+    const history = (await store.chatHistory.find({ userId }))
+      .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+
+    res.json({
+      success: true,
+      data: {
+        history: history.slice(-20), // Last 20 messages
+        count: history.length
+      }
+    });
+  } catch (error) {
+    console.error('Error getting chat history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve chat history'
+    });
+  }
+});
+
+// Clear conversation history
+app.delete('/api/ai/history', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.userId;
+    const cleared = (await store.chatHistory.removeWhere({ userId })) > 0;
+    await recordAudit(req, 'chat.clear', { type: 'chatHistory', id: null });
+
+    res.json({
+      success: true,
+      data: {
+        cleared: cleared,
+        message: 'Conversation history cleared successfully'
+      }
+    });
+  } catch (error) {
+    console.error('Error clearing chat history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to clear chat history'
+    });
+  }
+});
+
+// Get AI system stats (for monitoring)
+app.get('/api/ai/stats', authenticateToken, (req, res) => {
+  try {
+    const stats = enhancedCanadianTaxAI.getStats();
+
+    res.json({
+      success: true,
+      data: {
+        ...stats,
+        serverUptime: process.uptime(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error getting AI stats:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve AI statistics'
+    });
+  }
+});
+
+// Test AI endpoint (for debugging)
+app.post('/api/ai/test', authenticateToken, [
+  body('message').trim().isLength({ min: 1 })
+], async (req, res) => {
+  try {
+    const { message } = req.body;
+    const userId = req.userId;
+
+    const testContext = {
+      province: 'ON',
+      income: 75000,
+      maritalStatus: 'single',
+      activeTab: 'Test',
+      hasDocuments: false,
+      documentCount: 0
+    };
+
+    const response = await enhancedCanadianTaxAI.generateResponse(message, userId, testContext);
+
+    res.json({
+      success: true,
+      data: {
+        ...response,
+        testMode: true,
+        contextUsed: testContext
+      }
+    });
+  } catch (error) {
+    console.error('AI test error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'AI test failed',
+      error: error.message
+    });
+  }
+});
+
+// Document upload and management routes
+app.post('/api/documents/upload', authenticateToken, resolveSubject('documents'), upload.single('document'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const document = {
+      id: generateId(),
+      userId: req.subjectId,
+      uploadedBy: req.userId,
+      filename: req.file.filename,
+      originalName: req.file.originalname,
+      mimetype: req.file.mimetype,
+      size: req.file.size,
+      uploadDate: new Date(),
+      category: req.body.category || 'other'
+    };
+
+    await store.documents.save(document);
+    await recordAudit(req, 'document.upload', { type: 'document', id: document.id, name: document.originalName }, {
+      after: toAuditDocument(document)
+    });
+
+    res.json({
+      success: true,
+      message: 'Document uploaded successfully',
+      data: document
+    });
+  } catch (error) {
+    console.error('Document upload error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload document'
+    });
+  }
+});
+
+app.get('/api/documents', authenticateToken, resolveSubject('documents'), async (req, res) => {
+  try {
+    const userDocuments = await store.documents.find({ userId: req.subjectId });
+
+    res.json({
+      success: true,
+      data: userDocuments
+    });
+  } catch (error) {
+    console.error('Get documents error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve documents'
+    });
+  }
+});
+
+app.get('/api/documents/:id/download', authenticateToken, resolveSubject('documents'), requireStepUp, async (req, res) => {
+  try {
+    const document = await store.documents.findOne({ id: req.params.id, userId: req.subjectId });
+    const filePath = document ? path.join(uploadsDir, document.filename) : null;
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found'
+      });
+    }
+
+    await recordAudit(req, 'document.download', { type: 'document', id: document.id, name: document.originalName });
+    res.download(filePath, document.originalName);
+  } catch (error) {
+    console.error('Download document error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download document'
+    });
+  }
+});
+
+app.delete('/api/documents/:id', authenticateToken, async (req, res) => {
+  try {
+    const document = await store.documents.findOne({ id: req.params.id, userId: req.userId });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found'
+      });
+    }
+
+    // Delete file from filesystem
+    const filePath = path.join(uploadsDir, document.filename);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+
+    await store.documents.remove(document.id);
+    await recordAudit(req, 'document.delete', { type: 'document', id: document.id, name: document.originalName }, {
+      before: toAuditDocument(document)
+    });
+
+    res.json({
+      success: true,
+      message: 'Document deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete document error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete document'
+    });
+  }
+});
+
+// Tax form routes
+app.post('/api/tax-forms', authenticateToken, resolveSubject('returns'), [
+  body('income').isNumeric(),
+  body('deductions').isNumeric(),
+  body('province').toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').isIn(MARITAL_STATUSES),
+  body('taxYear').isIn(SUPPORTED_TAX_YEARS),
+  ...creditValidators
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const now = new Date();
+    const taxForm = await store.taxForms.save({
+      id: generateId(),
+      userId: req.subjectId,
+      ...toSnapshot(req.body),
+      revision: 1,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await saveTaxFormRevision(req.userId, taxForm, null, 'create');
+    await recordAudit(req, 'taxForm.create', toTaxFormResource(taxForm), { after: toSnapshot(taxForm) });
+
+    res.json({
+      success: true,
+      message: 'Tax form saved successfully',
+      data: taxForm
+    });
+  } catch (error) {
+    console.error('Save tax form error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save tax form'
+    });
+  }
+});
+
+app.get('/api/tax-forms', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const userTaxForms = await findTaxForms({ userId: req.subjectId });
+
+    res.json({
+      success: true,
+      data: userTaxForms
+    });
+  } catch (error) {
+    console.error('Get tax forms error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve tax forms'
+    });
+  }
+});
+
+// Rental schedules (T776) with UCC carried from year to year
+app.get('/api/tax-forms/rentals', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const userSchedules = (await store.rentalSchedules.find({ userId: req.subjectId }))
+      .sort((a, b) => Number(a.taxYear) - Number(b.taxYear))
+      .map(withRentalCalculation);
+
+    res.json({
+      success: true,
+      data: userSchedules
+    });
+  } catch (error) {
+    console.error('Get rental schedules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rental schedules'
+    });
+  }
+});
+
+app.get('/api/tax-forms/rentals/:taxYear', authenticateToken, resolveSubject('returns'), [
+  param('taxYear').isIn(SUPPORTED_TAX_YEARS)
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const schedule = await findRentalSchedule(req.subjectId, req.params.taxYear);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Rental schedule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: withRentalCalculation(schedule)
+    });
+  } catch (error) {
+    console.error('Get rental schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rental schedule'
+    });
+  }
+});
+
+// Starting point for a year: last year's properties and assets with opening UCC set to its closing UCC
+app.get('/api/tax-forms/rentals/:taxYear/carryforward', authenticateToken, resolveSubject('returns'), [
+  param('taxYear').isIn(SUPPORTED_TAX_YEARS)
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const priorYear = String(Number(req.params.taxYear) - 1);
+    const priorSchedule = await findRentalSchedule(req.subjectId, priorYear);
+
+    if (!priorSchedule) {
+      return res.status(404).json({
+        success: false,
+        message: `No rental schedule saved for ${priorYear}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        taxYear: req.params.taxYear,
+        carriedForwardFrom: priorYear,
+        properties: carryForwardRentalProperties(priorSchedule.properties, getTaxYearRules(priorYear))
+      }
+    });
+  } catch (error) {
+    console.error('Rental carryforward error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to carry forward rental schedule'
+    });
+  }
+});
+
+app.put('/api/tax-forms/rentals/:taxYear', authenticateToken, resolveSubject('returns'), [
+  param('taxYear').isIn(SUPPORTED_TAX_YEARS),
+  body('properties').isArray({ max: 20 }),
+  ...rentalPropertyValidators('properties')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const { taxYear } = req.params;
+    const priorYear = String(Number(taxYear) - 1);
+    const priorSchedule = await findRentalSchedule(req.subjectId, priorYear);
+
+    // Blank opening UCC continues from last year's closing UCC
+    const properties = priorSchedule
+      ? applyPriorYearUcc(req.body.properties, priorSchedule.properties, getTaxYearRules(priorYear))
+      : req.body.properties;
+
+    const existing = await findRentalSchedule(req.subjectId, taxYear);
+    const schedule = {
+      id: existing ? existing.id : generateId(),
+      userId: req.subjectId,
+      taxYear,
+      properties,
+      createdAt: existing ? existing.createdAt : new Date(),
+      updatedAt: new Date()
+    };
+
+    await store.rentalSchedules.save(schedule);
+    await recordAudit(req, 'rentalSchedule.update', { type: 'rentalSchedule', id: schedule.id, taxYear }, {
+      before: existing ? toSnapshot(existing) : null,
+      after: toSnapshot(schedule)
+    });
+
+    res.json({
+      success: true,
+      message: 'Rental schedule saved successfully',
+      data: withRentalCalculation(schedule)
+    });
+  } catch (error) {
+    console.error('Save rental schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save rental schedule'
+    });
+  }
+});
+
+app.delete('/api/tax-forms/rentals/:taxYear', authenticateToken, async (req, res) => {
+  try {
+    const schedule = await findRentalSchedule(req.userId, req.params.taxYear);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Rental schedule not found'
+      });
+    }
+
+    await store.rentalSchedules.remove(schedule.id);
+    await recordAudit(req, 'rentalSchedule.delete', { type: 'rentalSchedule', id: schedule.id, taxYear: schedule.taxYear }, {
+      before: toSnapshot(schedule)
+    });
+
+    res.json({
+      success: true,
+      message: 'Rental schedule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete rental schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete rental schedule'
+    });
+  }
+});
+
+// ACB ledger of non-registered investments: realized gains and losses by year and net capital losses
+// carried back and forward. Tax calculations take the ledger as `investments`.
+app.get('/api/investments', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const ledger = (await findInvestmentLedger(req.subjectId)) || { transactions: [], priorNetCapitalLosses: '' };
+
+    res.json({
+      success: true,
+      data: withLedgerCalculation(ledger)
+    });
+  } catch (error) {
+    console.error('Get investment ledger error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve investment ledger'
+    });
+  }
+});
+
+app.put('/api/investments', authenticateToken, resolveSubject('returns'), [
+  body('transactions').isArray({ max: 2000 }),
+  ...investmentTransactionValidators('transactions'),
+  body('priorNetCapitalLosses').optional({ checkFalsy: true }).isFloat({ min: 0 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const existing = await findInvestmentLedger(req.subjectId);
+    const ledger = await saveInvestmentLedger(req.subjectId, req.body.transactions, req.body.priorNetCapitalLosses || '');
+    await recordAudit(req, 'investmentLedger.update', { type: 'investmentLedger', id: ledger.id }, {
+      before: existing ? toSnapshot(existing) : null,
+      after: toSnapshot(ledger)
+    });
+
+    res.json({
+      success: true,
+      message: 'Investment ledger saved successfully',
+      data: withLedgerCalculation(ledger)
+    });
+  } catch (error) {
+    console.error('Save investment ledger error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save investment ledger'
+    });
+  }
+});
+
+// T5008 records become sells in the saved ledger (with a buy at the slip's book value for any shares
+// the ledger does not already hold)
+app.post('/api/investments/import/t5008', authenticateToken, resolveSubject('returns'), [
+  body('slips').isArray({ min: 1, max: 500 }),
+  body('slips.*.security').trim().notEmpty().isLength({ max: 50 }),
+  body('slips.*.settlementDate').isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+  body('slips.*.quantity').isFloat({ gt: 0 }),
+  body('slips.*.proceeds').isFloat({ min: 0 }),
+  body('slips.*.cost').optional({ checkFalsy: true }).isFloat({ min: 0 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const existing = await findInvestmentLedger(req.subjectId);
+    const ledger = await saveInvestmentLedger(
+      req.subjectId,
+      importT5008(existing ? existing.transactions : [], req.body.slips),
+      existing ? existing.priorNetCapitalLosses : ''
+    );
+    await recordAudit(req, 'investmentLedger.importT5008', { type: 'investmentLedger', id: ledger.id }, {
+      before: existing ? toSnapshot(existing) : null,
+      after: toSnapshot(ledger)
+    });
+
+    res.json({
+      success: true,
+      message: `Imported ${req.body.slips.length} T5008 slip(s)`,
+      data: withLedgerCalculation(ledger)
+    });
+  } catch (error) {
+    console.error('T5008 import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import T5008 slips'
+    });
+  }
+});
+
+// RRSP/TFSA/FHSA contribution room from the Notice of Assessment and dated contributions and
+// withdrawals, with over-contribution penalties. Tax calculations take the ledger as `registeredAccounts`.
+app.get('/api/registered-accounts', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const ledger = (await findRegisteredAccounts(req.subjectId)) || EMPTY_REGISTERED_ACCOUNTS;
+    const taxYear = isSupportedTaxYear(req.query.taxYear) ? String(req.query.taxYear) : DEFAULT_TAX_YEAR;
+
+    res.json({
+      success: true,
+      data: withRegisteredAccountsCalculation(ledger, taxYear, {
+        earnedIncome: Math.max(0, parseFloat(req.query.earnedIncome) || 0),
+        pensionAdjustment: Math.max(0, parseFloat(req.query.pensionAdjustment) || 0)
+      })
+    });
+  } catch (error) {
+    console.error('Get registered accounts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve registered accounts'
+    });
+  }
+});
+
+app.put('/api/registered-accounts', authenticateToken, resolveSubject('returns'), [
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  body('rrsp').optional().isObject(),
+  body('tfsa').optional().isObject(),
+  body('fhsa').optional().isObject(),
+  ...registeredAccountValidators('')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const existing = await findRegisteredAccounts(req.subjectId);
+    const ledger = await saveRegisteredAccounts(req.subjectId, req.body);
+    await recordAudit(req, 'registeredAccounts.update', { type: 'registeredAccounts', id: ledger.id }, {
+      before: existing ? toSnapshot(existing) : null,
+      after: toSnapshot(ledger)
+    });
+
+    res.json({
+      success: true,
+      message: 'Registered accounts saved successfully',
+      data: withRegisteredAccountsCalculation(ledger, req.body.taxYear || DEFAULT_TAX_YEAR)
+    });
+  } catch (error) {
+    console.error('Save registered accounts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save registered accounts'
+    });
+  }
+});
+
+app.get('/api/tax-forms/:id', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const taxForm = await findTaxForm({ id: req.params.id, userId: req.subjectId });
+
+    if (!taxForm) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax form not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: taxForm
+    });
+  } catch (error) {
+    console.error('Get tax form error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve tax form'
+    });
+  }
+});
+
+app.put('/api/tax-forms/:id', authenticateToken, resolveSubject('returns'), [
+  body('income').optional().isNumeric(),
+  body('deductions').optional().isNumeric(),
+  body('province').optional().toUpperCase().isIn(PROVINCE_CODES),
+  body('maritalStatus').optional().isIn(MARITAL_STATUSES),
+  body('taxYear').optional().isIn(SUPPORTED_TAX_YEARS),
+  ...creditValidators
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const existing = await findTaxForm({ id: req.params.id, userId: req.subjectId });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax form not found'
+      });
+    }
+
+    // Unchanged saves do not add a revision
+    const previous = toSnapshot(existing);
+    const changes = toSnapshot(req.body);
+    if (diffSnapshots(previous, { ...previous, ...changes }).length === 0) {
+      return res.json({
+        success: true,
+        message: 'No changes to save',
+        data: existing
+      });
+    }
+
+    const taxForm = await store.taxForms.update(existing.id, {
+      ...changes,
+      revision: (existing.revision || 0) + 1,
+      updatedAt: new Date()
+    });
+    await saveTaxFormRevision(req.userId, taxForm, previous, 'update');
+    await recordAudit(req, 'taxForm.update', toTaxFormResource(taxForm), { before: previous, after: toSnapshot(taxForm) });
+
+    res.json({
+      success: true,
+      message: 'Tax form updated successfully',
+      data: taxForm
+    });
+  } catch (error) {
+    console.error('Update tax form error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update tax form'
+    });
+  }
+});
+
+app.delete('/api/tax-forms/:id', authenticateToken, async (req, res) => {
+  try {
+    const taxForm = await findTaxForm({ id: req.params.id, userId: req.userId });
 
-    // Build comprehensive user context
-    const userContext = {
-      // User profile data
-      userName: user?.name,
-      userEmail: user?.email,
-      province: user?.province || context.selectedProvince || 'ON',
+    if (!taxForm) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax form not found'
+      });
+    }
 
-      // Tax form data
-      income: context.taxFormData?.income ? parseFloat(context.taxFormData.income) : null,
-      deductions: context.taxFormData?.deductions ? parseFloat(context.taxFormData.deductions) : null,
-      filingStatus: context.taxFormData?.filingStatus || null,
-      taxYear: context.taxFormData?.taxYear || '2024',
+    await store.taxForms.update(taxForm.id, { deletedAt: new Date() });
+    await recordAudit(req, 'taxForm.delete', toTaxFormResource(taxForm), { before: toSnapshot(taxForm) });
 
-      // App context
-      activeTab: context.activeTab || 'Dashboard',
-      hasDocuments: (context.documentsCount || 0) > 0,
-      documentCount: context.documentsCount || 0,
-      uploadedFileTypes: context.uploadedFileTypes || [],
+    res.json({
+      success: true,
+      message: 'Tax form deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete tax form error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete tax form'
+    });
+  }
+});
 
-      // Chat history context
-      chatHistory: context.chatHistory || [],
+// Revision history of a saved tax form, newest first
+app.get('/api/tax-forms/:id/revisions', authenticateToken, resolveSubject('returns'), async (req, res) => {
+  try {
+    const taxForm = await findTaxForm({ id: req.params.id, userId: req.subjectId });
 
-      // Additional context
-      timestamp: new Date().toISOString(),
-      userAgent: req.get('User-Agent'),
-      ...context
-    };
+    if (!taxForm) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax form not found'
+      });
+    }
 
-    console.log(`📊 Context for user ${userId}:`, {
-      province: userContext.province,
-      income: userContext.income ? `$${userContext.income.toLocaleString()}` : 'Not provided',
-      hasDocuments: userContext.hasDocuments,
-      activeTab: userContext.activeTab
+    const revisions = (await store.taxFormRevisions.find({ taxFormId: taxForm.id, userId: taxForm.userId }))
+      .sort((a, b) => b.revision - a.revision)
+      .map(summarizeRevision);
+
+    res.json({
+      success: true,
+      data: revisions
+    });
+  } catch (error) {
+    console.error('Get tax form revisions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve tax form revisions'
     });
+  }
+});
 
-    // Generate AI response using enhanced system
-    const startTime = Date.now();
-    const aiResponse = await enhancedCanadianTaxAI.generateResponse(message, userId, userContext);
-    const responseTime = Date.now() - startTime;
+// Changes between two revisions (`to` defaults to the current revision)
+app.get('/api/tax-forms/:id/revisions/compare', authenticateToken, resolveSubject('returns'), [
+  query('from').isInt({ min: 1 }),
+  query('to').optional().isInt({ min: 1 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
 
-    console.log(`✅ AI Response generated in ${responseTime}ms with confidence: ${aiResponse.confidence}%`);
+  try {
+    const taxForm = await findTaxForm({ id: req.params.id, userId: req.subjectId });
 
-    // Format response for frontend
-    const formattedResponse = {
-      message: aiResponse.message,
-      confidence: aiResponse.confidence,
-      sources: aiResponse.sources || ['Canadian Tax AI Assistant'],
-      aiInsight: aiResponse.aiInsight !== false,
-      suggestedActions: aiResponse.suggestedActions || [],
-      responseType: aiResponse.responseType || 'general',
-      timestamp: aiResponse.timestamp,
-      metadata: {
-        userId: userId,
-        responseTime: responseTime,
-        fromCache: aiResponse.fromCache || false,
-        tokensUsed: aiResponse.tokens_used || 0,
-        conversationId: aiResponse.conversationId
+    if (!taxForm) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax form not found'
+      });
+    }
+
+    const from = await findTaxFormRevision(taxForm, req.query.from);
+    const to = await findTaxFormRevision(taxForm, req.query.to || taxForm.revision);
+
+    if (!from || !to) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        from: summarizeRevision(from),
+        to: summarizeRevision(to),
+        diff: diffSnapshots(from.data, to.data)
       }
-    };
+    });
+  } catch (error) {
+    console.error('Compare tax form revisions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to compare tax form revisions'
+    });
+  }
+});
 
-    // Log successful interaction
-    console.log(`💬 Successful AI chat interaction:`, {
-      userId,
-      messageLength: message.length,
-      responseType: aiResponse.responseType,
-      confidence: aiResponse.confidence,
-      fromCache: aiResponse.fromCache,
-      responseTime: `${responseTime}ms`
+app.get('/api/tax-forms/:id/revisions/:revision', authenticateToken, resolveSubject('returns'), [
+  param('revision').isInt({ min: 1 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
     });
+  }
+
+  try {
+    const taxForm = await findTaxForm({ id: req.params.id, userId: req.subjectId });
+    const revision = taxForm ? await findTaxFormRevision(taxForm, req.params.revision) : null;
+
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
 
     res.json({
       success: true,
-      data: formattedResponse
+      data: revision
+    });
+  } catch (error) {
+    console.error('Get tax form revision error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve tax form revision'
+    });
+  }
+});
+
+// Restoring saves the earlier revision's data as a new revision; later revisions are kept
+app.post('/api/tax-forms/:id/revisions/:revision/restore', authenticateToken, resolveSubject('returns'), [
+  param('revision').isInt({ min: 1 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
+  try {
+    const existing = await findTaxForm({ id: req.params.id, userId: req.subjectId });
+    const revision = existing ? await findTaxFormRevision(existing, req.params.revision) : null;
+
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    const taxForm = await store.taxForms.save({
+      id: existing.id,
+      userId: existing.userId,
+      ...revision.data,
+      revision: (existing.revision || 0) + 1,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    });
+    await saveTaxFormRevision(req.userId, taxForm, toSnapshot(existing), 'restore', revision.revision);
+    await recordAudit(req, 'taxForm.restore', { ...toTaxFormResource(taxForm), restoredFrom: revision.revision }, {
+      before: toSnapshot(existing),
+      after: toSnapshot(taxForm)
     });
 
+    res.json({
+      success: true,
+      message: `Revision ${revision.revision} restored`,
+      data: taxForm
+    });
   } catch (error) {
-    console.error('❌ AI Chat Error:', error);
+    console.error('Restore tax form revision error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore tax form revision'
+    });
+  }
+});
 
-    // Enhanced error response
-    const errorResponse = {
-      message: "I apologize, but I'm having trouble processing your request right now. Let me try to help with a general Canadian tax response instead!\n\n🇨🇦 I can assist with:\n• Tax calculations and planning\n• RRSP and TFSA advice\n• Deductions and credits\n• CRA deadlines and requirements\n\nCould you please rephrase your question or ask about a specific Canadian tax topic?",
-      confidence: 60,
-      sources: ['Canadian Tax AI Assistant'],
-      aiInsight: true,
-      suggestedActions: [
-        'Calculate my taxes',
-        'RRSP vs TFSA advice',
-        'Find tax deductions',
-        'Check tax deadlines'
-      ],
-      responseType: 'error_fallback',
-      timestamp: new Date().toISOString(),
-      metadata: {
-        error: error.message,
-        userId: req.userId
-      }
-    };
+// User profile routes
+app.get('/api/user/profile', authenticateToken, async (req, res) => {
+  try {
+    const user = await findUserData({ id: req.userId });
 
-    res.status(200).json({
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
       success: true,
-      data: errorResponse
+      data: toPublicUser(user)
+    });
+  } catch (error) {
+    console.error('Get profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve profile'
     });
   }
 });
 
-// Additional utility routes for the AI system
+app.put('/api/user/profile', authenticateToken, [
+  body('name').optional().trim().isLength({ min: 1 }),
+  body('email').optional().isEmail().normalizeEmail(),
+  body('province').optional().toUpperCase().isIn(PROVINCE_CODES)
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
 
-// Get conversation history
-app.get('/api/ai/history', authenticateToken, (req, res) => {
   try {
-    const userId = req.userId;
-    const history = enhancedCanadianTaxAI.getConversationHistory(userId);
+    const user = await findUserData({ id: req.userId });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Check if email is being changed and if it's already taken
+    if (req.body.email && req.body.email !== user.email) {
+      if (!hasRecentStepUp(req)) {
+        return stepUpRequired(res);
+      }
+      const existingUser = await findUserData({ email: req.body.email });
+      if (existingUser) {
+        return res.status(400).json({
+          success: false,
+          message: 'Email already in use'
+        });
+      }
+    }
+
+    // Only profile fields; the password has its own route and a new email waits for verification
+    const { name, province } = req.body;
+    const emailChanged = Boolean(req.body.email) && req.body.email !== user.email;
+    const changes = Object.fromEntries(
+      Object.entries({ name, province }).filter(([, value]) => value !== undefined)
+    );
+    const updatedUser = await store.users.update(user.id, {
+      ...changes,
+      ...(emailChanged ? { pendingEmail: req.body.email } : {}),
+      updatedAt: new Date()
+    });
+    await recordAudit(req, 'profile.update', { type: 'user', id: user.id }, {
+      before: toAuditProfile(user),
+      after: toAuditProfile(updatedUser)
+    });
+
+    if (emailChanged) {
+      await sendEmailVerification(updatedUser, req.body.email);
+      await mailer.send({ to: user.email, ...emailChangeNoticeMessage({ name: user.name, newEmail: req.body.email }) });
+    }
 
     res.json({
       success: true,
-      data: {
-        history: history.slice(-20), // Last 20 messages
-        count: history.length
-      }
+      message: emailChanged
+        ? `Profile updated. Check ${req.body.email} to confirm your new email address.`
+        : 'Profile updated successfully',
+      data: toPublicUser(updatedUser)
     });
   } catch (error) {
-    console.error('Error getting chat history:', error);
+    console.error('Update profile error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve chat history'
+      message: 'Failed to update profile'
     });
   }
 });
 
-// Clear conversation history
-app.delete('/api/ai/history', authenticateToken, (req, res) => {
-  try {
-    const userId = req.userId;
-    const cleared = enhancedCanadianTaxAI.clearConversationHistory(userId);
-
-    res.json({
-      success: true,
-      data: {
-        cleared: cleared,
-        message: 'Conversation history cleared successfully'
-      }
-    });
-  } catch (error) {
-    console.error('Error clearing chat history:', error);
-    res.status(500).json({
+// Changing the password signs out every other session
+app.put('/api/user/password', authenticateToken, passwordChangeLimiter, [
+  body('currentPassword').isString().isLength({ min: 1 }),
+  body('newPassword').isLength({ min: 8, max: 128 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to clear chat history'
+      message: 'Validation errors',
+      errors: errors.array()
     });
   }
-});
 
-// Get AI system stats (for monitoring)
-app.get('/api/ai/stats', authenticateToken, (req, res) => {
   try {
-    const stats = enhancedCanadianTaxAI.getStats();
+    const user = await findUserData({ id: req.userId });
+
+    if (!user || !(await bcrypt.compare(req.body.currentPassword, user.password))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    await store.users.update(user.id, {
+      password: await bcrypt.hash(req.body.newPassword, BCRYPT_ROUNDS),
+      updatedAt: new Date()
+    });
+    const revoked = await revokeUserSessions(user.id, 'Password changed', req.sessionId);
+    await recordAudit(req, 'password.change', { type: 'user', id: user.id });
 
     res.json({
       success: true,
-      data: {
-        ...stats,
-        serverUptime: process.uptime(),
-        timestamp: new Date().toISOString()
-      }
+      message: 'Password changed',
+      data: { revokedSessions: revoked }
     });
   } catch (error) {
-    console.error('Error getting AI stats:', error);
+    console.error('Change password error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve AI statistics'
+      message: 'Failed to change password'
     });
   }
 });
 
-// Test AI endpoint (for debugging)
-app.post('/api/ai/test', authenticateToken, [
-  body('message').trim().isLength({ min: 1 })
-], async (req, res) => {
-  try {
-    const { message } = req.body;
-    const userId = req.userId;
+// Preparer access. Preparers keep a roster of clients and invite new ones by email; clients accept or
+// decline invitations and narrow or revoke access from their profile.
+const toGrantResource = (grant) => ({
+  type: 'clientGrant',
+  id: grant.id,
+  preparerId: grant.preparerId,
+  preparerName: grant.preparerName,
+  clientEmail: grant.clientEmail
+});
 
-    const testContext = {
-      province: 'ON',
-      income: 75000,
-      filingStatus: 'single',
-      activeTab: 'Test',
-      hasDocuments: false,
-      documentCount: 0
-    };
+const scopeValidators = (required) => [
+  required ? body('scopes').isArray({ min: 1, max: ACCESS_SCOPES.length }) : body('scopes').optional().isArray({ max: ACCESS_SCOPES.length }),
+  body('scopes.*').isIn(ACCESS_SCOPES)
+];
 
-    const response = await enhancedCanadianTaxAI.generateResponse(message, userId, testContext);
+app.get('/api/clients', authenticateToken, requireRole('preparer'), async (req, res) => {
+  try {
+    const grants = await store.clientGrants.find({ preparerId: req.userId });
+    const clients = await Promise.all(grants.filter(isGrantActive).map(async (grant) => {
+      const client = await findUserData({ id: grant.clientId });
+      return { ...grant, client: client ? { id: client.id, name: client.name, email: client.email } : null };
+    }));
 
     res.json({
       success: true,
       data: {
-        ...response,
-        testMode: true,
-        contextUsed: testContext
+        clients: clients.filter(grant => grant.client),
+        invitations: grants.filter(isInvitationOpen)
       }
     });
   } catch (error) {
-    console.error('AI test error:', error);
+    console.error('Get clients error:', error);
     res.status(500).json({
       success: false,
-      message: 'AI test failed',
-      error: error.message
+      message: 'Failed to retrieve clients'
     });
   }
 });
 
-// Document upload and management routes
-app.post('/api/documents/upload', authenticateToken, upload.single('document'), (req, res) => {
+app.post('/api/clients/invitations', authenticateToken, requireRole('preparer'), [
+  body('email').isEmail().normalizeEmail(),
+  ...scopeValidators(true)
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+
   try {
-    if (!req.file) {
+    const preparer = await findUserData({ id: req.userId });
+    const clientEmail = req.body.email;
+    if (clientEmail === preparer.email) {
       return res.status(400).json({
         success: false,
-        message: 'No file uploaded'
+        message: 'You cannot invite yourself'
       });
     }
 
-    const document = {
-      id: generateId(),
-      userId: req.userId,
-      filename: req.file.filename,
-      originalName: req.file.originalname,
-      mimetype: req.file.mimetype,
-      size: req.file.size,
-      uploadDate: new Date(),
-      category: req.body.category || 'other'
-    };
+    const existing = await store.clientGrants.find({ preparerId: preparer.id, clientEmail });
+    if (existing.some(grant => isInvitationOpen(grant) || isGrantActive(grant))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This client already has access or an open invitation'
+      });
+    }
 
-    documents.push(document);
+    const now = new Date();
+    const scopes = normalizeScopes(req.body.scopes);
+    const invitation = await store.clientGrants.save({
+      id: generateId(),
+      preparerId: preparer.id,
+      preparerName: preparer.name,
+      preparerEmail: preparer.email,
+      clientId: null,
+      clientEmail,
+      requestedScopes: scopes,
+      scopes: [],
+      status: 'pending',
+      createdAt: now,
+      expiresAt: getInvitationExpiry(now),
+      respondedAt: null
+    });
+    await recordAudit(req, 'clientInvitation.create', toGrantResource(invitation), { after: { scopes } });
+
+    await mailer.send({
+      to: clientEmail,
+      ...clientInvitationMessage({
+        preparerName: preparer.name,
+        scopes,
+        link: getAppLink({ invitation: invitation.id }),
+        expiresInDays: INVITATION_TTL_DAYS
+      })
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Document uploaded successfully',
-      data: document
+      message: `Invitation sent to ${clientEmail}`,
+      data: invitation
     });
   } catch (error) {
-    console.error('Document upload error:', error);
+    console.error('Invite client error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to upload document'
+      message: 'Failed to send invitation'
     });
   }
 });
 
-app.get('/api/documents', authenticateToken, (req, res) => {
+// Removes a client from the roster, or cancels an invitation that has not been answered
+app.delete('/api/clients/:id', authenticateToken, requireRole('preparer'), async (req, res) => {
   try {
-    const userDocuments = documents.filter(doc => doc.userId === req.userId);
+    const grant = await store.clientGrants.findOne({ id: req.params.id, preparerId: req.userId });
+    if (!isGrantActive(grant) && !isInvitationOpen(grant)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client or invitation not found'
+      });
+    }
+
+    await store.clientGrants.update(grant.id, { status: 'revoked', revokedAt: new Date(), revokedBy: req.userId });
+    await recordAudit(req, grant.status === 'pending' ? 'clientInvitation.cancel' : 'clientGrant.remove', toGrantResource(grant), {
+      subjectId: grant.clientId || req.userId,
+      before: { scopes: grant.scopes }
+    });
 
     res.json({
       success: true,
-      data: userDocuments
+      message: grant.status === 'pending' ? 'Invitation cancelled' : 'Client removed'
     });
   } catch (error) {
-    console.error('Get documents error:', error);
+    console.error('Remove client error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve documents'
+      message: 'Failed to remove client'
     });
   }
 });
 
-app.delete('/api/documents/:id', authenticateToken, (req, res) => {
+// Invitations are matched on email, so they are only shown once the address has been confirmed
+app.get('/api/access', authenticateToken, async (req, res) => {
   try {
-    const documentIndex = documents.findIndex(doc =>
-      doc.id === req.params.id && doc.userId === req.userId
-    );
-
-    if (documentIndex === -1) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document not found'
-      });
-    }
-
-    const document = documents[documentIndex];
-
-    // Delete file from filesystem
-    const filePath = path.join(uploadsDir, document.filename);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
-
-    documents.splice(documentIndex, 1);
+    const user = await findUserData({ id: req.userId });
+    const grants = (await store.clientGrants.find({ clientId: user.id })).filter(isGrantActive);
+    const invitations = user.emailVerified
+      ? (await store.clientGrants.find({ clientEmail: user.email, status: 'pending' })).filter(isInvitationOpen)
+      : [];
 
     res.json({
       success: true,
-      message: 'Document deleted successfully'
+      data: { grants, invitations }
     });
   } catch (error) {
-    console.error('Delete document error:', error);
+    console.error('Get access error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete document'
+      message: 'Failed to retrieve preparer access'
     });
   }
 });
 
-// Tax form routes
-app.post('/api/tax-forms', authenticateToken, [
-  body('income').isNumeric(),
-  body('deductions').isNumeric(),
-  body('province').isLength({ min: 2, max: 2 }),
-  body('filingStatus').isIn(['single', 'married_joint', 'married_separate', 'head_of_household']),
-  body('taxYear').isNumeric()
-], (req, res) => {
+// Accepts with all the requested scopes, or only some of them
+app.post('/api/access/invitations/:id/accept', authenticateToken, scopeValidators(false), async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -867,80 +3483,89 @@ app.post('/api/tax-forms', authenticateToken, [
   }
 
   try {
-    const taxForm = {
-      id: generateId(),
-      userId: req.userId,
-      ...req.body,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const user = await findUserData({ id: req.userId });
+    if (!user.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Confirm your email address before accepting invitations'
+      });
+    }
 
-    taxForms.push(taxForm);
+    const invitation = await store.clientGrants.findOne({ id: req.params.id, clientEmail: user.email });
+    if (!isInvitationOpen(invitation)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found or expired'
+      });
+    }
 
-    res.json({
-      success: true,
-      message: 'Tax form saved successfully',
-      data: taxForm
-    });
-  } catch (error) {
-    console.error('Save tax form error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to save tax form'
-    });
-  }
-});
+    const scopes = normalizeScopes(req.body.scopes || invitation.requestedScopes)
+      .filter(scope => invitation.requestedScopes.includes(scope));
+    if (scopes.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose at least one of the requested kinds of access'
+      });
+    }
 
-app.get('/api/tax-forms', authenticateToken, (req, res) => {
-  try {
-    const userTaxForms = taxForms.filter(form => form.userId === req.userId);
+    // A new grant from the same preparer replaces the old one
+    const now = new Date();
+    const previous = await store.clientGrants.find({ preparerId: invitation.preparerId, clientId: user.id, status: 'active' });
+    for (const grant of previous) {
+      await store.clientGrants.update(grant.id, { status: 'revoked', revokedAt: now, revokedBy: user.id });
+    }
+
+    const grant = await store.clientGrants.update(invitation.id, {
+      clientId: user.id,
+      scopes,
+      status: 'active',
+      respondedAt: now
+    });
+    await recordAudit(req, 'clientGrant.accept', toGrantResource(grant), { after: { scopes } });
 
     res.json({
       success: true,
-      data: userTaxForms
+      message: `${invitation.preparerName} can now work on your account`,
+      data: grant
     });
   } catch (error) {
-    console.error('Get tax forms error:', error);
+    console.error('Accept invitation error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve tax forms'
+      message: 'Failed to accept invitation'
     });
   }
 });
 
-app.get('/api/tax-forms/:id', authenticateToken, (req, res) => {
+app.post('/api/access/invitations/:id/decline', authenticateToken, async (req, res) => {
   try {
-    const taxForm = taxForms.find(form =>
-      form.id === req.params.id && form.userId === req.userId
-    );
-
-    if (!taxForm) {
+    const user = await findUserData({ id: req.userId });
+    const invitation = await store.clientGrants.findOne({ id: req.params.id, clientEmail: user.email });
+    if (!user.emailVerified || !isInvitationOpen(invitation)) {
       return res.status(404).json({
         success: false,
-        message: 'Tax form not found'
+        message: 'Invitation not found or expired'
       });
     }
 
+    await store.clientGrants.update(invitation.id, { status: 'declined', respondedAt: new Date() });
+    await recordAudit(req, 'clientInvitation.decline', toGrantResource(invitation));
+
     res.json({
       success: true,
-      data: taxForm
+      message: 'Invitation declined'
     });
   } catch (error) {
-    console.error('Get tax form error:', error);
+    console.error('Decline invitation error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve tax form'
+      message: 'Failed to decline invitation'
     });
   }
 });
 
-app.put('/api/tax-forms/:id', authenticateToken, [
-  body('income').optional().isNumeric(),
-  body('deductions').optional().isNumeric(),
-  body('province').optional().isLength({ min: 2, max: 2 }),
-  body('filingStatus').optional().isIn(['single', 'married_joint', 'married_separate', 'head_of_household']),
-  body('taxYear').optional().isNumeric()
-], (req, res) => {
+// Changes which of the originally requested scopes the preparer holds; takes effect on their next request
+app.put('/api/access/:id', authenticateToken, scopeValidators(true), async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -951,96 +3576,70 @@ app.put('/api/tax-forms/:id', authenticateToken, [
   }
 
   try {
-    const taxFormIndex = taxForms.findIndex(form =>
-      form.id === req.params.id && form.userId === req.userId
-    );
-
-    if (taxFormIndex === -1) {
+    const grant = await store.clientGrants.findOne({ id: req.params.id, clientId: req.userId, status: 'active' });
+    if (!grant) {
       return res.status(404).json({
         success: false,
-        message: 'Tax form not found'
+        message: 'Access grant not found'
       });
     }
 
-    taxForms[taxFormIndex] = {
-      ...taxForms[taxFormIndex],
-      ...req.body,
-      updatedAt: new Date()
-    };
-
-    res.json({
-      success: true,
-      message: 'Tax form updated successfully',
-      data: taxForms[taxFormIndex]
-    });
-  } catch (error) {
-    console.error('Update tax form error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to update tax form'
-    });
-  }
-});
-
-app.delete('/api/tax-forms/:id', authenticateToken, (req, res) => {
-  try {
-    const taxFormIndex = taxForms.findIndex(form =>
-      form.id === req.params.id && form.userId === req.userId
-    );
-
-    if (taxFormIndex === -1) {
-      return res.status(404).json({
+    const scopes = normalizeScopes(req.body.scopes).filter(scope => grant.requestedScopes.includes(scope));
+    if (scopes.length === 0) {
+      return res.status(400).json({
         success: false,
-        message: 'Tax form not found'
+        message: 'Keep at least one kind of access, or revoke access instead'
       });
     }
 
-    taxForms.splice(taxFormIndex, 1);
+    const updated = await store.clientGrants.update(grant.id, { scopes, updatedAt: new Date() });
+    await recordAudit(req, 'clientGrant.update', toGrantResource(grant), { before: { scopes: grant.scopes }, after: { scopes } });
 
     res.json({
       success: true,
-      message: 'Tax form deleted successfully'
+      message: 'Access updated',
+      data: updated
     });
   } catch (error) {
-    console.error('Delete tax form error:', error);
+    console.error('Update access error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete tax form'
+      message: 'Failed to update access'
     });
   }
 });
 
-// User profile routes
-app.get('/api/user/profile', authenticateToken, async (req, res) => {
+app.delete('/api/access/:id', authenticateToken, async (req, res) => {
   try {
-    const user = await findUserData({ id: req.userId });
-
-    if (!user) {
+    const grant = await store.clientGrants.findOne({ id: req.params.id, clientId: req.userId, status: 'active' });
+    if (!grant) {
       return res.status(404).json({
         success: false,
-        message: 'User not found'
+        message: 'Access grant not found'
       });
     }
 
-    const { password, ...userWithoutPassword } = user;
+    await store.clientGrants.update(grant.id, { status: 'revoked', revokedAt: new Date(), revokedBy: req.userId });
+    await recordAudit(req, 'clientGrant.revoke', toGrantResource(grant), { before: { scopes: grant.scopes } });
 
     res.json({
       success: true,
-      data: userWithoutPassword
+      message: `${grant.preparerName} no longer has access to your account`
     });
   } catch (error) {
-    console.error('Get profile error:', error);
+    console.error('Revoke access error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve profile'
+      message: 'Failed to revoke access'
     });
   }
 });
 
-app.put('/api/user/profile', authenticateToken, [
-  body('name').optional().trim().isLength({ min: 1 }),
-  body('email').optional().isEmail().normalizeEmail(),
-  body('province').optional().isLength({ min: 2, max: 2 })
+// The signed-in user's audit log, newest first, with whether its hash chain is intact. `before` pages
+// back from a sequence number.
+app.get('/api/audit', authenticateToken, [
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  query('before').optional().isInt({ min: 1 })
 ], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -1052,44 +3651,29 @@ app.put('/api/user/profile', authenticateToken, [
   }
 
   try {
-    const userIndex = users.findIndex(u => u.id === req.userId);
-
-    if (userIndex === -1) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
-
-    // Check if email is being changed and if it's already taken
-    if (req.body.email && req.body.email !== users[userIndex].email) {
-      const existingUser = await findUserData({ email: req.body.email });
-      if (existingUser) {
-        return res.status(400).json({
-          success: false,
-          message: 'Email already in use'
-        });
-      }
-    }
-
-    users[userIndex] = {
-      ...users[userIndex],
-      ...req.body,
-      updatedAt: new Date()
-    };
+    const { integrity, entries } = await auditLog.review(req.userId);
+    const before = req.query.before ? Number(req.query.before) : Infinity;
+    const page = entries.filter(entry => entry.sequence < before).slice(0, Number(req.query.limit || 50));
 
-    const { password, ...userWithoutPassword } = users[userIndex];
+    const actorIds = [...new Set(page.map(entry => entry.actor.id))];
+    const actors = await Promise.all(actorIds.map(id => findUserData({ id })));
+    const actorNames = Object.fromEntries(actorIds.map((id, index) => [id, actors[index] ? actors[index].name : null]));
 
     res.json({
       success: true,
-      message: 'Profile updated successfully',
-      data: userWithoutPassword
+      data: {
+        integrity,
+        entries: page.map(entry => ({
+          ...entry,
+          actor: { ...entry.actor, name: actorNames[entry.actor.id], self: entry.actor.id === req.userId }
+        }))
+      }
     });
   } catch (error) {
-    console.error('Update profile error:', error);
+    console.error('Get audit log error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to update profile'
+      message: 'Failed to retrieve audit log'
     });
   }
 });
@@ -1098,8 +3682,8 @@ app.put('/api/user/profile', authenticateToken, [
 app.get('/api/dashboard/stats', authenticateToken, async (req, res) => {
   try {
     const userId = req.userId;
-    const userTaxForms = taxForms.filter(form => form.userId === userId);
-    const userDocuments = documents.filter(doc => doc.userId === userId);
+    const userTaxForms = await findTaxForms({ userId });
+    const userDocuments = await store.documents.find({ userId });
 
     // Get latest tax form for quick stats
     const latestForm = userTaxForms.length > 0 ?
@@ -1107,21 +3691,44 @@ app.get('/api/dashboard/stats', authenticateToken, async (req, res) => {
         new Date(current.updatedAt) > new Date(latest.updatedAt) ? current : latest
       ) : null;
 
+    // The saved rental schedule for the form's year, the saved ACB ledger and the saved registered
+    // account ledger take the place of properties, investments and registered accounts on the form
     let taxCalculation = null;
     if (latestForm) {
+      const rentalSchedule = await findRentalSchedule(userId, latestForm.taxYear);
+      const investmentLedger = await findInvestmentLedger(userId);
+      const registeredAccounts = await findRegisteredAccounts(userId);
       taxCalculation = calculateCanadianTax(
         parseFloat(latestForm.income),
         parseFloat(latestForm.deductions),
-        latestForm.filingStatus,
-        latestForm.province
+        latestForm.maritalStatus,
+        latestForm.province,
+        latestForm.taxYear,
+        getCreditInputs({
+          ...latestForm,
+          ...(rentalSchedule ? { rentals: rentalSchedule.properties } : {}),
+          ...(investmentLedger ? { investments: investmentLedger } : {}),
+          ...(registeredAccounts ? { registeredAccounts } : {})
+        })
       );
     }
 
+    // Installments for the year after the latest return, from its net tax owing and the saved installment inputs
+    const installments = taxCalculation ? calculateInstallments({
+      installmentYear: Number(latestForm.taxYear || DEFAULT_TAX_YEAR) + 1,
+      province: latestForm.province,
+      previousYear: getNetTaxOwing(taxCalculation, latestForm.province),
+      currentYear: latestForm.installments?.currentYearEstimate,
+      twoYearsAgo: latestForm.installments?.twoYearsAgoNetTaxOwing,
+      payments: latestForm.installments?.payments
+    }) : null;
+
     const stats = {
       totalForms: userTaxForms.length,
       totalDocuments: userDocuments.length,
       latestForm: latestForm,
       taxCalculation: taxCalculation,
+      installments: installments,
       documentsSize: userDocuments.reduce((total, doc) => total + doc.size, 0),
       lastActivity: userTaxForms.length > 0 || userDocuments.length > 0 ?
         Math.max(
@@ -1181,16 +3788,19 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`\n🍁 Canadian Tax Prep AI Backend Server is running on port ${PORT}!`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`🌐 API Base URL: http://localhost:${PORT}/api`);
-  console.log(`🏛️ Tax System: Canada Revenue Agency (CRA) 2024`);
-  console.log(`🤖 AI Features: Enhanced Canadian Tax Intelligence`);
-  console.log(`💾 Storage: In-memory (development mode)`);
-  console.log(`🔐 Security: JWT Authentication, Rate Limiting, Helmet`);
-  console.log('\n✅ Ready to accept Canadian tax calculations!\n');
-});
+// Start server when run directly; the tests require the app without listening
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`\n🍁 Canadian Tax Prep AI Backend Server is running on port ${PORT}!`);
+    console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
+    console.log(`🌐 API Base URL: http://localhost:${PORT}/api`);
+    console.log(`🏛️ Tax System: Canada Revenue Agency (CRA) ${DEFAULT_TAX_YEAR}`);
+    console.log(`🤖 AI Features: Enhanced Canadian Tax Intelligence`);
+    console.log(`💾 Storage: ${store.backend}`);
+    console.log(`📧 Mail: ${mailer.transport}`);
+    console.log(`🔐 Security: JWT Authentication, Rate Limiting, Helmet`);
+    console.log('\n✅ Ready to accept Canadian tax calculations!\n');
+  });
+}
 
 module.exports = app;
\ No newline at end of file
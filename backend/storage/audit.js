@@ -0,0 +1,118 @@
+const crypto = require('crypto');
+
+// The audit log: who did what to whose data, from where, and what changed. Each user's entries form a
+// hash chain (every entry hashes its own content together with the previous entry's hash), so editing,
+// reordering or deleting an entry breaks the chain from that point on. A chain cut short still links up,
+// so each user's head (latest sequence and hash) is also kept outside the log, and removing the newest
+// entries shows as a chain that stops before its head. Entries are only ever appended; this module has
+// no way to change or remove one.
+const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted (and undefined values left out), so a hash does not depend on how a
+// backend stores or returns the entry
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+const hashAuditEntry = ({ id, hash, ...entry }) => {
+  return crypto.createHash('sha256').update(canonicalJson(entry)).digest('hex');
+};
+
+// Walks a user's entries from the first, returning where the chain breaks, if it does, then checks it
+// reaches the recorded `head`. Entries past the head are allowed: one can be saved before its head is.
+// Without a head (logs from before heads were kept) only the chain itself is checked.
+const verifyAuditChain = (entries, head = null) => {
+  const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+  let prevHash = GENESIS_HASH;
+  for (const [index, entry] of ordered.entries()) {
+    if (entry.sequence !== index + 1 || entry.prevHash !== prevHash || hashAuditEntry(entry) !== entry.hash) {
+      return { valid: false, length: ordered.length, brokenAt: index + 1 };
+    }
+    prevHash = entry.hash;
+  }
+  if (head && head.sequence > ordered.length) {
+    return { valid: false, length: ordered.length, brokenAt: ordered.length + 1 };
+  }
+  if (head && head.sequence > 0 && ordered[head.sequence - 1].hash !== head.hash) {
+    return { valid: false, length: ordered.length, brokenAt: head.sequence };
+  }
+  return { valid: true, length: ordered.length, brokenAt: null };
+};
+
+// `collection` holds the entries and `headCollection` each user's head, keyed by user id (both store
+// collections, see storage/index.js). Appends go through one queue so concurrent requests cannot both
+// extend the same chain head; this assumes a single server process writes the log.
+const createAuditLog = (collection, headCollection, generateId) => {
+  const heads = new Map();
+  let queue = Promise.resolve();
+
+  const readHead = async (subjectId) => {
+    const head = await headCollection.findOne({ id: subjectId });
+    return head ? { sequence: head.sequence, hash: head.hash } : null;
+  };
+
+  // A log from before heads were kept continues from its newest entry
+  const readNewestEntry = async (subjectId) => {
+    const last = (await collection.find({ subjectId })).reduce(
+      (latest, entry) => (!latest || entry.sequence > latest.sequence ? entry : latest),
+      null
+    );
+    return last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: GENESIS_HASH };
+  };
+
+  const getHead = async (subjectId) => {
+    if (!heads.has(subjectId)) {
+      heads.set(subjectId, (await readHead(subjectId)) || (await readNewestEntry(subjectId)));
+    }
+    return heads.get(subjectId);
+  };
+
+  const appendNow = async ({ subjectId, actor, action, resource, ip, changes = [] }) => {
+    const head = await getHead(subjectId);
+    const entry = {
+      subjectId,
+      sequence: head.sequence + 1,
+      prevHash: head.hash,
+      timestamp: new Date().toISOString(),
+      actor,
+      action,
+      resource,
+      ip: ip || null,
+      changes
+    };
+    const hash = hashAuditEntry(entry);
+    const saved = await collection.save({ id: generateId(), ...entry, hash });
+    await headCollection.save({ id: subjectId, sequence: entry.sequence, hash });
+    heads.set(subjectId, { sequence: entry.sequence, hash });
+    return saved;
+  };
+
+  const append = (details) => {
+    const appended = queue.then(() => appendNow(details));
+    queue = appended.catch(() => {});
+    return appended;
+  };
+
+  // All of a user's entries, newest first, and whether their chain is intact
+  const review = async (subjectId) => {
+    const entries = await collection.find({ subjectId });
+    return {
+      integrity: verifyAuditChain(entries, await readHead(subjectId)),
+      entries: entries.sort((a, b) => b.sequence - a.sequence)
+    };
+  };
+
+  return { append, review };
+};
+
+module.exports = {
+  GENESIS_HASH,
+  hashAuditEntry,
+  verifyAuditChain,
+  createAuditLog
+};
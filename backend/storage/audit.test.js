@@ -0,0 +1,121 @@
+const { GENESIS_HASH, hashAuditEntry, verifyAuditChain, createAuditLog } = require('./audit');
+const { createMemoryStore } = require('./memory');
+
+const actor = { id: 'user-1', name: 'Casey Client', role: 'client', self: true };
+
+// An audit log over memory collections; `records` is the entries collection's own array, for tampering with
+const createTestLog = () => {
+  const data = { auditLog: [], auditHeads: [] };
+  const store = createMemoryStore(data);
+  let nextId = 0;
+  const auditLog = createAuditLog(
+    store.collection('auditLog'),
+    store.collection('auditHeads'),
+    () => `entry-${++nextId}`
+  );
+  return { auditLog, records: data.auditLog, heads: data.auditHeads };
+};
+
+const appendEntries = async (auditLog, subjectId, count) => {
+  for (let i = 1; i <= count; i++) {
+    await auditLog.append({
+      subjectId,
+      actor,
+      action: 'profile.update',
+      resource: { type: 'user', id: subjectId },
+      ip: '127.0.0.1',
+      changes: [{ path: 'name', before: `Name ${i - 1}`, after: `Name ${i}` }]
+    });
+  }
+};
+
+describe('audit log hash chain', () => {
+  test('appended entries link from the genesis hash and verify, newest first', async () => {
+    const { auditLog, records } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 3);
+
+    expect(records[0].prevHash).toBe(GENESIS_HASH);
+    expect(records[1].prevHash).toBe(records[0].hash);
+    records.forEach(entry => expect(hashAuditEntry(entry)).toBe(entry.hash));
+
+    const { integrity, entries } = await auditLog.review('user-1');
+    expect(integrity).toEqual({ valid: true, length: 3, brokenAt: null });
+    expect(entries.map(entry => entry.sequence)).toEqual([3, 2, 1]);
+  });
+
+  test('each user has a chain of their own', async () => {
+    const { auditLog } = createTestLog();
+    await Promise.all([appendEntries(auditLog, 'user-1', 2), appendEntries(auditLog, 'user-2', 3)]);
+
+    expect((await auditLog.review('user-1')).integrity).toEqual({ valid: true, length: 2, brokenAt: null });
+    expect((await auditLog.review('user-2')).integrity).toEqual({ valid: true, length: 3, brokenAt: null });
+  });
+
+  test('concurrent appends get consecutive sequence numbers', async () => {
+    const { auditLog } = createTestLog();
+    await Promise.all([1, 2, 3, 4].map(() => auditLog.append({
+      subjectId: 'user-1',
+      actor,
+      action: 'auth.login',
+      resource: { type: 'session' }
+    })));
+
+    const { integrity, entries } = await auditLog.review('user-1');
+    expect(integrity.valid).toBe(true);
+    expect(entries.map(entry => entry.sequence)).toEqual([4, 3, 2, 1]);
+  });
+
+  test('an altered entry breaks the chain there', async () => {
+    const { auditLog, records } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 4);
+
+    records[2].changes[0].after = 'Someone Else';
+    expect(verifyAuditChain(records)).toEqual({ valid: false, length: 4, brokenAt: 3 });
+  });
+
+  test('re-hashing an altered entry still breaks the chain at the entry after it', async () => {
+    const { auditLog, records } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 4);
+
+    records[1].ip = '10.0.0.1';
+    records[1].hash = hashAuditEntry(records[1]);
+    expect(verifyAuditChain(records)).toEqual({ valid: false, length: 4, brokenAt: 3 });
+  });
+
+  test('a removed entry breaks the chain where it was', async () => {
+    const { auditLog, records } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 4);
+
+    records.splice(1, 1);
+    expect((await auditLog.review('user-1')).integrity).toEqual({ valid: false, length: 3, brokenAt: 2 });
+  });
+
+  test('removing the newest entries breaks the chain where they were', async () => {
+    const { auditLog, records, heads } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 4);
+    expect(heads).toEqual([{ id: 'user-1', sequence: 4, hash: records[3].hash }]);
+
+    records.pop();
+    expect((await auditLog.review('user-1')).integrity).toEqual({ valid: false, length: 3, brokenAt: 4 });
+    records.splice(0, records.length);
+    expect((await auditLog.review('user-1')).integrity).toEqual({ valid: false, length: 0, brokenAt: 1 });
+  });
+
+  test('a rewritten tail that chains up but does not reach the recorded head is refused', async () => {
+    const { auditLog, records, heads } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 3);
+
+    records[2].ip = '10.0.0.1';
+    records[2].hash = hashAuditEntry(records[2]);
+    expect(verifyAuditChain(records)).toEqual({ valid: true, length: 3, brokenAt: null });
+    expect(verifyAuditChain(records, heads[0])).toEqual({ valid: false, length: 3, brokenAt: 3 });
+  });
+
+  test('swapped entries break the chain at the first of them', async () => {
+    const { auditLog, records } = createTestLog();
+    await appendEntries(auditLog, 'user-1', 4);
+
+    [records[1].sequence, records[2].sequence] = [records[2].sequence, records[1].sequence];
+    expect(verifyAuditChain(records)).toEqual({ valid: false, length: 4, brokenAt: 2 });
+  });
+});
@@ -0,0 +1,33 @@
+const fs = require('fs');
+const path = require('path');
+const { createMemoryStore } = require('./memory');
+
+// Local JSON file store for development and tests: collections are loaded once and the whole file is
+// rewritten (to a temporary file, then renamed) after each write, one write at a time
+const loadData = (filePath) => {
+  if (!fs.existsSync(filePath)) return {};
+  const contents = fs.readFileSync(filePath, 'utf8');
+  return contents.trim() ? JSON.parse(contents) : {};
+};
+
+const createFileStore = (filePath) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const data = loadData(filePath);
+  let pendingWrite = Promise.resolve();
+
+  const persist = () => {
+    const write = async () => {
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.promises.rename(tempPath, filePath);
+    };
+    pendingWrite = pendingWrite.catch(() => {}).then(write);
+    return pendingWrite;
+  };
+
+  return createMemoryStore(data, persist);
+};
+
+module.exports = {
+  createFileStore
+};
@@ -0,0 +1,68 @@
+const { clone } = require('./memory');
+
+// Firestore collections (firebase.js). Queries are equality filters only, so no composite indexes are
+// needed; callers sort in memory. Records are stored as JSON copies like the other backends.
+const applyQuery = (collectionRef, query) => {
+  return Object.entries(query).reduce((ref, [key, value]) => ref.where(key, '==', value), collectionRef);
+};
+
+const createFirestoreCollection = (db, name) => {
+  const collectionRef = db.collection(name);
+
+  return {
+    find: async (query = {}) => {
+      const snapshot = await applyQuery(collectionRef, query).get();
+      return snapshot.docs.map(doc => doc.data());
+    },
+
+    findOne: async (query) => {
+      const snapshot = await applyQuery(collectionRef, query).limit(1).get();
+      return snapshot.empty ? null : snapshot.docs[0].data();
+    },
+
+    save: async (record) => {
+      const saved = clone(record);
+      await collectionRef.doc(saved.id).set(saved);
+      return saved;
+    },
+
+    update: async (id, changes) => {
+      const docRef = collectionRef.doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists) return null;
+      const updated = clone({ ...doc.data(), ...changes });
+      await docRef.set(updated);
+      return updated;
+    },
+
+    remove: async (id) => {
+      const docRef = collectionRef.doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists) return false;
+      await docRef.delete();
+      return true;
+    },
+
+    removeWhere: async (query) => {
+      const snapshot = await applyQuery(collectionRef, query).get();
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      return snapshot.size;
+    }
+  };
+};
+
+const createFirestoreStore = () => {
+  const { db } = require('../firebase');
+  if (!db) {
+    throw new Error('Firestore storage requires Firebase to be configured (FIREBASE_STORAGE_BUCKET)');
+  }
+  return {
+    collection: (name) => createFirestoreCollection(db, name)
+  };
+};
+
+module.exports = {
+  createFirestoreStore
+};
@@ -0,0 +1,53 @@
+const path = require('path');
+const { createMemoryStore } = require('./memory');
+const { createFileStore } = require('./file');
+const { createFirestoreStore } = require('./firestore');
+
+// Storage backend from STORAGE_BACKEND: 'file' (default, STORAGE_FILE or data/store.json),
+// 'memory' (cleared on restart) or 'firestore' (firebase.js)
+const STORAGE_BACKENDS = ['file', 'memory', 'firestore'];
+const DEFAULT_STORAGE_FILE = path.join(__dirname, '..', 'data', 'store.json');
+
+const COLLECTIONS = [
+  'users',
+  'sessions',
+  'accountTokens',
+  'clientGrants',
+  'taxForms',
+  'taxFormRevisions',
+  'documents',
+  'chatHistory',
+  'rentalSchedules',
+  'investmentLedgers',
+  'registeredAccountLedgers',
+  'auditLog',
+  'auditHeads'
+];
+
+const createBackend = (backend, options) => {
+  switch (backend) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore(options.filePath || DEFAULT_STORAGE_FILE);
+    case 'firestore':
+      return createFirestoreStore();
+    default:
+      throw new Error(`Unsupported storage backend: ${backend}. Use one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+};
+
+// One repository per collection, each with async find, findOne, save, update, remove and removeWhere
+const createStore = (backend = process.env.STORAGE_BACKEND || 'file', options = { filePath: process.env.STORAGE_FILE }) => {
+  const store = createBackend(backend, options);
+  return {
+    backend,
+    ...Object.fromEntries(COLLECTIONS.map(name => [name, store.collection(name)]))
+  };
+};
+
+module.exports = {
+  STORAGE_BACKENDS,
+  COLLECTIONS,
+  createStore
+};
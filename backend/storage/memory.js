@@ -0,0 +1,66 @@
+// In-memory collections. Records are stored and returned as JSON copies, so callers never hold a
+// reference into the store and every backend hands back the same shapes (dates as ISO strings).
+const clone = (record) => JSON.parse(JSON.stringify(record));
+
+const matches = (record, query) => Object.entries(query).every(([key, value]) => record[key] === value);
+
+const createMemoryCollection = (records, onChange) => ({
+  find: async (query = {}) => records.filter(record => matches(record, query)).map(clone),
+
+  findOne: async (query) => {
+    const record = records.find(candidate => matches(candidate, query));
+    return record ? clone(record) : null;
+  },
+
+  // Insert, or replace the record with the same id
+  save: async (record) => {
+    const saved = clone(record);
+    const index = records.findIndex(candidate => candidate.id === saved.id);
+    if (index === -1) {
+      records.push(saved);
+    } else {
+      records[index] = saved;
+    }
+    await onChange();
+    return clone(saved);
+  },
+
+  update: async (id, changes) => {
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) return null;
+    records[index] = clone({ ...records[index], ...changes });
+    await onChange();
+    return clone(records[index]);
+  },
+
+  remove: async (id) => {
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) return false;
+    records.splice(index, 1);
+    await onChange();
+    return true;
+  },
+
+  removeWhere: async (query) => {
+    const remaining = records.filter(record => !matches(record, query));
+    const removed = records.length - remaining.length;
+    if (removed > 0) {
+      records.splice(0, records.length, ...remaining);
+      await onChange();
+    }
+    return removed;
+  }
+});
+
+// `data` maps collection names to record arrays; `onChange` runs after every write
+const createMemoryStore = (data = {}, onChange = async () => {}) => ({
+  collection: (name) => {
+    if (!data[name]) data[name] = [];
+    return createMemoryCollection(data[name], onChange);
+  }
+});
+
+module.exports = {
+  clone,
+  createMemoryStore
+};
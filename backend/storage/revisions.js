@@ -0,0 +1,61 @@
+// Saved tax returns keep every save as an immutable revision: the full snapshot of what was entered,
+// who saved it and what changed from the revision before
+const FORM_METADATA = ['id', 'userId', 'revision', 'createdAt', 'updatedAt'];
+
+const isContainer = (value) => value !== null && typeof value === 'object';
+
+const isEqual = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// The entered data of a saved form, without its storage metadata
+const toSnapshot = (form) => {
+  return Object.fromEntries(Object.entries(form).filter(([key]) => !FORM_METADATA.includes(key)));
+};
+
+// Changes from `before` to `after` as { path, type, before, after }. Objects and arrays are compared
+// key by key; anything added or removed whole (a slip, a dependant) is reported once at its own path,
+// e.g. 'slips.2'.
+const diffSnapshots = (before, after, path = '') => {
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(key => diffSnapshots(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (isEqual(before, after)) return [];
+
+  const type = before === undefined ? 'added' : after === undefined ? 'removed' : 'changed';
+  return [{
+    path,
+    type,
+    before: before === undefined ? null : before,
+    after: after === undefined ? null : after
+  }];
+};
+
+// `previous` is the snapshot the form had before this save (null for a new form)
+const createRevision = ({ id, form, previous, author, action, restoredFrom = null }) => {
+  const snapshot = toSnapshot(form);
+  return {
+    id,
+    taxFormId: form.id,
+    userId: form.userId,
+    revision: form.revision,
+    action,
+    restoredFrom,
+    author,
+    createdAt: form.updatedAt,
+    diff: diffSnapshots(previous || {}, snapshot),
+    data: snapshot
+  };
+};
+
+// Revision list entries leave out the snapshot
+const summarizeRevision = ({ data, ...revision }) => ({
+  ...revision,
+  changeCount: revision.diff.length
+});
+
+module.exports = {
+  toSnapshot,
+  diffSnapshots,
+  createRevision,
+  summarizeRevision
+};
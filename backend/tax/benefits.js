@@ -0,0 +1,257 @@
+const benefitRules = require('../../shared/benefits.json');
+const { DEFAULT_TAX_YEAR, roundCurrency } = require('./rules');
+const { normalizeCreditInputs } = require('./credits');
+const { getFilingDeadlines } = require('./deadlines');
+
+// Benefits paid from July after the tax year to the following June are based on that year's return
+// and adjusted family net income (the claimant's net income plus a spouse's). Each section of
+// shared/benefits.json uses the latest year on or before the tax year; later years are projected.
+const CHILD_RELATIONSHIPS = ['child', 'grandchild'];
+
+// The Canada Workers Benefit has its own parameters in Quebec and Nunavut
+const CWB_EXCLUDED_PROVINCES = ['QC', 'NU'];
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+const toFlag = (value) => value === true || value === 'true';
+
+const getBenefitRules = (taxYear, section) => {
+  const year = Object.keys(benefitRules.years)
+    .filter(key => key <= String(taxYear) && benefitRules.years[key][section])
+    .sort()
+    .pop();
+  if (!year) {
+    throw new Error(`No ${section} parameters for ${taxYear}`);
+  }
+  return { rules: benefitRules.years[year][section], year, projected: year !== String(taxYear) };
+};
+
+// July of the year after the tax year through the following June, as YYYY-MM
+const getBenefitMonths = (taxYear) => Array.from({ length: 12 }, (_, index) => {
+  const month = 6 + index;
+  return `${Number(taxYear) + 1 + Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`;
+});
+
+const toPaymentDate = (month, day) => `${month}-${String(day).padStart(2, '0')}`;
+
+// Equal payments in cents, with rounding left on the last one
+const splitPayments = (annual, dates) => {
+  const amount = roundCurrency(annual / dates.length);
+  return dates.map((date, index) => ({
+    date,
+    amount: index === dates.length - 1 ? roundCurrency(annual - amount * (dates.length - 1)) : amount
+  }));
+};
+
+// Canada Child Benefit for children under 18, reduced by the rate for the number of children on
+// income between the two thresholds and above the second, plus the Child Disability Benefit for
+// infirm children (reduced above the second threshold only)
+const calculateCCB = (children, afni, rules) => {
+  const eligible = children.filter(child => child.age < 18);
+  if (eligible.length === 0) return { benefit: 0, disabilityBenefit: 0 };
+
+  const maximum = eligible.reduce((sum, child) => sum + (child.age < 6 ? rules.maxUnder6 : rules.max6to17), 0);
+  const [firstRate, secondRate] = rules.reductionRates[Math.min(eligible.length, rules.reductionRates.length) - 1];
+  const [firstThreshold, secondThreshold] = rules.thresholds;
+  const reduction = afni <= firstThreshold
+    ? 0
+    : firstRate * (Math.min(afni, secondThreshold) - firstThreshold) + secondRate * Math.max(0, afni - secondThreshold);
+
+  const disabled = eligible.filter(child => child.infirm).length;
+  const disabilityReduction = rules.disability.reductionRates[disabled > 1 ? 1 : 0] * Math.max(0, afni - secondThreshold);
+
+  return {
+    benefit: Math.max(0, maximum - reduction),
+    disabilityBenefit: disabled > 0 ? Math.max(0, disabled * rules.disability.max - disabilityReduction) : 0
+  };
+};
+
+// GST/HST credit: an amount for the claimant and spouse (or the first child of a single parent), an
+// amount per child under 19 and the single supplement, less 5% of family net income over the threshold
+const calculateGSTCredit = (partnered, childCount, netIncome, afni, rules) => {
+  const base = partnered || childCount === 0
+    ? (partnered ? 2 : 1) * rules.adult + childCount * rules.child
+    : 2 * rules.adult + (childCount - 1) * rules.child;
+  const supplement = partnered
+    ? 0
+    : childCount > 0
+      ? rules.singleSupplement
+      : Math.min(rules.singleSupplement, rules.supplementRate * Math.max(0, netIncome - rules.supplementPhaseIn));
+
+  return Math.max(0, base + supplement - rules.reductionRate * Math.max(0, afni - rules.threshold));
+};
+
+// Canada Workers Benefit: 27% of family working income over $3,000 up to the maximum, less 15% of
+// family net income over the threshold, plus the disability supplement for a DTC-eligible claimant
+const calculateCWB = (workingIncome, familyWorkingIncome, afni, hasFamily, disability, rules) => {
+  const params = hasFamily ? rules.family : rules.single;
+  const basic = Math.max(0,
+    Math.min(params.max, rules.phaseInRate * Math.max(0, familyWorkingIncome - rules.workingIncomeThreshold)) -
+    rules.reductionRate * Math.max(0, afni - params.threshold));
+
+  const supplementThreshold = hasFamily ? rules.disability.familyThreshold : rules.disability.singleThreshold;
+  const supplement = disability
+    ? Math.max(0,
+      Math.min(rules.disability.max, rules.phaseInRate * Math.max(0, workingIncome - rules.disability.workingIncomeThreshold)) -
+      rules.reductionRate * Math.max(0, afni - supplementThreshold))
+    : 0;
+
+  return { basic, supplement };
+};
+
+// Ontario Trillium Benefit: the sales tax credit per adult and child and the energy and property tax
+// credit on occupancy cost (property tax plus 20% of rent), each reduced over its own threshold.
+// The Northern Ontario Energy Credit is not estimated.
+const calculateOntarioBenefits = (adults, childrenUnder18, childrenUnder19, afni, age, occupancy, rules) => {
+  const isFamily = adults > 1 || childrenUnder19 > 0;
+  const ocb = Math.max(0, childrenUnder18 * rules.ocb.max - rules.ocb.reductionRate * Math.max(0, afni - rules.ocb.threshold));
+  const ostc = Math.max(0,
+    (adults + childrenUnder19) * rules.ostc.max -
+    rules.ostc.reductionRate * Math.max(0, afni - (isFamily ? rules.ostc.familyThreshold : rules.ostc.singleThreshold)));
+
+  const oeptcOccupancy = occupancy.propertyTaxPaid + rules.oeptc.rentRate * occupancy.rentPaid;
+  const oeptcMax = age !== null && age >= 65 ? rules.oeptc.maxSenior : rules.oeptc.maxNonSenior;
+  const oeptc = oeptcOccupancy > 0
+    ? Math.max(0,
+      Math.min(oeptcOccupancy, oeptcMax) -
+      rules.oeptc.reductionRate * Math.max(0, afni - (isFamily ? rules.oeptc.familyThreshold : rules.oeptc.singleThreshold)))
+    : 0;
+
+  return { ocb, ostc, oeptc };
+};
+
+// Federal climate action incentive / Canada Carbon Rebate paid in the backstop provinces until April
+// 2025: the individual amount for each quarter, plus half for a spouse (or a single parent's first
+// child) and a quarter for each other child under 19, and the rural supplement when it applies
+const calculateClimateRebateHistory = (province, partnered, childCount, rural) => {
+  const { spouseShare, childShare, singleParentFirstChildShare, periods } = benefitRules.climateRebate;
+  const share = 1 +
+    (partnered ? spouseShare : 0) +
+    (childCount > 0 && !partnered ? singleParentFirstChildShare + (childCount - 1) * childShare : childCount * childShare);
+
+  const history = periods
+    .filter(period => period.amounts[province])
+    .map(period => {
+      const factor = share * (1 + (rural ? period.ruralSupplement : 0));
+      const payments = period.dates
+        .map((date, index) => ({ date, amount: roundCurrency(period.amounts[province][index] * factor) }))
+        .filter(payment => payment.amount > 0);
+      return {
+        label: period.label,
+        payments,
+        total: roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0))
+      };
+    });
+
+  return {
+    eligible: history.length > 0,
+    periods: history,
+    total: roundCurrency(history.reduce((sum, period) => sum + period.total, 0))
+  };
+};
+
+const toBenefit = (key, label, annual, payments, projected, note = null) => ({
+  key,
+  label,
+  annual: roundCurrency(annual),
+  payments: annual > 0 ? payments : [],
+  projected,
+  note
+});
+
+// Benefits and refundable credits from a calculated return and the household on it. Children are
+// child or grandchild dependants at the age entered, for the whole benefit year.
+const calculateBenefits = (calculation, province = 'ON', maritalStatus = 'single', creditInputs = {}, benefitInputs = {}) => {
+  const taxYear = calculation.taxYear || DEFAULT_TAX_YEAR;
+  const household = normalizeCreditInputs(creditInputs, maritalStatus);
+  const partnered = household.spouseNetIncome !== null;
+  const afni = calculation.netIncome + (partnered ? household.spouseNetIncome : 0);
+  const children = household.dependants.filter(dependant => CHILD_RELATIONSHIPS.includes(dependant.relationship));
+  const childrenUnder18 = children.filter(child => child.age < 18).length;
+  const childrenUnder19 = children.filter(child => child.age < 19).length;
+  const workingIncome = calculation.incomeSources.employmentIncome + Math.max(0, calculation.incomeSources.businessIncome);
+  const familyWorkingIncome = workingIncome + (partnered ? toAmount(benefitInputs.spouseWorkingIncome) : 0);
+  const months = getBenefitMonths(taxYear);
+  const { lumpSum, paymentDays } = benefitRules;
+  const benefits = [];
+
+  const ccb = getBenefitRules(taxYear, 'ccb');
+  const { benefit, disabilityBenefit } = calculateCCB(children, afni, ccb.rules);
+  const ccbAnnual = benefit + disabilityBenefit;
+  const ccbDates = ccbAnnual < lumpSum.ccbAnnualMinimum
+    ? [toPaymentDate(months[0], paymentDays.ccb)]
+    : months.map(month => toPaymentDate(month, paymentDays.ccb));
+  benefits.push(toBenefit('ccb', 'Canada Child Benefit', ccbAnnual, splitPayments(ccbAnnual, ccbDates), ccb.projected,
+    disabilityBenefit > 0 ? `Includes $${roundCurrency(disabilityBenefit).toLocaleString()} Child Disability Benefit` : null));
+
+  const gst = getBenefitRules(taxYear, 'gstCredit');
+  const gstAnnual = calculateGSTCredit(partnered, childrenUnder19, calculation.netIncome, afni, gst.rules);
+  const gstQuarters = [0, 3, 6, 9].map(index => toPaymentDate(months[index], paymentDays.gstCredit));
+  const gstDates = gstAnnual / 4 < lumpSum.gstCreditQuarterlyMinimum ? [gstQuarters[0]] : gstQuarters;
+  benefits.push(toBenefit('gstCredit', 'GST/HST credit', gstAnnual, splitPayments(gstAnnual, gstDates), gst.projected));
+
+  if (!CWB_EXCLUDED_PROVINCES.includes(province)) {
+    const cwb = getBenefitRules(taxYear, 'cwb');
+    const hasFamily = partnered || childrenUnder19 > 0;
+    const eligible = hasFamily || household.age === null || household.age >= 19;
+    const { basic, supplement } = eligible
+      ? calculateCWB(workingIncome, familyWorkingIncome, afni, hasFamily, household.disability, cwb.rules)
+      : { basic: 0, supplement: 0 };
+    const refundDate = getFilingDeadlines(taxYear).balanceDue;
+    benefits.push(toBenefit('cwb', 'Canada Workers Benefit', basic + supplement, [{ date: refundDate, amount: roundCurrency(basic + supplement) }],
+      cwb.projected, 'Refundable credit on the return (line 45300), paid with your refund'));
+  }
+
+  if (province === 'ON') {
+    const ontario = getBenefitRules(taxYear, 'provincial');
+    const { ocb, ostc, oeptc } = calculateOntarioBenefits(
+      partnered ? 2 : 1,
+      childrenUnder18,
+      childrenUnder19,
+      afni,
+      household.age,
+      { rentPaid: toAmount(benefitInputs.rentPaid), propertyTaxPaid: toAmount(benefitInputs.propertyTaxPaid) },
+      ontario.rules.ON
+    );
+    const otbAnnual = ostc + oeptc;
+    const otbDates = otbAnnual <= lumpSum.otbAnnualMaximum
+      ? [toPaymentDate(months[0], paymentDays.otb)]
+      : months.map(month => toPaymentDate(month, paymentDays.otb));
+    benefits.push(toBenefit('ocb', 'Ontario Child Benefit', ocb,
+      splitPayments(ocb, months.map(month => toPaymentDate(month, paymentDays.ccb))), ontario.projected, 'Paid with the Canada Child Benefit'));
+    benefits.push(toBenefit('otb', 'Ontario Trillium Benefit', otbAnnual, splitPayments(otbAnnual, otbDates), ontario.projected,
+      `Sales tax credit $${roundCurrency(ostc).toLocaleString()}, energy and property tax credit $${roundCurrency(oeptc).toLocaleString()}`));
+  }
+
+  // Payments grouped by month, including any paid before the benefit year starts
+  const schedule = [...new Set(benefits.flatMap(item => item.payments.map(payment => payment.date.slice(0, 7))))]
+    .sort()
+    .map(month => {
+      const amounts = {};
+      benefits.forEach(item => item.payments
+        .filter(payment => payment.date.startsWith(month))
+        .forEach(payment => { amounts[item.key] = roundCurrency((amounts[item.key] || 0) + payment.amount); }));
+      return { month, amounts, total: roundCurrency(Object.values(amounts).reduce((sum, amount) => sum + amount, 0)) };
+    });
+
+  return {
+    taxYear: String(taxYear),
+    province,
+    benefitYear: { start: months[0], end: months[11] },
+    adjustedFamilyNetIncome: roundCurrency(afni),
+    workingIncome: roundCurrency(familyWorkingIncome),
+    children: { under6: children.filter(child => child.age < 6).length, under18: childrenUnder18, under19: childrenUnder19 },
+    benefits,
+    schedule,
+    total: roundCurrency(benefits.reduce((sum, item) => sum + item.annual, 0)),
+    projected: benefits.some(item => item.projected),
+    climateRebate: calculateClimateRebateHistory(province, partnered, childrenUnder19, toFlag(benefitInputs.rural))
+  };
+};
+
+module.exports = {
+  getBenefitRules,
+  calculateCCB,
+  calculateGSTCredit,
+  calculateCWB,
+  calculateBenefits
+};
@@ -0,0 +1,217 @@
+const t2125 = require('../../shared/t2125.json');
+const { roundCurrency } = require('./rules');
+
+// T2125 expense lines, vehicle and home expense categories and CCA classes (shared/t2125.json, shared
+// with the frontend)
+const EXPENSE_KEYS = Object.keys(t2125.expenses);
+const CCA_CLASSES = Object.keys(t2125.ccaClasses);
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+// Business-use percentages default to 100% when left blank
+const toBusinessUseRate = (percent) => {
+  if (percent === undefined || percent === null || percent === '') return 1;
+  return Math.min(Math.max(0, parseFloat(percent) || 0), 100) / 100;
+};
+
+const sumCategories = (amounts = {}, categories) => {
+  return Object.keys(categories).reduce((sum, key) => sum + toAmount(amounts[key]), 0);
+};
+
+const normalizeAsset = (asset = {}) => {
+  if (!t2125.ccaClasses[asset.ccaClass]) {
+    throw new Error(`Unsupported CCA class: ${asset.ccaClass}`);
+  }
+
+  return {
+    ccaClass: asset.ccaClass,
+    description: asset.description || '',
+    openingUcc: toAmount(asset.openingUcc),
+    additions: toAmount(asset.additions),
+    dispositions: toAmount(asset.dispositions),
+    businessUseRate: toBusinessUseRate(asset.businessUsePercent)
+  };
+};
+
+// Capital cost allowance for one asset row (Area A). Passenger vehicles are added at no more than the
+// prescribed cost, only half of net additions are depreciated in the year of purchase (half-year rule),
+// and dispositions above the undepreciated cost are recaptured into income. The business-use share of
+// CCA is claimed, but the class is reduced by the full amount.
+const calculateAssetCCA = (asset, rules) => {
+  const definition = t2125.ccaClasses[asset.ccaClass];
+  const additions = definition.costLimit
+    ? Math.min(asset.additions, rules.selfEmployment[`${definition.costLimit}CostLimit`])
+    : asset.additions;
+  const undepreciated = asset.openingUcc + additions - asset.dispositions;
+  const halfYearAdjustment = definition.halfYearRule ? Math.max(0, additions - asset.dispositions) / 2 : 0;
+  const cca = Math.max(0, undepreciated - halfYearAdjustment) * definition.rate;
+
+  return {
+    ...asset,
+    additions,
+    rate: definition.rate,
+    halfYearAdjustment,
+    cca,
+    claim: cca * asset.businessUseRate,
+    recapture: Math.max(0, -undepreciated) * asset.businessUseRate,
+    closingUcc: Math.max(0, undepreciated - cca)
+  };
+};
+
+// Net business income for one T2125 statement. Meals are 50% deductible, vehicle expenses follow the
+// business share of kilometres driven, and business-use-of-home expenses can only reduce income to
+// zero; the rest (with last year's carryforward) is carried forward to next year.
+const calculateBusinessIncome = (statement = {}, rules) => {
+  const grossIncome = toAmount(statement.grossIncome);
+
+  const expenses = EXPENSE_KEYS.map(key => {
+    const definition = t2125.expenses[key];
+    const amount = toAmount(statement.expenses && statement.expenses[key]);
+    return {
+      key,
+      line: definition.line,
+      label: definition.label,
+      amount,
+      deductible: amount * (definition.deductibleRate || 1)
+    };
+  }).filter(expense => expense.amount > 0);
+  const totalExpenses = expenses.reduce((sum, expense) => sum + expense.deductible, 0);
+
+  const vehicleInput = statement.vehicle || {};
+  const totalKm = toAmount(vehicleInput.totalKm);
+  const vehicleExpenses = sumCategories(vehicleInput.expenses, t2125.vehicleExpenses);
+  const vehicleBusinessUseRate = totalKm > 0 ? Math.min(toAmount(vehicleInput.businessKm) / totalKm, 1) : 0;
+  const vehicle = {
+    businessKm: toAmount(vehicleInput.businessKm),
+    totalKm,
+    businessUseRate: vehicleBusinessUseRate,
+    expenses: vehicleExpenses,
+    deductible: vehicleExpenses * vehicleBusinessUseRate
+  };
+
+  const assets = (Array.isArray(statement.assets) ? statement.assets : [])
+    .map(normalizeAsset)
+    .map(asset => calculateAssetCCA(asset, rules));
+  const cca = assets.reduce((sum, asset) => sum + asset.claim, 0);
+  const recapture = assets.reduce((sum, asset) => sum + asset.recapture, 0);
+
+  const netIncomeBeforeHome = grossIncome + recapture - totalExpenses - vehicle.deductible - cca;
+
+  const homeInput = statement.homeOffice || {};
+  const homeBusinessUseRate = toBusinessUseRate(homeInput.businessUsePercent || 0);
+  const homeExpenses = sumCategories(homeInput.expenses, t2125.homeOfficeExpenses);
+  const homeAvailable = homeExpenses * homeBusinessUseRate + toAmount(homeInput.priorYearCarryforward);
+  const homeDeductible = Math.min(homeAvailable, Math.max(0, netIncomeBeforeHome));
+  const homeOffice = {
+    businessUseRate: homeBusinessUseRate,
+    expenses: homeExpenses,
+    deductible: homeDeductible,
+    carryforward: homeAvailable - homeDeductible
+  };
+
+  return {
+    name: statement.name || '',
+    grossIncome,
+    recapture,
+    expenses,
+    totalExpenses,
+    vehicle,
+    assets,
+    cca,
+    netIncomeBeforeHome,
+    homeOffice,
+    netIncome: netIncomeBeforeHome - homeDeductible
+  };
+};
+
+// All businesses together; net business income (line 13500) can be a loss
+const calculateBusinessStatements = (statements, rules) => {
+  const businesses = (Array.isArray(statements) ? statements : [])
+    .map(statement => calculateBusinessIncome(statement, rules));
+  return {
+    businesses,
+    netIncome: businesses.reduce((sum, business) => sum + business.netIncome, 0)
+  };
+};
+
+// CPP (or QPP) on self-employment earnings is both the employee and the employer share of the extra
+// contribution above what employment earnings already required. The employer half and the enhanced
+// part of the employee half are deductible (lines 22200 and 22215); the base employee half is a credit
+// (line 31000). Quebec residents also pay QPIP on self-employment income (see quebec.js).
+const calculateSelfEmployedCPP = (employmentEarnings, selfEmploymentEarnings, calculatePlan, rules) => {
+  const employee = calculatePlan(employmentEarnings, rules);
+  const combined = calculatePlan(employmentEarnings + Math.max(0, selfEmploymentEarnings), rules);
+  const total = combined.total - employee.total;
+  const deductible = combined.deductible - employee.deductible;
+
+  return {
+    earnings: Math.max(0, selfEmploymentEarnings),
+    total: total * 2,
+    cpp2: (combined.cpp2 - employee.cpp2) * 2,
+    creditable: combined.creditable - employee.creditable,
+    deductible: total + deductible
+  };
+};
+
+// Rounded T2125, self-employed CPP and (in Quebec) self-employed QPIP figures for responses
+const summarizeBusinessIncome = (business) => ({
+  name: business.name,
+  grossIncome: roundCurrency(business.grossIncome),
+  expenses: business.expenses.map(expense => ({
+    ...expense,
+    amount: roundCurrency(expense.amount),
+    deductible: roundCurrency(expense.deductible)
+  })),
+  totalExpenses: roundCurrency(business.totalExpenses),
+  vehicle: {
+    ...business.vehicle,
+    businessUseRate: roundCurrency(business.vehicle.businessUseRate),
+    expenses: roundCurrency(business.vehicle.expenses),
+    deductible: roundCurrency(business.vehicle.deductible)
+  },
+  assets: business.assets.map(asset => ({
+    ccaClass: asset.ccaClass,
+    description: asset.description,
+    rate: asset.rate,
+    openingUcc: roundCurrency(asset.openingUcc),
+    additions: roundCurrency(asset.additions),
+    dispositions: roundCurrency(asset.dispositions),
+    halfYearAdjustment: roundCurrency(asset.halfYearAdjustment),
+    cca: roundCurrency(asset.cca),
+    claim: roundCurrency(asset.claim),
+    recapture: roundCurrency(asset.recapture),
+    closingUcc: roundCurrency(asset.closingUcc)
+  })),
+  cca: roundCurrency(business.cca),
+  recapture: roundCurrency(business.recapture),
+  homeOffice: {
+    businessUseRate: roundCurrency(business.homeOffice.businessUseRate),
+    expenses: roundCurrency(business.homeOffice.expenses),
+    deductible: roundCurrency(business.homeOffice.deductible),
+    carryforward: roundCurrency(business.homeOffice.carryforward)
+  },
+  netIncome: roundCurrency(business.netIncome)
+});
+
+const summarizeSelfEmployment = (statements, selfEmployedCpp, selfEmployedQpip) => ({
+  businesses: statements.businesses.map(summarizeBusinessIncome),
+  netIncome: roundCurrency(statements.netIncome),
+  cppContribution: roundCurrency(selfEmployedCpp.total),
+  cpp2Contribution: roundCurrency(selfEmployedCpp.cpp2),
+  cppDeduction: roundCurrency(selfEmployedCpp.deductible),
+  cppCredit: roundCurrency(selfEmployedCpp.creditable),
+  qpipPremium: roundCurrency(selfEmployedQpip.total),
+  qpipDeduction: roundCurrency(selfEmployedQpip.deductible),
+  qpipCredit: roundCurrency(selfEmployedQpip.creditable)
+});
+
+module.exports = {
+  EXPENSE_KEYS,
+  CCA_CLASSES,
+  normalizeAsset,
+  calculateAssetCCA,
+  calculateBusinessIncome,
+  calculateBusinessStatements,
+  calculateSelfEmployedCPP,
+  summarizeSelfEmployment
+};
@@ -0,0 +1,269 @@
+const {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  calculateBracketTax,
+  getBracketBreakdown,
+  getBracketRate,
+  getFederalBasicPersonalAmount,
+  calculateCPP,
+  calculateEI,
+  calculateOASRecovery,
+  calculateRRSPRoom
+} = require('./rules');
+const { PROVINCE_CODES, getProvincialRules, calculateProvincialTax } = require('./provincial');
+const { normalizeCreditInputs, calculateFederalCredits, calculateProvincialCredits } = require('./credits');
+const { calculateIncomeSources, summarizeIncomeSources } = require('./income');
+const { calculateBusinessStatements, calculateSelfEmployedCPP, summarizeSelfEmployment } = require('./business');
+const { calculateRentalSchedule, summarizeRentalSchedule } = require('./rental');
+const { calculateCapitalGains, summarizeCapitalGains } = require('./capitalGains');
+const { calculateRegisteredAccounts, summarizeRegisteredAccounts } = require('./registeredAccounts');
+const {
+  calculateQPP,
+  calculateQPIP,
+  calculateSelfEmployedQPIP,
+  calculateQuebecEI,
+  calculateFederalAbatement,
+  calculateQuebecTax
+} = require('./quebec');
+
+// Province information
+const SALES_TAX_RATES = {
+  'ON': { hst: 13 },
+  'BC': { pst: 7, gst: 5 },
+  'AB': { gst: 5 },
+  'SK': { pst: 6, gst: 5 },
+  'MB': { pst: 7, gst: 5 },
+  'QC': { qst: 9.975, gst: 5 },
+  'NB': { hst: 15 },
+  'NS': { hst: 15 },
+  'PE': { hst: 15 },
+  'NL': { hst: 15 },
+  'YT': { gst: 5 },
+  'NT': { gst: 5 },
+  'NU': { gst: 5 }
+};
+
+const getProvinceInfo = (province, taxYear = DEFAULT_TAX_YEAR) => {
+  const code = PROVINCE_CODES.includes(province) ? province : 'ON';
+  const provincialRules = getProvincialRules(code, taxYear);
+  return {
+    name: provincialRules.name,
+    basicPersonal: provincialRules.basicPersonalAmount,
+    ...SALES_TAX_RATES[code]
+  };
+};
+
+const getSalesTaxInfo = (province) => {
+  const salesTax = {
+    'ON': 'HST: 13%', 'BC': 'GST: 5% + PST: 7%', 'AB': 'GST: 5%',
+    'SK': 'GST: 5% + PST: 6%', 'MB': 'GST: 5% + PST: 7%',
+    'QC': 'GST: 5% + QST: 9.975%', 'NB': 'HST: 15%', 'NS': 'HST: 15%',
+    'PE': 'HST: 15%', 'NL': 'HST: 15%', 'YT': 'GST: 5%',
+    'NT': 'GST: 5%', 'NU': 'GST: 5%'
+  };
+  return salesTax[province] || 'GST: 5%';
+};
+
+// Federal statutory marginal rate (%) for the given tax year
+const getMarginalRate = (taxableIncome, taxYear = DEFAULT_TAX_YEAR) => {
+  const rules = getTaxYearRules(taxYear);
+  return Math.round(getBracketRate(taxableIncome, rules.federal.brackets) * 1000) / 10;
+};
+
+const generateTaxOptimizations = (income, taxableIncome, rrspRoom, tfsaRoom, taxYear = DEFAULT_TAX_YEAR) => {
+  const optimizations = [];
+  let potentialSavings = 0;
+
+  // Federal tax saved by deducting the room, across any bracket boundaries it crosses (the RRSP
+  // optimizer reruns the full return for combined savings)
+  if (rrspRoom > 0) {
+    const brackets = getTaxYearRules(taxYear).federal.brackets;
+    const rrspSavings = calculateBracketTax(taxableIncome, brackets) -
+      calculateBracketTax(Math.max(0, taxableIncome - rrspRoom), brackets);
+    optimizations.push(`Maximize RRSP contribution: Save $${Math.round(rrspSavings)} in taxes`);
+    potentialSavings += rrspSavings;
+  }
+
+  if (tfsaRoom > 0) {
+    const tfsaGrowth = tfsaRoom * 0.06;
+    optimizations.push(`Use TFSA room: $${tfsaRoom} tax-free growth potential`);
+    potentialSavings += tfsaGrowth * 0.25;
+  }
+
+  if (income > 30000) {
+    optimizations.push('Claim home office expenses if working from home');
+    potentialSavings += 400;
+  }
+
+  return {
+    potentialSavings: Math.round(potentialSavings),
+    recommendedActions: optimizations,
+    confidence: 94
+  };
+};
+
+// Main Canadian Tax Calculation Function
+// `income` is employment income entered without a slip. `creditInputs` are the claimant's non-refundable
+// credit details, spouse net income and dependants, plus information slips (T4, T5, ...), eligible
+// pension income (not subject to CPP/EI), amounts transferred from a spouse, T2125 business statements,
+// T776 rental properties, the ACB ledger of non-registered investments and the RRSP/TFSA/FHSA contribution ledger
+const calculateCanadianTax = (income, deductions, maritalStatus = 'single', province = 'ON', taxYear = DEFAULT_TAX_YEAR, creditInputs = {}) => {
+  const rules = getTaxYearRules(taxYear);
+  const isQuebec = province === 'QC';
+  const credits = normalizeCreditInputs(creditInputs, maritalStatus);
+  const business = calculateBusinessStatements(creditInputs.businesses, rules);
+  const rental = calculateRentalSchedule(creditInputs.rentals, rules);
+  const capitalGains = calculateCapitalGains(creditInputs.investments, taxYear);
+  const sources = calculateIncomeSources(income, credits, creditInputs.slips, rules, {
+    businessIncome: business.netIncome,
+    rentalIncome: rental.netIncome,
+    capitalGains: capitalGains.netGain
+  });
+  const employmentIncome = sources.employmentIncome;
+
+  // CPP and EI (QPP, QPIP and the reduced EI rate in Quebec). Both halves of CPP/QPP are payable on
+  // self-employment earnings, and in Quebec so is QPIP at the self-employed rate; EI is not.
+  const calculatePensionPlan = isQuebec ? calculateQPP : calculateCPP;
+  const cpp = calculatePensionPlan(employmentIncome, rules);
+  const selfEmployedCpp = calculateSelfEmployedCPP(employmentIncome, business.netIncome, calculatePensionPlan, rules);
+  const eiContribution = isQuebec ? calculateQuebecEI(employmentIncome, rules) : calculateEI(employmentIncome, rules);
+  const qpipPremium = isQuebec ? calculateQPIP(employmentIncome, rules) : 0;
+  const selfEmployedQpip = isQuebec
+    ? calculateSelfEmployedQPIP(employmentIncome, business.netIncome, rules)
+    : { earnings: 0, total: 0, creditable: 0, deductible: 0 };
+
+  // Net income is after deductions (including RPP contributions and union dues from T4 slips), the
+  // enhanced CPP/QPP and CPP2 share, the employer half of self-employed CPP/QPP and the employer share of
+  // self-employed QPIP. OAS repayable on
+  // net income above the recovery threshold is deducted (line 23500) and added to tax payable.
+  const totalIncome = sources.totalIncome;
+  const totalDeductions = deductions + sources.rppContributions + sources.unionDues;
+  const pensionPlanDeductible = cpp.deductible + selfEmployedCpp.deductible;
+  const netIncomeBeforeAdjustments = Math.max(0, totalIncome - totalDeductions - pensionPlanDeductible - selfEmployedQpip.deductible);
+  const oasRecovery = calculateOASRecovery(sources.oasPension, netIncomeBeforeAdjustments, rules);
+  const netIncome = netIncomeBeforeAdjustments - oasRecovery;
+
+  // Taxable income: net capital losses of other years (line 25300) only offset taxable capital gains
+  const netCapitalLossDeduction = Math.min(capitalGains.netCapitalLossAvailable, sources.taxableCapitalGains, netIncome);
+  const taxableIncome = netIncome - netCapitalLossDeduction;
+  const basicPersonalAmount = getFederalBasicPersonalAmount(netIncome, rules);
+  const creditClaims = {
+    ...credits,
+    pensionIncome: sources.eligiblePensionIncome,
+    taxableEligibleDividends: sources.taxableEligibleDividends,
+    taxableNonEligibleDividends: sources.taxableNonEligibleDividends
+  };
+
+  // Federal Tax less Schedule 1 credits (Quebec residents receive the refundable abatement)
+  const federalCredits = calculateFederalCredits({
+    ...creditClaims,
+    netIncome,
+    taxableIncome,
+    employmentIncome,
+    cppContributions: cpp.creditable,
+    selfEmployedCppContributions: selfEmployedCpp.creditable,
+    eiPremiums: eiContribution,
+    qpipPremiums: qpipPremium,
+    selfEmployedQpipPremiums: selfEmployedQpip.creditable
+  }, taxYear);
+  const basicFederalTax = Math.max(0, calculateBracketTax(taxableIncome, rules.federal.brackets) - federalCredits.value);
+  const federalAbatement = isQuebec ? calculateFederalAbatement(basicFederalTax, rules) : 0;
+  const federalTax = basicFederalTax - federalAbatement;
+
+  // Provincial Tax (graduated brackets less provincial non-refundable credits; TP-1 for Quebec)
+  const provincialCredits = calculateProvincialCredits({
+    ...creditClaims,
+    netIncome,
+    taxableIncome,
+    cppContributions: isQuebec ? 0 : cpp.creditable,
+    selfEmployedCppContributions: isQuebec ? 0 : selfEmployedCpp.creditable,
+    eiPremiums: isQuebec ? 0 : eiContribution
+  }, province, taxYear);
+  const provincial = isQuebec
+    ? calculateQuebecTax(Math.max(0, totalIncome - totalDeductions), taxYear, {
+      employmentIncome,
+      qppDeductible: pensionPlanDeductible,
+      qpipDeductible: selfEmployedQpip.deductible,
+      netCapitalLossDeduction
+    }, provincialCredits)
+    : calculateProvincialTax(taxableIncome, province, taxYear, provincialCredits);
+  const provincialTax = provincial.totalTax;
+
+  const totalTax = federalTax + provincialTax + oasRecovery;
+  const totalTaxAndContributions = totalTax + cpp.total + selfEmployedCpp.total + selfEmployedQpip.total + eiContribution + qpipPremium;
+  const effectiveRate = totalIncome > 0 ? (totalTaxAndContributions / totalIncome) * 100 : 0;
+
+  // Contribution room: the ledger's RRSP deduction limit and TFSA room when entered, otherwise this
+  // year's earned-income room and annual TFSA limit
+  const earnedIncome = employmentIncome + business.netIncome + rental.netIncome;
+  const registeredAccounts = calculateRegisteredAccounts(creditInputs.registeredAccounts, taxYear, {
+    earnedIncome,
+    pensionAdjustment: sources.pensionAdjustment
+  });
+  const rrspRoom = registeredAccounts.rrsp
+    ? Math.max(0, registeredAccounts.rrsp.deductionLimit - registeredAccounts.rrsp.deduction)
+    : calculateRRSPRoom(earnedIncome, rules);
+  const tfsaRoom = registeredAccounts.tfsa ? registeredAccounts.tfsa.availableRoom : rules.tfsa.limit;
+
+  // Balance owing or refund: income tax and CPP/QPP (and QPIP) payable on self-employment earnings, less tax
+  // withheld at source and CPP/EI deducted above the amounts payable (e.g. with more than one employer)
+  const overpayments = {
+    cpp: sources.cppWithheld > 0 ? Math.max(0, sources.cppWithheld - cpp.total) : 0,
+    ei: sources.eiWithheld > 0 ? Math.max(0, sources.eiWithheld - eiContribution) : 0,
+    qpip: sources.qpipWithheld > 0 ? Math.max(0, sources.qpipWithheld - qpipPremium) : 0
+  };
+  const balance = totalTax + selfEmployedCpp.total + selfEmployedQpip.total - sources.taxWithheld - overpayments.cpp - overpayments.ei - overpayments.qpip;
+
+  const provinceInfo = getProvinceInfo(province, taxYear);
+
+  return {
+    taxYear: String(taxYear),
+    tax: Math.round(totalTaxAndContributions),
+    federalTax: Math.round(federalTax),
+    basicFederalTax: Math.round(basicFederalTax),
+    federalAbatement: Math.round(federalAbatement),
+    federalCredits,
+    federalBrackets: getBracketBreakdown(taxableIncome, rules.federal.brackets),
+    provincialTax: Math.round(provincialTax),
+    provincialBreakdown: provincial,
+    oasRecovery: Math.round(oasRecovery),
+    pensionPlan: isQuebec ? 'QPP' : 'CPP',
+    cppContribution: Math.round(cpp.total),
+    cpp2Contribution: Math.round(cpp.cpp2),
+    eiContribution: Math.round(eiContribution),
+    qpipPremium: Math.round(qpipPremium),
+    selfEmployment: summarizeSelfEmployment(business, selfEmployedCpp, selfEmployedQpip),
+    rental: summarizeRentalSchedule(rental),
+    capitalGains: summarizeCapitalGains(capitalGains, netCapitalLossDeduction),
+    registeredAccounts: summarizeRegisteredAccounts(registeredAccounts),
+    effectiveRate: Math.round(effectiveRate * 100) / 100,
+    incomeSources: summarizeIncomeSources(sources),
+    totalIncome: Math.round(totalIncome),
+    pensionIncome: Math.round(sources.pensionIncome),
+    netIncome: Math.round(netIncome),
+    taxableIncome: Math.round(taxableIncome),
+    basicPersonalAmount: Math.round(basicPersonalAmount),
+    taxWithheld: Math.round(sources.taxWithheld),
+    overpayments: {
+      cpp: Math.round(overpayments.cpp),
+      ei: Math.round(overpayments.ei),
+      qpip: Math.round(overpayments.qpip)
+    },
+    balanceOwing: Math.round(Math.max(0, balance)),
+    refund: Math.round(Math.max(0, -balance)),
+    rrspRoom: Math.round(rrspRoom),
+    tfsaRoom: Math.round(tfsaRoom),
+    marginalRate: getMarginalRate(taxableIncome, taxYear),
+    provinceName: provinceInfo.name,
+    salesTax: getSalesTaxInfo(province),
+    aiOptimizations: generateTaxOptimizations(totalIncome, taxableIncome, rrspRoom, tfsaRoom, taxYear)
+  };
+};
+
+module.exports = {
+  getProvinceInfo,
+  getSalesTaxInfo,
+  getMarginalRate,
+  generateTaxOptimizations,
+  calculateCanadianTax
+};
@@ -0,0 +1,59 @@
+const { calculateCanadianTax } = require('./calculator');
+const { calculateBracketTax, getFederalBasicPersonalAmount, getTaxYearRules } = require('./rules');
+
+// Expected amounts are worked by hand from the CRA's 2024 T1 General and ON428 rates and amounts
+describe('calculateCanadianTax (2024)', () => {
+  const rules = getTaxYearRules('2024');
+
+  test('federal brackets: 15% to $55,867, 20.5% to $111,733, 26% to $173,205, 29% to $246,752, then 33%', () => {
+    expect(calculateBracketTax(55867, rules.federal.brackets)).toBeCloseTo(8380.05, 2);
+    expect(calculateBracketTax(111733, rules.federal.brackets)).toBeCloseTo(19832.58, 2);
+    expect(calculateBracketTax(173205, rules.federal.brackets)).toBeCloseTo(35815.30, 2);
+    expect(calculateBracketTax(246752, rules.federal.brackets)).toBeCloseTo(57143.93, 2);
+    expect(calculateBracketTax(300000, rules.federal.brackets)).toBeCloseTo(74715.77, 2);
+  });
+
+  test('basic personal amount is $15,705, reduced to $14,156 from $246,752 of net income', () => {
+    expect(getFederalBasicPersonalAmount(173205, rules)).toBe(15705);
+    expect(getFederalBasicPersonalAmount(246752, rules)).toBe(14156);
+    expect(getFederalBasicPersonalAmount(209978.5, rules)).toBeCloseTo(14930.5, 1);
+  });
+
+  test('$60,000 of employment income in Ontario', () => {
+    const result = calculateCanadianTax(60000, 0, 'single', 'ON', '2024');
+
+    // CPP: 5.95% of $56,500 above the exemption; the 1% enhancement ($565) is deducted from income
+    expect(result.cppContribution).toBe(3362);
+    expect(result.cpp2Contribution).toBe(0);
+    expect(result.eiContribution).toBe(996);
+    expect(result.netIncome).toBe(59435);
+    expect(result.taxableIncome).toBe(59435);
+
+    // $9,111.49 on the brackets less 15% of the BPA, base CPP, EI and Canada employment amount
+    expect(result.federalTax).toBe(5972);
+    expect(result.marginalRate).toBe(20.5);
+
+    // $3,329.02 on the brackets less 5.05% of $12,399, base CPP and EI, plus the $600 health premium
+    expect(result.provincialBreakdown.basicTax).toBeCloseTo(3329.02, 2);
+    expect(result.provincialBreakdown.taxAfterCredits).toBeCloseTo(2511.34, 2);
+    expect(result.provincialBreakdown.surtax).toBe(0);
+    expect(result.provincialBreakdown.healthPremium).toBe(600);
+    expect(result.provincialTax).toBe(3111);
+  });
+
+  test('$250,000 in Ontario reaches the contribution maximums and the reduced basic personal amount', () => {
+    const result = calculateCanadianTax(250000, 0, 'single', 'ON', '2024');
+
+    // $3,867.50 of CPP and $188 of CPP2; EI is 1.66% of the $63,200 maximum insurable earnings
+    expect(result.cppContribution).toBe(4056);
+    expect(result.cpp2Contribution).toBe(188);
+    expect(result.eiContribution).toBe(1049);
+    expect(result.basicPersonalAmount).toBe(14156);
+    expect(result.marginalRate).toBe(33);
+    expect(result.provincialBreakdown.surtax).toBeGreaterThan(0);
+  });
+
+  test('a tax year without rules is refused', () => {
+    expect(() => calculateCanadianTax(60000, 0, 'single', 'ON', '2019')).toThrow('Unsupported tax year: 2019');
+  });
+});
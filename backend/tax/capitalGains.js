@@ -0,0 +1,376 @@
+const { isSupportedTaxYear, getTaxYearRules, roundCurrency } = require('./rules');
+
+// Adjusted cost base (ACB) ledger for non-registered securities. Transactions: buys and sells (amount is
+// the total price, commission the outlays), return of capital (amount received) and splits or
+// consolidations (ratio of new shares to old, e.g. 2 for a 2-for-1 split).
+const TRANSACTION_TYPES = ['buy', 'sell', 'returnOfCapital', 'split'];
+
+// Identical property bought within 30 days before or after a loss, and still held 30 days after
+const SUPERFICIAL_LOSS_DAYS = 30;
+
+// Net capital losses can be carried back three years and forward indefinitely
+const CARRYBACK_YEARS = 3;
+
+// Years before the rule tables: one-half inclusion since October 2000
+const DEFAULT_INCLUSION_RATE = 0.5;
+
+const SHARE_TOLERANCE = 1e-9;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const getInclusionRate = (taxYear) => (isSupportedTaxYear(taxYear)
+  ? getTaxYearRules(taxYear).investmentIncome.capitalGainsInclusionRate
+  : DEFAULT_INCLUSION_RATE);
+
+const addDays = (date, days) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+const getSecurityKey = (security) => String(security || '').trim().toUpperCase();
+
+const normalizeTransaction = (transaction = {}) => {
+  if (!TRANSACTION_TYPES.includes(transaction.type)) {
+    throw new Error(`Unsupported transaction type: ${transaction.type}`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(transaction.date || ''))) {
+    throw new Error(`Invalid transaction date: ${transaction.date}`);
+  }
+
+  return {
+    id: transaction.id || '',
+    security: getSecurityKey(transaction.security),
+    date: transaction.date,
+    type: transaction.type,
+    quantity: toAmount(transaction.quantity),
+    amount: toAmount(transaction.amount),
+    commission: toAmount(transaction.commission),
+    ratio: toAmount(transaction.ratio),
+    source: transaction.source || ''
+  };
+};
+
+// Shares held after the last transaction on or before `date`
+const getSharesHeld = (transactions, date) => transactions
+  .filter(transaction => transaction.date <= date)
+  .reduce((shares, transaction) => {
+    if (transaction.type === 'buy') return shares + transaction.quantity;
+    if (transaction.type === 'sell') return shares - transaction.quantity;
+    if (transaction.type === 'split') return shares * transaction.ratio;
+    return shares;
+  }, 0);
+
+// A loss is superficial to the extent of the fewest of the shares sold, the shares bought in the 61-day
+// window around the sale and the shares still held at the end of it. The denied loss is added to the
+// ACB of the shares still held (or of the next shares bought).
+const getSuperficialShares = (transactions, sale) => {
+  const windowStart = addDays(sale.date, -SUPERFICIAL_LOSS_DAYS);
+  const windowEnd = addDays(sale.date, SUPERFICIAL_LOSS_DAYS);
+  const acquired = transactions
+    .filter(transaction => transaction.type === 'buy' && transaction.date >= windowStart && transaction.date <= windowEnd)
+    .reduce((sum, transaction) => sum + transaction.quantity, 0);
+  return Math.max(0, Math.min(sale.quantity, acquired, getSharesHeld(transactions, windowEnd)));
+};
+
+// One security's transactions in date order (same-day transactions in the order entered)
+const calculateSecurityLedger = (security, transactions) => {
+  let shares = 0;
+  let acb = 0;
+  let pendingSuperficialLoss = 0;
+  const dispositions = [];
+
+  transactions.forEach(transaction => {
+    const base = { id: transaction.id, security, date: transaction.date, taxYear: transaction.date.slice(0, 4) };
+
+    if (transaction.type === 'buy') {
+      shares += transaction.quantity;
+      acb += transaction.amount + transaction.commission + pendingSuperficialLoss;
+      pendingSuperficialLoss = 0;
+    } else if (transaction.type === 'sell') {
+      if (transaction.quantity > shares + SHARE_TOLERANCE) {
+        throw new Error(`Cannot sell ${transaction.quantity} ${security} on ${transaction.date}: only ${shares} held`);
+      }
+
+      const cost = shares > 0 ? acb * transaction.quantity / shares : 0;
+      const loss = Math.max(0, cost + transaction.commission - transaction.amount);
+      const superficialLoss = loss > 0
+        ? loss * getSuperficialShares(transactions, transaction) / transaction.quantity
+        : 0;
+
+      shares -= transaction.quantity;
+      acb -= cost;
+      if (shares > SHARE_TOLERANCE) {
+        acb += superficialLoss;
+      } else {
+        shares = 0;
+        acb = 0;
+        pendingSuperficialLoss += superficialLoss;
+      }
+
+      dispositions.push({
+        ...base,
+        type: 'sell',
+        quantity: transaction.quantity,
+        proceeds: transaction.amount,
+        acb: cost,
+        outlays: transaction.commission,
+        superficialLoss,
+        gain: transaction.amount - cost - transaction.commission + superficialLoss
+      });
+    } else if (transaction.type === 'returnOfCapital') {
+      acb -= transaction.amount;
+      // A negative ACB is a capital gain in the year, and the ACB resets to nil
+      if (acb < 0) {
+        dispositions.push({
+          ...base,
+          type: 'negativeAcb',
+          quantity: 0,
+          proceeds: -acb,
+          acb: 0,
+          outlays: 0,
+          superficialLoss: 0,
+          gain: -acb
+        });
+        acb = 0;
+      }
+    } else if (transaction.type === 'split') {
+      shares *= transaction.ratio;
+    }
+  });
+
+  return {
+    security,
+    shares,
+    acb,
+    acbPerShare: shares > 0 ? acb / shares : 0,
+    pendingSuperficialLoss,
+    dispositions
+  };
+};
+
+// Every security in the ledger, with all dispositions in date order
+const calculateInvestmentLedger = (transactions) => {
+  const normalized = (Array.isArray(transactions) ? transactions : []).map(normalizeTransaction);
+  const bySecurity = new Map();
+  normalized
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date) || a.index - b.index)
+    .forEach(({ transaction }) => {
+      if (!bySecurity.has(transaction.security)) bySecurity.set(transaction.security, []);
+      bySecurity.get(transaction.security).push(transaction);
+    });
+
+  const securities = [...bySecurity.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([security, securityTransactions]) => calculateSecurityLedger(security, securityTransactions));
+
+  return {
+    securities,
+    dispositions: securities
+      .flatMap(security => security.dispositions)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  };
+};
+
+// Schedule 3 totals for one year's dispositions. Gains and losses are netted.
+const summarizeDispositions = (dispositions, taxYear) => {
+  const yearDispositions = dispositions.filter(disposition => disposition.taxYear === String(taxYear));
+  const total = (key) => yearDispositions.reduce((sum, disposition) => sum + disposition[key], 0);
+
+  return {
+    dispositions: yearDispositions,
+    proceeds: total('proceeds'),
+    acb: total('acb'),
+    outlays: total('outlays'),
+    superficialLosses: total('superficialLoss'),
+    netGain: total('gain')
+  };
+};
+
+// Net capital losses year by year, in taxable (included) amounts. A year's net loss is first carried
+// back to the three prior years' remaining taxable gains (form T1A), oldest first, and the rest carried
+// forward; carried-forward losses are applied against later taxable gains (line 25300), oldest first.
+// Losses from years with a different inclusion rate are adjusted to the rate of the year applied.
+// `priorNetCapitalLosses` are unapplied losses from before the ledger (from a Notice of Assessment).
+const calculateCapitalLossHistory = (dispositions, priorNetCapitalLosses = 0) => {
+  const years = [...new Set(dispositions.map(disposition => disposition.taxYear))].sort();
+  const pool = [];
+  const priorLosses = toAmount(priorNetCapitalLosses);
+  if (priorLosses > 0) pool.push({ taxYear: null, amount: priorLosses, rate: DEFAULT_INCLUSION_RATE });
+
+  const remainingGains = {};
+  const history = years.map(taxYear => {
+    const rate = getInclusionRate(taxYear);
+    const { proceeds, acb, outlays, superficialLosses, netGain } = summarizeDispositions(dispositions, taxYear);
+    const openingBalance = pool.reduce((sum, loss) => sum + loss.amount * rate / loss.rate, 0);
+    const taxableGain = Math.max(0, netGain) * rate;
+    const netCapitalLoss = Math.max(0, -netGain) * rate;
+
+    let lossApplied = 0;
+    pool.forEach(loss => {
+      const applied = Math.min(loss.amount * rate / loss.rate, taxableGain - lossApplied);
+      loss.amount -= applied * loss.rate / rate;
+      lossApplied += applied;
+    });
+    remainingGains[taxYear] = taxableGain - lossApplied;
+
+    let unapplied = netCapitalLoss;
+    const carriedBack = [];
+    for (let year = Number(taxYear) - CARRYBACK_YEARS; year < Number(taxYear); year++) {
+      const available = remainingGains[String(year)] || 0;
+      if (available > 0 && unapplied > 0) {
+        const priorRate = getInclusionRate(year);
+        const amount = Math.min(unapplied * priorRate / rate, available);
+        remainingGains[String(year)] -= amount;
+        unapplied -= amount * rate / priorRate;
+        carriedBack.push({ taxYear: String(year), amount });
+      }
+    }
+    if (unapplied > 0) pool.push({ taxYear, amount: unapplied, rate });
+
+    return {
+      taxYear,
+      proceeds,
+      acb,
+      outlays,
+      superficialLosses,
+      netGain,
+      inclusionRate: rate,
+      taxableGain,
+      netCapitalLoss,
+      openingBalance,
+      lossApplied,
+      carriedBack,
+      closingBalance: pool.reduce((sum, loss) => sum + loss.amount * rate / loss.rate, 0)
+    };
+  });
+
+  // Net capital losses available to carry into a year, at that year's inclusion rate
+  const getAvailableLosses = (taxYear) => {
+    const rate = getInclusionRate(taxYear);
+    const previous = history.filter(year => year.taxYear < String(taxYear)).pop();
+    if (!previous) return priorLosses * rate / DEFAULT_INCLUSION_RATE;
+    return previous.closingBalance * rate / previous.inclusionRate;
+  };
+
+  return { years: history, getAvailableLosses };
+};
+
+// A tax year's Schedule 3 from the ledger, with the net capital losses available from earlier years,
+// the year's net capital loss carried back (form T1A) and the securities the ledger still holds
+const calculateCapitalGains = (investments = {}, taxYear) => {
+  const ledger = calculateInvestmentLedger(investments.transactions);
+  const history = calculateCapitalLossHistory(ledger.dispositions, investments.priorNetCapitalLosses);
+  const year = history.years.find(entry => entry.taxYear === String(taxYear));
+
+  return {
+    ...summarizeDispositions(ledger.dispositions, taxYear),
+    netCapitalLossAvailable: history.getAvailableLosses(taxYear),
+    carriedBack: year ? year.carriedBack : [],
+    holdings: ledger.securities.filter(security => security.shares > 0)
+  };
+};
+
+// Ledger transactions from T5008 records (box 15 settlement date, box 16 quantity, box 17 security,
+// box 20 cost or book value, box 21 proceeds). Where the ledger does not hold enough shares before the
+// sale, the shortfall is added as a buy at the slip's book value so the slip's cost is used.
+const importT5008 = (transactions, records) => {
+  const ledger = (Array.isArray(transactions) ? transactions : []).slice();
+
+  records.forEach(record => {
+    const security = getSecurityKey(record.security);
+    const date = record.settlementDate;
+    const quantity = toAmount(record.quantity);
+    const held = getSharesHeld(
+      ledger.filter(transaction => getSecurityKey(transaction.security) === security).map(normalizeTransaction),
+      date
+    );
+    const shortfall = Math.max(0, quantity - Math.max(0, held));
+
+    if (shortfall > SHARE_TOLERANCE) {
+      ledger.push({
+        security,
+        date,
+        type: 'buy',
+        quantity: String(shortfall),
+        amount: String(roundCurrency(toAmount(record.cost) * shortfall / quantity)),
+        commission: '',
+        source: 'T5008'
+      });
+    }
+    ledger.push({
+      security,
+      date,
+      type: 'sell',
+      quantity: String(quantity),
+      amount: String(toAmount(record.proceeds)),
+      commission: '',
+      source: 'T5008'
+    });
+  });
+
+  return ledger;
+};
+
+// Rounded figures for responses
+const summarizeDisposition = (disposition) => ({
+  ...disposition,
+  proceeds: roundCurrency(disposition.proceeds),
+  acb: roundCurrency(disposition.acb),
+  outlays: roundCurrency(disposition.outlays),
+  superficialLoss: roundCurrency(disposition.superficialLoss),
+  gain: roundCurrency(disposition.gain)
+});
+
+const summarizeSecurity = (security) => ({
+  security: security.security,
+  shares: security.shares,
+  acb: roundCurrency(security.acb),
+  acbPerShare: Math.round(security.acbPerShare * 10000) / 10000,
+  pendingSuperficialLoss: roundCurrency(security.pendingSuperficialLoss)
+});
+
+const summarizeInvestmentLedger = (ledger) => ({
+  securities: ledger.securities.map(summarizeSecurity),
+  dispositions: ledger.dispositions.map(summarizeDisposition)
+});
+
+const summarizeCapitalLossHistory = (history) => history.years.map(year => ({
+  ...year,
+  proceeds: roundCurrency(year.proceeds),
+  acb: roundCurrency(year.acb),
+  outlays: roundCurrency(year.outlays),
+  superficialLosses: roundCurrency(year.superficialLosses),
+  netGain: roundCurrency(year.netGain),
+  taxableGain: roundCurrency(year.taxableGain),
+  netCapitalLoss: roundCurrency(year.netCapitalLoss),
+  openingBalance: roundCurrency(year.openingBalance),
+  lossApplied: roundCurrency(year.lossApplied),
+  carriedBack: year.carriedBack.map(carryback => ({ ...carryback, amount: roundCurrency(carryback.amount) })),
+  closingBalance: roundCurrency(year.closingBalance)
+}));
+
+const summarizeCapitalGains = (capitalGains, netCapitalLossDeduction) => ({
+  dispositions: capitalGains.dispositions.map(summarizeDisposition),
+  proceeds: roundCurrency(capitalGains.proceeds),
+  acb: roundCurrency(capitalGains.acb),
+  outlays: roundCurrency(capitalGains.outlays),
+  superficialLosses: roundCurrency(capitalGains.superficialLosses),
+  netGain: roundCurrency(capitalGains.netGain),
+  netCapitalLossAvailable: roundCurrency(capitalGains.netCapitalLossAvailable),
+  netCapitalLossDeduction: roundCurrency(netCapitalLossDeduction),
+  carriedBack: capitalGains.carriedBack.map(carryback => ({ ...carryback, amount: roundCurrency(carryback.amount) })),
+  holdings: capitalGains.holdings.map(summarizeSecurity)
+});
+
+module.exports = {
+  TRANSACTION_TYPES,
+  calculateInvestmentLedger,
+  calculateCapitalLossHistory,
+  calculateCapitalGains,
+  importT5008,
+  summarizeInvestmentLedger,
+  summarizeCapitalLossHistory,
+  summarizeCapitalGains
+};
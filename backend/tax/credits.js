@@ -0,0 +1,232 @@
+const {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  getFederalBasicPersonalAmount,
+  roundCurrency
+} = require('./rules');
+const { getProvincialRules, getProvincialBasicPersonalAmount, getProvincialCreditRate } = require('./provincial');
+const { calculateDividendTaxCredit } = require('./income');
+
+// CRA marital statuses (T1 identification); only married and common-law claimants have a spouse
+const MARITAL_STATUSES = ['single', 'married', 'common_law', 'separated', 'divorced', 'widowed'];
+const PARTNERED_STATUSES = ['married', 'common_law'];
+const DEPENDANT_RELATIONSHIPS = ['child', 'grandchild', 'sibling', 'parent', 'grandparent', 'other'];
+
+// Schedule 1 lines for each non-refundable credit amount
+const CREDIT_LINES = {
+  basicPersonalAmount: { line: '30000', label: 'Basic personal amount' },
+  ageAmount: { line: '30100', label: 'Age amount' },
+  spouseAmount: { line: '30300', label: 'Spouse or common-law partner amount' },
+  eligibleDependantAmount: { line: '30400', label: 'Amount for an eligible dependant' },
+  cppContributions: { line: '30800', label: 'CPP or QPP contributions' },
+  selfEmployedCppContributions: { line: '31000', label: 'CPP or QPP contributions on self-employment income' },
+  eiPremiums: { line: '31200', label: 'Employment insurance premiums' },
+  qpipPremiums: { line: '31205', label: 'PPIP premiums' },
+  selfEmployedQpipPremiums: { line: '31210', label: 'PPIP premiums on self-employment income' },
+  canadaEmploymentAmount: { line: '31260', label: 'Canada employment amount' },
+  pensionIncomeAmount: { line: '31400', label: 'Pension income amount' },
+  disabilityAmount: { line: '31600', label: 'Disability amount' },
+  tuition: { line: '32300', label: 'Tuition amount' },
+  spouseTransfer: { line: '32600', label: 'Amounts transferred from your spouse or common-law partner' },
+  medicalExpenses: { line: '33200', label: 'Allowable medical expenses' }
+};
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const toFlag = (value) => value === true || value === 'true';
+
+const normalizeDependant = (dependant = {}) => ({
+  age: parseInt(dependant.age, 10) || 0,
+  netIncome: toAmount(dependant.netIncome),
+  relationship: DEPENDANT_RELATIONSHIPS.includes(dependant.relationship) ? dependant.relationship : 'other',
+  infirm: toFlag(dependant.infirm)
+});
+
+// Request/form payloads carry credit inputs as strings; the engine works in numbers.
+// The spouse's net income only counts for married and common-law claimants.
+const normalizeCreditInputs = (credits = {}, maritalStatus = 'single') => ({
+  age: credits.age === undefined || credits.age === '' ? null : parseInt(credits.age, 10),
+  maritalStatus: MARITAL_STATUSES.includes(maritalStatus) ? maritalStatus : 'single',
+  spouseNetIncome: PARTNERED_STATUSES.includes(maritalStatus) ? toAmount(credits.spouseNetIncome) : null,
+  dependants: Array.isArray(credits.dependants) ? credits.dependants.map(normalizeDependant) : [],
+  tuition: toAmount(credits.tuition),
+  medicalExpenses: toAmount(credits.medicalExpenses),
+  donations: toAmount(credits.donations),
+  disability: toFlag(credits.disability),
+  pensionIncome: toAmount(credits.pensionIncome),
+  spouseTransfer: {
+    federal: toAmount(credits.spouseTransfer && credits.spouseTransfer.federal),
+    provincial: toAmount(credits.spouseTransfer && credits.spouseTransfer.provincial)
+  }
+});
+
+// Age amount (65+), reduced by 15% of net income above the threshold
+const getAgeAmount = (age, netIncome, ageRules) => {
+  if (age === null || age < ageRules.minAge) return 0;
+  return Math.max(0, ageRules.amount - Math.max(0, netIncome - ageRules.phaseOutStart) * ageRules.reductionRate);
+};
+
+// Spouse amount is the claimant's basic amount less the spouse's net income
+const getSpouseAmount = (spouseNetIncome, basicAmount) => {
+  if (spouseNetIncome === null) return 0;
+  return Math.max(0, basicAmount - spouseNetIncome);
+};
+
+// Eligible dependant (line 30400): claimants without a spouse supporting a parent or grandparent, or a
+// child, grandchild or sibling under 18 or infirm. Only one dependant can be claimed, so take the largest.
+const isEligibleDependant = (dependant) => {
+  if (['parent', 'grandparent'].includes(dependant.relationship)) return true;
+  if (['child', 'grandchild', 'sibling'].includes(dependant.relationship)) return dependant.age < 18 || dependant.infirm;
+  return false;
+};
+
+const getEligibleDependantAmount = (claims, basicAmount) => {
+  if (PARTNERED_STATUSES.includes(claims.maritalStatus)) return 0;
+  return claims.dependants
+    .filter(isEligibleDependant)
+    .reduce((best, dependant) => Math.max(best, basicAmount - dependant.netIncome), 0);
+};
+
+// Pension income amount (line 31400) on eligible pension income, including pension income split in
+const getPensionIncomeAmount = (pensionIncome, creditRules) => {
+  return Math.min(Math.max(0, pensionIncome || 0), creditRules.pensionIncomeAmount);
+};
+
+// Medical expenses above the lesser of 3% of net income and the annual cap (Quebec has no cap)
+const getAllowableMedicalExpenses = (medicalExpenses, netIncome, medicalRules) => {
+  const threshold = medicalRules.maxThreshold === null
+    ? netIncome * medicalRules.thresholdRate
+    : Math.min(netIncome * medicalRules.thresholdRate, medicalRules.maxThreshold);
+  return Math.max(0, medicalExpenses - threshold);
+};
+
+// Donations: first $200 at the low rate, the rest at the high rate, with the top rate applied to the
+// portion matched by taxable income in the top bracket. Claims are limited to 75% of net income.
+const calculateDonationCredit = (donations, netIncome, taxableIncome, rates, donationRules) => {
+  const eligible = Math.min(donations, netIncome * donationRules.netIncomeLimitRate);
+  const lowPortion = Math.min(eligible, donationRules.lowRateLimit);
+  const remainder = eligible - lowPortion;
+  const topPortion = rates.topRateThreshold === null
+    ? 0
+    : Math.min(remainder, Math.max(0, taxableIncome - rates.topRateThreshold));
+
+  return {
+    eligible,
+    credit: lowPortion * rates.lowRate + topPortion * rates.topRate + (remainder - topPortion) * rates.highRate
+  };
+};
+
+// The dividend tax credit is not a Schedule 1 amount but reduces tax alongside the credits
+const buildCreditSummary = (amounts, rate, donations, dividendTaxCredit = 0) => {
+  const lines = Object.entries(amounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([key, amount]) => ({ ...CREDIT_LINES[key], key, amount: roundCurrency(amount) }));
+  const totalAmount = Object.values(amounts).reduce((sum, amount) => sum + amount, 0);
+
+  return {
+    lines,
+    totalAmount: roundCurrency(totalAmount),
+    rate,
+    amountsValue: roundCurrency(totalAmount * rate),
+    donations: roundCurrency(donations.eligible),
+    donationCredit: roundCurrency(donations.credit),
+    dividendTaxCredit: roundCurrency(dividendTaxCredit),
+    value: roundCurrency(totalAmount * rate + donations.credit + dividendTaxCredit)
+  };
+};
+
+// Federal non-refundable credits (Schedule 1), valued at the lowest federal rate
+const calculateFederalCredits = (inputs, taxYear = DEFAULT_TAX_YEAR) => {
+  const rules = getTaxYearRules(taxYear);
+  const creditRules = rules.federal.credits;
+  const brackets = rules.federal.brackets;
+  const { netIncome, taxableIncome = netIncome, employmentIncome = 0 } = inputs;
+  const basicPersonalAmount = getFederalBasicPersonalAmount(netIncome, rules);
+
+  const amounts = {
+    basicPersonalAmount,
+    ageAmount: getAgeAmount(inputs.age, netIncome, creditRules.ageAmount),
+    spouseAmount: getSpouseAmount(inputs.spouseNetIncome, basicPersonalAmount),
+    eligibleDependantAmount: getEligibleDependantAmount(inputs, basicPersonalAmount),
+    cppContributions: inputs.cppContributions || 0,
+    selfEmployedCppContributions: inputs.selfEmployedCppContributions || 0,
+    eiPremiums: inputs.eiPremiums || 0,
+    qpipPremiums: inputs.qpipPremiums || 0,
+    selfEmployedQpipPremiums: inputs.selfEmployedQpipPremiums || 0,
+    canadaEmploymentAmount: Math.min(Math.max(0, employmentIncome), creditRules.canadaEmploymentAmount),
+    pensionIncomeAmount: getPensionIncomeAmount(inputs.pensionIncome, creditRules),
+    disabilityAmount: inputs.disability ? creditRules.disabilityAmount : 0,
+    tuition: inputs.tuition || 0,
+    spouseTransfer: inputs.spouseTransfer ? inputs.spouseTransfer.federal : 0,
+    medicalExpenses: getAllowableMedicalExpenses(inputs.medicalExpenses || 0, netIncome, creditRules.medicalExpenses)
+  };
+
+  const rate = brackets[0].rate;
+  const donations = calculateDonationCredit(inputs.donations || 0, netIncome, taxableIncome, {
+    lowRate: rate,
+    highRate: creditRules.donations.highRate,
+    topRate: creditRules.donations.topRate,
+    topRateThreshold: brackets[brackets.length - 1].min
+  }, creditRules.donations);
+  const { eligible, nonEligible } = rules.investmentIncome.dividends;
+  const dividendTaxCredit = calculateDividendTaxCredit(inputs, {
+    eligible: eligible.federalCreditRate,
+    nonEligible: nonEligible.federalCreditRate
+  });
+
+  return buildCreditSummary(amounts, rate, donations, dividendTaxCredit);
+};
+
+// Provincial credits use the province's basic amount, credit rate and its own age, pension income,
+// disability and medical expense amounts; the Canada employment amount is federal only. Donations are
+// valued at the province's own rates (a top rate in BC and Quebec, Alberta's 60% on the first $200), with
+// the federal limits.
+const calculateProvincialCredits = (inputs, province, taxYear = DEFAULT_TAX_YEAR) => {
+  const rules = getTaxYearRules(taxYear);
+  const provincialRules = getProvincialRules(province, taxYear);
+  const creditRules = provincialRules.credits;
+  const { netIncome, taxableIncome = netIncome } = inputs;
+  const basicPersonalAmount = getProvincialBasicPersonalAmount(netIncome, province, taxYear);
+
+  const amounts = {
+    basicPersonalAmount,
+    ageAmount: getAgeAmount(inputs.age, netIncome, creditRules.ageAmount),
+    spouseAmount: getSpouseAmount(inputs.spouseNetIncome, basicPersonalAmount),
+    eligibleDependantAmount: getEligibleDependantAmount(inputs, basicPersonalAmount),
+    cppContributions: inputs.cppContributions || 0,
+    selfEmployedCppContributions: inputs.selfEmployedCppContributions || 0,
+    eiPremiums: inputs.eiPremiums || 0,
+    pensionIncomeAmount: getPensionIncomeAmount(inputs.pensionIncome, creditRules),
+    disabilityAmount: inputs.disability ? creditRules.disabilityAmount : 0,
+    tuition: provincialRules.tuitionCredit === false ? 0 : inputs.tuition || 0,
+    spouseTransfer: inputs.spouseTransfer ? inputs.spouseTransfer.provincial : 0,
+    medicalExpenses: getAllowableMedicalExpenses(inputs.medicalExpenses || 0, netIncome, creditRules.medicalExpenses)
+  };
+
+  const rate = getProvincialCreditRate(provincialRules);
+  const donationRates = creditRules.donations;
+  const topBracket = provincialRules.brackets[provincialRules.brackets.length - 1];
+  const donations = calculateDonationCredit(inputs.donations || 0, netIncome, taxableIncome, {
+    ...donationRates,
+    topRateThreshold: donationRates.topRate === null ? null : topBracket.min
+  }, rules.federal.credits.donations);
+  const dividendTaxCredit = calculateDividendTaxCredit(inputs, provincialRules.dividendTaxCredit);
+
+  return buildCreditSummary(amounts, rate, donations, dividendTaxCredit);
+};
+
+module.exports = {
+  MARITAL_STATUSES,
+  PARTNERED_STATUSES,
+  DEPENDANT_RELATIONSHIPS,
+  CREDIT_LINES,
+  normalizeCreditInputs,
+  getAgeAmount,
+  getSpouseAmount,
+  getEligibleDependantAmount,
+  getPensionIncomeAmount,
+  getAllowableMedicalExpenses,
+  calculateDonationCredit,
+  calculateFederalCredits,
+  calculateProvincialCredits
+};
@@ -0,0 +1,33 @@
+const { normalizeCreditInputs, calculateProvincialCredits } = require('./credits');
+
+const claim = (netIncome, donations) => ({ ...normalizeCreditInputs({ donations }), netIncome });
+
+// Donation credits worked from the 2024 ON428, AB428 and TP-1 rates
+describe('calculateProvincialCredits donations (2024)', () => {
+  const inputs = claim(60000, 1000);
+
+  test('Ontario: 5.05% on the first $200 and 11.16% above', () => {
+    const credits = calculateProvincialCredits(inputs, 'ON', '2024');
+    expect(credits.donations).toBe(1000);
+    expect(credits.donationCredit).toBeCloseTo(99.38, 2);
+  });
+
+  test('Alberta: 60% on the first $200 and 21% above', () => {
+    const credits = calculateProvincialCredits(inputs, 'AB', '2024');
+    expect(credits.donationCredit).toBeCloseTo(288, 2);
+  });
+
+  test('Quebec: 20% on the first $200, 24% above and 25.75% on the part matched by income over $126,000', () => {
+    expect(calculateProvincialCredits(inputs, 'QC', '2024').donationCredit).toBeCloseTo(232, 2);
+
+    const credits = calculateProvincialCredits(claim(130000, 10200), 'QC', '2024');
+    // $4,000 of the $10,000 above $200 at 25.75%, the other $6,000 at 24%
+    expect(credits.donationCredit).toBeCloseTo(40 + 1030 + 1440, 2);
+  });
+
+  test('claims are limited to 75% of net income', () => {
+    const credits = calculateProvincialCredits(claim(1000, 5000), 'ON', '2024');
+    expect(credits.donations).toBe(750);
+    expect(credits.donationCredit).toBeCloseTo(200 * 0.0505 + 550 * 0.1116, 2);
+  });
+});
@@ -0,0 +1,43 @@
+const installmentRules = require('../../shared/installments.json');
+const { DEFAULT_TAX_YEAR } = require('./rules');
+
+// Dates are calendar days in UTC, returned as YYYY-MM-DD
+const toDate = (year, month, day) => new Date(Date.UTC(year, month - 1, day));
+
+const formatDate = (date) => date.toISOString().slice(0, 10);
+
+// CRA treats a return or payment as on time if it is received by the next business day when the due
+// date falls on a weekend
+const nextBusinessDay = (date) => {
+  const result = new Date(date);
+  while (result.getUTCDay() === 0 || result.getUTCDay() === 6) {
+    result.setUTCDate(result.getUTCDate() + 1);
+  }
+  return result;
+};
+
+// Filing and payment deadlines for a tax year. Self-employed individuals (and their spouses) have until
+// June 15 to file, but any balance is still due April 30. RRSP contributions for the year can be made
+// until the 60th day of the following year.
+const getFilingDeadlines = (taxYear = DEFAULT_TAX_YEAR) => {
+  const filingYear = Number(taxYear) + 1;
+
+  return {
+    taxYear: String(taxYear),
+    filingYear,
+    filingDeadline: formatDate(nextBusinessDay(toDate(filingYear, 4, 30))),
+    selfEmployedFilingDeadline: formatDate(nextBusinessDay(toDate(filingYear, 6, 15))),
+    balanceDue: formatDate(nextBusinessDay(toDate(filingYear, 4, 30))),
+    rrspContributionDeadline: formatDate(nextBusinessDay(toDate(filingYear, 1, 60)))
+  };
+};
+
+// Quarterly installments for a year are due March 15, June 15, September 15 and December 15
+const getInstallmentDueDates = (year) => installmentRules.dueDates
+  .map(({ month, day }) => formatDate(nextBusinessDay(toDate(Number(year), month, day))));
+
+module.exports = {
+  nextBusinessDay,
+  getFilingDeadlines,
+  getInstallmentDueDates
+};
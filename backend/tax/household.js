@@ -0,0 +1,217 @@
+const { DEFAULT_TAX_YEAR, getTaxYearRules, roundCurrency } = require('./rules');
+const { PARTNERED_STATUSES } = require('./credits');
+const { calculateCanadianTax } = require('./calculator');
+
+// T1032 lets a pensioner allocate up to half of their eligible pension income to their spouse
+const MAX_PENSION_SPLIT_RATE = 0.5;
+const PENSION_SPLIT_STEPS = 50;
+
+// Schedule 2 transfers: these amounts move to the spouse once the transferor's own tax is nil.
+// Tuition follows Schedule 11, where the student uses it first and can transfer a capped amount.
+const TRANSFERABLE_KEYS = ['ageAmount', 'pensionIncomeAmount', 'disabilityAmount'];
+const NOT_REDUCING_NEEDED_KEYS = [...TRANSFERABLE_KEYS, 'tuition', 'medicalExpenses', 'spouseTransfer'];
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const normalizeSpouse = (spouse = {}, index) => ({
+  name: spouse.name || `Spouse ${index + 1}`,
+  income: toAmount(spouse.income),
+  deductions: toAmount(spouse.deductions),
+  pensionIncome: toAmount(spouse.pensionIncome),
+  age: spouse.age === undefined || spouse.age === '' ? null : parseInt(spouse.age, 10),
+  tuition: toAmount(spouse.tuition),
+  disability: spouse.disability === true || spouse.disability === 'true'
+});
+
+const sumBracketTax = (brackets) => brackets.reduce((sum, bracket) => sum + bracket.tax, 0);
+
+const getLineAmount = (summary, key) => {
+  const line = summary.lines.find(item => item.key === key);
+  return line ? line.amount : 0;
+};
+
+// Unused age, pension, disability and tuition amounts the spouse can claim, measured against the tax
+// the transferor would owe after their other credits (spouse transfers are valued at the same rate)
+const getTransferableAmount = (summary, basicTax, tuitionTransferLimit) => {
+  const incomeEquivalent = summary.rate > 0 ? basicTax / summary.rate : 0;
+  const otherAmounts = summary.lines
+    .filter(line => !NOT_REDUCING_NEEDED_KEYS.includes(line.key))
+    .reduce((sum, line) => sum + line.amount, 0);
+  const transferable = TRANSFERABLE_KEYS.reduce((sum, key) => sum + getLineAmount(summary, key), 0);
+  const tuition = getLineAmount(summary, 'tuition');
+
+  const transferableUsed = Math.min(transferable, Math.max(0, incomeEquivalent - otherAmounts));
+  const tuitionUsed = Math.min(tuition, Math.max(0, incomeEquivalent - otherAmounts - transferable));
+
+  return roundCurrency(transferable - transferableUsed + Math.min(tuition - tuitionUsed, tuitionTransferLimit));
+};
+
+const getCreditTransfer = (result, rules) => ({
+  federal: getTransferableAmount(
+    result.federalCredits,
+    sumBracketTax(result.federalBrackets),
+    rules.federal.credits.tuitionTransferLimit
+  ),
+  provincial: getTransferableAmount(
+    result.provincialBreakdown.credits,
+    sumBracketTax(result.provincialBreakdown.brackets),
+    rules.federal.credits.tuitionTransferLimit
+  )
+});
+
+// One household scenario: a pension split, who claims the pooled medical expenses and donations,
+// and optionally the Schedule 2 transfers between spouses
+const evaluateScenario = (household, scenario, applyTransfers) => {
+  const { spouses, maritalStatus, province, taxYear, medicalExpenses, donations } = household;
+  const rules = getTaxYearRules(taxYear);
+
+  const pensionIncome = spouses.map(spouse => spouse.pensionIncome);
+  if (scenario.split) {
+    pensionIncome[scenario.split.from] -= scenario.split.amount;
+    pensionIncome[1 - scenario.split.from] += scenario.split.amount;
+  }
+
+  const calculate = (index, spouseNetIncome, spouseTransfer) => {
+    const spouse = spouses[index];
+    return calculateCanadianTax(spouse.income, spouse.deductions, maritalStatus, province, taxYear, {
+      age: spouse.age === null ? '' : spouse.age,
+      tuition: spouse.tuition,
+      disability: spouse.disability,
+      medicalExpenses: scenario.medicalClaimant === index ? medicalExpenses : 0,
+      donations: scenario.donationClaimant === index ? donations : 0,
+      pensionIncome: pensionIncome[index],
+      spouseNetIncome,
+      spouseTransfer
+    });
+  };
+
+  // Net income does not depend on credits, so a first pass supplies each spouse's net income
+  const netIncomes = [0, 1].map(index => calculate(index, 0).netIncome);
+  let results = [0, 1].map(index => calculate(index, netIncomes[1 - index]));
+  let transfers = [{ federal: 0, provincial: 0 }, { federal: 0, provincial: 0 }];
+
+  if (applyTransfers) {
+    transfers = results.map(result => getCreditTransfer(result, rules));
+    results = [0, 1].map(index => calculate(index, netIncomes[1 - index], transfers[1 - index]));
+  }
+
+  const combinedTax = results.reduce((sum, result) => sum + result.tax, 0);
+  const combinedIncome = results.reduce((sum, result) => sum + result.totalIncome, 0);
+
+  return {
+    ...scenario,
+    transfers,
+    results,
+    combinedTax,
+    combinedAfterTaxIncome: combinedIncome - combinedTax
+  };
+};
+
+const getPensionSplitOptions = (spouses) => {
+  const options = [null];
+  spouses.forEach((spouse, from) => {
+    for (let step = 1; step <= PENSION_SPLIT_STEPS; step++) {
+      const percent = (step / PENSION_SPLIT_STEPS) * MAX_PENSION_SPLIT_RATE;
+      if (spouse.pensionIncome > 0) {
+        options.push({ from, percent, amount: roundCurrency(spouse.pensionIncome * percent) });
+      }
+    }
+  });
+  return options;
+};
+
+const summarizeScenario = (household, scenario) => ({
+  pensionSplit: scenario.split
+    ? {
+      from: household.spouses[scenario.split.from].name,
+      to: household.spouses[1 - scenario.split.from].name,
+      amount: scenario.split.amount,
+      percent: Math.round(scenario.split.percent * 1000) / 10
+    }
+    : null,
+  medicalExpensesClaimedBy: household.medicalExpenses > 0 ? household.spouses[scenario.medicalClaimant].name : null,
+  donationsClaimedBy: household.donations > 0 ? household.spouses[scenario.donationClaimant].name : null,
+  spouses: scenario.results.map((result, index) => ({
+    name: household.spouses[index].name,
+    totalIncome: result.totalIncome,
+    pensionIncome: result.pensionIncome,
+    netIncome: result.netIncome,
+    federalTax: result.federalTax,
+    provincialTax: result.provincialTax,
+    tax: result.tax,
+    afterTaxIncome: result.totalIncome - result.tax,
+    transferredToSpouse: scenario.transfers[index],
+    calculation: result
+  })),
+  combinedTax: scenario.combinedTax,
+  combinedAfterTaxIncome: scenario.combinedAfterTaxIncome
+});
+
+// Couple return: compare each spouse filing as entered (no split, pooled claims on the higher earner's
+// return) with the best pension split, claimant for medical expenses and donations, and credit transfers
+const calculateHouseholdTax = (input, province = 'ON', taxYear = DEFAULT_TAX_YEAR) => {
+  const maritalStatus = PARTNERED_STATUSES.includes(input.maritalStatus) ? input.maritalStatus : null;
+  if (!maritalStatus) {
+    throw new Error('Household returns require a married or common-law couple');
+  }
+  if (!Array.isArray(input.spouses) || input.spouses.length !== 2) {
+    throw new Error('Household returns require exactly two spouses');
+  }
+
+  const household = {
+    spouses: input.spouses.map(normalizeSpouse),
+    maritalStatus,
+    province,
+    taxYear: String(taxYear),
+    medicalExpenses: toAmount(input.medicalExpenses),
+    donations: toAmount(input.donations)
+  };
+
+  const higherEarner = household.spouses[1].income + household.spouses[1].pensionIncome >
+    household.spouses[0].income + household.spouses[0].pensionIncome ? 1 : 0;
+  const baseline = evaluateScenario(household, {
+    split: null,
+    medicalClaimant: higherEarner,
+    donationClaimant: higherEarner
+  }, false);
+
+  const claimants = [0, 1];
+  const medicalClaimants = household.medicalExpenses > 0 ? claimants : [higherEarner];
+  const donationClaimants = household.donations > 0 ? claimants : [higherEarner];
+
+  const splitScenarios = [];
+  let optimized = null;
+  getPensionSplitOptions(household.spouses).forEach(split => {
+    let bestForSplit = null;
+    medicalClaimants.forEach(medicalClaimant => {
+      donationClaimants.forEach(donationClaimant => {
+        const scenario = evaluateScenario(household, { split, medicalClaimant, donationClaimant }, true);
+        if (!bestForSplit || scenario.combinedTax < bestForSplit.combinedTax) bestForSplit = scenario;
+      });
+    });
+
+    splitScenarios.push({
+      from: split ? household.spouses[split.from].name : null,
+      percent: split ? Math.round(split.percent * 1000) / 10 : 0,
+      amount: split ? split.amount : 0,
+      combinedTax: bestForSplit.combinedTax
+    });
+    if (!optimized || bestForSplit.combinedTax < optimized.combinedTax) optimized = bestForSplit;
+  });
+
+  return {
+    province,
+    taxYear: household.taxYear,
+    maritalStatus,
+    baseline: summarizeScenario(household, baseline),
+    optimized: summarizeScenario(household, optimized),
+    savings: baseline.combinedTax - optimized.combinedTax,
+    splitScenarios
+  };
+};
+
+module.exports = {
+  MAX_PENSION_SPLIT_RATE,
+  getTransferableAmount,
+  calculateHouseholdTax
+};
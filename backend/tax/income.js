@@ -0,0 +1,150 @@
+const incomeSlips = require('../../shared/incomeSlips.json');
+const { roundCurrency } = require('./rules');
+
+// Information slips and their boxes (shared/incomeSlips.json, shared with the frontend)
+const SLIP_TYPES = Object.keys(incomeSlips);
+
+const SLIP_CATEGORIES = [
+  'employmentIncome',
+  'pensionIncome',
+  'registeredAnnuityIncome',
+  'rrspIncome',
+  'eiBenefits',
+  'oasPension',
+  'cppBenefits',
+  'interestIncome',
+  'eligibleDividends',
+  'nonEligibleDividends',
+  'capitalGains',
+  'dispositionProceeds',
+  'dispositionCost',
+  'otherIncome',
+  'rppContributions',
+  'unionDues',
+  'taxWithheld',
+  'cppWithheld',
+  'eiWithheld',
+  'qpipWithheld',
+  'pensionAdjustment'
+];
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+// Keep only the boxes defined for the slip type, as numbers
+const normalizeSlip = (slip = {}) => {
+  const definition = incomeSlips[slip.type];
+  if (!definition) {
+    throw new Error(`Unsupported slip type: ${slip.type}`);
+  }
+
+  const boxes = {};
+  Object.keys(definition.boxes).forEach(box => {
+    const amount = toAmount(slip.boxes && slip.boxes[box]);
+    if (amount > 0) boxes[box] = amount;
+  });
+
+  return { type: slip.type, issuer: slip.issuer || '', boxes };
+};
+
+// Total each box category across slips. T5008 gains and losses are netted per slip (proceeds less cost).
+const summarizeSlips = (slips = []) => {
+  const totals = Object.fromEntries(SLIP_CATEGORIES.map(category => [category, 0]));
+
+  slips.map(normalizeSlip).forEach(slip => {
+    Object.entries(slip.boxes).forEach(([box, amount]) => {
+      totals[incomeSlips[slip.type].boxes[box].category] += amount;
+    });
+  });
+
+  totals.capitalGains += totals.dispositionProceeds - totals.dispositionCost;
+  return totals;
+};
+
+// Total income (line 15000) by source: dividends are grossed up, capital gains included at the
+// inclusion rate, and RRSP/RRIF annuity income is eligible pension income from age 65 (OAS and CPP/QPP
+// benefits never are). Net business income (line 13500, from T2125) and net rental income (line 12600,
+// from T776) may be losses. Gains and losses realized in the ACB ledger are netted with slip capital
+// gains on Schedule 3.
+const calculateIncomeSources = (employmentIncome, claims, slips, rules, { businessIncome = 0, rentalIncome = 0, capitalGains = 0 } = {}) => {
+  const totals = summarizeSlips(slips);
+  totals.capitalGains += capitalGains;
+  const { capitalGainsInclusionRate, dividends } = rules.investmentIncome;
+  const seniorPension = claims.age !== null && claims.age >= rules.federal.credits.ageAmount.minAge;
+
+  const pensionIncome = (claims.pensionIncome || 0) + totals.pensionIncome + totals.registeredAnnuityIncome;
+  const eligiblePensionIncome = (claims.pensionIncome || 0) + totals.pensionIncome +
+    (seniorPension ? totals.registeredAnnuityIncome : 0);
+  const netCapitalGains = Math.max(0, totals.capitalGains);
+  const taxableEligibleDividends = totals.eligibleDividends * (1 + dividends.eligible.grossUp);
+  const taxableNonEligibleDividends = totals.nonEligibleDividends * (1 + dividends.nonEligible.grossUp);
+  const taxableCapitalGains = netCapitalGains * capitalGainsInclusionRate;
+  const totalEmploymentIncome = employmentIncome + totals.employmentIncome;
+
+  return {
+    employmentIncome: totalEmploymentIncome,
+    pensionIncome,
+    eligiblePensionIncome,
+    rrspIncome: totals.rrspIncome,
+    eiBenefits: totals.eiBenefits,
+    oasPension: totals.oasPension,
+    cppBenefits: totals.cppBenefits,
+    interestIncome: totals.interestIncome,
+    eligibleDividends: totals.eligibleDividends,
+    taxableEligibleDividends,
+    nonEligibleDividends: totals.nonEligibleDividends,
+    taxableNonEligibleDividends,
+    capitalGains: netCapitalGains,
+    taxableCapitalGains,
+    capitalLoss: Math.max(0, -totals.capitalGains),
+    otherIncome: totals.otherIncome,
+    businessIncome,
+    rentalIncome,
+    totalIncome: totalEmploymentIncome + pensionIncome + totals.rrspIncome + totals.eiBenefits +
+      totals.oasPension + totals.cppBenefits + totals.interestIncome + taxableEligibleDividends + taxableNonEligibleDividends + taxableCapitalGains +
+      totals.otherIncome + businessIncome + rentalIncome,
+    rppContributions: totals.rppContributions,
+    unionDues: totals.unionDues,
+    taxWithheld: totals.taxWithheld,
+    cppWithheld: totals.cppWithheld,
+    eiWithheld: totals.eiWithheld,
+    qpipWithheld: totals.qpipWithheld,
+    pensionAdjustment: totals.pensionAdjustment
+  };
+};
+
+// Dividend tax credit on the grossed-up (taxable) dividends at federal or provincial rates
+const calculateDividendTaxCredit = (inputs, rates) => {
+  return (inputs.taxableEligibleDividends || 0) * rates.eligible +
+    (inputs.taxableNonEligibleDividends || 0) * rates.nonEligible;
+};
+
+// Rounded income lines for responses
+const summarizeIncomeSources = (sources) => ({
+  employmentIncome: roundCurrency(sources.employmentIncome),
+  pensionIncome: roundCurrency(sources.pensionIncome),
+  rrspIncome: roundCurrency(sources.rrspIncome),
+  eiBenefits: roundCurrency(sources.eiBenefits),
+  oasPension: roundCurrency(sources.oasPension),
+  cppBenefits: roundCurrency(sources.cppBenefits),
+  interestIncome: roundCurrency(sources.interestIncome),
+  eligibleDividends: roundCurrency(sources.eligibleDividends),
+  taxableEligibleDividends: roundCurrency(sources.taxableEligibleDividends),
+  nonEligibleDividends: roundCurrency(sources.nonEligibleDividends),
+  taxableNonEligibleDividends: roundCurrency(sources.taxableNonEligibleDividends),
+  capitalGains: roundCurrency(sources.capitalGains),
+  taxableCapitalGains: roundCurrency(sources.taxableCapitalGains),
+  capitalLoss: roundCurrency(sources.capitalLoss),
+  otherIncome: roundCurrency(sources.otherIncome),
+  businessIncome: roundCurrency(sources.businessIncome),
+  rentalIncome: roundCurrency(sources.rentalIncome),
+  totalIncome: roundCurrency(sources.totalIncome)
+});
+
+module.exports = {
+  SLIP_TYPES,
+  normalizeSlip,
+  summarizeSlips,
+  calculateIncomeSources,
+  calculateDividendTaxCredit,
+  summarizeIncomeSources
+};
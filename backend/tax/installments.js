@@ -0,0 +1,145 @@
+const installmentRules = require('../../shared/installments.json');
+const { roundCurrency } = require('./rules');
+const { getFilingDeadlines, getInstallmentDueDates } = require('./deadlines');
+const { isISODate, toDayNumber, accrueDailyInterest } = require('./interest');
+
+// Quarterly installments are required when net tax owing is more than $3,000 ($1,800 of federal tax in
+// Quebec) in the installment year and in either of the two previous years (shared/installments.json)
+const INSTALLMENT_OPTIONS = ['noCalculation', 'priorYear', 'currentYear'];
+
+const OPTION_LABELS = {
+  noCalculation: 'No-calculation option',
+  priorYear: 'Prior-year option',
+  currentYear: 'Current-year option'
+};
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const getInstallmentThreshold = (province) => province === 'QC'
+  ? installmentRules.quebecThreshold
+  : installmentRules.threshold;
+
+// Net tax owing from a calculated return: income tax, the OAS recovery and CPP on self-employment
+// earnings less tax withheld at source. In Quebec only federal tax counts (T4 box 22 is federal tax there).
+const getNetTaxOwing = (calculation, province) => {
+  if (province === 'QC') {
+    return Math.max(0, calculation.federalTax + (calculation.oasRecovery || 0) - calculation.taxWithheld);
+  }
+  const { overpayments } = calculation;
+  return Math.max(0, calculation.balanceOwing - calculation.refund + overpayments.cpp + overpayments.ei + overpayments.qpip);
+};
+
+// The three schedules on CRA installment reminders. No-calculation: March and June are a quarter of net
+// tax owing two years ago, September and December split the rest of last year's. Prior-year: a quarter
+// of last year's. Current-year: a quarter of this year's estimate.
+const getInstallmentOptions = ({ currentYear, previousYear, twoYearsAgo }) => {
+  const noCalculationFirstHalf = twoYearsAgo / 4;
+  const noCalculationSecondHalf = Math.max(0, previousYear - noCalculationFirstHalf * 2) / 2;
+
+  const schedules = {
+    noCalculation: [noCalculationFirstHalf, noCalculationFirstHalf, noCalculationSecondHalf, noCalculationSecondHalf],
+    priorYear: Array(4).fill(previousYear / 4),
+    currentYear: Array(4).fill(currentYear / 4)
+  };
+
+  return INSTALLMENT_OPTIONS.map(key => ({
+    key,
+    label: OPTION_LABELS[key],
+    amounts: schedules[key].map(roundCurrency),
+    total: roundCurrency(schedules[key].reduce((sum, amount) => sum + amount, 0))
+  }));
+};
+
+// Installment interest runs from each due date to the balance-due date on the shortfall, less offsetting
+// interest on early or extra payments, under whichever option gives the least interest
+const calculateInstallmentInterest = (options, dueDates, payments, balanceDue) => {
+  const interestFor = (option, withPayments) => {
+    const events = [
+      ...dueDates.map((date, index) => ({ date, amount: option.amounts[index] })),
+      ...(withPayments ? payments.map(payment => ({ date: payment.date, amount: -payment.amount })) : [])
+    ];
+    return Math.max(0, accrueDailyInterest(events, balanceDue).interest);
+  };
+
+  const byOption = options.map(option => ({ key: option.key, interest: interestFor(option, true) }));
+  const least = byOption.reduce((best, option) => (option.interest < best.interest ? option : best));
+  const charged = least.interest > installmentRules.minimumInterest ? least.interest : 0;
+
+  // Penalty: half of the interest over the greater of $1,000 and 25% of the interest had no installments been paid
+  const { rate, interestAllowance, noPaymentInterestRate } = installmentRules.penalty;
+  const noPaymentInterest = interestFor(options.find(option => option.key === least.key), false);
+  const penalty = rate * Math.max(0, charged - Math.max(interestAllowance, noPaymentInterest * noPaymentInterestRate));
+
+  return {
+    option: least.key,
+    calculated: roundCurrency(least.interest),
+    charged: roundCurrency(charged),
+    penalty: roundCurrency(penalty),
+    byOption: byOption.map(option => ({ key: option.key, interest: roundCurrency(option.interest) }))
+  };
+};
+
+// Whether installments are required for `installmentYear`, the three reminder schedules with the lowest
+// one recommended, interest and penalty on the dated payments made so far, and payments still to come
+// after `asOf`. `currentYear` is the estimate for the installment year (last year's amount when blank).
+const calculateInstallments = (inputs = {}) => {
+  const installmentYear = Number(inputs.installmentYear);
+  const province = inputs.province || 'ON';
+  const threshold = getInstallmentThreshold(province);
+  const previousYear = toAmount(inputs.previousYear);
+  const netTaxOwing = {
+    currentYear: inputs.currentYear === undefined || inputs.currentYear === null || inputs.currentYear === ''
+      ? previousYear
+      : toAmount(inputs.currentYear),
+    previousYear,
+    twoYearsAgo: toAmount(inputs.twoYearsAgo)
+  };
+  const required = netTaxOwing.currentYear > threshold &&
+    (netTaxOwing.previousYear > threshold || netTaxOwing.twoYearsAgo > threshold);
+
+  const dueDates = getInstallmentDueDates(installmentYear);
+  const balanceDue = getFilingDeadlines(installmentYear).balanceDue;
+  const payments = (Array.isArray(inputs.payments) ? inputs.payments : [])
+    .filter(payment => isISODate(payment.date))
+    .map(payment => ({ date: payment.date, amount: toAmount(payment.amount) }))
+    .filter(payment => payment.amount > 0)
+    .sort((a, b) => toDayNumber(a.date) - toDayNumber(b.date));
+  const options = getInstallmentOptions(netTaxOwing);
+  const recommended = options.reduce((best, option) => (option.total < best.total ? option : best));
+  const interest = required
+    ? calculateInstallmentInterest(options, dueDates, payments, balanceDue)
+    : { option: null, calculated: 0, charged: 0, penalty: 0, byOption: [] };
+
+  const asOf = isISODate(inputs.asOf) ? inputs.asOf : new Date().toISOString().slice(0, 10);
+  const upcoming = required
+    ? dueDates
+      .map((dueDate, index) => ({ dueDate, amount: recommended.amounts[index] }))
+      .filter(payment => toDayNumber(payment.dueDate) >= toDayNumber(asOf) && payment.amount > 0)
+    : [];
+
+  return {
+    installmentYear: String(installmentYear),
+    province,
+    threshold,
+    netTaxOwing: {
+      currentYear: roundCurrency(netTaxOwing.currentYear),
+      previousYear: roundCurrency(netTaxOwing.previousYear),
+      twoYearsAgo: roundCurrency(netTaxOwing.twoYearsAgo)
+    },
+    required,
+    dueDates,
+    balanceDue,
+    options,
+    recommended: required ? recommended.key : null,
+    paid: roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+    interest,
+    upcoming
+  };
+};
+
+module.exports = {
+  INSTALLMENT_OPTIONS,
+  getInstallmentThreshold,
+  getNetTaxOwing,
+  calculateInstallments
+};
@@ -0,0 +1,90 @@
+const prescribedRates = require('../../shared/prescribedRates.json');
+
+// CRA charges interest on overdue tax and deficient installments at the prescribed rate for overdue
+// amounts (set quarterly, shared/prescribedRates.json), compounded daily
+const DAYS_IN_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Interest dates (payments, as-of dates) must fall in this window, which also bounds the daily accrual.
+// It opens with the first quarter in the rate table, so no day accrues at a rate the table does not have.
+const EARLIEST_INTEREST_DATE = prescribedRates.overdue[0].from;
+const INTEREST_YEARS_AHEAD = 10;
+
+const isISODate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(String(value || ''));
+
+// Days since 1970-01-01 for a YYYY-MM-DD date, so dates compare and step as numbers
+const toDayNumber = (date) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDayNumber = (dayNumber) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+const addDays = (date, days) => fromDayNumber(toDayNumber(date) + days);
+
+const getLatestInterestDate = (today = new Date()) => `${today.getUTCFullYear() + INTEREST_YEARS_AHEAD}-12-31`;
+
+const isWithinInterestWindow = (date) => {
+  return isISODate(date) &&
+    toDayNumber(date) >= toDayNumber(EARLIEST_INTEREST_DATE) &&
+    toDayNumber(date) <= toDayNumber(getLatestInterestDate());
+};
+
+const RATE_PERIODS = prescribedRates.overdue.map(entry => ({ from: toDayNumber(entry.from), rate: entry.rate }));
+
+const getRateOnDay = (dayNumber) => {
+  const current = [...RATE_PERIODS].reverse().find(period => period.from <= dayNumber);
+  if (!current) {
+    throw new RangeError(`No prescribed rate before ${EARLIEST_INTEREST_DATE}`);
+  }
+  return current.rate;
+};
+
+// The quarter's rate in effect on `date`; dates past the table use the latest quarter, and dates before
+// it are refused
+const getPrescribedRate = (date) => getRateOnDay(toDayNumber(date));
+
+// Daily-compounded interest on a running balance up to (not including) `endDate`. Events are dated
+// amounts: positive amounts become owing on their date and negative amounts (payments) reduce the balance.
+// With `creditInterest`, a credit balance earns offsetting interest at the same rate (as early installments
+// do); without it, no interest accrues while the balance is at or below zero. Events on or after
+// `endDate` are ignored.
+const accrueDailyInterest = (events, endDate, { creditInterest = true } = {}) => {
+  const endDay = toDayNumber(endDate);
+  const dated = events
+    .filter(event => isISODate(event.date) && Number.isFinite(event.amount) && event.amount !== 0)
+    .map(event => ({ day: toDayNumber(event.date), amount: event.amount }))
+    .filter(event => event.day < endDay)
+    .sort((a, b) => a.day - b.day);
+  if (dated.length === 0) return { principal: 0, interest: 0, balance: 0 };
+  if (!isWithinInterestWindow(fromDayNumber(dated[0].day)) || !isWithinInterestWindow(fromDayNumber(endDay - 1))) {
+    throw new RangeError(`Interest dates must be between ${EARLIEST_INTEREST_DATE} and ${getLatestInterestDate()}`);
+  }
+
+  let balance = 0;
+  let principal = 0;
+  let index = 0;
+  for (let day = dated[0].day; day < endDay; day += 1) {
+    while (index < dated.length && dated[index].day === day) {
+      balance += dated[index].amount;
+      principal += dated[index].amount;
+      index += 1;
+    }
+    if (balance > 0 || creditInterest) {
+      balance *= 1 + getRateOnDay(day) / DAYS_IN_YEAR;
+    }
+  }
+
+  return { principal, interest: balance - principal, balance };
+};
+
+module.exports = {
+  EARLIEST_INTEREST_DATE,
+  isISODate,
+  toDayNumber,
+  addDays,
+  getLatestInterestDate,
+  isWithinInterestWindow,
+  getPrescribedRate,
+  accrueDailyInterest
+};
@@ -0,0 +1,28 @@
+const { EARLIEST_INTEREST_DATE, isWithinInterestWindow, getPrescribedRate, accrueDailyInterest } = require('./interest');
+
+describe('prescribed rate for overdue amounts', () => {
+  test('each quarter has its own rate, and dates past the table use the latest quarter', () => {
+    expect(getPrescribedRate('2022-06-30')).toBe(0.05);
+    expect(getPrescribedRate('2023-10-01')).toBe(0.1);
+    expect(getPrescribedRate('2024-08-15')).toBe(0.09);
+    expect(getPrescribedRate('2030-01-01')).toBe(getPrescribedRate('2026-01-01'));
+  });
+
+  test('the interest window opens with the first quarter in the table', () => {
+    expect(EARLIEST_INTEREST_DATE).toBe('2022-01-01');
+    expect(isWithinInterestWindow('2022-01-01')).toBe(true);
+    expect(isWithinInterestWindow('2021-12-31')).toBe(false);
+    expect(() => getPrescribedRate('2021-12-31')).toThrow(RangeError);
+  });
+
+  test('interest on dates before the table is refused rather than guessed', () => {
+    expect(() => accrueDailyInterest([{ date: '2019-05-01', amount: 1000 }], '2023-05-01')).toThrow(RangeError);
+  });
+
+  test('compounds daily at the quarter\'s rate', () => {
+    // 30 days in the first quarter of 2024, at 10%
+    const { principal, interest } = accrueDailyInterest([{ date: '2024-01-01', amount: 1000 }], '2024-01-31');
+    expect(principal).toBe(1000);
+    expect(interest).toBeCloseTo(1000 * ((1 + 0.1 / 365) ** 30 - 1), 6);
+  });
+});
@@ -0,0 +1,127 @@
+const { DEFAULT_TAX_YEAR, roundCurrency } = require('./rules');
+const { calculateCanadianTax } = require('./calculator');
+const { calculateBenefits } = require('./benefits');
+
+// The marginal effective tax rate at an income is the share of the next `delta` dollars of employment
+// income lost to federal and provincial tax (with surtaxes and health premiums), CPP/QPP and EI, the OAS
+// recovery and reduced benefits, from the full return and benefit estimate rerun at both incomes
+const DEFAULT_STEPS = 50;
+const MAX_STEPS = 200;
+const DEFAULT_DELTA = 1000;
+const DEFAULT_MAX_INCOME = 200000;
+const INCOME_ROUNDING = 100;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+const toRate = (amount, delta) => Math.round((amount / delta) * 10000) / 10000;
+
+const getIncomeGrid = (minIncome, maxIncome, steps) => {
+  const incomes = Array.from({ length: steps + 1 }, (_, index) =>
+    Math.round((minIncome + ((maxIncome - minIncome) * index) / steps) / INCOME_ROUNDING) * INCOME_ROUNDING);
+  return [...new Set(incomes)];
+};
+
+// Everything the return and benefit estimate say about one income level
+const evaluateIncome = (profile, income) => {
+  const { deductions, maritalStatus, province, taxYear, creditInputs, benefitInputs } = profile;
+  const calculation = calculateCanadianTax(income, deductions, maritalStatus, province, taxYear, creditInputs);
+  const benefits = calculateBenefits(calculation, province, maritalStatus, creditInputs, benefitInputs);
+  const byBenefit = Object.fromEntries(benefits.benefits.map(benefit => [benefit.key, benefit.annual]));
+  const payroll = calculation.tax - calculation.federalTax - calculation.provincialTax - calculation.oasRecovery;
+
+  return {
+    income,
+    federalTax: calculation.federalTax,
+    provincialTax: calculation.provincialTax,
+    payroll,
+    oasRecovery: calculation.oasRecovery,
+    tax: calculation.tax,
+    benefits: benefits.total,
+    byBenefit,
+    disposableIncome: income - calculation.tax + benefits.total
+  };
+};
+
+const toPoint = (profile, income, delta) => {
+  const base = evaluateIncome(profile, income);
+  const next = evaluateIncome(profile, income + delta);
+  const benefitClawback = Object.fromEntries(Object.keys(base.byBenefit)
+    .map(key => [key, toRate(base.byBenefit[key] - (next.byBenefit[key] || 0), delta)])
+    .filter(([, rate]) => rate !== 0));
+
+  return {
+    income,
+    marginalRate: toRate(delta - (next.disposableIncome - base.disposableIncome), delta),
+    components: {
+      federalTax: toRate(next.federalTax - base.federalTax, delta),
+      provincialTax: toRate(next.provincialTax - base.provincialTax, delta),
+      payroll: toRate(next.payroll - base.payroll, delta),
+      oasRecovery: toRate(next.oasRecovery - base.oasRecovery, delta),
+      benefits: toRate(base.benefits - next.benefits, delta)
+    },
+    benefitClawback,
+    averageRate: income > 0 ? toRate(income - base.disposableIncome, income) : 0,
+    tax: base.tax,
+    benefits: base.benefits,
+    disposableIncome: roundCurrency(base.disposableIncome)
+  };
+};
+
+// What an employment income increase of `amount` actually leaves in hand
+const evaluateRaise = (profile, income, amount) => {
+  const before = evaluateIncome(profile, income);
+  const after = evaluateIncome(profile, income + amount);
+  const kept = after.disposableIncome - before.disposableIncome;
+
+  return {
+    amount,
+    fromIncome: income,
+    toIncome: income + amount,
+    taxIncrease: roundCurrency(after.federalTax + after.provincialTax + after.oasRecovery -
+      before.federalTax - before.provincialTax - before.oasRecovery),
+    payrollIncrease: roundCurrency(after.payroll - before.payroll),
+    benefitLoss: roundCurrency(before.benefits - after.benefits),
+    kept: roundCurrency(kept),
+    effectiveRate: toRate(amount - kept, amount)
+  };
+};
+
+// METR curve over an employment income range for the household and credits on the return, the rate
+// at the return's own income, and optionally the result of a raise
+const calculateMETRCurve = (profile, options = {}) => {
+  const normalized = {
+    deductions: toAmount(profile.deductions),
+    maritalStatus: profile.maritalStatus || 'single',
+    province: profile.province || 'ON',
+    taxYear: String(profile.taxYear || DEFAULT_TAX_YEAR),
+    creditInputs: profile.creditInputs || {},
+    benefitInputs: profile.benefitInputs || {}
+  };
+  const income = toAmount(profile.income);
+  const delta = Math.max(1, toAmount(options.delta) || DEFAULT_DELTA);
+  const steps = Math.min(MAX_STEPS, Math.max(2, parseInt(options.steps, 10) || DEFAULT_STEPS));
+  const minIncome = toAmount(options.minIncome);
+  const maxIncome = toAmount(options.maxIncome) || Math.max(DEFAULT_MAX_INCOME, income * 2);
+  if (maxIncome <= minIncome) {
+    throw new Error('maxIncome must be greater than minIncome');
+  }
+
+  const points = getIncomeGrid(minIncome, maxIncome, steps).map(point => toPoint(normalized, point, delta));
+  const current = toPoint(normalized, income, delta);
+  const peak = points.reduce((highest, point) => (point.marginalRate > highest.marginalRate ? point : highest), points[0]);
+  const raise = toAmount(options.raise) > 0 ? evaluateRaise(normalized, income, toAmount(options.raise)) : null;
+
+  return {
+    taxYear: normalized.taxYear,
+    province: normalized.province,
+    delta,
+    range: { minIncome, maxIncome },
+    current,
+    peak: { income: peak.income, marginalRate: peak.marginalRate },
+    raise,
+    points
+  };
+};
+
+module.exports = {
+  calculateMETRCurve
+};
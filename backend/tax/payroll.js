@@ -0,0 +1,241 @@
+const {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  calculateBracketTax,
+  getFederalBasicPersonalAmount,
+  roundCurrency
+} = require('./rules');
+const {
+  PROVINCE_CODES,
+  getProvincialRules,
+  getProvincialBasicPersonalAmount,
+  getProvincialCreditRate,
+  calculateSurtax,
+  calculateHealthPremium
+} = require('./provincial');
+const { calculateCanadianTax } = require('./calculator');
+
+// Pay periods per year (P in the CRA payroll deductions formulas, T4127)
+const PAY_FREQUENCIES = {
+  weekly: 52,
+  biweekly: 26,
+  semiMonthly: 24,
+  monthly: 12
+};
+
+// Quebec employers withhold provincial tax, QPP and QPIP under Revenu Québec's own formulas (TP-1015.F)
+const PAYROLL_PROVINCE_CODES = PROVINCE_CODES.filter(code => code !== 'QC');
+
+// TD1 credit lines the employer already accounts for; anything else on the return is only claimed there
+const PAYROLL_CREDIT_LINES = ['basicPersonalAmount', 'cppContributions', 'eiPremiums', 'canadaEmploymentAmount'];
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+const hasValue = (value) => value !== undefined && value !== null && value !== '';
+
+// CPP (C), CPP2 (C2) and EI for one cheque, limited by what was deducted earlier in the year
+const calculateChequeContributions = (pay, ytd, periods, rules) => {
+  const { ympe, basicExemption, rate, maxContribution, yampe, cpp2Rate, cpp2MaxContribution } = rules.cpp;
+  const cpp = Math.min(
+    Math.max(0, maxContribution - ytd.cpp),
+    Math.max(0, (pay - basicExemption / periods) * rate)
+  );
+
+  // CPP2 applies to earnings between the YMPE and YAMPE once year-to-date earnings pass the YMPE
+  const cpp2 = yampe
+    ? Math.min(
+      Math.max(0, cpp2MaxContribution - ytd.cpp2),
+      Math.max(0, Math.min(ytd.earnings + pay, yampe) - Math.max(ytd.earnings, ympe)) * cpp2Rate
+    )
+    : 0;
+
+  const ei = Math.min(Math.max(0, rules.ei.maxPremium - ytd.ei), pay * rules.ei.rate);
+
+  return { cpp: roundCurrency(cpp), cpp2: roundCurrency(cpp2), ei: roundCurrency(ei) };
+};
+
+// Option 1 tax for one cheque: annualize the cheque (A), apply the annual federal and provincial
+// formulas (T3/T4) with the TD1 claims and this cheque's CPP/EI projected over the year, then divide by P
+const calculateChequeTax = (profile, pay, contributions, rules) => {
+  const { periods, province, taxYear, td1, pensionContributions, unionDues } = profile;
+  const { rate, baseRate, maxContribution } = rules.cpp;
+  const baseShare = baseRate / rate;
+
+  // F5: the enhanced CPP share and CPP2 are deducted from income rather than credited
+  const enhancedDeduction = contributions.cpp * (1 - baseShare) + contributions.cpp2;
+  const annualIncome = Math.max(0, periods * (pay - pensionContributions - unionDues - enhancedDeduction));
+
+  // K2: base CPP and EI credits on this cheque's contributions annualized, up to the annual maximums
+  const annualCpp = Math.min(periods * contributions.cpp * baseShare, maxContribution * baseShare);
+  const annualEi = Math.min(periods * contributions.ei, rules.ei.maxPremium);
+
+  const federalRate = rules.federal.brackets[0].rate;
+  const federalClaim = hasValue(td1.federal) ? toAmount(td1.federal) : getFederalBasicPersonalAmount(annualIncome, rules);
+  const federalCredits = federalRate * (federalClaim + annualCpp + annualEi +
+    Math.min(annualIncome, rules.federal.credits.canadaEmploymentAmount));
+  const federalTax = Math.max(0, calculateBracketTax(annualIncome, rules.federal.brackets) - federalCredits);
+
+  // T4 plus the Ontario surtax (V1) and health premium (V2)
+  const provincialRules = getProvincialRules(province, taxYear);
+  const provincialRate = getProvincialCreditRate(provincialRules);
+  const provincialClaim = hasValue(td1.provincial)
+    ? toAmount(td1.provincial)
+    : getProvincialBasicPersonalAmount(annualIncome, province, taxYear);
+  const provincialCredits = provincialRate * (provincialClaim + annualCpp + annualEi);
+  const basicProvincialTax = Math.max(0, calculateBracketTax(annualIncome, provincialRules.brackets) - provincialCredits);
+  const provincialTax = basicProvincialTax +
+    calculateSurtax(basicProvincialTax, provincialRules.surtax) +
+    calculateHealthPremium(annualIncome, provincialRules.healthPremium);
+
+  return {
+    annualTaxableIncome: roundCurrency(annualIncome),
+    federalClaim: roundCurrency(federalClaim),
+    provincialClaim: roundCurrency(provincialClaim),
+    federalTax: roundCurrency(federalTax / periods),
+    provincialTax: roundCurrency(provincialTax / periods)
+  };
+};
+
+// Cheques `fromPeriod` onward, each one's CPP/EI limited by the running year-to-date totals
+const simulateCheques = (profile, fromPeriod, toPeriod, startYtd, rules) => {
+  const ytd = { ...startYtd };
+  const cheques = [];
+
+  for (let period = fromPeriod; period <= toPeriod; period++) {
+    const pay = profile.grossPay;
+    const contributions = calculateChequeContributions(pay, ytd, profile.periods, rules);
+    const tax = calculateChequeTax(profile, pay, contributions, rules);
+    const totalTax = roundCurrency(tax.federalTax + tax.provincialTax);
+
+    cheques.push({
+      period,
+      gross: pay,
+      federalTax: tax.federalTax,
+      provincialTax: tax.provincialTax,
+      tax: totalTax,
+      cpp: contributions.cpp,
+      cpp2: contributions.cpp2,
+      ei: contributions.ei,
+      pensionContributions: profile.pensionContributions,
+      unionDues: profile.unionDues,
+      net: roundCurrency(pay - totalTax - contributions.cpp - contributions.cpp2 - contributions.ei -
+        profile.pensionContributions - profile.unionDues),
+      annualTaxableIncome: tax.annualTaxableIncome,
+      federalClaim: tax.federalClaim,
+      provincialClaim: tax.provincialClaim
+    });
+
+    ytd.earnings += pay;
+    ytd.cpp += contributions.cpp;
+    ytd.cpp2 += contributions.cpp2;
+    ytd.ei += contributions.ei;
+    ytd.tax += totalTax;
+  }
+
+  return { cheques, ytd };
+};
+
+// Why the withholding and the return differ: credits and deductions the employer never sees
+const explainDifference = (profile, calculation, deductions) => {
+  const notes = [];
+  const { lines, donationCredit, dividendTaxCredit } = calculation.federalCredits;
+  const returnOnlyCredits = lines
+    .filter(line => !PAYROLL_CREDIT_LINES.includes(line.key))
+    .map(line => line.label)
+    .concat(donationCredit > 0 ? ['Charitable donations'] : [], dividendTaxCredit > 0 ? ['Dividend tax credit'] : []);
+  if (returnOnlyCredits.length > 0) {
+    notes.push(`Credits claimed on the return but not on the TD1 (${returnOnlyCredits.join(', ')}) lower the tax owed below what is withheld`);
+  }
+  if (deductions > 0) {
+    notes.push(`Deductions of $${Math.round(deductions)} claimed only on the return are not reflected at source`);
+  }
+  if (hasValue(profile.td1.federal) && Math.abs(toAmount(profile.td1.federal) - calculation.basicPersonalAmount) >= 1) {
+    notes.push(`The federal TD1 claim of $${Math.round(toAmount(profile.td1.federal))} differs from the basic personal amount of $${calculation.basicPersonalAmount} on the return`);
+  }
+  return notes;
+};
+
+// Per-cheque payroll deductions from the pay frequency, TD1 claims and year-to-date CPP/EI, and the
+// year's withholding compared with the liability on the full return to predict the refund
+const simulatePayroll = (inputs, options = {}) => {
+  const taxYear = String(inputs.taxYear || DEFAULT_TAX_YEAR);
+  const rules = getTaxYearRules(taxYear);
+  const payFrequency = PAY_FREQUENCIES[inputs.payFrequency] ? inputs.payFrequency : 'biweekly';
+  const periods = PAY_FREQUENCIES[payFrequency];
+  const profile = {
+    periods,
+    province: inputs.province || 'ON',
+    taxYear,
+    grossPay: toAmount(inputs.grossPay),
+    td1: inputs.td1 || {},
+    pensionContributions: toAmount(inputs.pensionContributions),
+    unionDues: toAmount(inputs.unionDues)
+  };
+  if (!PAYROLL_PROVINCE_CODES.includes(profile.province)) {
+    throw new Error(`Payroll deductions are not simulated for ${profile.province}`);
+  }
+
+  // Year-to-date amounts not entered are what the same pay would have deducted on earlier cheques
+  const periodNumber = Math.min(periods, Math.max(1, parseInt(inputs.periodNumber, 10) || 1));
+  const zero = { earnings: 0, cpp: 0, cpp2: 0, ei: 0, tax: 0 };
+  const prior = simulateCheques(profile, 1, periodNumber - 1, zero, rules).ytd;
+  const enteredYtd = inputs.ytd || {};
+  const yearToDate = Object.fromEntries(Object.keys(zero).map(key =>
+    [key, roundCurrency(hasValue(enteredYtd[key]) ? toAmount(enteredYtd[key]) : prior[key])]));
+
+  const { cheques, ytd: yearEnd } = simulateCheques(profile, periodNumber, periods, yearToDate, rules);
+
+  // The return: employment income for the year, with pension contributions and union dues deducted
+  // at source added to the other deductions
+  const otherDeductions = toAmount(options.deductions);
+  const sourceDeductions = periods * (profile.pensionContributions + profile.unionDues);
+  const calculation = calculateCanadianTax(
+    yearEnd.earnings,
+    otherDeductions + sourceDeductions,
+    options.maritalStatus || 'single',
+    profile.province,
+    taxYear,
+    options.creditInputs || {}
+  );
+
+  const withheld = {
+    tax: roundCurrency(yearEnd.tax),
+    cpp: roundCurrency(yearEnd.cpp + yearEnd.cpp2),
+    ei: roundCurrency(yearEnd.ei)
+  };
+  const payable = {
+    tax: calculation.federalTax + calculation.provincialTax + calculation.oasRecovery,
+    cpp: calculation.cppContribution,
+    ei: calculation.eiContribution
+  };
+  const balance = payable.tax - withheld.tax - Math.max(0, withheld.cpp - payable.cpp) - Math.max(0, withheld.ei - payable.ei);
+
+  return {
+    taxYear,
+    province: profile.province,
+    payFrequency,
+    periodsPerYear: periods,
+    periodNumber,
+    yearToDate,
+    cheque: cheques[0],
+    schedule: cheques,
+    annual: {
+      employmentIncome: roundCurrency(yearEnd.earnings),
+      withheld,
+      payable,
+      difference: {
+        tax: roundCurrency(withheld.tax - payable.tax),
+        cpp: roundCurrency(withheld.cpp - payable.cpp),
+        ei: roundCurrency(withheld.ei - payable.ei)
+      },
+      balanceOwing: roundCurrency(Math.max(0, balance)),
+      refund: roundCurrency(Math.max(0, -balance))
+    },
+    notes: explainDifference(profile, calculation, otherDeductions)
+  };
+};
+
+module.exports = {
+  PAY_FREQUENCIES,
+  PAYROLL_PROVINCE_CODES,
+  simulatePayroll
+};
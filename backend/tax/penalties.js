@@ -0,0 +1,84 @@
+const penaltyRules = require('../../shared/penalties.json');
+const { roundCurrency } = require('./rules');
+const { getFilingDeadlines } = require('./deadlines');
+const { isISODate, toDayNumber, addDays, accrueDailyInterest } = require('./interest');
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+// Complete months from `from` to `to` (both YYYY-MM-DD)
+const completeMonthsBetween = (from, to) => {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0);
+  return Math.max(0, months);
+};
+
+// Late-filing penalty: 5% of the balance unpaid at the filing due date plus 1% for each complete month
+// late, up to 12 months. A repeat late filer (penalized in any of the three previous years after a
+// demand to file) pays 10% plus 2% a month, up to 20 months.
+const calculateLateFilingPenalty = (unpaidBalance, filingDeadline, filingDate, repeatOffender = false) => {
+  const rules = repeatOffender ? penaltyRules.repeatLateFiling : penaltyRules.lateFiling;
+  if (!(toDayNumber(filingDate) > toDayNumber(filingDeadline)) || unpaidBalance <= 0) {
+    return { monthsLate: 0, rate: 0, penalty: 0 };
+  }
+
+  const monthsLate = Math.min(completeMonthsBetween(filingDeadline, filingDate), rules.maxMonths);
+  const rate = Math.round((rules.rate + rules.monthlyRate * monthsLate) * 10000) / 10000;
+  return { monthsLate, rate, penalty: roundCurrency(unpaidBalance * rate) };
+};
+
+// Late-filing penalty and arrears interest on a return's balance owing. Interest compounds daily at the
+// prescribed rate on the unpaid balance from the day after the balance-due date and on the penalty from
+// the day after the filing due date, up to `asOf`. Payments made early earn no credit interest against
+// it. A return not yet filed is treated as filed on `asOf`.
+const calculateArrears = (inputs = {}) => {
+  const deadlines = getFilingDeadlines(inputs.taxYear);
+  const filingDeadline = inputs.selfEmployed ? deadlines.selfEmployedFilingDeadline : deadlines.filingDeadline;
+  const asOf = isISODate(inputs.asOf) ? inputs.asOf : new Date().toISOString().slice(0, 10);
+  const filingDate = isISODate(inputs.filingDate) ? inputs.filingDate : asOf;
+  const balanceOwing = toAmount(inputs.balanceOwing);
+  const repeatOffender = Boolean(inputs.repeatOffender);
+
+  const payments = (Array.isArray(inputs.payments) ? inputs.payments : [])
+    .filter(payment => isISODate(payment.date) && toDayNumber(payment.date) <= toDayNumber(asOf))
+    .map(payment => ({ date: payment.date, amount: toAmount(payment.amount) }))
+    .filter(payment => payment.amount > 0)
+    .sort((a, b) => toDayNumber(a.date) - toDayNumber(b.date));
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const paidByFilingDeadline = payments
+    .filter(payment => toDayNumber(payment.date) <= toDayNumber(filingDeadline))
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const unpaidAtFilingDeadline = Math.max(0, balanceOwing - paidByFilingDeadline);
+
+  const { monthsLate, rate, penalty } = calculateLateFilingPenalty(unpaidAtFilingDeadline, filingDeadline, filingDate, repeatOffender);
+  const { interest } = accrueDailyInterest([
+    { date: addDays(deadlines.balanceDue, 1), amount: balanceOwing },
+    { date: addDays(filingDeadline, 1), amount: penalty },
+    ...payments.map(payment => ({ date: payment.date, amount: -payment.amount }))
+  ], addDays(asOf, 1), { creditInterest: false });
+  const arrearsInterest = roundCurrency(Math.max(0, interest));
+
+  return {
+    taxYear: deadlines.taxYear,
+    filingDeadline,
+    balanceDue: deadlines.balanceDue,
+    filingDate,
+    filed: isISODate(inputs.filingDate),
+    asOf,
+    repeatOffender,
+    balanceOwing: roundCurrency(balanceOwing),
+    paid: roundCurrency(paid),
+    unpaidAtFilingDeadline: roundCurrency(unpaidAtFilingDeadline),
+    monthsLate: filingDate > filingDeadline ? completeMonthsBetween(filingDeadline, filingDate) : 0,
+    penaltyMonths: monthsLate,
+    penaltyRate: rate,
+    penalty,
+    interest: arrearsInterest,
+    outstanding: roundCurrency(Math.max(0, balanceOwing + penalty + arrearsInterest - paid))
+  };
+};
+
+module.exports = {
+  calculateLateFilingPenalty,
+  calculateArrears
+};
@@ -0,0 +1,44 @@
+const { calculateArrears } = require('./penalties');
+
+// 2023 returns were due, and their balance payable, on 2024-04-30
+describe('calculateArrears', () => {
+  // Daily compounding from 2024-05-01 to 2024-12-31: 61 days at 10%, then 184 days at 9%
+  const interestOn = (amount) => amount * ((1 + 0.1 / 365) ** 61 * (1 + 0.09 / 365) ** 184 - 1);
+
+  test('interest runs on the unpaid balance from the day after the balance-due date', () => {
+    const arrears = calculateArrears({ taxYear: '2023', balanceOwing: 1000, filingDate: '2024-04-30', asOf: '2024-12-31' });
+    expect(arrears.penalty).toBe(0);
+    expect(arrears.interest).toBeCloseTo(interestOn(1000), 2);
+  });
+
+  test('a payment made before the balance-due date earns no credit interest against the arrears', () => {
+    const arrears = calculateArrears({
+      taxYear: '2023',
+      balanceOwing: 2000,
+      filingDate: '2024-04-30',
+      asOf: '2024-12-31',
+      payments: [{ date: '2024-01-02', amount: 1000 }]
+    });
+    expect(arrears.paid).toBe(1000);
+    expect(arrears.interest).toBeCloseTo(interestOn(1000), 2);
+  });
+
+  test('paying the balance early leaves no interest', () => {
+    const arrears = calculateArrears({
+      taxYear: '2023',
+      balanceOwing: 1000,
+      filingDate: '2024-04-30',
+      asOf: '2024-12-31',
+      payments: [{ date: '2024-03-01', amount: 1500 }]
+    });
+    expect(arrears.interest).toBe(0);
+    expect(arrears.outstanding).toBe(0);
+  });
+
+  test('a late return owes 5% plus 1% a complete month on the balance unpaid at the filing due date', () => {
+    const arrears = calculateArrears({ taxYear: '2023', balanceOwing: 1000, filingDate: '2024-08-15', asOf: '2024-08-15' });
+    expect(arrears.penaltyMonths).toBe(3);
+    expect(arrears.penaltyRate).toBe(0.08);
+    expect(arrears.penalty).toBe(80);
+  });
+});
@@ -0,0 +1,296 @@
+const retirementRules = require('../../shared/retirement.json');
+const {
+  DEFAULT_TAX_YEAR,
+  SUPPORTED_TAX_YEARS,
+  isSupportedTaxYear,
+  getTaxYearRules,
+  calculateRRSPRoom,
+  roundCurrency
+} = require('./rules');
+const { calculateCanadianTax } = require('./calculator');
+
+const DEFAULT_END_AGE = 95;
+const MAX_PROJECTION_YEARS = 80;
+const DRAWDOWN_ORDERS = ['rrspFirst', 'tfsaFirst'];
+
+// Withdrawals needed for an after-tax target are found by bisection on the full return
+const WITHDRAWAL_SEARCH_STEPS = 30;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+const toRate = (value, fallback) => {
+  const rate = parseFloat(value);
+  return Number.isFinite(rate) ? rate : fallback;
+};
+const toAge = (value, fallback) => {
+  const age = parseInt(value, 10);
+  return Number.isFinite(age) ? age : fallback;
+};
+
+const LATEST_RULES_YEAR = SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1];
+
+// Years with published rules use them; later years use the latest rules with every bracket, credit and
+// threshold indexed by inflation. Tax scales with its thresholds, so the latest-year return on income
+// deflated by the indexation factor, inflated back, is the indexed return.
+const getYearRules = (year, inflation) => {
+  if (isSupportedTaxYear(year)) {
+    return { rulesYear: String(year), indexation: 1 };
+  }
+  return {
+    rulesYear: LATEST_RULES_YEAR,
+    indexation: Math.pow(1 + inflation, Math.max(0, year - Number(LATEST_RULES_YEAR)))
+  };
+};
+
+const getTableAmount = (table, year) => table[String(year)] !== undefined ? table[String(year)] : table[LATEST_RULES_YEAR];
+
+// RRIF minimum: the prescribed factor for age at January 1, or 1 / (90 - age) before 71
+const getRRIFMinimumRate = (ageAtJanuary) => {
+  const { minimumFactors } = retirementRules.rrif;
+  if (minimumFactors[String(ageAtJanuary)] !== undefined) return minimumFactors[String(ageAtJanuary)];
+  const ages = Object.keys(minimumFactors).map(Number);
+  if (ageAtJanuary > Math.max(...ages)) return minimumFactors[String(Math.max(...ages))];
+  return 1 / Math.max(1, 90 - ageAtJanuary);
+};
+
+// CPP is reduced 0.6% a month before 65 and increased 0.7% a month after, from 60 to 70
+const getCPPAdjustment = (startAge) => {
+  const { standardAge, earliestAge, latestAge, earlyReductionPerMonth, lateIncreasePerMonth } = retirementRules.cpp;
+  const age = Math.min(latestAge, Math.max(earliestAge, startAge));
+  const months = (age - standardAge) * 12;
+  return months < 0 ? 1 + months * earlyReductionPerMonth : 1 + months * lateIncreasePerMonth;
+};
+
+// OAS is increased 0.6% a month deferred past 65 (up to 70), and a further 10% from age 75
+const getOASAdjustment = (startAge, age) => {
+  const { standardAge, latestAge, deferralIncreasePerMonth, age75Increase } = retirementRules.oas;
+  const months = (Math.min(latestAge, Math.max(standardAge, startAge)) - standardAge) * 12;
+  return (1 + months * deferralIncreasePerMonth) * (age >= 75 ? 1 + age75Increase : 1);
+};
+
+const normalizeProjection = (profile = {}) => {
+  const startYear = isSupportedTaxYear(profile.taxYear) ? Number(profile.taxYear) : Number(DEFAULT_TAX_YEAR);
+  const currentAge = toAge(profile.currentAge, 40);
+  const cppStartAge = toAge(profile.cppStartAge, retirementRules.cpp.standardAge);
+  const oasStartAge = toAge(profile.oasStartAge, retirementRules.oas.standardAge);
+  const hasAmount = (value) => value !== undefined && value !== null && value !== '';
+
+  return {
+    startYear,
+    province: profile.province || 'ON',
+    currentAge,
+    retirementAge: Math.max(currentAge, toAge(profile.retirementAge, 65)),
+    endAge: Math.min(currentAge + MAX_PROJECTION_YEARS, Math.max(currentAge, toAge(profile.endAge, DEFAULT_END_AGE))),
+    employmentIncome: toAmount(profile.employmentIncome),
+    incomeGrowth: toRate(profile.incomeGrowth, 0.02),
+    inflation: toRate(profile.inflation, 0.02),
+    expectedReturn: toRate(profile.expectedReturn, 0.05),
+    rrspBalance: toAmount(profile.rrspBalance),
+    tfsaBalance: toAmount(profile.tfsaBalance),
+    rrspContribution: toAmount(profile.rrspContribution),
+    tfsaContribution: toAmount(profile.tfsaContribution),
+    retirementSpending: toAmount(profile.retirementSpending),
+    drawdownOrder: DRAWDOWN_ORDERS.includes(profile.drawdownOrder) ? profile.drawdownOrder : DRAWDOWN_ORDERS[0],
+    cppStartAge,
+    oasStartAge,
+    // Benefits at 65 in start-year dollars; the maximums when not given
+    cppAt65: hasAmount(profile.cppAt65) ? toAmount(profile.cppAt65) : getTableAmount(retirementRules.cpp.maximumAt65, startYear),
+    oasAt65: hasAmount(profile.oasAt65) ? toAmount(profile.oasAt65) : getTableAmount(retirementRules.oas.maximum, startYear)
+  };
+};
+
+// One year's return for the individual (no spouse amount). Employment income is entered as income, the RRSP contribution as a deduction and
+// CPP, OAS, RRSP and RRIF amounts on their slips, so each is taxed (and clawed back) as on a real return.
+const calculateYearTax = (plan, year, age, amounts) => {
+  const { rulesYear, indexation } = getYearRules(year, plan.inflation);
+  const real = (amount) => amount / indexation;
+  const slips = [
+    { type: 'T4A(P)', boxes: { 20: real(amounts.cpp) } },
+    { type: 'T4A(OAS)', boxes: { 18: real(amounts.oas) } },
+    { type: 'T4RSP', boxes: { 22: real(amounts.rrspWithdrawal) } },
+    { type: 'T4RIF', boxes: { 16: real(amounts.rrifWithdrawal) } }
+  ];
+  const result = calculateCanadianTax(
+    real(amounts.employment),
+    real(amounts.rrspContribution),
+    'single',
+    plan.province,
+    rulesYear,
+    { age: String(age), slips }
+  );
+  const cashIncome = amounts.employment + amounts.cpp + amounts.oas + amounts.rrspWithdrawal + amounts.rrifWithdrawal;
+  const tax = result.tax * indexation;
+
+  return {
+    rulesYear,
+    indexation,
+    totalIncome: result.totalIncome * indexation,
+    netIncome: result.netIncome * indexation,
+    tax,
+    oasRecovery: result.oasRecovery * indexation,
+    afterTaxIncome: cashIncome - tax
+  };
+};
+
+// Smallest extra RRSP/RRIF withdrawal (up to `available`) that brings after-tax income to `target`
+const findWithdrawalForTarget = (plan, year, age, amounts, key, available, target) => {
+  const afterTaxWith = (extra) => calculateYearTax(plan, year, age, { ...amounts, [key]: amounts[key] + extra }).afterTaxIncome;
+  if (available <= 0 || afterTaxWith(0) >= target) return 0;
+  if (afterTaxWith(available) <= target) return available;
+
+  let low = 0;
+  let high = available;
+  for (let step = 0; step < WITHDRAWAL_SEARCH_STEPS && high - low > 1; step++) {
+    const middle = (low + high) / 2;
+    if (afterTaxWith(middle) < target) low = middle;
+    else high = middle;
+  }
+  return high;
+};
+
+// Year-by-year projection from the start year to `endAge`: employment income grows until retirement,
+// RRSP and TFSA contributions (capped at earned-income room and the TFSA limit) and balances grow at the
+// expected return, the RRSP converts to a RRIF at the end of the year the owner turns 71 with minimum
+// withdrawals from the next year, CPP and OAS start at their chosen ages with the OAS recovery tax
+// applied, and retirement spending (after tax, in start-year dollars) is met from RRSP/RRIF and TFSA
+// withdrawals in the chosen order. Spending is after-tax income and TFSA withdrawals less contributions.
+// All amounts are nominal except `spendingToday`, in start-year dollars.
+const projectRetirement = (profile = {}) => {
+  const plan = normalizeProjection(profile);
+  const conversionAge = retirementRules.rrif.conversionAge;
+  let rrspBalance = plan.rrspBalance;
+  let tfsaBalance = plan.tfsaBalance;
+  let depletionAge = null;
+  const years = [];
+
+  for (let age = plan.currentAge; age <= plan.endAge; age++) {
+    const offset = age - plan.currentAge;
+    const year = plan.startYear + offset;
+    const inflationFactor = Math.pow(1 + plan.inflation, offset);
+    const { rulesYear, indexation } = getYearRules(year, plan.inflation);
+    const rules = getTaxYearRules(rulesYear);
+    const working = age < plan.retirementAge;
+    const isRRIF = age > conversionAge;
+    const openingRRSP = rrspBalance;
+
+    const employment = working ? plan.employmentIncome * Math.pow(1 + plan.incomeGrowth, offset) : 0;
+    const cpp = age >= plan.cppStartAge ? plan.cppAt65 * getCPPAdjustment(plan.cppStartAge) * inflationFactor : 0;
+    const oas = age >= plan.oasStartAge ? plan.oasAt65 * getOASAdjustment(plan.oasStartAge, age) * inflationFactor : 0;
+
+    // Contributions while working (RRSP deductible this year; no new RRSP contributions once it is a RRIF)
+    const rrspRoom = calculateRRSPRoom(employment / indexation, rules) * indexation;
+    const rrspContribution = working && age <= conversionAge ? Math.min(plan.rrspContribution * inflationFactor, rrspRoom) : 0;
+    const tfsaLimit = rules.tfsa.limit * indexation;
+    let tfsaContribution = working ? Math.min(plan.tfsaContribution * inflationFactor, tfsaLimit) : 0;
+
+    const amounts = {
+      employment,
+      cpp,
+      oas,
+      rrspContribution,
+      rrspWithdrawal: 0,
+      rrifWithdrawal: isRRIF ? Math.min(openingRRSP, openingRRSP * getRRIFMinimumRate(age - 1)) : 0
+    };
+    const withdrawalKey = isRRIF ? 'rrifWithdrawal' : 'rrspWithdrawal';
+    const target = !working ? plan.retirementSpending * inflationFactor : 0;
+    let tfsaWithdrawal = 0;
+
+    if (target > 0) {
+      const fromTFSA = () => {
+        const shortfall = target - calculateYearTax(plan, year, age, amounts).afterTaxIncome;
+        tfsaWithdrawal = Math.min(tfsaBalance, Math.max(0, shortfall));
+      };
+      const fromRRSP = (needed) => {
+        amounts[withdrawalKey] += findWithdrawalForTarget(
+          plan, year, age, amounts, withdrawalKey, openingRRSP - amounts[withdrawalKey], needed
+        );
+      };
+
+      if (plan.drawdownOrder === 'tfsaFirst') {
+        fromTFSA();
+        fromRRSP(target - tfsaWithdrawal);
+      } else {
+        fromRRSP(target);
+        fromTFSA();
+      }
+    }
+
+    const yearTax = calculateYearTax(plan, year, age, amounts);
+    const available = yearTax.afterTaxIncome + tfsaWithdrawal;
+    const shortfall = target > 0 ? Math.max(0, target - available) : 0;
+    if (shortfall > 1 && depletionAge === null) depletionAge = age;
+
+    // After-tax income above the target (e.g. RRIF minimums) is saved in the TFSA up to the limit
+    if (!working && target > 0 && available > target) {
+      tfsaContribution = Math.min(available - target, tfsaLimit);
+    }
+    const spending = available - rrspContribution - tfsaContribution;
+
+    const registeredWithdrawal = amounts.rrspWithdrawal + amounts.rrifWithdrawal;
+    rrspBalance = Math.max(0, openingRRSP + rrspContribution - registeredWithdrawal) * (1 + plan.expectedReturn);
+    tfsaBalance = Math.max(0, tfsaBalance + tfsaContribution - tfsaWithdrawal) * (1 + plan.expectedReturn);
+
+    years.push({
+      year,
+      age,
+      rulesYear,
+      indexation: Math.round(indexation * 10000) / 10000,
+      employmentIncome: roundCurrency(employment),
+      cppIncome: roundCurrency(cpp),
+      oasIncome: roundCurrency(oas),
+      rrspContribution: roundCurrency(rrspContribution),
+      tfsaContribution: roundCurrency(tfsaContribution),
+      rrspWithdrawal: roundCurrency(amounts.rrspWithdrawal),
+      rrifWithdrawal: roundCurrency(amounts.rrifWithdrawal),
+      rrifMinimum: isRRIF ? roundCurrency(Math.min(openingRRSP, openingRRSP * getRRIFMinimumRate(age - 1))) : 0,
+      tfsaWithdrawal: roundCurrency(tfsaWithdrawal),
+      totalIncome: roundCurrency(yearTax.totalIncome),
+      netIncome: roundCurrency(yearTax.netIncome),
+      tax: roundCurrency(yearTax.tax),
+      oasRecovery: roundCurrency(yearTax.oasRecovery),
+      afterTaxIncome: roundCurrency(yearTax.afterTaxIncome),
+      spending: roundCurrency(spending),
+      spendingToday: roundCurrency(spending / inflationFactor),
+      shortfall: roundCurrency(shortfall),
+      rrspAccount: isRRIF || age === conversionAge ? 'RRIF' : 'RRSP',
+      rrspBalance: roundCurrency(rrspBalance),
+      tfsaBalance: roundCurrency(tfsaBalance)
+    });
+  }
+
+  const sum = (key) => roundCurrency(years.reduce((total, year) => total + year[key], 0));
+  const last = years[years.length - 1];
+
+  return {
+    startYear: String(plan.startYear),
+    province: plan.province,
+    assumptions: {
+      incomeGrowth: plan.incomeGrowth,
+      inflation: plan.inflation,
+      expectedReturn: plan.expectedReturn,
+      retirementAge: plan.retirementAge,
+      cppStartAge: plan.cppStartAge,
+      oasStartAge: plan.oasStartAge,
+      cppAt65: roundCurrency(plan.cppAt65),
+      oasAt65: roundCurrency(plan.oasAt65),
+      retirementSpending: plan.retirementSpending,
+      drawdownOrder: plan.drawdownOrder,
+      rrifConversionYear: plan.startYear + (conversionAge - plan.currentAge)
+    },
+    years,
+    summary: {
+      totalTax: sum('tax'),
+      totalOASRecovery: sum('oasRecovery'),
+      totalAfterTaxIncome: sum('afterTaxIncome'),
+      totalSpending: sum('spending'),
+      depletionAge,
+      finalRRSPBalance: last ? last.rrspBalance : 0,
+      finalTFSABalance: last ? last.tfsaBalance : 0
+    }
+  };
+};
+
+module.exports = {
+  DRAWDOWN_ORDERS,
+  getRRIFMinimumRate,
+  projectRetirement
+};
@@ -0,0 +1,92 @@
+const {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  calculateBracketTax,
+  getBracketBreakdown,
+  getBracketRate,
+  getFederalBasicPersonalAmount,
+  roundCurrency
+} = require('./rules');
+
+// Display order used by /api/provinces and the province selectors
+const PROVINCE_CODES = ['ON', 'BC', 'AB', 'SK', 'MB', 'QC', 'NB', 'NS', 'PE', 'NL', 'YT', 'NT', 'NU'];
+
+const getProvincialRules = (province, taxYear = DEFAULT_TAX_YEAR) => {
+  const provincialRules = getTaxYearRules(taxYear).provinces[province];
+  if (!provincialRules) {
+    throw new Error(`Unsupported province: ${province}`);
+  }
+  return provincialRules;
+};
+
+// Provincial BPA; Yukon mirrors the federal phase-out, Nova Scotia adds a low-income supplement
+const getProvincialBasicPersonalAmount = (netIncome, province, taxYear = DEFAULT_TAX_YEAR) => {
+  const provincialRules = getProvincialRules(province, taxYear);
+  if (provincialRules.followsFederalBasicPersonal) {
+    return getFederalBasicPersonalAmount(netIncome, getTaxYearRules(taxYear));
+  }
+
+  let amount = provincialRules.basicPersonalAmount;
+  if (provincialRules.basicPersonalSupplement) {
+    const { amount: supplement, phaseOutStart, phaseOutEnd } = provincialRules.basicPersonalSupplement;
+    const phasedOut = Math.min(1, Math.max(0, (netIncome - phaseOutStart) / (phaseOutEnd - phaseOutStart)));
+    amount += supplement * (1 - phasedOut);
+  }
+  return amount;
+};
+
+// Non-refundable credits are valued at the lowest provincial rate unless the table overrides it
+const getProvincialCreditRate = (provincialRules) => {
+  return provincialRules.creditRate || provincialRules.brackets[0].rate;
+};
+
+// Ontario surtax: a percentage of basic Ontario tax above each threshold
+const calculateSurtax = (basicProvincialTax, surtaxTiers = []) => {
+  return surtaxTiers.reduce((surtax, tier) => surtax + Math.max(0, basicProvincialTax - tier.threshold) * tier.rate, 0);
+};
+
+// Ontario Health Premium: each tier phases in at its rate until it reaches that tier's maximum
+const calculateHealthPremium = (taxableIncome, premiumTiers = []) => {
+  let premium = 0;
+  for (const tier of premiumTiers) {
+    if (taxableIncome <= tier.threshold) break;
+    premium = Math.min(tier.maxPremium, premium + (taxableIncome - tier.threshold) * tier.rate);
+  }
+  return premium;
+};
+
+// Provincial tax on graduated brackets; `credits` is the provincial credit summary (see credits.js)
+const calculateProvincialTax = (taxableIncome, province, taxYear = DEFAULT_TAX_YEAR, credits = { value: 0 }) => {
+  const provincialRules = getProvincialRules(province, taxYear);
+
+  const basicTax = calculateBracketTax(taxableIncome, provincialRules.brackets);
+  const taxAfterCredits = Math.max(0, basicTax - credits.value);
+  const surtax = calculateSurtax(taxAfterCredits, provincialRules.surtax);
+  const healthPremium = calculateHealthPremium(taxableIncome, provincialRules.healthPremium);
+  const totalTax = taxAfterCredits + surtax + healthPremium;
+
+  return {
+    province,
+    provinceName: provincialRules.name,
+    taxYear: String(taxYear),
+    taxableIncome: roundCurrency(taxableIncome),
+    brackets: getBracketBreakdown(taxableIncome, provincialRules.brackets),
+    basicTax: roundCurrency(basicTax),
+    credits,
+    taxAfterCredits: roundCurrency(taxAfterCredits),
+    surtax: roundCurrency(surtax),
+    healthPremium: roundCurrency(healthPremium),
+    totalTax: roundCurrency(totalTax),
+    marginalBracketRate: getBracketRate(taxableIncome, provincialRules.brackets)
+  };
+};
+
+module.exports = {
+  PROVINCE_CODES,
+  getProvincialRules,
+  getProvincialBasicPersonalAmount,
+  getProvincialCreditRate,
+  calculateSurtax,
+  calculateHealthPremium,
+  calculateProvincialTax
+};
@@ -0,0 +1,96 @@
+const {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  calculateBracketTax,
+  getBracketBreakdown,
+  getBracketRate,
+  calculateCPP,
+  roundCurrency
+} = require('./rules');
+
+// QPP shares the CPP earnings ceilings (YMPE/YAMPE) and second tier, with Quebec's own first-tier rates
+const calculateQPP = (earnings, rules) => {
+  return calculateCPP(earnings, { cpp: { ...rules.cpp, ...rules.quebec.qpp } });
+};
+
+// Quebec Parental Insurance Plan employee premium
+const calculateQPIP = (earnings, rules) => {
+  const { rate, maxInsurableEarnings, maxPremium } = rules.quebec.qpip;
+  return Math.min(Math.max(0, Math.min(earnings, maxInsurableEarnings)) * rate, maxPremium);
+};
+
+// QPIP on self-employment income: the self-employed rate on net business income of at least the plan's
+// minimum, up to the maximum insurable earnings left after employment earnings. The part above the
+// employee rate is deductible (line 22300 federally, 248 on the TP-1); the employee-rate part is a
+// federal credit (line 31210).
+const calculateSelfEmployedQPIP = (employmentEarnings, selfEmploymentEarnings, rules) => {
+  const { rate, selfEmployedRate, maxInsurableEarnings, minSelfEmployedEarnings } = rules.quebec.qpip;
+  const earnings = selfEmploymentEarnings >= minSelfEmployedEarnings
+    ? Math.min(selfEmploymentEarnings, Math.max(0, maxInsurableEarnings - Math.max(0, employmentEarnings)))
+    : 0;
+
+  return {
+    earnings,
+    total: earnings * selfEmployedRate,
+    creditable: earnings * rate,
+    deductible: earnings * (selfEmployedRate - rate)
+  };
+};
+
+// Quebec employees pay EI at a reduced rate because QPIP covers parental benefits
+const calculateQuebecEI = (earnings, rules) => {
+  const { rate, maxPremium } = rules.quebec.ei;
+  return Math.min(Math.max(0, Math.min(earnings, rules.ei.maxInsurableEarnings)) * rate, maxPremium);
+};
+
+// Refundable Quebec abatement: a share of basic federal tax is returned to Quebec residents
+const calculateFederalAbatement = (basicFederalTax, rules) => {
+  return Math.max(0, basicFederalTax) * rules.quebec.federalAbatementRate;
+};
+
+// Provincial return filed with Revenu Québec (TP-1). Since 2011 the Quebec basic amount absorbs the
+// former credits for QPP, QPIP and EI contributions, so `credits` carries no contribution lines.
+const calculateQuebecTax = (netIncome, taxYear = DEFAULT_TAX_YEAR, contributions = {}, credits = { value: 0 }) => {
+  const rules = getTaxYearRules(taxYear);
+  const quebecRules = rules.provinces.QC;
+  const { employmentIncome = 0, qppDeductible = 0, qpipDeductible = 0, netCapitalLossDeduction = 0 } = contributions;
+
+  const workersDeduction = Math.min(
+    Math.max(0, employmentIncome) * rules.quebec.workersDeduction.rate,
+    rules.quebec.workersDeduction.max
+  );
+  const taxableIncome = Math.max(0, netIncome - qppDeductible - qpipDeductible - workersDeduction - netCapitalLossDeduction);
+  const basicTax = calculateBracketTax(taxableIncome, quebecRules.brackets);
+  const taxAfterCredits = Math.max(0, basicTax - credits.value);
+
+  return {
+    province: 'QC',
+    provinceName: quebecRules.name,
+    returnType: 'TP-1',
+    taxYear: String(taxYear),
+    taxableIncome: roundCurrency(taxableIncome),
+    deductions: {
+      qppEnhanced: roundCurrency(qppDeductible),
+      qpipSelfEmployed: roundCurrency(qpipDeductible),
+      workersDeduction: roundCurrency(workersDeduction),
+      netCapitalLosses: roundCurrency(netCapitalLossDeduction)
+    },
+    brackets: getBracketBreakdown(taxableIncome, quebecRules.brackets),
+    basicTax: roundCurrency(basicTax),
+    credits,
+    taxAfterCredits: roundCurrency(taxAfterCredits),
+    surtax: 0,
+    healthPremium: 0,
+    totalTax: roundCurrency(taxAfterCredits),
+    marginalBracketRate: getBracketRate(taxableIncome, quebecRules.brackets)
+  };
+};
+
+module.exports = {
+  calculateQPP,
+  calculateQPIP,
+  calculateSelfEmployedQPIP,
+  calculateQuebecEI,
+  calculateFederalAbatement,
+  calculateQuebecTax
+};
@@ -0,0 +1,314 @@
+const registeredAccounts = require('../../shared/registeredAccounts.json');
+const { isSupportedTaxYear, getTaxYearRules, roundCurrency } = require('./rules');
+const { getFilingDeadlines } = require('./deadlines');
+
+// Contribution room for RRSPs, TFSAs and FHSAs (shared/registeredAccounts.json). Room starts from the
+// Notice of Assessment (RRSP), CRA My Account (TFSA) or the year an FHSA was opened, and the ledger's
+// dated contributions and withdrawals are applied year by year up to the tax year.
+const ACCOUNT_TYPES = ['rrsp', 'tfsa', 'fhsa'];
+const TRANSACTION_TYPES = ['contribution', 'withdrawal'];
+
+const { penaltyRatePerMonth } = registeredAccounts;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const addDays = (date, days) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+// YYYY-MM for every month from `startDate` to `endDate`
+const getMonths = (startDate, endDate) => {
+  const months = [];
+  let year = Number(startDate.slice(0, 4));
+  let month = Number(startDate.slice(5, 7));
+  while (`${year}-${String(month).padStart(2, '0')}` <= endDate.slice(0, 7)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year += 1;
+  }
+  return months;
+};
+
+const getAccountTransactions = (transactions, account) => (Array.isArray(transactions) ? transactions : [])
+  .filter(transaction => transaction.account === account && TRANSACTION_TYPES.includes(transaction.type) &&
+    /^\d{4}-\d{2}-\d{2}$/.test(String(transaction.date || '')))
+  .map((transaction, index) => ({ ...transaction, amount: toAmount(transaction.amount), index }))
+  .sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index);
+
+const sumAmounts = (transactions, type) => transactions
+  .filter(transaction => transaction.type === type)
+  .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+// The penalty tax is 1% of the highest excess in each month. Applies the period's transactions month by
+// month and returns each month's highest excess.
+const trackMonthlyExcess = (months, transactions, applyTransaction, getExcess) => months.map(month => {
+  let excess = getExcess();
+  transactions
+    .filter(transaction => transaction.date.slice(0, 7) === month)
+    .forEach(transaction => {
+      applyTransaction(transaction);
+      excess = Math.max(excess, getExcess());
+    });
+  return { month, excess };
+});
+
+const sumPenalty = (monthlyExcess) => monthlyExcess.reduce((sum, month) => sum + month.excess * penaltyRatePerMonth, 0);
+
+// Contributions count for the year from the day after last year's deadline to the 60th day of the
+// following year (the next business day when it falls on a weekend)
+const getRRSPContributionPeriod = (taxYear) => ({
+  start: addDays(getFilingDeadlines(Number(taxYear) - 1).rrspContributionDeadline, 1),
+  end: getFilingDeadlines(taxYear).rrspContributionDeadline
+});
+
+// New room earned for the next year: 18% of earned income up to next year's dollar limit, less the
+// pension adjustment
+const getRRSPRoomEarned = (taxYear, earnedIncome, pensionAdjustment) => {
+  const nextYear = String(Number(taxYear) + 1);
+  if (!isSupportedTaxYear(nextYear)) return null;
+  const { rrsp } = getTaxYearRules(nextYear);
+  return Math.min(Math.max(0, earnedIncome) * rrsp.rate, rrsp.limit) - pensionAdjustment;
+};
+
+// RRSP: the deduction limit and unused contributions from the Notice of Assessment for `noaYear`,
+// carried to the tax year using each year's earned income and pension adjustment. Contributions are
+// deducted up to the limit; undeducted contributions more than $2,000 over the limit are an excess.
+const calculateRRSP = (settings = {}, transactions, taxYear, current) => {
+  if (!settings.noaYear || Number(taxYear) < Number(settings.noaYear)) return null;
+
+  const incomeHistory = new Map((Array.isArray(settings.incomeHistory) ? settings.incomeHistory : [])
+    .map(year => [String(year.taxYear), { earnedIncome: toAmount(year.earnedIncome), pensionAdjustment: toAmount(year.pensionAdjustment) }]));
+  const { overContributionAllowance } = registeredAccounts.rrsp;
+  const accountTransactions = getAccountTransactions(transactions, 'rrsp');
+  let deductionLimit = toAmount(settings.deductionLimit);
+  let unused = toAmount(settings.unusedContributions);
+
+  for (let year = Number(settings.noaYear); year < Number(taxYear); year++) {
+    const period = getRRSPContributionPeriod(year);
+    const contributions = sumAmounts(accountTransactions
+      .filter(transaction => transaction.date >= period.start && transaction.date <= period.end), 'contribution');
+    const deduction = Math.min(unused + contributions, deductionLimit);
+    const { earnedIncome = 0, pensionAdjustment = 0 } = incomeHistory.get(String(year)) || {};
+
+    unused = unused + contributions - deduction;
+    deductionLimit = deductionLimit - deduction + (getRRSPRoomEarned(year, earnedIncome, pensionAdjustment) || 0);
+  }
+
+  const period = getRRSPContributionPeriod(taxYear);
+  const periodTransactions = accountTransactions
+    .filter(transaction => transaction.date >= period.start && transaction.date <= period.end);
+  const openingUnused = unused;
+  let undeducted = unused;
+  const monthlyExcess = trackMonthlyExcess(getMonths(period.start, period.end), periodTransactions, transaction => {
+    // Withdrawing undeducted contributions (form T3012A) reduces an over-contribution
+    undeducted = transaction.type === 'contribution'
+      ? undeducted + transaction.amount
+      : undeducted - Math.min(transaction.amount, Math.max(0, undeducted - deductionLimit));
+  }, () => Math.max(0, undeducted - deductionLimit - overContributionAllowance));
+
+  const deduction = Math.min(undeducted, deductionLimit);
+  const roomEarned = getRRSPRoomEarned(taxYear, current.earnedIncome || 0, current.pensionAdjustment || 0);
+
+  return {
+    noaYear: String(settings.noaYear),
+    contributionPeriod: period,
+    deductionLimit,
+    unusedContributions: openingUnused,
+    contributions: sumAmounts(periodTransactions, 'contribution'),
+    first60DayContributions: sumAmounts(periodTransactions
+      .filter(transaction => transaction.date > `${taxYear}-12-31`), 'contribution'),
+    withdrawals: sumAmounts(periodTransactions, 'withdrawal'),
+    deduction,
+    unusedContributionsCarriedForward: undeducted - deduction,
+    overContribution: Math.max(0, undeducted - deductionLimit),
+    excess: Math.max(0, undeducted - deductionLimit - overContributionAllowance),
+    monthlyExcess,
+    penalty: sumPenalty(monthlyExcess),
+    nextYearDeductionLimit: roomEarned === null ? null : deductionLimit - deduction + roomEarned
+  };
+};
+
+const getTFSALimit = (year) => registeredAccounts.tfsa.annualLimits[String(year)];
+
+// TFSA: room at January 1 of `roomYear` from CRA My Account, or lifetime room from the year the holder
+// became eligible (18 and resident). Contributions use room; withdrawals are added back the next
+// January 1, except the part that removed an excess.
+const calculateTFSA = (settings = {}, transactions, taxYear) => {
+  const hasRoom = settings.roomYear && settings.room !== undefined && settings.room !== null && settings.room !== '';
+  if (!hasRoom && !settings.eligibleSince) return null;
+
+  const startYear = hasRoom
+    ? Number(settings.roomYear)
+    : Math.max(registeredAccounts.tfsa.firstYear, Number(settings.eligibleSince));
+  if (Number(taxYear) < startYear) return null;
+
+  const accountTransactions = getAccountTransactions(transactions, 'tfsa');
+  let room = hasRoom ? toAmount(settings.room) : getTFSALimit(startYear) || 0;
+  let addBack = 0;
+  let roomAtStart = room;
+  let monthlyExcess = [];
+
+  const applyTransaction = (transaction) => {
+    if (transaction.type === 'contribution') {
+      room -= transaction.amount;
+    } else {
+      const correction = Math.min(Math.max(0, -room), transaction.amount);
+      room += correction;
+      addBack += transaction.amount - correction;
+    }
+  };
+
+  for (let year = startYear; year <= Number(taxYear); year++) {
+    if (year > startYear) {
+      room += addBack + (getTFSALimit(year) || 0);
+      addBack = 0;
+    }
+    roomAtStart = room;
+    const yearTransactions = accountTransactions.filter(transaction => transaction.date.startsWith(String(year)));
+
+    if (year === Number(taxYear)) {
+      monthlyExcess = trackMonthlyExcess(getMonths(`${year}-01-01`, `${year}-12-31`), yearTransactions,
+        applyTransaction, () => Math.max(0, -room));
+    } else {
+      yearTransactions.forEach(applyTransaction);
+    }
+  }
+
+  const yearTransactions = accountTransactions.filter(transaction => transaction.date.startsWith(String(taxYear)));
+  const nextLimit = getTFSALimit(Number(taxYear) + 1);
+
+  return {
+    roomAtStart,
+    contributions: sumAmounts(yearTransactions, 'contribution'),
+    withdrawals: sumAmounts(yearTransactions, 'withdrawal'),
+    availableRoom: Math.max(0, room),
+    excess: Math.max(0, -room),
+    highestExcess: Math.max(0, ...monthlyExcess.map(month => month.excess)),
+    recontributionRoom: addBack,
+    monthlyExcess,
+    penalty: sumPenalty(monthlyExcess),
+    nextYearRoom: nextLimit === undefined ? null : room + addBack + nextLimit
+  };
+};
+
+// FHSA: $8,000 of participation room from the year the account is opened, plus up to $8,000 of unused
+// room carried forward, to a $40,000 lifetime limit. Withdrawals do not restore room, except a
+// withdrawal that removes an excess.
+const calculateFHSA = (settings = {}, transactions, taxYear) => {
+  if (!settings.openedYear || Number(taxYear) < Number(settings.openedYear)) return null;
+
+  const { annualLimit, carryforwardLimit, lifetimeLimit } = registeredAccounts.fhsa;
+  const accountTransactions = getAccountTransactions(transactions, 'fhsa');
+  const getNextRoom = (room, lifetime) => Math.min(
+    (room >= 0 ? Math.min(room, carryforwardLimit) : room) + annualLimit,
+    lifetimeLimit - lifetime
+  );
+  let room = Math.min(annualLimit, lifetimeLimit);
+  let lifetime = 0;
+  let roomAtStart = room;
+  let monthlyExcess = [];
+
+  const applyTransaction = (transaction) => {
+    if (transaction.type === 'contribution') {
+      room -= transaction.amount;
+      lifetime += transaction.amount;
+    } else {
+      const correction = Math.min(Math.max(0, -room), transaction.amount);
+      room += correction;
+      lifetime -= correction;
+    }
+  };
+
+  for (let year = Number(settings.openedYear); year <= Number(taxYear); year++) {
+    if (year > Number(settings.openedYear)) room = getNextRoom(room, lifetime);
+    roomAtStart = room;
+    const yearTransactions = accountTransactions.filter(transaction => transaction.date.startsWith(String(year)));
+
+    if (year === Number(taxYear)) {
+      monthlyExcess = trackMonthlyExcess(getMonths(`${year}-01-01`, `${year}-12-31`), yearTransactions,
+        applyTransaction, () => Math.max(0, -room));
+    } else {
+      yearTransactions.forEach(applyTransaction);
+    }
+  }
+
+  const yearTransactions = accountTransactions.filter(transaction => transaction.date.startsWith(String(taxYear)));
+
+  return {
+    openedYear: String(settings.openedYear),
+    participationRoom: roomAtStart,
+    contributions: sumAmounts(yearTransactions, 'contribution'),
+    withdrawals: sumAmounts(yearTransactions, 'withdrawal'),
+    lifetimeContributions: lifetime,
+    availableRoom: Math.max(0, room),
+    excess: Math.max(0, -room),
+    monthlyExcess,
+    penalty: sumPenalty(monthlyExcess),
+    nextYearRoom: getNextRoom(room, lifetime)
+  };
+};
+
+const formatMoney = (amount) => `$${Math.round(amount).toLocaleString('en-CA')}`;
+
+// All three accounts for a tax year, with over-contribution warnings. `current` is the tax year's
+// earned income and pension adjustment (T4 box 52), which set next year's RRSP room.
+const calculateRegisteredAccounts = (ledger = {}, taxYear, current = {}) => {
+  const transactions = ledger.transactions;
+  const rrsp = calculateRRSP(ledger.rrsp, transactions, taxYear, current);
+  const tfsa = calculateTFSA(ledger.tfsa, transactions, taxYear);
+  const fhsa = calculateFHSA(ledger.fhsa, transactions, taxYear);
+  const warnings = [];
+
+  if (rrsp && rrsp.excess > 0) {
+    warnings.push(`RRSP over-contribution of ${formatMoney(rrsp.excess)} beyond your deduction limit and the ` +
+      `${formatMoney(registeredAccounts.rrsp.overContributionAllowance)} allowance is taxed at 1% per month ` +
+      `(${formatMoney(rrsp.penalty)} for the ${taxYear} contribution period). Withdraw it (form T3012A) and file a T1-OVP.`);
+  } else if (rrsp && rrsp.overContribution > 0) {
+    warnings.push(`RRSP contributions are ${formatMoney(rrsp.overContribution)} over your deduction limit, within the ` +
+      `${formatMoney(registeredAccounts.rrsp.overContributionAllowance)} allowance: no penalty, but the excess is not deductible for ${taxYear}.`);
+  }
+  if (tfsa && tfsa.highestExcess > 0) {
+    warnings.push(`TFSA over-contribution of up to ${formatMoney(tfsa.highestExcess)} is taxed at 1% of the highest excess ` +
+      `each month (${formatMoney(tfsa.penalty)} in ${taxYear}). Withdrawals only restore room the next January 1. File an RC243.`);
+  }
+  if (fhsa && fhsa.excess > 0) {
+    warnings.push(`FHSA over-contribution of ${formatMoney(fhsa.excess)} is taxed at 1% per month ` +
+      `(${formatMoney(fhsa.penalty)} in ${taxYear}). Withdraw or transfer the excess and file an RC728.`);
+  }
+
+  return {
+    taxYear: String(taxYear),
+    rrsp,
+    tfsa,
+    fhsa,
+    totalPenalty: [rrsp, tfsa, fhsa].reduce((sum, account) => sum + (account ? account.penalty : 0), 0),
+    warnings
+  };
+};
+
+// Rounded figures for responses
+const roundAccount = (account) => {
+  if (!account) return null;
+  return Object.fromEntries(Object.entries(account).map(([key, value]) => {
+    if (typeof value === 'number') return [key, roundCurrency(value)];
+    if (key === 'monthlyExcess') return [key, value.map(month => ({ ...month, excess: roundCurrency(month.excess) }))];
+    return [key, value];
+  }));
+};
+
+const summarizeRegisteredAccounts = (accounts) => ({
+  ...accounts,
+  rrsp: roundAccount(accounts.rrsp),
+  tfsa: roundAccount(accounts.tfsa),
+  fhsa: roundAccount(accounts.fhsa),
+  totalPenalty: roundCurrency(accounts.totalPenalty)
+});
+
+module.exports = {
+  ACCOUNT_TYPES,
+  TRANSACTION_TYPES,
+  calculateRegisteredAccounts,
+  summarizeRegisteredAccounts
+};
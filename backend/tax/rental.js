@@ -0,0 +1,202 @@
+const t776 = require('../../shared/t776.json');
+const { roundCurrency } = require('./rules');
+const { normalizeAsset, calculateAssetCCA } = require('./business');
+
+// T776 expense lines and the CCA classes used for rental buildings and their contents (shared/t776.json;
+// rates come from the T2125 class table)
+const RENTAL_EXPENSE_KEYS = Object.keys(t776.expenses);
+const RENTAL_CCA_CLASSES = t776.ccaClasses;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+// Percentages as rates; ownership defaults to 100%, personal use to none
+const toRate = (percent, fallback) => {
+  if (percent === undefined || percent === null || percent === '') return fallback;
+  return Math.min(Math.max(0, parseFloat(percent) || 0), 100) / 100;
+};
+
+// Properties and assets are matched across years by address, class and description
+const getPropertyKey = (address) => String(address || '').trim().toLowerCase();
+
+const getAssetKey = (asset) => `${asset.ccaClass}|${String(asset.description || '').trim().toLowerCase()}`;
+
+const normalizeRentalAsset = (asset = {}) => {
+  if (!RENTAL_CCA_CLASSES.includes(asset.ccaClass)) {
+    throw new Error(`Unsupported rental CCA class: ${asset.ccaClass}`);
+  }
+
+  const requestedClaim = asset.ccaClaim === undefined || asset.ccaClaim === null || asset.ccaClaim === ''
+    ? null
+    : toAmount(asset.ccaClaim);
+  return { ...normalizeAsset({ ...asset, businessUsePercent: 100 }), requestedClaim };
+};
+
+// One property: income and expenses for the whole property less the personal-use share of expenses,
+// then the owner's share. Capital cost (and so UCC) is entered as the owner's share.
+const calculateRentalProperty = (property = {}, rules) => {
+  const grossRents = toAmount(property.grossRents);
+  const otherIncome = toAmount(property.otherIncome);
+
+  const expenses = RENTAL_EXPENSE_KEYS.map(key => ({
+    key,
+    line: t776.expenses[key].line,
+    label: t776.expenses[key].label,
+    amount: toAmount(property.expenses && property.expenses[key])
+  })).filter(expense => expense.amount > 0);
+  const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const personalPortion = totalExpenses * toRate(property.personalUsePercent, 0);
+  const ownershipRate = toRate(property.ownershipPercent, 1);
+  const netIncome = grossRents + otherIncome - totalExpenses + personalPortion;
+
+  return {
+    address: property.address || '',
+    ownershipRate,
+    grossRents,
+    otherIncome,
+    expenses,
+    totalExpenses,
+    personalPortion,
+    netIncome,
+    shareOfNetIncome: netIncome * ownershipRate,
+    assets: (Array.isArray(property.assets) ? property.assets : [])
+      .map(normalizeRentalAsset)
+      .map(asset => ({ ...calculateAssetCCA(asset, rules), requestedClaim: asset.requestedClaim }))
+  };
+};
+
+// All properties together. CCA cannot create or increase a rental loss, so claims (the maximum unless a
+// smaller amount is requested) are limited to net rental income before CCA across all properties,
+// including recaptured CCA. Only the CCA claimed reduces the class, so unclaimed UCC carries forward.
+const calculateRentalSchedule = (properties, rules) => {
+  const computed = (Array.isArray(properties) ? properties : []).map(property => calculateRentalProperty(property, rules));
+  const recapture = computed.reduce((sum, property) =>
+    sum + property.assets.reduce((total, asset) => total + asset.recapture, 0), 0);
+  const netIncomeBeforeCca = computed.reduce((sum, property) => sum + property.shareOfNetIncome, 0) + recapture;
+
+  let ccaLimit = Math.max(0, netIncomeBeforeCca);
+  let maximumCca = 0;
+  const schedule = computed.map(property => {
+    const assets = property.assets.map(asset => {
+      const requested = asset.requestedClaim === null ? asset.cca : Math.min(asset.requestedClaim, asset.cca);
+      const claim = Math.min(requested, ccaLimit);
+      ccaLimit -= claim;
+      maximumCca += asset.cca;
+      return { ...asset, claim, closingUcc: asset.closingUcc + asset.cca - claim };
+    });
+    const propertyRecapture = assets.reduce((sum, asset) => sum + asset.recapture, 0);
+    const cca = assets.reduce((sum, asset) => sum + asset.claim, 0);
+
+    return {
+      ...property,
+      assets,
+      recapture: propertyRecapture,
+      cca,
+      netRentalIncome: property.shareOfNetIncome + propertyRecapture - cca
+    };
+  });
+  const cca = schedule.reduce((sum, property) => sum + property.cca, 0);
+
+  return {
+    properties: schedule,
+    grossRents: schedule.reduce((sum, property) => sum + (property.grossRents + property.otherIncome) * property.ownershipRate, 0),
+    netIncomeBeforeCca,
+    recapture,
+    maximumCca,
+    cca,
+    ccaRestricted: cca < maximumCca && ccaLimit === 0,
+    netIncome: netIncomeBeforeCca - cca
+  };
+};
+
+// Next year's properties: same addresses, ownership and assets, with opening UCC from this year's
+// closing UCC and the year's amounts left blank
+const carryForwardRentalProperties = (properties, rules) => {
+  const { properties: schedule } = calculateRentalSchedule(properties, rules);
+  return schedule.map((property, index) => ({
+    address: property.address,
+    ownershipPercent: properties[index].ownershipPercent === undefined ? '' : String(properties[index].ownershipPercent),
+    grossRents: '',
+    otherIncome: '',
+    personalUsePercent: properties[index].personalUsePercent === undefined ? '' : String(properties[index].personalUsePercent),
+    expenses: {},
+    assets: property.assets
+      .filter(asset => asset.closingUcc > 0)
+      .map(asset => ({
+        ccaClass: asset.ccaClass,
+        description: asset.description,
+        openingUcc: String(roundCurrency(asset.closingUcc)),
+        additions: '',
+        dispositions: '',
+        ccaClaim: ''
+      }))
+  }));
+};
+
+// Fill in blank opening UCC from last year's closing UCC for the same property and asset
+const applyPriorYearUcc = (properties, priorProperties, rules) => {
+  if (!Array.isArray(priorProperties) || priorProperties.length === 0) return properties;
+
+  const carried = new Map();
+  carryForwardRentalProperties(priorProperties, rules).forEach(property => {
+    property.assets.forEach(asset => {
+      carried.set(`${getPropertyKey(property.address)}|${getAssetKey(asset)}`, asset.openingUcc);
+    });
+  });
+
+  return properties.map(property => ({
+    ...property,
+    assets: (property.assets || []).map(asset => {
+      const key = `${getPropertyKey(property.address)}|${getAssetKey(asset)}`;
+      const isBlank = asset.openingUcc === undefined || asset.openingUcc === null || asset.openingUcc === '';
+      return isBlank && carried.has(key) ? { ...asset, openingUcc: carried.get(key) } : asset;
+    })
+  }));
+};
+
+// Rounded T776 figures for responses
+const summarizeRentalSchedule = (schedule) => ({
+  properties: schedule.properties.map(property => ({
+    address: property.address,
+    ownershipRate: property.ownershipRate,
+    grossRents: roundCurrency(property.grossRents),
+    otherIncome: roundCurrency(property.otherIncome),
+    expenses: property.expenses.map(expense => ({ ...expense, amount: roundCurrency(expense.amount) })),
+    totalExpenses: roundCurrency(property.totalExpenses),
+    personalPortion: roundCurrency(property.personalPortion),
+    netIncome: roundCurrency(property.netIncome),
+    shareOfNetIncome: roundCurrency(property.shareOfNetIncome),
+    assets: property.assets.map(asset => ({
+      ccaClass: asset.ccaClass,
+      description: asset.description,
+      rate: asset.rate,
+      openingUcc: roundCurrency(asset.openingUcc),
+      additions: roundCurrency(asset.additions),
+      dispositions: roundCurrency(asset.dispositions),
+      halfYearAdjustment: roundCurrency(asset.halfYearAdjustment),
+      cca: roundCurrency(asset.cca),
+      claim: roundCurrency(asset.claim),
+      recapture: roundCurrency(asset.recapture),
+      closingUcc: roundCurrency(asset.closingUcc)
+    })),
+    recapture: roundCurrency(property.recapture),
+    cca: roundCurrency(property.cca),
+    netRentalIncome: roundCurrency(property.netRentalIncome)
+  })),
+  grossRents: roundCurrency(schedule.grossRents),
+  netIncomeBeforeCca: roundCurrency(schedule.netIncomeBeforeCca),
+  recapture: roundCurrency(schedule.recapture),
+  maximumCca: roundCurrency(schedule.maximumCca),
+  cca: roundCurrency(schedule.cca),
+  ccaRestricted: schedule.ccaRestricted,
+  netIncome: roundCurrency(schedule.netIncome)
+});
+
+module.exports = {
+  RENTAL_EXPENSE_KEYS,
+  RENTAL_CCA_CLASSES,
+  calculateRentalProperty,
+  calculateRentalSchedule,
+  carryForwardRentalProperties,
+  applyPriorYearUcc,
+  summarizeRentalSchedule
+};
@@ -0,0 +1,165 @@
+const { DEFAULT_TAX_YEAR, SUPPORTED_TAX_YEARS, isSupportedTaxYear, roundCurrency } = require('./rules');
+const { calculateCanadianTax } = require('./calculator');
+
+// The optimizer reruns the full return at evenly spaced RRSP contributions up to the available room,
+// so bracket boundaries, credits and clawbacks all show up in the savings for each amount
+const DEFAULT_STEPS = 20;
+const MAX_STEPS = 100;
+const MIN_STEP = 250;
+
+// A later step saving at least one percentage point less per dollar than the first marks the drop-off
+const DROP_OFF_TOLERANCE = 0.01;
+
+const toAmount = (value) => Math.max(0, parseFloat(value) || 0);
+
+const getContributionAmounts = (room, steps) => {
+  if (room <= 0) return [0];
+  const step = Math.max(MIN_STEP, Math.ceil(room / steps / MIN_STEP) * MIN_STEP);
+  const amounts = [];
+  for (let amount = 0; amount < room; amount += step) amounts.push(amount);
+  amounts.push(room);
+  return amounts;
+};
+
+// Later tax years use the latest rules available
+const getFutureTaxYear = (taxYear, years) => {
+  const target = String(Number(taxYear) + years);
+  return isSupportedTaxYear(target) ? target : SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1];
+};
+
+// Savings from deducting the slice above the drop-off (the whole room when there is none) now, against
+// deducting it in a future year at `futureIncome`, discounted to today
+const evaluateDeferral = (profile, points, dropOff, options) => {
+  const years = Math.max(1, parseInt(options.deferralYears, 10) || 1);
+  const discountRate = toAmount(options.discountRate);
+  const futureTaxYear = getFutureTaxYear(profile.taxYear, years);
+  const last = points[points.length - 1];
+  const deferredFrom = dropOff ? points.find(point => point.contribution === dropOff.contribution) : points[0];
+  const amount = last.contribution - deferredFrom.contribution;
+
+  // The future return only has the employment income given; credits carry over as entered
+  const { slips, businesses, rentals, investments, registeredAccounts, ...credits } = profile.creditInputs;
+  const futureTax = (deduction) => calculateCanadianTax(
+    toAmount(options.futureIncome),
+    deduction,
+    profile.maritalStatus,
+    profile.province,
+    futureTaxYear,
+    credits
+  ).tax;
+
+  const savingsNow = last.taxSavings - deferredFrom.taxSavings;
+  const futureSavings = futureTax(0) - futureTax(amount);
+  const presentValue = futureSavings / Math.pow(1 + discountRate, years);
+
+  return {
+    amount,
+    futureIncome: toAmount(options.futureIncome),
+    futureTaxYear,
+    years,
+    discountRate,
+    savingsNow: roundCurrency(savingsNow),
+    futureSavings: roundCurrency(futureSavings),
+    presentValue: roundCurrency(presentValue),
+    recommendation: amount > 0 && presentValue > savingsNow ? 'defer' : 'deductNow'
+  };
+};
+
+// Refund and tax saved at each RRSP contribution from zero to the available room (the ledger's
+// deduction limit, or `options.room`), the contribution after which each extra dollar saves less, and
+// optionally whether deferring the deduction to a higher-income year is worth more
+const optimizeRRSPContribution = (profile, options = {}) => {
+  const {
+    income,
+    deductions = 0,
+    maritalStatus = 'single',
+    province = 'ON',
+    taxYear = DEFAULT_TAX_YEAR,
+    creditInputs = {}
+  } = profile;
+  const calculateAt = (contribution) => calculateCanadianTax(income, deductions + contribution, maritalStatus, province, taxYear, creditInputs);
+
+  const baseline = calculateAt(0);
+  const room = options.room !== undefined && options.room !== null && options.room !== ''
+    ? toAmount(options.room)
+    : baseline.rrspRoom;
+  const steps = Math.min(MAX_STEPS, Math.max(1, parseInt(options.steps, 10) || DEFAULT_STEPS));
+
+  let previous = null;
+  const points = getContributionAmounts(room, steps).map(contribution => {
+    const calculation = contribution === 0 ? baseline : calculateAt(contribution);
+    const taxSavings = baseline.tax - calculation.tax;
+    const point = {
+      contribution,
+      taxableIncome: calculation.taxableIncome,
+      tax: calculation.tax,
+      taxSavings,
+      refund: calculation.refund,
+      balanceOwing: calculation.balanceOwing,
+      averageRate: contribution > 0 ? Math.round((taxSavings / contribution) * 10000) / 10000 : null,
+      marginalRate: previous
+        ? Math.round(((previous.tax - calculation.tax) / (contribution - previous.contribution)) * 10000) / 10000
+        : null
+    };
+    previous = point;
+    return point;
+  });
+
+  // The first step is taxed at the top of the return's income; the drop-off is where a later step
+  // saves noticeably less per dollar (typically a bracket boundary or the end of a clawback)
+  const firstRate = points.length > 1 ? points[1].marginalRate : null;
+  const dropOffIndex = firstRate === null
+    ? -1
+    : points.findIndex((point, index) => index > 1 && point.marginalRate < firstRate - DROP_OFF_TOLERANCE);
+  const dropOff = dropOffIndex > 0
+    ? {
+      contribution: points[dropOffIndex - 1].contribution,
+      rateBefore: firstRate,
+      rateAfter: points[dropOffIndex].marginalRate
+    }
+    : null;
+
+  const best = points[points.length - 1];
+  const deferral = options.futureIncome !== undefined && options.futureIncome !== null && options.futureIncome !== ''
+    ? evaluateDeferral({ income, deductions, maritalStatus, province, taxYear: String(taxYear), creditInputs }, points, dropOff, options)
+    : null;
+
+  const recommendations = [];
+  if (room <= 0) {
+    recommendations.push('No RRSP deduction room is available for this year');
+  } else if (dropOff) {
+    recommendations.push(
+      `Contributions up to $${dropOff.contribution.toLocaleString()} save ${Math.round(dropOff.rateBefore * 1000) / 10}% each; ` +
+      `beyond that each dollar saves ${Math.round(dropOff.rateAfter * 1000) / 10}%`
+    );
+  } else {
+    recommendations.push(`Every dollar of your $${room.toLocaleString()} room saves about ${Math.round((firstRate || 0) * 1000) / 10}%`);
+  }
+  if (deferral && deferral.recommendation === 'defer') {
+    recommendations.push(
+      `Contribute now but carry forward the deduction for $${deferral.amount.toLocaleString()}: deducting it in ` +
+      `${deferral.futureTaxYear} is worth $${deferral.presentValue.toLocaleString()} today against $${deferral.savingsNow.toLocaleString()} now`
+    );
+  }
+
+  return {
+    taxYear: String(taxYear),
+    province,
+    room,
+    baseline: {
+      tax: baseline.tax,
+      refund: baseline.refund,
+      balanceOwing: baseline.balanceOwing,
+      marginalRate: baseline.marginalRate
+    },
+    points,
+    maximumSavings: best.taxSavings,
+    dropOff,
+    deferral,
+    recommendations
+  };
+};
+
+module.exports = {
+  optimizeRRSPContribution
+};
@@ -0,0 +1,99 @@
+const taxRules = require('../../shared/taxRules.json');
+
+// Year-keyed CRA rule tables shared with the frontend (shared/taxRules.json)
+const SUPPORTED_TAX_YEARS = Object.keys(taxRules.years);
+const DEFAULT_TAX_YEAR = taxRules.defaultYear;
+
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
+
+const isSupportedTaxYear = (taxYear) => SUPPORTED_TAX_YEARS.includes(String(taxYear));
+
+const getTaxYearRules = (taxYear = DEFAULT_TAX_YEAR) => {
+  const rules = taxRules.years[String(taxYear)];
+  if (!rules) {
+    throw new Error(`Unsupported tax year: ${taxYear}`);
+  }
+  return rules;
+};
+
+// Progressive tax over a bracket table ({ min, max, rate }, max null = no upper limit)
+const calculateBracketTax = (taxableIncome, brackets) => {
+  let tax = 0;
+  for (const bracket of brackets) {
+    if (taxableIncome <= bracket.min) break;
+    const upper = bracket.max === null ? taxableIncome : Math.min(taxableIncome, bracket.max);
+    tax += (upper - bracket.min) * bracket.rate;
+  }
+  return Math.max(0, tax);
+};
+
+// Per-bracket view of the same calculation, for bracket-by-bracket breakdowns
+const getBracketBreakdown = (taxableIncome, brackets) => {
+  return brackets.map(bracket => {
+    const upper = bracket.max === null ? Math.max(taxableIncome, bracket.min) : Math.min(Math.max(taxableIncome, bracket.min), bracket.max);
+    const taxableAmount = upper - bracket.min;
+    return {
+      min: bracket.min,
+      max: bracket.max,
+      rate: bracket.rate,
+      taxableAmount: roundCurrency(taxableAmount),
+      tax: roundCurrency(taxableAmount * bracket.rate)
+    };
+  });
+};
+
+const getBracketRate = (taxableIncome, brackets) => {
+  const bracket = brackets.find(b => b.max === null || taxableIncome < b.max);
+  return bracket ? bracket.rate : brackets[brackets.length - 1].rate;
+};
+
+// Federal BPA is reduced linearly from max to min across the 29% bracket
+const getFederalBasicPersonalAmount = (netIncome, rules) => {
+  const { max, min, phaseOutStart, phaseOutEnd } = rules.federal.basicPersonalAmount;
+  if (netIncome <= phaseOutStart) return max;
+  if (netIncome >= phaseOutEnd) return min;
+  return max - (max - min) * ((netIncome - phaseOutStart) / (phaseOutEnd - phaseOutStart));
+};
+
+// Employee CPP (first tier) and CPP2 (second tier, 2024+) contributions.
+// Only the base-rate share of the first tier is creditable; the enhanced share and CPP2 are deductible.
+const calculateCPP = (earnings, rules) => {
+  const { ympe, basicExemption, rate, baseRate, maxContribution, yampe, cpp2Rate, cpp2MaxContribution } = rules.cpp;
+  const base = Math.min(Math.max(0, Math.min(earnings, ympe) - basicExemption) * rate, maxContribution);
+  const cpp2 = yampe
+    ? Math.min(Math.max(0, Math.min(earnings, yampe) - ympe) * cpp2Rate, cpp2MaxContribution)
+    : 0;
+  const creditable = base * (baseRate / rate);
+  return { base, cpp2, total: base + cpp2, creditable, deductible: base - creditable + cpp2 };
+};
+
+const calculateEI = (earnings, rules) => {
+  const { maxInsurableEarnings, rate, maxPremium } = rules.ei;
+  return Math.min(Math.max(0, Math.min(earnings, maxInsurableEarnings)) * rate, maxPremium);
+};
+
+// OAS pension recovery (line 42200): 15% of net income above the threshold, up to the OAS received
+const calculateOASRecovery = (oasPension, netIncome, rules) => {
+  const { threshold, rate } = rules.federal.oasRecovery;
+  return Math.min(oasPension, Math.max(0, netIncome - threshold) * rate);
+};
+
+const calculateRRSPRoom = (earnedIncome, rules) => {
+  return Math.min(Math.max(0, earnedIncome) * rules.rrsp.rate, rules.rrsp.limit);
+};
+
+module.exports = {
+  SUPPORTED_TAX_YEARS,
+  DEFAULT_TAX_YEAR,
+  isSupportedTaxYear,
+  getTaxYearRules,
+  calculateBracketTax,
+  getBracketBreakdown,
+  getBracketRate,
+  getFederalBasicPersonalAmount,
+  calculateCPP,
+  calculateEI,
+  calculateOASRecovery,
+  calculateRRSPRoom,
+  roundCurrency
+};
@@ -11,10 +11,18 @@ import Documents from './components/Documents';
 import TaxForms from './components/TaxForms';
 import TaxCalculator from './components/TaxCalculator';
 import Profile from './components/Profile';
-import { User as UserType, TaxFormData, ChatMessage, UploadedFile, AIInsight } from './types';
+import { User as UserType, TaxFormData, ChatMessage, UploadedFile, AIInsight, AuthSession, RegisterData, ReturnPreview } from './types';
+import { apiRequest, clearSession, getRefreshDelay, onSessionEnded, refreshSession, signOut, storeSession } from './utils/auth';
+import { calculateReturn } from './utils/taxReturn';
 
 type ActiveTab = 'Dashboard' | 'Documents' | 'Tax Forms' | 'Calculator' | 'Profile';
 
+// How soon to try again when a scheduled refresh could not reach the server
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// How long the tax form has to stay unchanged before the return is recalculated
+const RECALCULATE_DELAY_MS = 500;
+
 interface Province {
   code: string;
   name: string;
@@ -25,7 +33,8 @@ interface Province {
 const App: React.FC = () => {
 
   const [user, setUser] = useState<UserType | null>(null);
-  const [showLogin, setShowLogin] = useState<boolean>(!localStorage.getItem('authToken'));
+  const [showLogin, setShowLogin] = useState<boolean>(true);
+  const [twoFactorRequired, setTwoFactorRequired] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
 
@@ -38,9 +47,44 @@ const App: React.FC = () => {
   
   const [taxFormData, setTaxFormData] = useState<TaxFormData>({
     income: '',
-    deductions: '15705',
-    filingStatus: 'single',
-    taxYear: '2024'
+    deductions: '0',
+    maritalStatus: 'single',
+    spouseNetIncome: '',
+    dependants: [],
+    slips: [],
+    businesses: [],
+    rentals: [],
+    investments: { transactions: [], priorNetCapitalLosses: '' },
+    registeredAccounts: {
+      rrsp: { noaYear: '', deductionLimit: '', unusedContributions: '', incomeHistory: [] },
+      tfsa: { roomYear: '', room: '', eligibleSince: '' },
+      fhsa: { openedYear: '' },
+      transactions: []
+    },
+    installments: {
+      twoYearsAgoNetTaxOwing: '',
+      currentYearEstimate: '',
+      payments: []
+    },
+    lateFiling: {
+      filingDate: '',
+      repeatOffender: false,
+      payments: []
+    },
+    benefits: {
+      rentPaid: '',
+      propertyTaxPaid: '',
+      spouseWorkingIncome: '',
+      rural: false
+    },
+    taxYear: '2024',
+    credits: {
+      age: '',
+      tuition: '',
+      medicalExpenses: '',
+      donations: '',
+      disability: false
+    }
   });
 
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
@@ -53,6 +97,8 @@ const App: React.FC = () => {
     }
   ]);
 
+  const [returnPreview, setReturnPreview] = useState<ReturnPreview | null>(null);
+
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [selectedDocument, setSelectedDocument] = useState<UploadedFile | null>(null);
 
@@ -85,13 +131,63 @@ const App: React.FC = () => {
     }
   ]);
 
+  // Client invitation emails link back here with ?invitation=; they are answered from the profile
+  useEffect(() => {
+    if (!new URLSearchParams(window.location.search).get('invitation')) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    setActiveTab('Profile');
+  }, []);
+
+  // Verification emails link back here with ?verifyEmailToken=
+  useEffect(() => {
+    const verifyEmailToken = new URLSearchParams(window.location.search).get('verifyEmailToken');
+    if (!verifyEmailToken) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const verifyEmail = async () => {
+      try {
+        const response = await fetch('http://localhost:3001/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: verifyEmailToken })
+        });
+        const data = await response.json();
+        if (data.success) {
+          setUser(current => current && current.id === data.data.id ? data.data : current);
+          alert(`✅ ${data.message}`);
+        } else {
+          alert(data.message || 'Could not verify your email address');
+        }
+      } catch (error) {
+        console.error('Error verifying email:', error);
+      }
+    };
+    verifyEmail();
+  }, []);
+
+  // Preparer application emails give the reviewer a link back here with ?approvePreparerToken=
+  useEffect(() => {
+    const approvePreparerToken = new URLSearchParams(window.location.search).get('approvePreparerToken');
+    if (!approvePreparerToken) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const approvePreparer = async () => {
+      try {
+        const response = await fetch('http://localhost:3001/api/auth/preparer-application/approve', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: approvePreparerToken })
+        });
+        const data = await response.json();
+        alert(data.success ? `✅ ${data.message}` : data.message || 'Could not approve the preparer application');
+      } catch (error) {
+        console.error('Error approving preparer application:', error);
+      }
+    };
+    approvePreparer();
+  }, []);
+
   useEffect(() => {
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      setUser({ id: '1', name: 'John Doe', email: 'john.doe@example.com' });
-      setShowLogin(false);
-    }
-    
     fetchProvinces();
     const savedProvince = localStorage.getItem('userProvince');
     if (savedProvince) {
@@ -138,31 +234,13 @@ const App: React.FC = () => {
     localStorage.setItem('userProvince', provinceCode);
     setShowProvinceSelector(false);
     
-    const selectedProvinceData = provinces.find(p => p.code === provinceCode);
-    if (selectedProvinceData) {
-      setTaxFormData(prev => ({
-        ...prev,
-        deductions: selectedProvinceData.basicPersonal.toString()
-      }));
-    }
-    
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      try {
-        const response = await fetch('http://localhost:3001/api/user/province', {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({ province: provinceCode })
-        });
-        
-        if (!response.ok) {
-          console.warn('Could not save province preference');
-        }
-      } catch (error) {
-        console.error('Error updating province:', error);
+    if (localStorage.getItem('token')) {
+      const data = await apiRequest('/user/province', {
+        method: 'PUT',
+        body: JSON.stringify({ province: provinceCode })
+      });
+      if (!data.success) {
+        console.warn('Could not save province preference');
       }
     }
   };
@@ -182,34 +260,52 @@ const App: React.FC = () => {
   };
 
   // Authentication handlers
-  const handleLogin = async (loginData: { email: string; password: string }) => {
+  const startSession = (session: AuthSession) => {
+    storeSession(session);
+    setTwoFactorRequired(false);
+    setUser(session.user);
+    setShowLogin(false);
+  };
+
+  const requestSession = async (path: 'login' | 'register', payload: object): Promise<AuthSession> => {
+    const response = await fetch(`http://localhost:3001/api/auth/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+    const data = await response.json();
+    if (!data.success) {
+      // The password was right; ask for the authenticator or backup code and sign in again
+      setTwoFactorRequired(Boolean(data.twoFactorRequired));
+      throw new Error(data.message);
+    }
+    return { token: data.token, refreshToken: data.refreshToken, expiresIn: data.expiresIn, user: data.user };
+  };
+
+  const handleLogin = async (loginData: { email: string; password: string; code?: string }) => {
     setIsLoading(true);
     setError('');
     try {
-      setUser({ id: '1', name: 'John Doe', email: loginData.email });
-      localStorage.setItem('authToken', 'demo_token');
-      setShowLogin(false);
+      startSession(await requestSession('login', loginData));
     } catch (err: any) {
-      setError('Login failed. Please try again.');
+      setError(err.message || 'Login failed. Please try again.');
     }
     setIsLoading(false);
   };
 
-  const handleRegister = async (registerData: any) => {
+  const handleRegister = async (registerData: RegisterData) => {
     setIsLoading(true);
     setError('');
     try {
-      setUser({ id: '1', name: registerData.name, email: registerData.email });
-      localStorage.setItem('authToken', 'demo_token');
-      setShowLogin(false);
+      const { name, email, password } = registerData;
+      startSession(await requestSession('register', { name, email, password }));
     } catch (err: any) {
-      setError('Registration failed. Please try again.');
+      setError(err.message || 'Registration failed. Please try again.');
     }
     setIsLoading(false);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('authToken');
+  const resetSessionState = () => {
     localStorage.removeItem('userProvince');
     setUser(null);
     setShowLogin(true);
@@ -225,12 +321,77 @@ const App: React.FC = () => {
     }]);
   };
 
+  const handleLogout = async () => {
+    await signOut();
+    resetSessionState();
+  };
+
+  // The server has already revoked every session, this one included
+  const handleSignedOutEverywhere = () => {
+    clearSession();
+    resetSessionState();
+  };
+
+  // Refresh the access token shortly before it expires for as long as the user is signed in. An
+  // unreachable server keeps the session; only the server turning down the refresh token ends it,
+  // whether this timer or a request that found its token expired asked.
+  useEffect(() => {
+    if (!user) return;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scheduleRefresh = (delay: number) => {
+      timer = setTimeout(async () => {
+        // Another tab may already have refreshed the shared tokens
+        if (getRefreshDelay() > 0) {
+          scheduleRefresh(getRefreshDelay());
+          return;
+        }
+        const refresh = await refreshSession();
+        if (refresh.status === 'refreshed') {
+          scheduleRefresh(getRefreshDelay());
+        } else if (refresh.status === 'unavailable') {
+          scheduleRefresh(REFRESH_RETRY_MS);
+        }
+      }, delay);
+    };
+
+    const stopListening = onSessionEnded(() => {
+      resetSessionState();
+      setError('Your session has ended. Please sign in again.');
+    });
+    scheduleRefresh(getRefreshDelay());
+    return () => {
+      clearTimeout(timer);
+      stopListening();
+    };
+  }, [user]);
+
+  // Recalculate the return on the backend once the form and province stop changing; a response for
+  // an older version of the form is dropped
+  useEffect(() => {
+    if (!user) {
+      setReturnPreview(null);
+      return;
+    }
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const preview = await calculateReturn(taxFormData, selectedProvince);
+      if (isCurrent) setReturnPreview(preview);
+    }, RECALCULATE_DELAY_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [user, taxFormData, selectedProvince]);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {showLogin && (
         <AuthModal
           onLogin={handleLogin}
           onRegister={handleRegister}
+          onSessionRestored={startSession}
+          twoFactorRequired={twoFactorRequired}
           isLoading={isLoading}
           error={error}
           setError={setError}
@@ -444,6 +605,8 @@ const App: React.FC = () => {
             <Dashboard 
               aiInsights={aiInsights}
               uploadedFiles={uploadedFiles}
+              taxFormData={taxFormData}
+              preview={returnPreview}
               setActiveTab={(tab: string) => setActiveTab(tab as ActiveTab)}
               setShowChat={setShowChat}
             />
@@ -464,6 +627,9 @@ const App: React.FC = () => {
             <TaxForms
               taxFormData={taxFormData}
               setTaxFormData={setTaxFormData}
+              selectedProvince={selectedProvince}
+              setSelectedProvince={handleProvinceChange}
+              preview={returnPreview}
               setError={setError}
               setIsLoading={setIsLoading}
             />
@@ -482,6 +648,8 @@ const App: React.FC = () => {
               uploadedFiles={uploadedFiles}
               aiInsights={aiInsights}
               setIsLoading={setIsLoading}
+              onUserUpdated={setUser}
+              onSignedOutEverywhere={handleSignedOutEverywhere}
             />
           )}
         </main>
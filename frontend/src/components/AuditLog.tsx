@@ -0,0 +1,178 @@
+// components/AuditLog.tsx - Who changed or viewed the signed-in user's data, and whether the log is intact
+import React, { useEffect, useState } from 'react';
+import { History, ShieldCheck, ShieldAlert, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { AuditEntry, AuditIntegrity } from '../types';
+import { apiRequest } from '../utils/auth';
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<string, string> = {
+  'account.register': 'Created the account',
+  'auth.login': 'Signed in',
+  'auth.logout': 'Signed out',
+  'auth.logoutAll': 'Signed out everywhere',
+  'session.revoke': 'Signed out a session',
+  'twoFactor.setup': 'Started two-factor setup',
+  'twoFactor.enable': 'Turned on two-factor authentication',
+  'twoFactor.backupCodes': 'Generated new backup codes',
+  'twoFactor.disable': 'Turned off two-factor authentication',
+  'password.reset': 'Reset the password',
+  'password.change': 'Changed the password',
+  'email.verify': 'Confirmed an email address',
+  'preparer.apply': 'Applied to be a preparer',
+  'preparer.approve': 'Approved the preparer application',
+  'profile.update': 'Updated the profile',
+  'chat.message': 'Asked the tax assistant',
+  'chat.clear': 'Cleared the assistant history',
+  'document.upload': 'Uploaded a document',
+  'document.download': 'Downloaded a document',
+  'document.delete': 'Deleted a document',
+  'taxForm.create': 'Saved a new return',
+  'taxForm.update': 'Changed a return',
+  'taxForm.delete': 'Deleted a return',
+  'taxForm.restore': 'Restored a return revision',
+  'rentalSchedule.update': 'Saved a rental schedule',
+  'rentalSchedule.delete': 'Deleted a rental schedule',
+  'investmentLedger.update': 'Saved the investment ledger',
+  'investmentLedger.importT5008': 'Imported T5008 slips',
+  'registeredAccounts.update': 'Saved registered accounts',
+  'clientInvitation.create': 'Invited a client',
+  'clientInvitation.cancel': 'Cancelled a client invitation',
+  'clientInvitation.decline': 'Declined a preparer invitation',
+  'clientGrant.accept': 'Gave a preparer access',
+  'clientGrant.update': 'Changed preparer access',
+  'clientGrant.revoke': 'Revoked preparer access',
+  'clientGrant.remove': 'Preparer stopped working on the account',
+  'client.view': 'Viewed your data'
+};
+
+const describeResource = (entry: AuditEntry): string => {
+  const { resource } = entry;
+  if (resource.name) return resource.name;
+  if (resource.type === 'taxForm' && resource.taxYear) return `${resource.taxYear} return`;
+  if (resource.type === 'clientGrant' && resource.preparerName) return resource.preparerName;
+  if (entry.action === 'client.view') return resource.type;
+  return '';
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [integrity, setIntegrity] = useState<AuditIntegrity | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadEntries = async (before?: number) => {
+    setIsLoading(true);
+    setError('');
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), ...(before ? { before: String(before) } : {}) });
+    const data = await apiRequest<{ integrity: AuditIntegrity; entries: AuditEntry[] }>(`/audit?${params.toString()}`);
+    setIsLoading(false);
+    if (!data.success) {
+      setError(data.message || 'Failed to load activity');
+      return;
+    }
+    const { integrity: checked, entries: page } = data.data;
+    setIntegrity(checked);
+    setEntries(current => (before ? [...current, ...page] : page));
+    setHasMore(page.length === PAGE_SIZE);
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <History className="h-5 w-5 text-blue-600 mr-2" />
+        Account Activity
+        {isLoading && <RefreshCw className="animate-spin h-4 w-4 ml-2 text-gray-400" />}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Every change to your returns, documents and profile, every document download, and every time a preparer
+        looked at your data.
+      </p>
+
+      {integrity && (
+        <div className={`mb-4 p-3 rounded-lg flex items-start text-sm ${integrity.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {integrity.valid
+            ? <ShieldCheck className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            : <ShieldAlert className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />}
+          {integrity.valid
+            ? `All ${integrity.length} entries check out: none have been altered or removed.`
+            : `Entry ${integrity.brokenAt} or one after it has been altered or removed. Contact support.`}
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-gray-100">
+        {entries.map(entry => (
+          <li key={entry.id} className="py-3">
+            <button
+              type="button"
+              onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+              disabled={entry.changes.length === 0}
+              className="w-full text-left flex items-start"
+            >
+              {entry.changes.length > 0
+                ? (expanded === entry.id ? <ChevronDown className="h-4 w-4 mr-1 mt-0.5 text-gray-400" /> : <ChevronRight className="h-4 w-4 mr-1 mt-0.5 text-gray-400" />)
+                : <span className="w-5" />}
+              <div className="flex-1">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{entry.actor.self ? 'You' : `${entry.actor.name || 'Someone'} (${entry.actor.role})`}</span>
+                  {' · '}
+                  {ACTION_LABELS[entry.action] || entry.action}
+                  {describeResource(entry) && <span className="text-gray-600"> · {describeResource(entry)}</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(entry.timestamp).toLocaleString('en-CA')}
+                  {entry.ip && ` · ${entry.ip}`}
+                  {entry.changes.length > 0 && ` · ${entry.changes.length} change${entry.changes.length === 1 ? '' : 's'}`}
+                </p>
+              </div>
+            </button>
+
+            {expanded === entry.id && (
+              <table className="mt-2 ml-5 text-xs w-full">
+                <tbody>
+                  {entry.changes.map(change => (
+                    <tr key={change.path} className="align-top">
+                      <td className="pr-3 py-0.5 font-mono text-gray-700">{change.path}</td>
+                      <td className="pr-3 py-0.5 text-red-700">{formatValue(change.before)}</td>
+                      <td className="py-0.5 text-green-700">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!isLoading && entries.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      )}
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={() => loadEntries(entries[entries.length - 1].sequence)}
+          disabled={isLoading}
+          className="mt-4 w-full py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          Load older activity
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
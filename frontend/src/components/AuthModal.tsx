@@ -1,20 +1,48 @@
 // components/AuthModal.tsx - Fixed Version
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Brain, RefreshCw, AlertCircle } from 'lucide-react';
-import { AuthModalProps } from '../types';
+import { AuthModalProps, RegisterData } from '../types';
+import { hasStoredSession, refreshSession } from '../utils/auth';
+import PasswordReset from './PasswordReset';
 
 const AuthModal: React.FC<AuthModalProps> = ({ 
   onLogin, 
   onRegister, 
+  onSessionRestored,
+  twoFactorRequired,
   isLoading, 
   error, 
   setError 
 }) => {
   const [isRegistering, setIsRegistering] = useState<boolean>(false);
-  const [loginData, setLoginData] = useState({ email: '', password: '' });
-  const [registerData, setRegisterData] = useState({ 
-    name: '', email: '', password: '', confirmPassword: '' 
+  const [loginData, setLoginData] = useState({ email: '', password: '', code: '' });
+  const [registerData, setRegisterData] = useState<RegisterData>({ 
+    name: '', email: '', password: '', confirmPassword: ''
   });
+  // Password reset emails link back here with ?resetToken=
+  const [resetToken, setResetToken] = useState<string>(
+    () => new URLSearchParams(window.location.search).get('resetToken') || ''
+  );
+  const [isResetting, setIsResetting] = useState<boolean>(Boolean(resetToken));
+  const [notice, setNotice] = useState<string>('');
+  const [isRestoring, setIsRestoring] = useState<boolean>(hasStoredSession() && !resetToken);
+
+  // Sign back in silently with the stored refresh token before asking for a password
+  useEffect(() => {
+    if (!isRestoring) return;
+    const restoreSession = async () => {
+      const refresh = await refreshSession();
+      if (refresh.status === 'refreshed') {
+        onSessionRestored(refresh.session);
+        return;
+      }
+      setIsRestoring(false);
+      if (refresh.status === 'unavailable') {
+        setError('Could not reach the server to restore your session. Sign in, or reload the page to try again.');
+      }
+    };
+    restoreSession();
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,7 +60,13 @@ const AuthModal: React.FC<AuthModalProps> = ({
       return;
     }
     
-    onLogin(loginData);
+    if (twoFactorRequired && !loginData.code) {
+      setError('Enter the code from your authenticator app or a backup code');
+      return;
+    }
+
+    const { code, ...credentials } = loginData;
+    onLogin(twoFactorRequired ? { ...credentials, code } : credentials);
   };
 
   const handleRegister = async (e: React.FormEvent) => {
@@ -52,8 +86,8 @@ const AuthModal: React.FC<AuthModalProps> = ({
     }
     
     // Password validation
-    if (registerData.password.length < 6) {
-      setError('Password must be at least 6 characters long');
+    if (registerData.password.length < 8) {
+      setError('Password must be at least 8 characters long');
       return;
     }
     
@@ -66,10 +100,23 @@ const AuthModal: React.FC<AuthModalProps> = ({
     onRegister(registerData);
   };
 
+  const handleResetDone = (message: string) => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setResetToken('');
+    setIsResetting(false);
+    setNotice(message);
+  };
+
   const toggleMode = () => {
+    if (isResetting) {
+      handleResetDone('');
+      setError('');
+      return;
+    }
     setIsRegistering(!isRegistering);
+    setNotice('');
     setError('');
-    setLoginData({ email: '', password: '' });
+    setLoginData({ email: '', password: '', code: '' });
     setRegisterData({ name: '', email: '', password: '', confirmPassword: '' });
   };
 
@@ -91,7 +138,14 @@ const AuthModal: React.FC<AuthModalProps> = ({
           </div>
         </div>
 
-        {!isRegistering ? (
+        {isRestoring ? (
+          <div className="flex items-center justify-center py-8 text-gray-600">
+            <RefreshCw className="animate-spin h-5 w-5 mr-2" />
+            Restoring your session...
+          </div>
+        ) : isResetting ? (
+          <PasswordReset resetToken={resetToken} onDone={handleResetDone} setError={setError} />
+        ) : !isRegistering ? (
           // Login Form
           <form onSubmit={handleLogin} className="space-y-4">
             <div>
@@ -125,6 +179,25 @@ const AuthModal: React.FC<AuthModalProps> = ({
                 autoComplete="current-password"
               />
             </div>
+
+            {twoFactorRequired && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication Code
+                </label>
+                <input
+                  type="text"
+                  value={loginData.code}
+                  onChange={(e) => setLoginData({...loginData, code: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="6-digit code or backup code"
+                  required
+                  disabled={isLoading}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </div>
+            )}
             
             <button
               type="submit"
@@ -188,10 +261,10 @@ const AuthModal: React.FC<AuthModalProps> = ({
                 value={registerData.password}
                 onChange={(e) => setRegisterData({...registerData, password: e.target.value})}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Create a password (min 6 characters)"
+                placeholder="Create a password (min 8 characters)"
                 required
                 disabled={isLoading}
-                minLength={6}
+                minLength={8}
                 autoComplete="new-password"
               />
             </div>
@@ -208,7 +281,7 @@ const AuthModal: React.FC<AuthModalProps> = ({
                 placeholder="Confirm your password"
                 required
                 disabled={isLoading}
-                minLength={6}
+                minLength={8}
                 autoComplete="new-password"
               />
             </div>
@@ -238,15 +311,32 @@ const AuthModal: React.FC<AuthModalProps> = ({
           <button
             onClick={toggleMode}
             className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
-            disabled={isLoading}
+            disabled={isLoading || isRestoring}
           >
-            {isRegistering 
-              ? 'Already have an account? Sign In' 
-              : "Don't have an account? Sign Up"
+            {isResetting
+              ? 'Back to Sign In'
+              : isRegistering 
+                ? 'Already have an account? Sign In' 
+                : "Don't have an account? Sign Up"
             }
           </button>
+          {!isRegistering && !isResetting && !isRestoring && (
+            <button
+              onClick={() => { setIsResetting(true); setNotice(''); setError(''); }}
+              className="block mx-auto mt-2 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              disabled={isLoading}
+            >
+              Forgot your password?
+            </button>
+          )}
         </div>
 
+        {notice && (
+          <div className="mt-4 bg-green-50 border border-green-300 text-green-800 px-4 py-3 rounded text-sm">
+            {notice}
+          </div>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded flex items-start">
@@ -255,14 +345,6 @@ const AuthModal: React.FC<AuthModalProps> = ({
           </div>
         )}
 
-        {/* Demo Credentials */}
-        {!isRegistering && (
-          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-            <p className="text-xs text-gray-600 text-center">
-              <strong>Demo:</strong> Use any email and password to try the app
-            </p>
-          </div>
-        )}
       </div>
     </div>
   );
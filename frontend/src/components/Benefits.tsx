@@ -0,0 +1,148 @@
+// components/Benefits.tsx - Benefit and refundable credit estimates with monthly payment schedules
+import React from 'react';
+import { BenefitKey, BenefitsProps } from '../types';
+import { getFailureMessage } from '../utils/auth';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatMonth = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-CA', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const Benefits: React.FC<BenefitsProps> = ({ benefits, onChange, taxYear, province, isPartnered, estimate }) => {
+  const calculated = estimate && estimate.success ? estimate.data : null;
+  const scheduledKeys = calculated
+    ? calculated.benefits.filter(benefit => benefit.payments.length > 0).map(benefit => benefit.key)
+    : [];
+  const labelFor = (key: BenefitKey): string => calculated?.benefits.find(benefit => benefit.key === key)?.label || key;
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Benefits{calculated ? ` - ${formatMonth(calculated.benefitYear.start)} to ${formatMonth(calculated.benefitYear.end)} Payments` : ''}
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+        {province === 'ON' && (
+          <>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Rent paid in {taxYear}</label>
+              <input
+                type="number"
+                value={benefits.rentPaid}
+                onChange={(e) => onChange({ ...benefits, rentPaid: e.target.value })}
+                className={inputClass}
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Property tax paid in {taxYear}</label>
+              <input
+                type="number"
+                value={benefits.propertyTaxPaid}
+                onChange={(e) => onChange({ ...benefits, propertyTaxPaid: e.target.value })}
+                className={inputClass}
+                placeholder="0"
+              />
+            </div>
+          </>
+        )}
+        {isPartnered && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Spouse's working income</label>
+            <input
+              type="number"
+              value={benefits.spouseWorkingIncome}
+              onChange={(e) => onChange({ ...benefits, spouseWorkingIncome: e.target.value })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+        )}
+        {calculated && calculated.climateRebate.eligible && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700 pb-1">
+            <input
+              type="checkbox"
+              checked={benefits.rural}
+              onChange={(e) => onChange({ ...benefits, rural: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span>Outside a census metropolitan area (rural supplement)</span>
+          </label>
+        )}
+      </div>
+
+      {estimate && !estimate.success && (
+        <p className="text-xs text-amber-700">Benefits not estimated: {getFailureMessage(estimate)}</p>
+      )}
+
+      {calculated && (
+        <div className="bg-gray-50 rounded-md p-3 text-xs text-gray-600 space-y-1">
+          <div className="flex justify-between">
+            <span>Adjusted family net income ({calculated.taxYear})</span>
+            <span className="font-mono">${formatAmount(calculated.adjustedFamilyNetIncome)}</span>
+          </div>
+          {calculated.benefits.map(benefit => (
+            <div key={benefit.key}>
+              <div className="flex justify-between">
+                <span>{benefit.label}{benefit.projected ? ' (projected from the latest published amounts)' : ''}</span>
+                <span className="font-mono">${formatAmount(benefit.annual)}</span>
+              </div>
+              {benefit.note && benefit.annual > 0 && <p className="text-gray-500 pl-3">{benefit.note}</p>}
+            </div>
+          ))}
+          <div className="flex justify-between font-medium text-gray-800">
+            <span>Total benefits</span>
+            <span className="font-mono">${formatAmount(calculated.total)}</span>
+          </div>
+        </div>
+      )}
+
+      {calculated && calculated.schedule.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-600">
+            <thead>
+              <tr className="text-left text-gray-700">
+                <th className="py-1 pr-3 font-semibold">Month</th>
+                {scheduledKeys.map(key => (
+                  <th key={key} className="py-1 pr-3 font-semibold text-right">{labelFor(key)}</th>
+                ))}
+                <th className="py-1 font-semibold text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {calculated.schedule.map(row => (
+                <tr key={row.month}>
+                  <td className="py-1 pr-3">{formatMonth(row.month)}</td>
+                  {scheduledKeys.map(key => (
+                    <td key={key} className="py-1 pr-3 text-right font-mono">
+                      {row.amounts[key] ? `$${formatAmount(row.amounts[key] || 0)}` : '-'}
+                    </td>
+                  ))}
+                  <td className="py-1 text-right font-mono">${formatAmount(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {calculated && calculated.climateRebate.eligible && (
+        <div className="text-xs text-gray-600 space-y-1">
+          <p className="font-semibold text-gray-700">
+            Canada Carbon Rebate history (ended April 2025): ${formatAmount(calculated.climateRebate.total)} for this household
+          </p>
+          {calculated.climateRebate.periods.map(period => (
+            <div key={period.label} className="flex justify-between">
+              <span>{period.label} · {period.payments.length} payment{period.payments.length === 1 ? '' : 's'}</span>
+              <span className="font-mono">${formatAmount(period.total)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Benefits;
@@ -0,0 +1,291 @@
+// components/BusinessIncome.tsx - T2125 business statements: expenses, vehicle, home office and CCA
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BusinessIncomeProps, BusinessStatement, CapitalAsset } from '../types';
+import { CCA_CLASSES, EXPENSE_KEYS, T2125, createBusinessStatement } from '../utils/businessIncome';
+import { getTaxYearRules, isSupportedTaxYear } from '../utils/taxRules';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const AmountInput: React.FC<{ label: string; value: string | undefined; onChange: (value: string) => void; placeholder?: string }> = ({
+  label,
+  value,
+  onChange,
+  placeholder = '0'
+}) => (
+  <div>
+    <label className="block text-xs text-gray-600 mb-1" title={label}>{label}</label>
+    <input
+      type="number"
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+      placeholder={placeholder}
+    />
+  </div>
+);
+
+const BusinessIncome: React.FC<BusinessIncomeProps> = ({ businesses, results, onChange, taxYear }) => {
+  const rules = isSupportedTaxYear(taxYear) ? getTaxYearRules(taxYear) : null;
+
+  const updateBusiness = (index: number, changes: Partial<BusinessStatement>) => {
+    onChange(businesses.map((business, i) => (i === index ? { ...business, ...changes } : business)));
+  };
+
+  const updateAsset = (index: number, assetIndex: number, changes: Partial<CapitalAsset>) => {
+    updateBusiness(index, {
+      assets: businesses[index].assets.map((asset, i) => (i === assetIndex ? { ...asset, ...changes } : asset))
+    });
+  };
+
+  const addAsset = (index: number) => {
+    updateBusiness(index, {
+      assets: [
+        ...businesses[index].assets,
+        { ccaClass: '8', description: '', openingUcc: '', additions: '', dispositions: '', businessUsePercent: '' }
+      ]
+    });
+  };
+
+  const removeAsset = (index: number, assetIndex: number) => {
+    updateBusiness(index, { assets: businesses[index].assets.filter((_, i) => i !== assetIndex) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Self-Employment (T2125)</label>
+        <button
+          type="button"
+          onClick={() => onChange([...businesses, createBusinessStatement()])}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add business</span>
+        </button>
+      </div>
+
+      {businesses.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No business income. Add a T2125 statement for each business or profession you carry on.
+        </p>
+      )}
+
+      {businesses.map((business, index) => {
+        // A statement added since the last calculation has no result yet
+        const result = results && results[index];
+
+        return (
+          <div key={index} className="border border-gray-200 rounded-md p-3 space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={business.name}
+                onChange={(e) => updateBusiness(index, { name: e.target.value })}
+                className={inputClass}
+                placeholder="Business name"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(businesses.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700"
+                aria-label="Remove business"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <AmountInput
+              label="Gross business income (line 8299)"
+              value={business.grossIncome}
+              onChange={(grossIncome) => updateBusiness(index, { grossIncome })}
+            />
+
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-1">Expenses</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {EXPENSE_KEYS.map(key => (
+                  <AmountInput
+                    key={key}
+                    label={`${T2125.expenses[key].line} · ${T2125.expenses[key].label}`}
+                    value={business.expenses[key]}
+                    onChange={(value) => updateBusiness(index, { expenses: { ...business.expenses, [key]: value } })}
+                  />
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">Only 50% of meals and entertainment is deductible.</p>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-1">Motor vehicle (line 9281)</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <AmountInput
+                  label="Business kilometres"
+                  value={business.vehicle.businessKm}
+                  onChange={(businessKm) => updateBusiness(index, { vehicle: { ...business.vehicle, businessKm } })}
+                />
+                <AmountInput
+                  label="Total kilometres"
+                  value={business.vehicle.totalKm}
+                  onChange={(totalKm) => updateBusiness(index, { vehicle: { ...business.vehicle, totalKm } })}
+                />
+                {Object.entries(T2125.vehicleExpenses).map(([key, { label }]) => (
+                  <AmountInput
+                    key={key}
+                    label={label}
+                    value={business.vehicle.expenses[key]}
+                    onChange={(value) => updateBusiness(index, {
+                      vehicle: { ...business.vehicle, expenses: { ...business.vehicle.expenses, [key]: value } }
+                    })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-1">Business use of home (line 9945)</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <AmountInput
+                  label="Business-use % of home"
+                  value={business.homeOffice.businessUsePercent}
+                  onChange={(businessUsePercent) => updateBusiness(index, { homeOffice: { ...business.homeOffice, businessUsePercent } })}
+                />
+                <AmountInput
+                  label="Carried forward from last year"
+                  value={business.homeOffice.priorYearCarryforward}
+                  onChange={(priorYearCarryforward) => updateBusiness(index, { homeOffice: { ...business.homeOffice, priorYearCarryforward } })}
+                />
+                {Object.entries(T2125.homeOfficeExpenses).map(([key, { label }]) => (
+                  <AmountInput
+                    key={key}
+                    label={label}
+                    value={business.homeOffice.expenses[key]}
+                    onChange={(value) => updateBusiness(index, {
+                      homeOffice: { ...business.homeOffice, expenses: { ...business.homeOffice.expenses, [key]: value } }
+                    })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-semibold text-gray-700">Capital cost allowance (line 9936)</p>
+                <button
+                  type="button"
+                  onClick={() => addAsset(index)}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="h-3 w-3" />
+                  <span>Add asset</span>
+                </button>
+              </div>
+              {business.assets.map((asset, assetIndex) => (
+                <div key={assetIndex} className="grid grid-cols-2 md:grid-cols-7 gap-2 mb-2 items-end">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Class</label>
+                    <select
+                      value={asset.ccaClass}
+                      onChange={(e) => updateAsset(index, assetIndex, { ccaClass: e.target.value as CapitalAsset['ccaClass'] })}
+                      className={inputClass}
+                      title={T2125.ccaClasses[asset.ccaClass].label}
+                    >
+                      {CCA_CLASSES.map(ccaClass => (
+                        <option key={ccaClass} value={ccaClass}>
+                          {ccaClass} ({T2125.ccaClasses[ccaClass].rate * 100}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Description</label>
+                    <input
+                      type="text"
+                      value={asset.description}
+                      onChange={(e) => updateAsset(index, assetIndex, { description: e.target.value })}
+                      className={inputClass}
+                      placeholder={T2125.ccaClasses[asset.ccaClass].label}
+                    />
+                  </div>
+                  <AmountInput
+                    label="Opening UCC"
+                    value={asset.openingUcc}
+                    onChange={(openingUcc) => updateAsset(index, assetIndex, { openingUcc })}
+                  />
+                  <AmountInput
+                    label="Additions"
+                    value={asset.additions}
+                    onChange={(additions) => updateAsset(index, assetIndex, { additions })}
+                  />
+                  <AmountInput
+                    label="Dispositions"
+                    value={asset.dispositions}
+                    onChange={(dispositions) => updateAsset(index, assetIndex, { dispositions })}
+                  />
+                  <AmountInput
+                    label="Business use %"
+                    value={asset.businessUsePercent}
+                    onChange={(businessUsePercent) => updateAsset(index, assetIndex, { businessUsePercent })}
+                    placeholder="100"
+                  />
+                  <div className="flex items-center justify-between text-xs text-gray-600 pb-1">
+                    <span title="CCA claimed / closing UCC">
+                      {result && result.assets[assetIndex]
+                        ? `$${Math.round(result.assets[assetIndex].claim).toLocaleString()} / $${Math.round(result.assets[assetIndex].closingUcc).toLocaleString()}`
+                        : '—'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeAsset(index, assetIndex)}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label="Remove asset"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Half of net additions is depreciated in the year of purchase (half-year rule).
+                {rules && (
+                  <>
+                    {' '}Passenger vehicles are limited to ${rules.selfEmployment.passengerVehicleCostLimit.toLocaleString()} (class 10.1) or
+                    ${rules.selfEmployment.zeroEmissionVehicleCostLimit.toLocaleString()} (class 54).
+                  </>
+                )}
+              </p>
+            </div>
+
+            {result && (
+              <div className="text-xs text-gray-600 border-t border-gray-100 pt-2">
+                <div className="flex justify-between">
+                  <span>Expenses, vehicle and CCA</span>
+                  <span className="font-mono">${(result.totalExpenses + result.vehicle.deductible + result.cca).toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {result.recapture > 0 && (
+                  <div className="flex justify-between">
+                    <span>Recaptured CCA</span>
+                    <span className="font-mono">${result.recapture.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Business use of home</span>
+                  <span className="font-mono">${result.homeOffice.deductible.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {result.homeOffice.carryforward > 0 && (
+                  <p>${result.homeOffice.carryforward.toLocaleString('en-CA', { maximumFractionDigits: 2 })} of home expenses is carried forward to next year</p>
+                )}
+                <div className="flex justify-between font-medium text-gray-800">
+                  <span>Net business income (line 13500)</span>
+                  <span className="font-mono">${result.netIncome.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BusinessIncome;
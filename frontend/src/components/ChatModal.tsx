@@ -5,6 +5,7 @@ import {
 } from 'lucide-react';
 
 import { ChatModalProps, ChatMessage } from '../types';
+import { apiRequest } from '../utils/auth';
 
 const ChatModal: React.FC<ChatModalProps> = ({
   chatMessages = [],
@@ -112,7 +113,7 @@ const ChatModal: React.FC<ChatModalProps> = ({
     setShowSuggestions(false);
 
     try {
-      const token = localStorage.getItem('authToken');
+      const token = localStorage.getItem('token');
       if (!token) throw new Error('No auth token');
 
       const limitedContext = {
@@ -120,7 +121,7 @@ const ChatModal: React.FC<ChatModalProps> = ({
         selectedProvince,
         taxFormData: {
           income: taxFormData?.income || '',
-          filingStatus: taxFormData?.filingStatus || 'single'
+          maritalStatus: taxFormData?.maritalStatus || 'single'
         },
         documentsCount: Array.isArray(uploadedFiles) ? uploadedFiles.length : 0,
         hasDocuments: Array.isArray(uploadedFiles) && uploadedFiles.length > 0,
@@ -131,20 +132,14 @@ const ChatModal: React.FC<ChatModalProps> = ({
       let botResponse;
       
       try {
-        const response = await fetch('http://localhost:3001/api/ai/chat', {
+        const data = await apiRequest<Pick<ChatMessage, 'message' | 'confidence' | 'sources' | 'suggestedActions' | 'aiInsight'>>('/ai/chat', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
           body: JSON.stringify({
             message: message.trim(),
             context: limitedContext
           })
         });
 
-        const data = await response.json();
-        
         if (data.success && data.data) {
           botResponse = {
             message: data.data.message,
@@ -0,0 +1,233 @@
+// components/ClientRoster.tsx - A preparer's clients and invitations, and a read-only look at each client's account
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, X, RefreshCw, FileText, MessageSquare, Calculator } from 'lucide-react';
+import {
+  AccessScope, ApiResult, ChatHistoryEntry, ClientDocument, ClientGrant, ClientWorkspace, RosterClient, SavedTaxForm
+} from '../types';
+import { ACCESS_SCOPES, ACCESS_SCOPE_LABELS, toggleScope } from '../utils/access';
+import { apiRequest } from '../utils/auth';
+
+const ClientRoster: React.FC = () => {
+  const [clients, setClients] = useState<RosterClient[]>([]);
+  const [invitations, setInvitations] = useState<ClientGrant[]>([]);
+  const [email, setEmail] = useState('');
+  const [scopes, setScopes] = useState<AccessScope[]>(ACCESS_SCOPES);
+  const [selectedClient, setSelectedClient] = useState<RosterClient | null>(null);
+  const [workspace, setWorkspace] = useState<ClientWorkspace | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const requestClients = async <T = undefined,>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> => {
+    setIsSyncing(true);
+    setMessage('');
+    const result = await apiRequest<T>(`/clients${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setMessage(result.message || 'Client request failed');
+    }
+    return result;
+  };
+
+  const loadClients = async () => {
+    const result = await requestClients<{ clients: RosterClient[]; invitations: ClientGrant[] }>('');
+    if (result.success) {
+      setClients(result.data.clients);
+      setInvitations(result.data.invitations);
+    }
+  };
+
+  useEffect(() => {
+    loadClients();
+  }, []);
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await requestClients('/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, scopes })
+    });
+    if (result.success) {
+      setEmail('');
+      setScopes(ACCESS_SCOPES);
+      await loadClients();
+      setMessage(result.message || '');
+    }
+  };
+
+  const remove = async (grant: ClientGrant, label: string) => {
+    if (!confirm(grant.status === 'pending' ? `Cancel the invitation to ${label}?` : `Remove ${label} from your clients?`)) return;
+    const result = await requestClients(`/${grant.id}`, { method: 'DELETE' });
+    if (result.success) {
+      if (selectedClient?.id === grant.id) {
+        setSelectedClient(null);
+        setWorkspace(null);
+      }
+      await loadClients();
+      setMessage(result.message || '');
+    }
+  };
+
+  // Loads whatever the client has shared; scopes they have since removed come back empty
+  const openClient = async (client: RosterClient) => {
+    setSelectedClient(client);
+    setWorkspace(null);
+    const fetchScope = async <T,>(scope: AccessScope, path: string): Promise<T | null> => {
+      if (!client.scopes.includes(scope)) return null;
+      const result = await apiRequest<T>(path, {}, client.client.id);
+      return result.success ? result.data : null;
+    };
+
+    setIsSyncing(true);
+    const [returns, documents, chat] = await Promise.all([
+      fetchScope<SavedTaxForm[]>('returns', '/tax-forms'),
+      fetchScope<ClientDocument[]>('documents', '/documents'),
+      fetchScope<{ history: ChatHistoryEntry[] }>('chat', '/ai/history')
+    ]);
+    setWorkspace({ returns, documents, chat: chat ? chat.history : null });
+    setIsSyncing(false);
+  };
+
+  const buttonClass = 'flex items-center justify-center py-1 px-3 rounded-lg text-sm transition-colors disabled:opacity-50';
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <Users className="h-5 w-5 text-blue-600 mr-2" />
+        Clients
+        {isSyncing && <RefreshCw className="animate-spin h-4 w-4 ml-2 text-gray-400" />}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Invite clients by email. Once they accept, you can work on the parts of their account they chose to share.
+      </p>
+
+      <form onSubmit={invite} className="mb-4 p-4 bg-blue-50 rounded-lg space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Client email"
+            required
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSyncing || scopes.length === 0}
+            className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Invite
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {ACCESS_SCOPES.map(scope => (
+            <label key={scope} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => setScopes(toggleScope(scopes, scope))}
+                className="mr-1"
+              />
+              {ACCESS_SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {message && <p className="mb-3 text-sm text-gray-600">{message}</p>}
+
+      {clients.map(client => (
+        <div
+          key={client.id}
+          className={`mb-2 p-3 border rounded-lg flex items-center justify-between ${selectedClient?.id === client.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+        >
+          <button type="button" onClick={() => openClient(client)} className="text-left">
+            <p className="text-sm font-medium text-gray-900">{client.client.name}</p>
+            <p className="text-xs text-gray-500">
+              {client.client.email} · {client.scopes.map(scope => ACCESS_SCOPE_LABELS[scope]).join(', ')}
+            </p>
+          </button>
+          <button
+            type="button"
+            onClick={() => remove(client, client.client.name)}
+            disabled={isSyncing}
+            className={`${buttonClass} border border-red-300 text-red-700 hover:bg-red-50`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      {invitations.map(invitation => (
+        <div key={invitation.id} className="mb-2 p-3 border border-dashed border-gray-300 rounded-lg flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-700">{invitation.clientEmail}</p>
+            <p className="text-xs text-gray-500">
+              Invited · expires {new Date(invitation.expiresAt).toLocaleDateString('en-CA')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => remove(invitation, invitation.clientEmail)}
+            disabled={isSyncing}
+            className={`${buttonClass} border border-gray-300 text-gray-700 hover:bg-gray-50`}
+          >
+            Cancel
+          </button>
+        </div>
+      ))}
+
+      {clients.length === 0 && invitations.length === 0 && (
+        <p className="text-sm text-gray-500">No clients yet.</p>
+      )}
+
+      {selectedClient && workspace && (
+        <div className="mt-4 pt-4 border-t space-y-4">
+          <h4 className="font-medium">{selectedClient.client.name}</h4>
+
+          {workspace.returns && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 flex items-center mb-1">
+                <Calculator className="h-4 w-4 mr-1" /> Saved returns
+              </p>
+              {workspace.returns.length === 0 && <p className="text-sm text-gray-500">None yet.</p>}
+              {workspace.returns.map(form => (
+                <p key={form.id} className="text-sm text-gray-600">
+                  {form.taxYear} · {form.province} · revision {form.revision} · updated {new Date(form.updatedAt).toLocaleDateString('en-CA')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {workspace.documents && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 flex items-center mb-1">
+                <FileText className="h-4 w-4 mr-1" /> Documents
+              </p>
+              {workspace.documents.length === 0 && <p className="text-sm text-gray-500">None yet.</p>}
+              {workspace.documents.map(document => (
+                <p key={document.id} className="text-sm text-gray-600">
+                  {document.originalName} · {(document.size / 1024).toFixed(1)} KB · {new Date(document.uploadDate).toLocaleDateString('en-CA')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {workspace.chat && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 flex items-center mb-1">
+                <MessageSquare className="h-4 w-4 mr-1" /> Recent assistant questions
+              </p>
+              {workspace.chat.length === 0 && <p className="text-sm text-gray-500">None yet.</p>}
+              {workspace.chat.map(entry => (
+                <p key={entry.id} className="text-sm text-gray-600 truncate">{entry.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientRoster;
@@ -1,9 +1,15 @@
 import React from 'react';
-import { MessageCircle, FileText, Calculator, BarChart3, TrendingUp, AlertCircle } from 'lucide-react';
+import { MessageCircle, FileText, Calculator, BarChart3, TrendingUp, AlertCircle, Briefcase, PiggyBank, Calendar } from 'lucide-react';
+import { ReturnPreview, TaxFormData } from '../types';
+import { formatDeadline, getFilingDeadlines } from '../utils/deadlines';
+import { FHSA_LIFETIME_LIMIT } from '../utils/registeredAccounts';
+import { INSTALLMENT_OPTIONS } from '../utils/installments';
 
 interface DashboardProps {
   aiInsights: any[];
   uploadedFiles: any[];
+  taxFormData: TaxFormData;
+  preview: ReturnPreview | null;
   setActiveTab: (tab: string) => void;
   setShowChat: (show: boolean) => void;
 }
@@ -11,9 +17,19 @@ interface DashboardProps {
 const Dashboard: React.FC<DashboardProps> = ({ 
   aiInsights, 
   uploadedFiles, 
+  taxFormData,
+  preview,
   setActiveTab, 
   setShowChat 
 }) => {
+  const taxResults = preview && preview.calculation.success ? preview.calculation.data : null;
+  const deadlines = getFilingDeadlines(taxFormData.taxYear);
+  const isSelfEmployed = Boolean(taxResults && taxResults.selfEmployment.businesses.length > 0);
+  // Federal plus provincial bracket rate (%) on the next dollar, which an RRSP deduction saves
+  const marginalRate = taxResults ? taxResults.marginalRate + taxResults.provincialBreakdown.marginalBracketRate * 100 : 0;
+  const installments = preview && preview.installments && preview.installments.success ? preview.installments.data : null;
+  const recommendedInstallments = installments && INSTALLMENT_OPTIONS.find(option => option.value === installments.recommended);
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
@@ -61,6 +77,150 @@ const Dashboard: React.FC<DashboardProps> = ({
         </button>
       </div>
 
+      {/* Return summary from the tax form */}
+      {taxResults && taxResults.totalIncome > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Your {taxFormData.taxYear} Return</h2>
+            <span className="text-sm text-gray-500">
+              File by {formatDeadline(isSelfEmployed ? deadlines.selfEmployedFilingDeadline : deadlines.filingDeadline)}
+              {isSelfEmployed ? ` · balance due ${formatDeadline(deadlines.balanceDue)}` : ''}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-600">Total income</p>
+              <p className="text-xl font-bold text-gray-900">${taxResults.totalIncome.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Tax + {taxResults.pensionPlan}/EI</p>
+              <p className="text-xl font-bold text-red-600">${taxResults.tax.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Effective rate</p>
+              <p className="text-xl font-bold text-purple-600">{taxResults.effectiveRate}%</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">{taxResults.balanceOwing > 0 ? 'Balance owing' : 'Refund'}</p>
+              <p className={`text-xl font-bold ${taxResults.balanceOwing > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                ${(taxResults.balanceOwing > 0 ? taxResults.balanceOwing : taxResults.refund).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          {isSelfEmployed && (
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <div className="flex items-center mb-2">
+                <Briefcase className="h-4 w-4 text-indigo-600 mr-2" />
+                <h3 className="text-sm font-semibold text-gray-800">Self-employment (T2125)</h3>
+              </div>
+              <div className="space-y-1 text-sm text-gray-600">
+                {taxResults.selfEmployment.businesses.map((business, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>{business.name || `Business ${index + 1}`}</span>
+                    <span className="font-mono">
+                      ${Math.round(business.grossIncome).toLocaleString()} gross · ${Math.round(business.netIncome).toLocaleString()} net
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-medium text-gray-800">
+                  <span>{taxResults.pensionPlan} on self-employment (both halves)</span>
+                  <span className="font-mono">${Math.round(taxResults.selfEmployment.cppContribution).toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Registered account room and over-contribution penalties */}
+      {taxResults && (taxResults.registeredAccounts.rrsp || taxResults.registeredAccounts.tfsa || taxResults.registeredAccounts.fhsa) && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex items-center mb-4">
+            <PiggyBank className="h-5 w-5 text-green-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Registered Accounts ({taxFormData.taxYear})</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {taxResults.registeredAccounts.rrsp && (
+              <div>
+                <p className="text-sm text-gray-600">RRSP room left</p>
+                <p className="text-xl font-bold text-gray-900">${taxResults.rrspRoom.toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  Up to ${Math.round(taxResults.rrspRoom * marginalRate / 100).toLocaleString()} in tax at {marginalRate.toFixed(1)}% · deadline {formatDeadline(deadlines.rrspContributionDeadline)}
+                </p>
+              </div>
+            )}
+            {taxResults.registeredAccounts.tfsa && (
+              <div>
+                <p className="text-sm text-gray-600">TFSA room left</p>
+                <p className="text-xl font-bold text-gray-900">${taxResults.tfsaRoom.toLocaleString()}</p>
+                {taxResults.registeredAccounts.tfsa.recontributionRoom > 0 && (
+                  <p className="text-xs text-gray-500">
+                    +${Math.round(taxResults.registeredAccounts.tfsa.recontributionRoom).toLocaleString()} of withdrawals back on January 1
+                  </p>
+                )}
+              </div>
+            )}
+            {taxResults.registeredAccounts.fhsa && (
+              <div>
+                <p className="text-sm text-gray-600">FHSA room left</p>
+                <p className="text-xl font-bold text-gray-900">${Math.round(taxResults.registeredAccounts.fhsa.availableRoom).toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  ${Math.round(taxResults.registeredAccounts.fhsa.lifetimeContributions).toLocaleString()} of the ${FHSA_LIFETIME_LIMIT.toLocaleString()} lifetime limit used
+                </p>
+              </div>
+            )}
+          </div>
+          {taxResults.registeredAccounts.warnings.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+              {taxResults.registeredAccounts.warnings.map(warning => (
+                <div key={warning} className="flex items-start text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Quarterly installments for the year after the return */}
+      {installments && (installments.required || installments.paid > 0) && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <Calendar className="h-5 w-5 text-blue-600 mr-2" />
+              <h2 className="text-lg font-semibold text-gray-900">Installments ({installments.installmentYear})</h2>
+            </div>
+            {recommendedInstallments && <span className="text-sm text-gray-500">{recommendedInstallments.label}</span>}
+          </div>
+          {installments.upcoming.length > 0 ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {installments.upcoming.map(payment => (
+                <div key={payment.dueDate}>
+                  <p className="text-sm text-gray-600">Due {formatDeadline(new Date(`${payment.dueDate}T00:00:00Z`))}</p>
+                  <p className="text-xl font-bold text-gray-900">${payment.amount.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {installments.required ? 'No installments left to pay this year.' : `No installments are required for ${installments.installmentYear}.`}
+              {installments.paid > 0 ? ` $${installments.paid.toLocaleString()} paid so far.` : ''}
+            </p>
+          )}
+          {installments.interest.charged > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-100 flex items-start text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>
+                Estimated installment interest of ${installments.interest.charged.toLocaleString()}
+                {installments.interest.penalty > 0 ? ` and a $${installments.interest.penalty.toLocaleString()} installment penalty` : ''}
+                {' '}on late or missed payments
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* AI Insights Section */}
       {aiInsights.length > 0 && (
         <div className="mb-8">
@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   FileText, Eye, Brain, RefreshCw, CheckCircle, AlertCircle, 
-  X, Lightbulb, Upload
+  X, Lightbulb, Upload, Download
 } from 'lucide-react';
-import { DocumentsProps } from '../types.ts';
+import { DocumentsProps, UploadedFile } from '../types.ts';
+import StepUpModal from './StepUpModal';
+import { apiFetch, apiRequest } from '../utils/auth';
 
 const Documents: React.FC<DocumentsProps> = ({
   uploadedFiles,
@@ -13,6 +15,47 @@ const Documents: React.FC<DocumentsProps> = ({
   setError,
   setIsLoading
 }) => {
+  // Downloads need a recent password confirmation; this one runs once it has been given
+  const [pendingDownload, setPendingDownload] = useState<UploadedFile | null>(null);
+
+  // Keep the original on the server so it can be downloaded again later
+  const uploadDocument = async (file: File): Promise<string | null> => {
+    const formData = new FormData();
+    formData.append('document', file);
+    const data = await apiRequest<{ id: string }>('/documents/upload', { method: 'POST', body: formData });
+    if (!data.success) {
+      setError(data.message || `Failed to upload ${file.name}`);
+      return null;
+    }
+    return data.data.id;
+  };
+
+  const handleDownload = async (file: UploadedFile): Promise<void> => {
+    setIsLoading(true);
+    try {
+      const response = await apiFetch(`/documents/${file.documentId}/download`);
+      if (!response.ok) {
+        const data = await response.json();
+        if (data.stepUpRequired) {
+          setPendingDownload(file);
+        } else {
+          setError(data.message || 'Failed to download document');
+        }
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Document download error:', error);
+      setError('Failed to download document. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   // File Upload with Error Handling and Size Limits
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
@@ -37,6 +80,12 @@ const Documents: React.FC<DocumentsProps> = ({
       setUploadedFiles(prev => [...prev, newFile]);
       setIsLoading(true);
 
+      uploadDocument(file).then(documentId => {
+        if (documentId) {
+          setUploadedFiles(prev => prev.map(f => f.id === newFile.id ? { ...f, documentId } : f));
+        }
+      });
+
       // Simulate AI analysis (replace with real API call)
       setTimeout(() => {
         const analysisResults = {
@@ -198,12 +247,23 @@ const Documents: React.FC<DocumentsProps> = ({
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-xl font-semibold">Document Analysis Details</h3>
-                <button
-                  onClick={() => setSelectedDocument(null)}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <X className="h-6 w-6" />
-                </button>
+                <div className="flex items-center space-x-3">
+                  {selectedDocument.documentId && (
+                    <button
+                      onClick={() => handleDownload(selectedDocument)}
+                      className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setSelectedDocument(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
               </div>
 
               <div className="space-y-4">
@@ -291,6 +351,17 @@ const Documents: React.FC<DocumentsProps> = ({
           </div>
         </div>
       )}
+
+      {pendingDownload && (
+        <StepUpModal
+          onConfirmed={() => {
+            const file = pendingDownload;
+            setPendingDownload(null);
+            handleDownload(file);
+          }}
+          onCancel={() => setPendingDownload(null)}
+        />
+      )}
     </div>
   );
 };
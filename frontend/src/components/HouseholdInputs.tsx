@@ -0,0 +1,137 @@
+// components/HouseholdInputs.tsx - Marital status, spouse and dependants for credit claims
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Dependant, DependantRelationship, HouseholdInputsProps, MaritalStatus } from '../types';
+import { MARITAL_STATUSES, hasSpouse } from '../utils/taxCalculations';
+
+const RELATIONSHIPS: { value: DependantRelationship; label: string }[] = [
+  { value: 'child', label: 'Child' },
+  { value: 'grandchild', label: 'Grandchild' },
+  { value: 'sibling', label: 'Brother/Sister' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'grandparent', label: 'Grandparent' },
+  { value: 'other', label: 'Other' }
+];
+
+const HouseholdInputs: React.FC<HouseholdInputsProps> = ({
+  maritalStatus,
+  spouseNetIncome,
+  dependants,
+  onChange
+}) => {
+
+  const updateDependant = (index: number, changes: Partial<Dependant>) => {
+    onChange({
+      dependants: dependants.map((dependant, i) => (i === index ? { ...dependant, ...changes } : dependant))
+    });
+  };
+
+  const addDependant = () => {
+    onChange({
+      dependants: [...dependants, { age: '', netIncome: '', relationship: 'child', infirm: false }]
+    });
+  };
+
+  const removeDependant = (index: number) => {
+    onChange({ dependants: dependants.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Marital Status (Dec 31)</label>
+          <select
+            value={maritalStatus}
+            onChange={(e) => onChange({ maritalStatus: e.target.value as MaritalStatus })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MARITAL_STATUSES.map(status => (
+              <option key={status.value} value={status.value}>{status.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {hasSpouse(maritalStatus) && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Spouse/Partner Net Income</label>
+            <input
+              type="number"
+              value={spouseNetIncome}
+              onChange={(e) => onChange({ spouseNetIncome: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Line 23600 of their return"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">Dependants</label>
+          <button
+            type="button"
+            onClick={addDependant}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add dependant</span>
+          </button>
+        </div>
+
+        {dependants.length === 0 && (
+          <p className="text-xs text-gray-500">
+            No dependants. Single, separated, divorced or widowed parents can claim the eligible dependant amount.
+          </p>
+        )}
+
+        {dependants.map((dependant, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center mb-2">
+            <select
+              value={dependant.relationship}
+              onChange={(e) => updateDependant(index, { relationship: e.target.value as DependantRelationship })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {RELATIONSHIPS.map(relationship => (
+                <option key={relationship.value} value={relationship.value}>{relationship.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={dependant.age}
+              onChange={(e) => updateDependant(index, { age: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Age"
+            />
+            <input
+              type="number"
+              value={dependant.netIncome}
+              onChange={(e) => updateDependant(index, { netIncome: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Net income"
+            />
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={dependant.infirm}
+                onChange={(e) => updateDependant(index, { infirm: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>Impairment</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => removeDependant(index)}
+              className="text-red-500 hover:text-red-700 justify-self-end"
+              aria-label="Remove dependant"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdInputs;
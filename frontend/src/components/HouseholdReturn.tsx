@@ -0,0 +1,269 @@
+// components/HouseholdReturn.tsx - Couple return with pension splitting and credit transfers
+import React, { useState } from 'react';
+import { Users, ArrowRightLeft } from 'lucide-react';
+import { HouseholdResult, HouseholdReturnProps, HouseholdScenario, HouseholdSpouse } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const emptySpouse = (name: string): HouseholdSpouse => ({
+  name,
+  income: '',
+  deductions: '',
+  pensionIncome: '',
+  age: '',
+  tuition: '',
+  disability: false
+});
+
+const HouseholdReturn: React.FC<HouseholdReturnProps> = ({ province, taxYear }) => {
+  const [maritalStatus, setMaritalStatus] = useState<'married' | 'common_law'>('married');
+  const [spouses, setSpouses] = useState<HouseholdSpouse[]>([emptySpouse('Spouse 1'), emptySpouse('Spouse 2')]);
+  const [medicalExpenses, setMedicalExpenses] = useState<string>('');
+  const [donations, setDonations] = useState<string>('');
+  const [result, setResult] = useState<HouseholdResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const updateSpouse = (index: number, changes: Partial<HouseholdSpouse>) => {
+    setSpouses(prev => prev.map((spouse, i) => (i === index ? { ...spouse, ...changes } : spouse)));
+  };
+
+  const calculateHousehold = async (): Promise<void> => {
+    setIsLoading(true);
+    try {
+      const data = await apiRequest<HouseholdResult>('/tax/household', {
+        method: 'POST',
+        body: JSON.stringify({
+          province,
+          taxYear,
+          maritalStatus,
+          spouses,
+          medicalExpenses,
+          donations
+        })
+      });
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        alert('Error calculating household taxes: ' + data.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const renderScenario = (title: string, scenario: HouseholdScenario, highlight: boolean) => (
+    <div className={`p-4 rounded-lg ${highlight ? 'bg-green-50 border border-green-200' : 'bg-gray-50'}`}>
+      <div className="font-semibold text-gray-900 mb-2">{title}</div>
+      <div className="space-y-1 text-sm">
+        {scenario.spouses.map(spouse => (
+          <div key={spouse.name} className="flex justify-between">
+            <span>{spouse.name} (net ${spouse.netIncome.toLocaleString()})</span>
+            <span className="font-mono">${spouse.tax.toLocaleString()}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-semibold border-t pt-1">
+          <span>Combined tax</span>
+          <span className="font-mono">${scenario.combinedTax.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between text-green-700">
+          <span>Combined after-tax income</span>
+          <span className="font-mono">${scenario.combinedAfterTaxIncome.toLocaleString()}</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <Users className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Household Return</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Finds the best pension income split (T1032), transfers unused age, pension, disability and tuition
+        amounts between spouses, and picks who should claim medical expenses and donations.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Marital Status</label>
+          <select
+            value={maritalStatus}
+            onChange={(e) => setMaritalStatus(e.target.value as 'married' | 'common_law')}
+            className={inputClass}
+          >
+            <option value="married">Married</option>
+            <option value="common_law">Common-law</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Family Medical Expenses</label>
+          <input
+            type="number"
+            value={medicalExpenses}
+            onChange={(e) => setMedicalExpenses(e.target.value)}
+            className={inputClass}
+            placeholder="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Family Donations</label>
+          <input
+            type="number"
+            value={donations}
+            onChange={(e) => setDonations(e.target.value)}
+            className={inputClass}
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+        {spouses.map((spouse, index) => (
+          <div key={index} className="border rounded-lg p-4 space-y-3">
+            <input
+              type="text"
+              value={spouse.name}
+              onChange={(e) => updateSpouse(index, { name: e.target.value })}
+              className="w-full font-semibold text-gray-900 border-b border-gray-200 focus:outline-none"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Employment Income</label>
+                <input
+                  type="number"
+                  value={spouse.income}
+                  onChange={(e) => updateSpouse(index, { income: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Eligible Pension Income</label>
+                <input
+                  type="number"
+                  value={spouse.pensionIncome}
+                  onChange={(e) => updateSpouse(index, { pensionIncome: e.target.value })}
+                  className={inputClass}
+                  placeholder="RPP annuity, or RRIF at 65+"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Deductions</label>
+                <input
+                  type="number"
+                  value={spouse.deductions}
+                  onChange={(e) => updateSpouse(index, { deductions: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Age (Dec 31)</label>
+                <input
+                  type="number"
+                  value={spouse.age}
+                  onChange={(e) => updateSpouse(index, { age: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Tuition (T2202)</label>
+                <input
+                  type="number"
+                  value={spouse.tuition}
+                  onChange={(e) => updateSpouse(index, { tuition: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mt-5">
+                <input
+                  type="checkbox"
+                  checked={spouse.disability}
+                  onChange={(e) => updateSpouse(index, { disability: e.target.checked })}
+                />
+                <span>Approved T2201</span>
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={calculateHousehold}
+        disabled={isLoading}
+        className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+      >
+        {isLoading ? 'Optimizing...' : 'Optimize Household Return'}
+      </button>
+
+      {result && (
+        <div className="mt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderScenario('Filed as entered', result.baseline, false)}
+            {renderScenario('Optimized', result.optimized, true)}
+          </div>
+
+          <div className="p-4 bg-blue-50 rounded-lg text-sm space-y-1">
+            <div className="font-semibold text-blue-900">
+              Household savings: ${result.savings.toLocaleString()}
+            </div>
+            {result.optimized.pensionSplit ? (
+              <div className="flex items-center space-x-2">
+                <ArrowRightLeft className="w-4 h-4 text-blue-600" />
+                <span>
+                  Split ${result.optimized.pensionSplit.amount.toLocaleString()} ({result.optimized.pensionSplit.percent}%)
+                  of pension income from {result.optimized.pensionSplit.from} to {result.optimized.pensionSplit.to} on T1032
+                </span>
+              </div>
+            ) : (
+              <div>No pension income split</div>
+            )}
+            {result.optimized.medicalExpensesClaimedBy && (
+              <div>Medical expenses claimed by {result.optimized.medicalExpensesClaimedBy}</div>
+            )}
+            {result.optimized.donationsClaimedBy && (
+              <div>Donations claimed by {result.optimized.donationsClaimedBy}</div>
+            )}
+            {result.optimized.spouses
+              .filter(spouse => spouse.transferredToSpouse.federal > 0 || spouse.transferredToSpouse.provincial > 0)
+              .map(spouse => (
+                <div key={spouse.name}>
+                  {spouse.name} transfers ${spouse.transferredToSpouse.federal.toLocaleString()} federal /
+                  ${spouse.transferredToSpouse.provincial.toLocaleString()} provincial of unused credits (Schedule 2)
+                </div>
+              ))}
+          </div>
+
+          {result.splitScenarios.length > 1 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2">Pension split</th>
+                    <th className="text-right py-2">Amount</th>
+                    <th className="text-right py-2">Combined Tax</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.splitScenarios
+                    .filter(scenario => scenario.percent % 10 === 0)
+                    .map(scenario => (
+                      <tr key={`${scenario.from}-${scenario.percent}`} className="border-b hover:bg-gray-50">
+                        <td className="py-2">
+                          {scenario.from ? `${scenario.percent}% from ${scenario.from}` : 'No split'}
+                        </td>
+                        <td className="text-right py-2 font-mono">${scenario.amount.toLocaleString()}</td>
+                        <td className="text-right py-2 font-mono">${scenario.combinedTax.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HouseholdReturn;
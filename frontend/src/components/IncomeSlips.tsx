@@ -0,0 +1,102 @@
+// components/IncomeSlips.tsx - Information slips (T4, T4A, T4A(OAS), T4A(P), T5, T3, T5008, T4E, T4RSP, T4RIF) by box number
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { IncomeSlip, IncomeSlipsProps, SlipType } from '../types';
+import { INCOME_SLIPS, SLIP_TYPES } from '../utils/incomeSlips';
+
+const IncomeSlips: React.FC<IncomeSlipsProps> = ({ slips, onChange }) => {
+  const [newSlipType, setNewSlipType] = useState<SlipType>('T4');
+
+  const updateSlip = (index: number, changes: Partial<IncomeSlip>) => {
+    onChange(slips.map((slip, i) => (i === index ? { ...slip, ...changes } : slip)));
+  };
+
+  const updateBox = (index: number, box: string, value: string) => {
+    updateSlip(index, { boxes: { ...slips[index].boxes, [box]: value } });
+  };
+
+  const addSlip = () => {
+    onChange([...slips, { type: newSlipType, issuer: '', boxes: {} }]);
+  };
+
+  const removeSlip = (index: number) => {
+    onChange(slips.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Information Slips</label>
+        <div className="flex items-center space-x-2">
+          <select
+            value={newSlipType}
+            onChange={(e) => setNewSlipType(e.target.value as SlipType)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SLIP_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addSlip}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add slip</span>
+          </button>
+        </div>
+      </div>
+
+      {slips.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No slips. Add the T4, T5 and other slips you received to report income, dividends, capital gains and tax withheld.
+        </p>
+      )}
+
+      {slips.map((slip, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-semibold text-gray-800">{slip.type}</span>
+              <span className="text-xs text-gray-500">{INCOME_SLIPS[slip.type].label}</span>
+            </div>
+            <button
+              type="button"
+              onClick={() => removeSlip(index)}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove slip"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            value={slip.issuer}
+            onChange={(e) => updateSlip(index, { issuer: e.target.value })}
+            className="w-full mb-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Employer or issuer"
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {Object.entries(INCOME_SLIPS[slip.type].boxes).map(([box, definition]) => (
+              <div key={box}>
+                <label className="block text-xs text-gray-600 mb-1" title={definition.label}>
+                  Box {box} · {definition.label}
+                </label>
+                <input
+                  type="number"
+                  value={slip.boxes[box] || ''}
+                  onChange={(e) => updateBox(index, box, e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="0"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IncomeSlips;
@@ -0,0 +1,170 @@
+// components/Installments.tsx - Quarterly installment requirement, CRA reminder options and installment interest
+import React from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { InstallmentPayment, InstallmentsProps } from '../types';
+import { getFailureMessage } from '../utils/auth';
+import { createInstallmentPayment } from '../utils/installments';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDueDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const Installments: React.FC<InstallmentsProps> = ({ installments, onChange, taxYear, schedule }) => {
+  const { payments } = installments;
+  const previousTaxYear = Number(taxYear) - 1;
+  const installmentYear = Number(taxYear) + 1;
+  const calculated = schedule && schedule.success ? schedule.data : null;
+
+  const updatePayment = (index: number, changes: Partial<InstallmentPayment>) => {
+    onChange({
+      ...installments,
+      payments: payments.map((payment, i) => (i === index ? { ...payment, ...changes } : payment))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Installments - {installmentYear} Quarterly Payments</label>
+        <button
+          type="button"
+          onClick={() => onChange({ ...installments, payments: [...payments, createInstallmentPayment()] })}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add payment</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Net tax owing {previousTaxYear} (Notice of Assessment)</label>
+          <input
+            type="number"
+            value={installments.twoYearsAgoNetTaxOwing}
+            onChange={(e) => onChange({ ...installments, twoYearsAgoNetTaxOwing: e.target.value })}
+            className={inputClass}
+            placeholder="0"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Net tax owing {taxYear} (this return)</label>
+          <div className="px-2 py-1 bg-gray-50 rounded-md font-mono text-sm">
+            {calculated ? `$${formatAmount(calculated.netTaxOwing.previousYear)}` : '—'}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Estimated net tax owing {installmentYear}</label>
+          <input
+            type="number"
+            value={installments.currentYearEstimate}
+            onChange={(e) => onChange({ ...installments, currentYearEstimate: e.target.value })}
+            className={inputClass}
+            placeholder={calculated ? String(calculated.netTaxOwing.previousYear) : '0'}
+          />
+        </div>
+      </div>
+
+      {payments.map((payment, index) => (
+        <div key={payment.id || index} className="grid grid-cols-2 md:grid-cols-3 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Payment date</label>
+            <input
+              type="date"
+              value={payment.date}
+              onChange={(e) => updatePayment(index, { date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Amount</label>
+            <input
+              type="number"
+              value={payment.amount}
+              onChange={(e) => updatePayment(index, { amount: e.target.value })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+          <div className="flex justify-end pb-1">
+            <button
+              type="button"
+              onClick={() => onChange({ ...installments, payments: payments.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove payment"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {schedule && !schedule.success && (
+        <p className="text-xs text-amber-700">Installments not calculated: {getFailureMessage(schedule)}</p>
+      )}
+
+      {calculated && (
+        <p className="text-xs text-gray-600">
+          {calculated.required
+            ? `Installments are required for ${calculated.installmentYear}: estimated net tax owing is over $${formatAmount(calculated.threshold)} and so was ${taxYear} or ${previousTaxYear}.`
+            : `No installments are required for ${calculated.installmentYear}: net tax owing must be over $${formatAmount(calculated.threshold)} in ${calculated.installmentYear} and in ${taxYear} or ${previousTaxYear}.`}
+        </p>
+      )}
+
+      {calculated && calculated.required && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-600">
+            <thead>
+              <tr className="text-left text-gray-700">
+                <th className="py-1 pr-3 font-semibold">Option</th>
+                {calculated.dueDates.map(dueDate => (
+                  <th key={dueDate} className="py-1 pr-3 font-semibold text-right">{formatDueDate(dueDate)}</th>
+                ))}
+                <th className="py-1 pr-3 font-semibold text-right">Total</th>
+                <th className="py-1 font-semibold text-right">Interest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {calculated.options.map(option => (
+                <tr key={option.key} className={option.key === calculated.recommended ? 'bg-green-50 font-medium text-gray-800' : ''}>
+                  <td className="py-1 pr-3">{option.label}{option.key === calculated.recommended ? ' (lowest)' : ''}</td>
+                  {option.amounts.map((amount, index) => (
+                    <td key={calculated.dueDates[index]} className="py-1 pr-3 text-right font-mono">${formatAmount(amount)}</td>
+                  ))}
+                  <td className="py-1 pr-3 text-right font-mono">${formatAmount(option.total)}</td>
+                  <td className="py-1 text-right font-mono">
+                    ${formatAmount(calculated.interest.byOption.find(entry => entry.key === option.key)?.interest || 0)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {calculated && calculated.required && (
+        <div className="bg-gray-50 rounded-md p-3 text-xs text-gray-600 space-y-1">
+          <div className="flex justify-between">
+            <span>Installments paid</span>
+            <span className="font-mono">${formatAmount(calculated.paid)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Installment interest (charged over $25, due {calculated.balanceDue})</span>
+            <span className="font-mono">${formatAmount(calculated.interest.charged)}</span>
+          </div>
+          {calculated.interest.penalty > 0 && (
+            <div className="flex items-start space-x-1 text-red-700">
+              <AlertTriangle className="h-3 w-3 mt-0.5" />
+              <span>Installment penalty of ${formatAmount(calculated.interest.penalty)} on interest over $1,000</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Installments;
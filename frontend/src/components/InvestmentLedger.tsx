@@ -0,0 +1,313 @@
+// components/InvestmentLedger.tsx - ACB ledger of non-registered investments feeding Schedule 3, with T5008 import
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, Upload } from 'lucide-react';
+import { InvestmentLedger as InvestmentLedgerData, InvestmentLedgerProps, InvestmentTransaction } from '../types';
+import { apiRequest } from '../utils/auth';
+import { TRANSACTION_TYPES, createTransaction, parseT5008Csv } from '../utils/capitalGains';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const AMOUNT_LABELS: Record<InvestmentTransaction['type'], string> = {
+  buy: 'Total cost',
+  sell: 'Proceeds',
+  returnOfCapital: 'Amount received',
+  split: ''
+};
+
+// Saved ledgers come back with server ids and may omit blank fields
+const toInvestmentLedger = (ledger: Partial<InvestmentLedgerData>): InvestmentLedgerData => ({
+  priorNetCapitalLosses: ledger.priorNetCapitalLosses || '',
+  transactions: (ledger.transactions || []).map(transaction => ({
+    ...createTransaction(transaction.type, transaction.security),
+    ...transaction
+  }))
+});
+
+const InvestmentLedger: React.FC<InvestmentLedgerProps> = ({ investments, capitalGains, onChange, taxYear, setError }) => {
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [t5008Text, setT5008Text] = useState<string>('');
+
+  const { transactions } = investments;
+
+  const updateTransaction = (index: number, changes: Partial<InvestmentTransaction>) => {
+    onChange({
+      ...investments,
+      transactions: transactions.map((transaction, i) => (i === index ? { ...transaction, ...changes } : transaction))
+    });
+  };
+
+  const requestLedger = async <T,>(path: string, init: RequestInit = {}): Promise<T | null> => {
+    setIsSyncing(true);
+    setError('');
+    setStatus('');
+    const result = await apiRequest<T>(`/investments${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setError(result.message || 'Investment ledger request failed');
+      return null;
+    }
+    return result.data;
+  };
+
+  const saveLedger = async () => {
+    const saved = await requestLedger<InvestmentLedgerData>('', { method: 'PUT', body: JSON.stringify(investments) });
+    if (saved) {
+      onChange(toInvestmentLedger(saved));
+      setStatus('Saved investment ledger');
+    }
+  };
+
+  const loadLedger = async () => {
+    const saved = await requestLedger<InvestmentLedgerData>('');
+    if (saved) {
+      onChange(toInvestmentLedger(saved));
+      setStatus(`Loaded ${saved.transactions.length} transaction(s)`);
+    }
+  };
+
+  const importT5008 = async () => {
+    const { slips, errors } = parseT5008Csv(t5008Text);
+    if (errors.length > 0 || slips.length === 0) {
+      setError(errors.length > 0 ? errors.join('; ') : 'No T5008 records to import');
+      return;
+    }
+
+    const saved = await requestLedger<InvestmentLedgerData>('/import/t5008', { method: 'POST', body: JSON.stringify({ slips }) });
+    if (saved) {
+      onChange(toInvestmentLedger(saved));
+      setT5008Text('');
+      setShowImport(false);
+      setStatus(`Imported ${slips.length} T5008 record(s) into the saved ledger`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Investments - ACB Ledger (Schedule 3)</label>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setShowImport(!showImport)}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import T5008</span>
+          </button>
+          <button
+            type="button"
+            onClick={loadLedger}
+            disabled={isSyncing}
+            className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Load saved
+          </button>
+          <button
+            type="button"
+            onClick={saveLedger}
+            disabled={isSyncing}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save ledger</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({ ...investments, transactions: [...transactions, createTransaction()] })}
+            className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add transaction</span>
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-green-700">{status}</p>}
+
+      {showImport && (
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <p className="text-xs text-gray-600">
+            One T5008 record per line: settlement date (YYYY-MM-DD), security, quantity, proceeds (box 21), cost or book value (box 20).
+            Shares the ledger does not already hold are added at the slip's book value.
+          </p>
+          <textarea
+            value={t5008Text}
+            onChange={(e) => setT5008Text(e.target.value)}
+            rows={4}
+            className={`${inputClass} font-mono text-xs`}
+            placeholder="2024-03-15,XEQT,100,3150.00,2875.50"
+          />
+          <button
+            type="button"
+            onClick={importT5008}
+            disabled={isSyncing}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-1 rounded-md disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      )}
+
+      {transactions.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No transactions. Record buys, sells, return of capital and splits for each non-registered security to track its adjusted cost base.
+        </p>
+      )}
+
+      {transactions.map((transaction, index) => (
+        <div key={transaction.id || index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Security</label>
+            <input
+              type="text"
+              value={transaction.security}
+              onChange={(e) => updateTransaction(index, { security: e.target.value.toUpperCase() })}
+              className={inputClass}
+              placeholder="XEQT"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Date</label>
+            <input
+              type="date"
+              value={transaction.date}
+              onChange={(e) => updateTransaction(index, { date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Type</label>
+            <select
+              value={transaction.type}
+              onChange={(e) => updateTransaction(index, { type: e.target.value as InvestmentTransaction['type'] })}
+              className={inputClass}
+            >
+              {TRANSACTION_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          {transaction.type === 'split' ? (
+            <div className="md:col-span-3">
+              <label className="block text-xs text-gray-600 mb-1">New shares per old share</label>
+              <input
+                type="number"
+                value={transaction.ratio || ''}
+                onChange={(e) => updateTransaction(index, { ratio: e.target.value })}
+                className={inputClass}
+                placeholder="2 for a 2-for-1 split, 0.5 for a 1-for-2 consolidation"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Quantity</label>
+                <input
+                  type="number"
+                  value={transaction.type === 'returnOfCapital' ? '' : transaction.quantity}
+                  onChange={(e) => updateTransaction(index, { quantity: e.target.value })}
+                  className={inputClass}
+                  disabled={transaction.type === 'returnOfCapital'}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">{AMOUNT_LABELS[transaction.type]}</label>
+                <input
+                  type="number"
+                  value={transaction.amount}
+                  onChange={(e) => updateTransaction(index, { amount: e.target.value })}
+                  className={inputClass}
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Commission</label>
+                <input
+                  type="number"
+                  value={transaction.type === 'returnOfCapital' ? '' : transaction.commission}
+                  onChange={(e) => updateTransaction(index, { commission: e.target.value })}
+                  className={inputClass}
+                  disabled={transaction.type === 'returnOfCapital'}
+                  placeholder="0"
+                />
+              </div>
+            </>
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-500 pb-1">
+            <span>{transaction.source === 'T5008' ? 'From T5008' : ''}</span>
+            <button
+              type="button"
+              onClick={() => onChange({ ...investments, transactions: transactions.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove transaction"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="md:w-1/3">
+        <label className="block text-xs text-gray-600 mb-1">Unapplied net capital losses before this ledger (Notice of Assessment)</label>
+        <input
+          type="number"
+          value={investments.priorNetCapitalLosses}
+          onChange={(e) => onChange({ ...investments, priorNetCapitalLosses: e.target.value })}
+          className={inputClass}
+          placeholder="0"
+        />
+      </div>
+
+      {capitalGains && capitalGains.holdings.length > 0 && (
+        <div className="text-xs text-gray-600">
+          <p className="font-semibold text-gray-700 mb-1">Holdings</p>
+          {capitalGains.holdings.map(position => (
+            <div key={position.security} className="flex justify-between">
+              <span>{position.security}: {position.shares.toLocaleString()} shares</span>
+              <span className="font-mono">
+                ACB ${formatAmount(position.acb)} (${position.acbPerShare.toFixed(4)}/share)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {capitalGains && (capitalGains.dispositions.length > 0 || capitalGains.netCapitalLossAvailable > 0) && (
+        <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-3 space-y-1">
+          <p className="font-semibold text-gray-700">{taxYear} dispositions</p>
+          {capitalGains.dispositions.map((disposition, index) => (
+            <div key={`${disposition.id}-${index}`} className="flex justify-between">
+              <span>
+                {disposition.date} {disposition.security}{' '}
+                {disposition.type === 'negativeAcb' ? '(negative ACB)' : `x ${disposition.quantity.toLocaleString()}`}
+                {disposition.superficialLoss > 0 && (
+                  <span className="text-amber-700"> - superficial loss of ${formatAmount(disposition.superficialLoss)} denied and added to ACB</span>
+                )}
+              </span>
+              <span className="font-mono">${formatAmount(disposition.gain)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium text-gray-800 border-t border-gray-200 pt-1">
+            <span>Net capital gain (loss) from the ledger</span>
+            <span className="font-mono">${formatAmount(capitalGains.netGain)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Net capital losses available from other years</span>
+            <span className="font-mono">${formatAmount(capitalGains.netCapitalLossAvailable)}</span>
+          </div>
+          {capitalGains.carriedBack.map(carryback => (
+            <p key={carryback.taxYear} className="text-blue-700">
+              ${formatAmount(carryback.amount)} of this year's net capital loss can be carried back to {carryback.taxYear} (form T1A).
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvestmentLedger;
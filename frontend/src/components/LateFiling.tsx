@@ -0,0 +1,139 @@
+// components/LateFiling.tsx - Late-filing penalty and arrears interest on the balance owing
+import React from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { BalancePayment, LateFilingProps } from '../types';
+import { getFailureMessage } from '../utils/auth';
+import { createBalancePayment } from '../utils/penalties';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const SummaryRow: React.FC<{ label: string; amount: number; highlight?: boolean }> = ({ label, amount, highlight }) => (
+  <div className={`flex justify-between ${highlight ? 'font-medium text-gray-800' : ''}`}>
+    <span>{label}</span>
+    <span className="font-mono">${formatAmount(amount)}</span>
+  </div>
+);
+
+const LateFiling: React.FC<LateFilingProps> = ({ lateFiling, onChange, taxYear, arrears }) => {
+  const { payments } = lateFiling;
+  const calculated = arrears && arrears.success ? arrears.data : null;
+
+  const updatePayment = (index: number, changes: Partial<BalancePayment>) => {
+    onChange({
+      ...lateFiling,
+      payments: payments.map((payment, i) => (i === index ? { ...payment, ...changes } : payment))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Late Filing - {taxYear} Penalty and Arrears Interest</label>
+        <button
+          type="button"
+          onClick={() => onChange({ ...lateFiling, payments: [...payments, createBalancePayment()] })}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add payment</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 items-end">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Filing date (blank if not filed yet)</label>
+          <input
+            type="date"
+            value={lateFiling.filingDate}
+            onChange={(e) => onChange({ ...lateFiling, filingDate: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 pb-1">
+          <input
+            type="checkbox"
+            checked={lateFiling.repeatOffender}
+            onChange={(e) => onChange({ ...lateFiling, repeatOffender: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          <span>Late-filing penalty in any of the last 3 years after a demand to file</span>
+        </label>
+      </div>
+
+      {payments.map((payment, index) => (
+        <div key={payment.id || index} className="grid grid-cols-2 md:grid-cols-3 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Payment date</label>
+            <input
+              type="date"
+              value={payment.date}
+              onChange={(e) => updatePayment(index, { date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Amount</label>
+            <input
+              type="number"
+              value={payment.amount}
+              onChange={(e) => updatePayment(index, { amount: e.target.value })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+          <div className="flex justify-end pb-1">
+            <button
+              type="button"
+              onClick={() => onChange({ ...lateFiling, payments: payments.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove payment"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {arrears && !arrears.success && (
+        <p className="text-xs text-amber-700">Penalty not calculated: {getFailureMessage(arrears)}</p>
+      )}
+
+      {calculated && calculated.balanceOwing <= 0 && (
+        <p className="text-xs text-gray-600">
+          No balance owing, so there is no late-filing penalty or arrears interest. File by {calculated.filingDeadline} to keep benefit and credit payments flowing.
+        </p>
+      )}
+
+      {calculated && calculated.balanceOwing > 0 && (
+        <div className="bg-gray-50 rounded-md p-3 text-xs text-gray-600 space-y-1">
+          <p className="font-semibold text-gray-700">
+            Filing deadline {calculated.filingDeadline} · balance due {calculated.balanceDue} · {calculated.filed ? `filed ${calculated.filingDate}` : `not filed as of ${calculated.asOf}`}
+          </p>
+          <SummaryRow label="Balance owing" amount={calculated.balanceOwing} />
+          <SummaryRow label="Unpaid at the filing deadline" amount={calculated.unpaidAtFilingDeadline} />
+          <SummaryRow
+            label={calculated.penalty > 0
+              ? `Late-filing penalty (${Math.round(calculated.penaltyRate * 10000) / 100}%, ${calculated.penaltyMonths} full month${calculated.penaltyMonths === 1 ? '' : 's'}${calculated.penaltyMonths < calculated.monthsLate ? ' - capped' : ''})`
+              : 'Late-filing penalty'}
+            amount={calculated.penalty}
+          />
+          <SummaryRow label={`Arrears interest to ${calculated.asOf}`} amount={calculated.interest} />
+          <SummaryRow label="Payments" amount={calculated.paid} />
+          <SummaryRow label="Outstanding" amount={calculated.outstanding} highlight />
+          {calculated.penalty > 0 && (
+            <div className="flex items-start space-x-1 text-red-700 pt-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5" />
+              <span>
+                {calculated.repeatOffender ? 'Repeat late-filing penalty' : 'Late-filing penalty'} applies: paying the balance by the filing deadline avoids it even if the return is late
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LateFiling;
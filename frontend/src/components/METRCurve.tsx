@@ -0,0 +1,234 @@
+// components/METRCurve.tsx - Marginal effective tax rate across incomes, including CPP/EI and benefit clawbacks
+import React, { useState } from 'react';
+import { LineChart, TrendingDown } from 'lucide-react';
+import { METRComponents, METRCurveProps, METRCurveResult } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 48 };
+
+const COMPONENT_LABELS: Record<keyof METRComponents, string> = {
+  federalTax: 'Federal tax',
+  provincialTax: 'Provincial tax',
+  payroll: 'CPP/QPP and EI',
+  oasRecovery: 'OAS recovery',
+  benefits: 'Benefit clawbacks'
+};
+
+const BENEFIT_LABELS: Record<string, string> = {
+  ccb: 'Canada Child Benefit',
+  gstCredit: 'GST/HST credit',
+  cwb: 'Canada Workers Benefit',
+  ocb: 'Ontario Child Benefit',
+  otb: 'Ontario Trillium Benefit'
+};
+
+const formatPercent = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+const METRCurve: React.FC<METRCurveProps> = ({ income, deductions, province, taxYear, household, credits }) => {
+  const [maxIncome, setMaxIncome] = useState<string>('');
+  const [raise, setRaise] = useState<string>('');
+  const [result, setResult] = useState<METRCurveResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const plot = async (): Promise<void> => {
+    if (!income || parseFloat(income) <= 0) {
+      alert('Please enter an income amount first');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await apiRequest<METRCurveResult>('/tax/metr', {
+        method: 'POST',
+        body: JSON.stringify({
+          income: parseFloat(income),
+          deductions: parseFloat(deductions) || 0,
+          province,
+          ...household,
+          taxYear,
+          credits,
+          maxIncome,
+          raise
+        })
+      });
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        alert('Error calculating marginal rates: ' + data.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const renderChart = (curve: METRCurveResult) => {
+    const { points, range, current } = curve;
+    const rates = points.map(point => point.marginalRate);
+    const minRate = Math.min(0, ...rates);
+    const maxRate = Math.max(0.6, ...rates);
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (amount: number) => CHART_PADDING.left + ((amount - range.minIncome) / (range.maxIncome - range.minIncome)) * plotWidth;
+    const y = (rate: number) => CHART_PADDING.top + plotHeight - ((rate - minRate) / (maxRate - minRate)) * plotHeight;
+    const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.income)},${y(point.marginalRate)}`).join(' ');
+    const showCurrent = current.income >= range.minIncome && current.income <= range.maxIncome;
+
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Marginal effective tax rate by income">
+        <line x1={CHART_PADDING.left} y1={y(0)} x2={CHART_WIDTH - CHART_PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={CHART_HEIGHT - CHART_PADDING.bottom} stroke="#d1d5db" />
+        <text x={CHART_PADDING.left - 8} y={CHART_PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-xs">
+          {formatPercent(maxRate)}
+        </text>
+        <text x={CHART_PADDING.left - 8} y={y(0) + 4} textAnchor="end" className="fill-gray-500 text-xs">0%</text>
+        {minRate < 0 && (
+          <text x={CHART_PADDING.left - 8} y={CHART_HEIGHT - CHART_PADDING.bottom} textAnchor="end" className="fill-gray-500 text-xs">
+            {formatPercent(minRate)}
+          </text>
+        )}
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} className="fill-gray-500 text-xs">
+          ${range.minIncome.toLocaleString()}
+        </text>
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-xs">
+          ${range.maxIncome.toLocaleString()} income
+        </text>
+        {showCurrent && (
+          <g>
+            <line
+              x1={x(current.income)}
+              y1={CHART_PADDING.top}
+              x2={x(current.income)}
+              y2={CHART_HEIGHT - CHART_PADDING.bottom}
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+            />
+            <text x={x(current.income) + 4} y={CHART_PADDING.top + 12} className="fill-yellow-600 text-xs">
+              You: {formatPercent(current.marginalRate)}
+            </text>
+          </g>
+        )}
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth={2} />
+        {points.map(point => (
+          <circle key={point.income} cx={x(point.income)} cy={y(point.marginalRate)} r={2.5} fill="#2563eb">
+            <title>
+              ${point.income.toLocaleString()}: {formatPercent(point.marginalRate)} marginal, {formatPercent(point.averageRate)} average
+            </title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <LineChart className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Marginal Effective Tax Rate</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        How much of each extra dollar of employment income goes to federal and provincial tax, CPP/EI, the OAS
+        recovery and reduced benefits (CCB, GST/HST credit, CWB and provincial benefits), for the household and
+        credits entered above.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Plot Up To Income</label>
+          <input
+            type="number"
+            value={maxIncome}
+            onChange={(e) => setMaxIncome(e.target.value)}
+            className={inputClass}
+            placeholder="200000"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Raise or Extra Income</label>
+          <input
+            type="number"
+            value={raise}
+            onChange={(e) => setRaise(e.target.value)}
+            className={inputClass}
+            placeholder="Optional"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={plot}
+        disabled={isLoading || !income}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mb-6"
+      >
+        {isLoading ? 'Calculating...' : 'Plot Marginal Rates'}
+      </button>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <div className="text-sm text-blue-700">Your Marginal Rate</div>
+              <div className="text-2xl font-bold text-blue-900">{formatPercent(result.current.marginalRate)}</div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-700">Your Average Rate</div>
+              <div className="text-2xl font-bold text-gray-900">{formatPercent(result.current.averageRate)}</div>
+            </div>
+            <div className="p-4 bg-yellow-50 rounded-lg">
+              <div className="text-sm text-yellow-700">Highest Marginal Rate</div>
+              <div className="text-2xl font-bold text-yellow-900">
+                {formatPercent(result.peak.marginalRate)} at ${result.peak.income.toLocaleString()}
+              </div>
+            </div>
+          </div>
+
+          {result.points.length > 1 && renderChart(result)}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700">
+            <div className="space-y-1">
+              <div className="font-semibold text-gray-900">At ${result.current.income.toLocaleString()}</div>
+              {(Object.keys(COMPONENT_LABELS) as Array<keyof METRComponents>)
+                .filter(key => result.current.components[key] !== 0)
+                .map(key => (
+                  <div key={key} className="flex justify-between">
+                    <span>{COMPONENT_LABELS[key]}</span>
+                    <span className="font-mono">{formatPercent(result.current.components[key])}</span>
+                  </div>
+                ))}
+              {Object.entries(result.current.benefitClawback).map(([key, rate]) => (
+                <div key={key} className="flex justify-between text-gray-500 pl-3">
+                  <span>{BENEFIT_LABELS[key] || key}</span>
+                  <span className="font-mono">{formatPercent(rate || 0)}</span>
+                </div>
+              ))}
+            </div>
+
+            {result.raise && (
+              <div className="p-4 rounded-lg bg-green-50 border border-green-200 space-y-1">
+                <div className="font-semibold text-gray-900">
+                  A ${result.raise.amount.toLocaleString()} raise to ${result.raise.toIncome.toLocaleString()}
+                </div>
+                <div className="flex justify-between"><span>Income tax</span><span className="font-mono">-${result.raise.taxIncrease.toLocaleString()}</span></div>
+                <div className="flex justify-between"><span>CPP/QPP and EI</span><span className="font-mono">-${result.raise.payrollIncrease.toLocaleString()}</span></div>
+                <div className="flex justify-between"><span>Benefits lost</span><span className="font-mono">-${result.raise.benefitLoss.toLocaleString()}</span></div>
+                <div className="flex justify-between font-medium">
+                  <span>You keep</span>
+                  <span className="font-mono">${result.raise.kept.toLocaleString()}</span>
+                </div>
+                <div className="flex items-start space-x-2 pt-1">
+                  <TrendingDown className="w-4 h-4 text-green-700 mt-0.5" />
+                  <span>{formatPercent(result.raise.effectiveRate)} of the raise goes to tax, contributions and clawbacks</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default METRCurve;
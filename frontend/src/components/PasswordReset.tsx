@@ -0,0 +1,110 @@
+// components/PasswordReset.tsx - Request a reset link, or choose a new password from one
+import React, { useState } from 'react';
+import { RefreshCw, Mail, KeyRound } from 'lucide-react';
+import { ApiResult, PasswordResetProps } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const PasswordReset: React.FC<PasswordResetProps> = ({ resetToken, onDone, setError }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const postReset = async (path: string, payload: object): Promise<ApiResult<undefined>> => {
+    setIsSubmitting(true);
+    setError('');
+    const result = await apiRequest(`/auth/password-reset/${path}`, { method: 'POST', body: JSON.stringify(payload) });
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.message || 'Password reset failed');
+    }
+    return result;
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await postReset('request', { email });
+    if (result.success) {
+      setSentMessage(result.message || '');
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    const result = await postReset('confirm', { token: resetToken, password });
+    if (result.success) {
+      onDone(result.message || '');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const buttonClass = 'w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors';
+
+  if (resetToken) {
+    return (
+      <form onSubmit={handleConfirm} className="space-y-4">
+        <h3 className="font-semibold text-gray-900">Choose a new password</h3>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+          placeholder="New password (min 8 characters)"
+          minLength={8}
+          required
+          disabled={isSubmitting}
+          autoComplete="new-password"
+        />
+        <input
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass}
+          placeholder="Confirm new password"
+          minLength={8}
+          required
+          disabled={isSubmitting}
+          autoComplete="new-password"
+        />
+        <button type="submit" disabled={isSubmitting} className={buttonClass}>
+          {isSubmitting ? <RefreshCw className="animate-spin h-4 w-4 mr-2" /> : <KeyRound className="h-4 w-4 mr-2" />}
+          Reset Password
+        </button>
+      </form>
+    );
+  }
+
+  return sentMessage ? (
+    <div className="p-4 bg-green-50 rounded-lg text-sm text-green-800">{sentMessage}</div>
+  ) : (
+    <form onSubmit={handleRequest} className="space-y-4">
+      <h3 className="font-semibold text-gray-900">Reset your password</h3>
+      <p className="text-sm text-gray-600">Enter your account email and we'll send you a link to choose a new password.</p>
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className={inputClass}
+        placeholder="Enter your email"
+        required
+        disabled={isSubmitting}
+        autoComplete="email"
+      />
+      <button type="submit" disabled={isSubmitting} className={buttonClass}>
+        {isSubmitting ? <RefreshCw className="animate-spin h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+        Send Reset Link
+      </button>
+    </form>
+  );
+};
+
+export default PasswordReset;
@@ -0,0 +1,299 @@
+// components/PayrollSimulator.tsx - Per-cheque payroll deductions (CRA T4127) and the year's withholding against the return
+import React, { useState } from 'react';
+import { Receipt } from 'lucide-react';
+import { PayFrequency, PayrollAmounts, PayrollSimulation, PayrollSimulatorProps } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const PAY_FREQUENCIES: Array<{ value: PayFrequency; label: string; periods: number }> = [
+  { value: 'weekly', label: 'Weekly (52)', periods: 52 },
+  { value: 'biweekly', label: 'Every two weeks (26)', periods: 26 },
+  { value: 'semiMonthly', label: 'Twice a month (24)', periods: 24 },
+  { value: 'monthly', label: 'Monthly (12)', periods: 12 }
+];
+
+const COMPARISON_LINES: Array<{ key: keyof PayrollAmounts; label: string }> = [
+  { key: 'tax', label: 'Income tax' },
+  { key: 'cpp', label: 'CPP and CPP2' },
+  { key: 'ei', label: 'EI premiums' }
+];
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const PayrollSimulator: React.FC<PayrollSimulatorProps> = ({ income, deductions, province, taxYear, household, credits }) => {
+  const [payFrequency, setPayFrequency] = useState<PayFrequency>('biweekly');
+  const [grossPay, setGrossPay] = useState<string>('');
+  const [periodNumber, setPeriodNumber] = useState<string>('1');
+  const [td1, setTd1] = useState<{ federal: string; provincial: string }>({ federal: '', provincial: '' });
+  const [pensionContributions, setPensionContributions] = useState<string>('');
+  const [unionDues, setUnionDues] = useState<string>('');
+  const [ytd, setYtd] = useState<{ earnings: string; cpp: string; cpp2: string; ei: string; tax: string }>({
+    earnings: '',
+    cpp: '',
+    cpp2: '',
+    ei: '',
+    tax: ''
+  });
+  const [result, setResult] = useState<PayrollSimulation | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const periods = PAY_FREQUENCIES.find(frequency => frequency.value === payFrequency)?.periods || 26;
+  const defaultGrossPay = parseFloat(income) > 0 ? Math.round((parseFloat(income) / periods) * 100) / 100 : 0;
+
+  const simulate = async (): Promise<void> => {
+    const pay = parseFloat(grossPay) || defaultGrossPay;
+    if (pay <= 0) {
+      alert('Please enter a gross pay or an income amount first');
+      return;
+    }
+    if (province === 'QC') {
+      alert('Quebec payroll deductions follow the Revenu Québec formulas and are not simulated');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await apiRequest<PayrollSimulation>('/tax/payroll', {
+        method: 'POST',
+        body: JSON.stringify({
+          grossPay: pay,
+          payFrequency,
+          periodNumber,
+          province,
+          ...household,
+          taxYear,
+          deductions,
+          credits,
+          td1,
+          pensionContributions,
+          unionDues,
+          ytd
+        })
+      });
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        alert('Error simulating payroll deductions: ' + data.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <Receipt className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Paycheque Deductions</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        What an employer withholds from each cheque under the CRA payroll deductions formulas (T4127), and
+        how the year's withholding compares with the tax on your return. Leave the TD1 claims blank for the
+        basic personal amounts, and the year-to-date amounts blank to assume the same pay on earlier cheques.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Pay Frequency</label>
+          <select
+            value={payFrequency}
+            onChange={(e) => setPayFrequency(e.target.value as PayFrequency)}
+            className={inputClass}
+          >
+            {PAY_FREQUENCIES.map(frequency => (
+              <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Gross Pay per Cheque</label>
+          <input
+            type="number"
+            value={grossPay}
+            onChange={(e) => setGrossPay(e.target.value)}
+            className={inputClass}
+            placeholder={defaultGrossPay > 0 ? String(defaultGrossPay) : '0'}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Cheque Number This Year</label>
+          <input
+            type="number"
+            min={1}
+            max={periods}
+            value={periodNumber}
+            onChange={(e) => setPeriodNumber(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Federal TD1 Claim</label>
+          <input
+            type="number"
+            value={td1.federal}
+            onChange={(e) => setTd1({ ...td1, federal: e.target.value })}
+            className={inputClass}
+            placeholder="Basic personal amount"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Provincial TD1 Claim</label>
+          <input
+            type="number"
+            value={td1.provincial}
+            onChange={(e) => setTd1({ ...td1, provincial: e.target.value })}
+            className={inputClass}
+            placeholder="Basic personal amount"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">RPP/RRSP</label>
+            <input
+              type="number"
+              value={pensionContributions}
+              onChange={(e) => setPensionContributions(e.target.value)}
+              className={inputClass}
+              placeholder="Per cheque"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Union Dues</label>
+            <input
+              type="number"
+              value={unionDues}
+              onChange={(e) => setUnionDues(e.target.value)}
+              className={inputClass}
+              placeholder="Per cheque"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Year to Date Before This Cheque</label>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {([
+            ['earnings', 'Earnings'],
+            ['cpp', 'CPP'],
+            ['cpp2', 'CPP2'],
+            ['ei', 'EI'],
+            ['tax', 'Tax withheld']
+          ] as Array<[keyof typeof ytd, string]>).map(([key, label]) => (
+            <div key={key}>
+              <label className="block text-xs text-gray-600 mb-1">{label}</label>
+              <input
+                type="number"
+                value={ytd[key]}
+                onChange={(e) => setYtd({ ...ytd, [key]: e.target.value })}
+                className={inputClass}
+                placeholder="Estimated"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={simulate}
+        disabled={isLoading}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mb-6"
+      >
+        {isLoading ? 'Calculating...' : 'Simulate Paycheque'}
+      </button>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700">
+            <div className="p-4 bg-gray-50 rounded-lg space-y-1">
+              <div className="font-semibold text-gray-900">
+                Cheque {result.cheque.period} of {result.periodsPerYear}
+              </div>
+              <div className="flex justify-between"><span>Gross pay</span><span className="font-mono">${formatAmount(result.cheque.gross)}</span></div>
+              <div className="flex justify-between"><span>Federal tax</span><span className="font-mono">-${formatAmount(result.cheque.federalTax)}</span></div>
+              <div className="flex justify-between"><span>Provincial tax</span><span className="font-mono">-${formatAmount(result.cheque.provincialTax)}</span></div>
+              <div className="flex justify-between"><span>CPP</span><span className="font-mono">-${formatAmount(result.cheque.cpp)}</span></div>
+              {result.cheque.cpp2 > 0 && (
+                <div className="flex justify-between"><span>CPP2</span><span className="font-mono">-${formatAmount(result.cheque.cpp2)}</span></div>
+              )}
+              <div className="flex justify-between"><span>EI</span><span className="font-mono">-${formatAmount(result.cheque.ei)}</span></div>
+              {result.cheque.pensionContributions + result.cheque.unionDues > 0 && (
+                <div className="flex justify-between">
+                  <span>RPP/RRSP and union dues</span>
+                  <span className="font-mono">-${formatAmount(result.cheque.pensionContributions + result.cheque.unionDues)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium text-gray-900 border-t pt-1">
+                <span>Net pay</span>
+                <span className="font-mono">${formatAmount(result.cheque.net)}</span>
+              </div>
+              <p className="text-xs text-gray-500 pt-1">
+                Annualized taxable income ${formatAmount(result.cheque.annualTaxableIncome)}; TD1 claims
+                ${formatAmount(result.cheque.federalClaim)} federal and ${formatAmount(result.cheque.provincialClaim)} provincial
+              </p>
+            </div>
+
+            <div className="p-4 bg-blue-50 rounded-lg space-y-1">
+              <div className="font-semibold text-gray-900">
+                {result.taxYear} on ${formatAmount(result.annual.employmentIncome)} of employment income
+              </div>
+              <div className="grid grid-cols-4 gap-2 text-xs text-gray-600">
+                <span></span>
+                <span className="text-right">Withheld</span>
+                <span className="text-right">On return</span>
+                <span className="text-right">Difference</span>
+              </div>
+              {COMPARISON_LINES.map(line => (
+                <div key={line.key} className="grid grid-cols-4 gap-2">
+                  <span>{line.label}</span>
+                  <span className="text-right font-mono">${formatAmount(result.annual.withheld[line.key])}</span>
+                  <span className="text-right font-mono">${formatAmount(result.annual.payable[line.key])}</span>
+                  <span className="text-right font-mono">${formatAmount(result.annual.difference[line.key])}</span>
+                </div>
+              ))}
+              <div className={`flex justify-between font-medium border-t pt-1 ${result.annual.balanceOwing > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                <span>{result.annual.balanceOwing > 0 ? 'Predicted balance owing' : 'Predicted refund'}</span>
+                <span className="font-mono">
+                  ${formatAmount(result.annual.balanceOwing > 0 ? result.annual.balanceOwing : result.annual.refund)}
+                </span>
+              </div>
+              {result.notes.map(note => (
+                <p key={note} className="text-xs text-gray-600">{note}</p>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-64">
+            <table className="min-w-full text-xs text-gray-600">
+              <thead>
+                <tr className="text-left text-gray-700">
+                  <th className="py-1 pr-3 font-semibold">Cheque</th>
+                  <th className="py-1 pr-3 font-semibold text-right">Tax</th>
+                  <th className="py-1 pr-3 font-semibold text-right">CPP</th>
+                  <th className="py-1 pr-3 font-semibold text-right">CPP2</th>
+                  <th className="py-1 pr-3 font-semibold text-right">EI</th>
+                  <th className="py-1 font-semibold text-right">Net pay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.schedule.map(cheque => (
+                  <tr key={cheque.period}>
+                    <td className="py-1 pr-3">{cheque.period}</td>
+                    <td className="py-1 pr-3 text-right font-mono">${formatAmount(cheque.tax)}</td>
+                    <td className="py-1 pr-3 text-right font-mono">${formatAmount(cheque.cpp)}</td>
+                    <td className="py-1 pr-3 text-right font-mono">${formatAmount(cheque.cpp2)}</td>
+                    <td className="py-1 pr-3 text-right font-mono">${formatAmount(cheque.ei)}</td>
+                    <td className="py-1 text-right font-mono">${formatAmount(cheque.net)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayrollSimulator;
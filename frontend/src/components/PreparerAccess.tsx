@@ -0,0 +1,180 @@
+// components/PreparerAccess.tsx - Invitations from tax preparers, and the access already granted to them
+import React, { useEffect, useState } from 'react';
+import { Users, Check, X, RefreshCw } from 'lucide-react';
+import { AccessScope, ApiResult, ClientGrant, PreparerAccessProps } from '../types';
+import { ACCESS_SCOPE_LABELS, toggleScope } from '../utils/access';
+import { apiRequest } from '../utils/auth';
+
+const PreparerAccess: React.FC<PreparerAccessProps> = ({ emailVerified }) => {
+  const [grants, setGrants] = useState<ClientGrant[]>([]);
+  const [invitations, setInvitations] = useState<ClientGrant[]>([]);
+  // Scopes ticked for each invitation or grant, keyed by its id
+  const [selectedScopes, setSelectedScopes] = useState<Record<string, AccessScope[]>>({});
+  const [message, setMessage] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const requestAccess = async <T = undefined,>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> => {
+    setIsSyncing(true);
+    setMessage('');
+    const result = await apiRequest<T>(`/access${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setMessage(result.message || 'Preparer access request failed');
+    }
+    return result;
+  };
+
+  const loadAccess = async () => {
+    const result = await requestAccess<{ grants: ClientGrant[]; invitations: ClientGrant[] }>('');
+    if (result.success) {
+      const { grants: granted, invitations: invited } = result.data;
+      setGrants(granted);
+      setInvitations(invited);
+      setSelectedScopes(Object.fromEntries([
+        ...invited.map(invitation => [invitation.id, invitation.requestedScopes]),
+        ...granted.map(grant => [grant.id, grant.scopes])
+      ]));
+    }
+  };
+
+  useEffect(() => {
+    loadAccess();
+  }, [emailVerified]);
+
+  const respond = async (invitation: ClientGrant, answer: 'accept' | 'decline') => {
+    const result = await requestAccess(`/invitations/${invitation.id}/${answer}`, {
+      method: 'POST',
+      body: answer === 'accept' ? JSON.stringify({ scopes: selectedScopes[invitation.id] }) : undefined
+    });
+    if (result.success) {
+      await loadAccess();
+      setMessage(result.message || '');
+    }
+  };
+
+  const updateScopes = async (grant: ClientGrant) => {
+    const result = await requestAccess(`/${grant.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ scopes: selectedScopes[grant.id] })
+    });
+    if (result.success) {
+      await loadAccess();
+      setMessage(result.message || '');
+    }
+  };
+
+  const revoke = async (grant: ClientGrant) => {
+    if (!confirm(`Remove ${grant.preparerName}'s access to your account?`)) return;
+    const result = await requestAccess(`/${grant.id}`, { method: 'DELETE' });
+    if (result.success) {
+      await loadAccess();
+      setMessage(result.message || '');
+    }
+  };
+
+  const renderScopeChoices = (item: ClientGrant) => (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+      {item.requestedScopes.map(scope => (
+        <label key={scope} className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={(selectedScopes[item.id] || []).includes(scope)}
+            onChange={() => setSelectedScopes({ ...selectedScopes, [item.id]: toggleScope(selectedScopes[item.id] || [], scope) })}
+            className="mr-1"
+          />
+          {ACCESS_SCOPE_LABELS[scope]}
+        </label>
+      ))}
+    </div>
+  );
+
+  const buttonClass = 'flex items-center justify-center py-1 px-3 rounded-lg text-sm transition-colors disabled:opacity-50';
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <Users className="h-5 w-5 text-blue-600 mr-2" />
+        Tax Preparer Access
+        {isSyncing && <RefreshCw className="animate-spin h-4 w-4 ml-2 text-gray-400" />}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Preparers you accept can work on the parts of your account you choose. They cannot delete anything, and you
+        can change or remove their access at any time.
+      </p>
+
+      {!emailVerified && (
+        <p className="mb-4 text-sm text-orange-600">Confirm your email address to see invitations sent to it.</p>
+      )}
+
+      {invitations.map(invitation => (
+        <div key={invitation.id} className="mb-3 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm font-medium text-gray-900">
+            {invitation.preparerName} ({invitation.preparerEmail}) asked for access
+          </p>
+          <p className="text-xs text-gray-500">
+            Expires {new Date(invitation.expiresAt).toLocaleDateString('en-CA')}
+          </p>
+          {renderScopeChoices(invitation)}
+          <div className="flex gap-2 mt-3">
+            <button
+              type="button"
+              onClick={() => respond(invitation, 'accept')}
+              disabled={isSyncing || !(selectedScopes[invitation.id] || []).length}
+              className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </button>
+            <button
+              type="button"
+              onClick={() => respond(invitation, 'decline')}
+              disabled={isSyncing}
+              className={`${buttonClass} border border-gray-300 text-gray-700 hover:bg-gray-50`}
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {grants.map(grant => (
+        <div key={grant.id} className="mb-3 p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{grant.preparerName}</p>
+              <p className="text-xs text-gray-500">
+                {grant.preparerEmail} · since {new Date(grant.respondedAt || grant.createdAt).toLocaleDateString('en-CA')}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => revoke(grant)}
+              disabled={isSyncing}
+              className={`${buttonClass} border border-red-300 text-red-700 hover:bg-red-50`}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Revoke
+            </button>
+          </div>
+          {renderScopeChoices(grant)}
+          <button
+            type="button"
+            onClick={() => updateScopes(grant)}
+            disabled={isSyncing || !(selectedScopes[grant.id] || []).length}
+            className={`${buttonClass} mt-3 border border-gray-300 text-gray-700 hover:bg-gray-50`}
+          >
+            Save access
+          </button>
+        </div>
+      ))}
+
+      {emailVerified && invitations.length === 0 && grants.length === 0 && (
+        <p className="text-sm text-gray-500">No preparer has access to your account.</p>
+      )}
+
+      {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+export default PreparerAccess;
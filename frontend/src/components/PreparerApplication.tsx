@@ -0,0 +1,78 @@
+// components/PreparerApplication.tsx - A client's application to prepare returns for others
+import React, { useState } from 'react';
+import { Briefcase, RefreshCw } from 'lucide-react';
+import { PreparerApplicationProps, User } from '../types';
+import { apiRequest, getFailureMessage } from '../utils/auth';
+
+const PreparerApplication: React.FC<PreparerApplicationProps> = ({ user, onUserUpdated }) => {
+  const [details, setDetails] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const application = user.preparerApplication;
+
+  const apply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setMessage('');
+    const result = await apiRequest<User>('/auth/preparer-application', {
+      method: 'POST',
+      body: JSON.stringify({ details })
+    });
+    setIsSending(false);
+    if (!result.success) {
+      setMessage(getFailureMessage(result));
+      return;
+    }
+    setDetails('');
+    onUserUpdated(result.data);
+    setMessage(result.message || '');
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <Briefcase className="h-5 w-5 text-blue-600 mr-2" />
+        Prepare Returns for Clients
+        {isSending && <RefreshCw className="animate-spin h-4 w-4 ml-2 text-gray-400" />}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Preparer accounts can invite clients and work on what they share. Tell us about your practice and we will
+        review your application.
+      </p>
+
+      {application && application.status === 'pending' ? (
+        <p className="text-sm text-gray-700">
+          Your application from {new Date(application.appliedAt).toLocaleDateString('en-CA')} is under review.
+          You will get an email once it is approved.
+        </p>
+      ) : (
+        <form onSubmit={apply} className="space-y-2">
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Your firm, professional designation and EFILE number"
+            required
+            maxLength={2000}
+            rows={3}
+            disabled={!user.emailVerified || isSending}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {!user.emailVerified && (
+            <p className="text-sm text-orange-600">Confirm your email address before applying.</p>
+          )}
+          <button
+            type="submit"
+            disabled={!user.emailVerified || isSending}
+            className="py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Apply
+          </button>
+        </form>
+      )}
+
+      {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+export default PreparerApplication;
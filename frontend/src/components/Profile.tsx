@@ -1,14 +1,44 @@
 // components/Profile.tsx - User Profile Management
-import React from 'react';
+import React, { useState } from 'react';
 import { User, Brain, TrendingUp, DollarSign } from 'lucide-react';
-import { ProfileProps } from '../types';
+import { ProfileProps, ProfileTab, User as UserType } from '../types';
+import { apiRequest } from '../utils/auth';
+import Sessions from './Sessions';
+import StepUpModal from './StepUpModal';
+import TwoFactorSettings from './TwoFactorSettings';
+import ClientRoster from './ClientRoster';
+import PreparerAccess from './PreparerAccess';
+import PreparerApplication from './PreparerApplication';
+import AuditLog from './AuditLog';
+
+const PROFILE_TABS: { id: ProfileTab; label: string }[] = [
+  { id: 'account', label: 'Account' },
+  { id: 'activity', label: 'Activity' }
+];
 
 const Profile: React.FC<ProfileProps> = ({
   user,
   uploadedFiles,
   aiInsights,
-  setIsLoading
+  setIsLoading,
+  onUserUpdated,
+  onSignedOutEverywhere
 }) => {
+  const [name, setName] = useState(user?.name || '');
+  const [email, setEmail] = useState(user?.email || '');
+  const [profileTab, setProfileTab] = useState<ProfileTab>('account');
+  // Runs once the user has re-entered their password in the step-up dialog
+  const [pendingStepUp, setPendingStepUp] = useState<(() => Promise<void>) | null>(null);
+
+  const requestStepUp = (action: () => Promise<void>) => {
+    setPendingStepUp(() => action);
+  };
+
+  const handleStepUpConfirmed = () => {
+    const action = pendingStepUp;
+    setPendingStepUp(null);
+    if (action) action();
+  };
 
   // Calculate stats
   const stats = {
@@ -18,14 +48,25 @@ const Profile: React.FC<ProfileProps> = ({
     accuracyScore: 94 // Mock accuracy score
   };
 
+  const handleResendVerification = async () => {
+    const data = await apiRequest('/auth/verify-email/resend', { method: 'POST' });
+    alert(data.success ? `📧 ${data.message}` : data.message);
+  };
+
+  // Changing the email needs a recent password confirmation, and takes effect once the new address is confirmed
   const handleUpdateProfile = async () => {
     setIsLoading(true);
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      alert('✅ Profile updated successfully!');
-    } catch (err) {
-      console.error('Profile update error:', err);
+    const data = await apiRequest<UserType>('/user/profile', {
+      method: 'PUT',
+      body: JSON.stringify({ name, email })
+    });
+    if (data.success) {
+      onUserUpdated(data.data);
+      alert(`✅ ${data.message}`);
+    } else if (data.stepUpRequired) {
+      requestStepUp(handleUpdateProfile);
+    } else {
+      alert(data.message || 'Failed to update profile');
     }
     setIsLoading(false);
   };
@@ -33,174 +74,220 @@ const Profile: React.FC<ProfileProps> = ({
   return (
     <div className="p-6">
       <div className="max-w-2xl mx-auto">
-        <h2 className="text-2xl font-bold mb-6">User Profile</h2>
+        <h2 className="text-2xl font-bold mb-4">User Profile</h2>
         
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <div className="flex items-center mb-6">
-            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mr-4">
-              <User className="h-8 w-8 text-blue-600" />
-            </div>
-            <div>
-              <h3 className="text-xl font-semibold">{user?.name || 'John Doe'}</h3>
-              <p className="text-gray-600">{user?.email || 'john.doe@email.com'}</p>
-              <p className="text-sm text-blue-600">Premium AI Member</p>
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Full Name</label>
-              <input
-                type="text"
-                defaultValue={user?.name || 'John Doe'}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
+        <div className="flex border-b mb-6">
+          {PROFILE_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setProfileTab(tab.id)}
+              className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                profileTab === tab.id
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {profileTab === 'activity' ? (
+          <AuditLog />
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center mb-6">
+                <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mr-4">
+                  <User className="h-8 w-8 text-blue-600" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-semibold">{user?.name || 'John Doe'}</h3>
+                  <p className="text-gray-600">{user?.email || 'john.doe@email.com'}</p>
+                  <p className="text-sm text-blue-600">{user?.role === 'preparer' ? 'Tax Preparer' : 'Premium AI Member'}</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Full Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
-              <input
-                type="email"
-                defaultValue={user?.email || 'john.doe@email.com'}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {(user?.pendingEmail || user?.emailVerified === false) && (
+                    <p className="mt-1 text-xs text-orange-600">
+                      {user.pendingEmail ? `Waiting for ${user.pendingEmail} to be confirmed. ` : 'Email address not confirmed. '}
+                      <button type="button" onClick={handleResendVerification} className="underline hover:text-orange-800">
+                        Resend link
+                      </button>
+                    </p>
+                  )}
+                </div>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
-              <input
-                type="tel"
-                defaultValue={user?.phone || '+1 (555) 123-4567'}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    defaultValue={user?.phone || '+1 (555) 123-4567'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Tax Year</label>
-              <select
-                defaultValue="2024"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="2024">2024</option>
-                <option value="2023">2023</option>
-                <option value="2022">2022</option>
-              </select>
-            </div>
-          </div>
-
-          <div className="mt-6 pt-6 border-t">
-            <h4 className="font-medium mb-4">AI Usage Statistics</h4>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="text-center">
-                <p className="text-2xl font-bold text-blue-600">{stats.documents}</p>
-                <p className="text-sm text-gray-600">Documents Analyzed</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-green-600">${stats.potentialSavings.toLocaleString()}</p>
-                <p className="text-sm text-gray-600">Total Savings Found</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-purple-600">{stats.aiInsights}</p>
-                <p className="text-sm text-gray-600">AI Recommendations</p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Tax Year</label>
+                  <select
+                    defaultValue="2024"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="2024">2024</option>
+                    <option value="2023">2023</option>
+                    <option value="2022">2022</option>
+                  </select>
+                </div>
               </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-orange-600">{stats.accuracyScore}%</p>
-                <p className="text-sm text-gray-600">AI Accuracy Score</p>
-              </div>
-            </div>
-          </div>
-
-          {/* Canadian Tax Profile Section */}
-          <div className="mt-6 pt-6 border-t">
-            <h4 className="font-medium mb-4">🍁 Canadian Tax Profile</h4>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Province/Territory</label>
-                <select
-                  defaultValue="ontario"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="ontario">Ontario</option>
-                  <option value="quebec">Quebec</option>
-                  <option value="british_columbia">British Columbia</option>
-                  <option value="alberta">Alberta</option>
-                  <option value="manitoba">Manitoba</option>
-                  <option value="saskatchewan">Saskatchewan</option>
-                  <option value="nova_scotia">Nova Scotia</option>
-                  <option value="new_brunswick">New Brunswick</option>
-                  <option value="newfoundland">Newfoundland and Labrador</option>
-                  <option value="pei">Prince Edward Island</option>
-                  <option value="northwest_territories">Northwest Territories</option>
-                  <option value="nunavut">Nunavut</option>
-                  <option value="yukon">Yukon</option>
-                </select>
+
+              <div className="mt-6 pt-6 border-t">
+                <h4 className="font-medium mb-4">AI Usage Statistics</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="text-center">
+                    <p className="text-2xl font-bold text-blue-600">{stats.documents}</p>
+                    <p className="text-sm text-gray-600">Documents Analyzed</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-2xl font-bold text-green-600">${stats.potentialSavings.toLocaleString()}</p>
+                    <p className="text-sm text-gray-600">Total Savings Found</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-2xl font-bold text-purple-600">{stats.aiInsights}</p>
+                    <p className="text-sm text-gray-600">AI Recommendations</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-2xl font-bold text-orange-600">{stats.accuracyScore}%</p>
+                    <p className="text-sm text-gray-600">AI Accuracy Score</p>
+                  </div>
+                </div>
               </div>
+
+              {/* Canadian Tax Profile Section */}
+              <div className="mt-6 pt-6 border-t">
+                <h4 className="font-medium mb-4">🍁 Canadian Tax Profile</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Province/Territory</label>
+                    <select
+                      defaultValue="ontario"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="ontario">Ontario</option>
+                      <option value="quebec">Quebec</option>
+                      <option value="british_columbia">British Columbia</option>
+                      <option value="alberta">Alberta</option>
+                      <option value="manitoba">Manitoba</option>
+                      <option value="saskatchewan">Saskatchewan</option>
+                      <option value="nova_scotia">Nova Scotia</option>
+                      <option value="new_brunswick">New Brunswick</option>
+                      <option value="newfoundland">Newfoundland and Labrador</option>
+                      <option value="pei">Prince Edward Island</option>
+                      <option value="northwest_territories">Northwest Territories</option>
+                      <option value="nunavut">Nunavut</option>
+                      <option value="yukon">Yukon</option>
+                    </select>
+                  </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Primary Income Source</label>
-                <select
-                  defaultValue="employment"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="employment">Employment (T4)</option>
-                  <option value="self_employment">Self-Employment</option>
-                  <option value="investment">Investment Income</option>
-                  <option value="pension">Pension Income</option>
-                  <option value="rental">Rental Income</option>
-                  <option value="other">Other</option>
-                </select>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Primary Income Source</label>
+                    <select
+                      defaultValue="employment"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="employment">Employment (T4)</option>
+                      <option value="self_employment">Self-Employment</option>
+                      <option value="investment">Investment Income</option>
+                      <option value="pension">Pension Income</option>
+                      <option value="rental">Rental Income</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
+                </div>
               </div>
+
+              <button 
+                onClick={handleUpdateProfile}
+                className="mt-6 w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Update Profile
+              </button>
             </div>
-          </div>
-
-          <button 
-            onClick={handleUpdateProfile}
-            className="mt-6 w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            Update Profile
-          </button>
-        </div>
 
-        {/* AI Insights Summary */}
-        <div className="mt-6 bg-white rounded-lg shadow-md p-6">
-          <h3 className="text-lg font-semibold mb-4 flex items-center">
-            <Brain className="h-5 w-5 text-blue-600 mr-2" />
-            AI Tax Optimization Summary
-          </h3>
+            {user?.role === 'preparer'
+              ? <ClientRoster />
+              : <PreparerAccess emailVerified={Boolean(user?.emailVerified)} />}
+
+            {user && user.role !== 'preparer' && <PreparerApplication user={user} onUserUpdated={onUserUpdated} />}
+
+            <TwoFactorSettings requestStepUp={requestStepUp} />
+
+            <Sessions onSignedOutEverywhere={onSignedOutEverywhere} />
+
+            {/* AI Insights Summary */}
+            <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center">
+                <Brain className="h-5 w-5 text-blue-600 mr-2" />
+                AI Tax Optimization Summary
+              </h3>
           
-          <div className="space-y-4">
-            <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
-              <span className="font-medium">🍁 CRA Compliance Score:</span>
-              <span className="text-lg font-bold text-green-600">94%</span>
-            </div>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+                  <span className="font-medium">🍁 CRA Compliance Score:</span>
+                  <span className="text-lg font-bold text-green-600">94%</span>
+                </div>
             
-            <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
-              <span className="font-medium">💰 RRSP Optimization Potential:</span>
-              <span className="text-lg font-bold text-blue-600">$5,680</span>
-            </div>
+                <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+                  <span className="font-medium">💰 RRSP Optimization Potential:</span>
+                  <span className="text-lg font-bold text-blue-600">$5,680</span>
+                </div>
             
-            <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
-              <span className="font-medium">🏠 TFSA Room Available:</span>
-              <span className="text-lg font-bold text-purple-600">$7,000</span>
-            </div>
+                <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
+                  <span className="font-medium">🏠 TFSA Room Available:</span>
+                  <span className="text-lg font-bold text-purple-600">$7,000</span>
+                </div>
             
-            <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
-              <span className="font-medium">📊 Estimated Tax Savings:</span>
-              <span className="text-lg font-bold text-orange-600">${stats.potentialSavings.toLocaleString()}</span>
+                <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
+                  <span className="font-medium">📊 Estimated Tax Savings:</span>
+                  <span className="text-lg font-bold text-orange-600">${stats.potentialSavings.toLocaleString()}</span>
+                </div>
+              </div>
+
+              <div className="mt-4 p-4 bg-gradient-to-r from-yellow-50 to-orange-50 rounded-lg border border-yellow-200">
+                <h4 className="font-medium text-orange-800 mb-2">🎯 Next Steps for Tax Optimization</h4>
+                <ul className="text-sm text-orange-700 space-y-1">
+                  <li>• Complete RRSP contribution before deadline</li>
+                  <li>• Upload remaining T4/T5 slips for accuracy</li>
+                  <li>• Review home office expense eligibility</li>
+                  <li>• Consider tax-loss harvesting for investments</li>
+                </ul>
+              </div>
             </div>
-          </div>
-
-          <div className="mt-4 p-4 bg-gradient-to-r from-yellow-50 to-orange-50 rounded-lg border border-yellow-200">
-            <h4 className="font-medium text-orange-800 mb-2">🎯 Next Steps for Tax Optimization</h4>
-            <ul className="text-sm text-orange-700 space-y-1">
-              <li>• Complete RRSP contribution before deadline</li>
-              <li>• Upload remaining T4/T5 slips for accuracy</li>
-              <li>• Review home office expense eligibility</li>
-              <li>• Consider tax-loss harvesting for investments</li>
-            </ul>
-          </div>
-        </div>
+          </>
+        )}
       </div>
+
+      {pendingStepUp && (
+        <StepUpModal onConfirmed={handleStepUpConfirmed} onCancel={() => setPendingStepUp(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+// components/RRSPOptimizer.tsx - Tax saved at each RRSP contribution, from the full return recalculated
+import React, { useState } from 'react';
+import { PiggyBank, TrendingDown } from 'lucide-react';
+import { RRSPOptimizationResult, RRSPOptimizerProps } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 64 };
+
+const formatPercent = (rate: number | null): string => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+const RRSPOptimizer: React.FC<RRSPOptimizerProps> = ({ income, deductions, province, taxYear, household, credits }) => {
+  const [rrspRoom, setRrspRoom] = useState<string>('');
+  const [futureIncome, setFutureIncome] = useState<string>('');
+  const [deferralYears, setDeferralYears] = useState<string>('1');
+  const [discountRate, setDiscountRate] = useState<string>('3');
+  const [result, setResult] = useState<RRSPOptimizationResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const optimize = async (): Promise<void> => {
+    if (!income || parseFloat(income) <= 0) {
+      alert('Please enter an income amount first');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await apiRequest<RRSPOptimizationResult>('/tax/rrsp-optimizer', {
+        method: 'POST',
+        body: JSON.stringify({
+          income: parseFloat(income),
+          deductions: parseFloat(deductions) || 0,
+          province,
+          ...household,
+          taxYear,
+          credits,
+          rrspRoom,
+          futureIncome,
+          deferralYears: futureIncome ? deferralYears : '',
+          discountRate: futureIncome ? String((parseFloat(discountRate) || 0) / 100) : ''
+        })
+      });
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        alert('Error optimizing RRSP contribution: ' + data.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const renderChart = (optimization: RRSPOptimizationResult) => {
+    const { points, dropOff } = optimization;
+    const maxContribution = Math.max(1, points[points.length - 1].contribution);
+    const maxSavings = Math.max(1, ...points.map(point => point.taxSavings));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (contribution: number) => CHART_PADDING.left + (contribution / maxContribution) * plotWidth;
+    const y = (savings: number) => CHART_PADDING.top + plotHeight - (Math.max(0, savings) / maxSavings) * plotHeight;
+    const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.contribution)},${y(point.taxSavings)}`).join(' ');
+
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Tax saved by RRSP contribution">
+        <line x1={CHART_PADDING.left} y1={y(0)} x2={CHART_WIDTH - CHART_PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={y(0)} stroke="#d1d5db" />
+        <text x={CHART_PADDING.left - 8} y={CHART_PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-xs">
+          ${Math.round(maxSavings).toLocaleString()}
+        </text>
+        <text x={CHART_PADDING.left - 8} y={y(0)} textAnchor="end" className="fill-gray-500 text-xs">$0</text>
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} className="fill-gray-500 text-xs">$0</text>
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-xs">
+          ${maxContribution.toLocaleString()} contributed
+        </text>
+        {dropOff && (
+          <g>
+            <line
+              x1={x(dropOff.contribution)}
+              y1={CHART_PADDING.top}
+              x2={x(dropOff.contribution)}
+              y2={y(0)}
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+            />
+            <text x={x(dropOff.contribution) + 4} y={CHART_PADDING.top + 12} className="fill-yellow-600 text-xs">
+              Drop-off ${dropOff.contribution.toLocaleString()}
+            </text>
+          </g>
+        )}
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth={2} />
+        {points.map(point => (
+          <circle key={point.contribution} cx={x(point.contribution)} cy={y(point.taxSavings)} r={3} fill="#2563eb">
+            <title>
+              ${point.contribution.toLocaleString()} contributed: ${point.taxSavings.toLocaleString()} saved, refund ${point.refund.toLocaleString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <PiggyBank className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">RRSP Contribution Optimizer</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Recalculates your whole return at contributions up to your deduction room, so bracket boundaries,
+        credits and clawbacks are all reflected in the tax saved. Uses the income, deductions, household and
+        credits entered above.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">RRSP Deduction Room</label>
+          <input
+            type="number"
+            value={rrspRoom}
+            onChange={(e) => setRrspRoom(e.target.value)}
+            className={inputClass}
+            placeholder="From your NOA"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Expected Future Income</label>
+          <input
+            type="number"
+            value={futureIncome}
+            onChange={(e) => setFutureIncome(e.target.value)}
+            className={inputClass}
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Years Until Then</label>
+          <input
+            type="number"
+            min="1"
+            max="40"
+            value={deferralYears}
+            onChange={(e) => setDeferralYears(e.target.value)}
+            className={inputClass}
+            disabled={!futureIncome}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Discount Rate (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="20"
+            step="0.5"
+            value={discountRate}
+            onChange={(e) => setDiscountRate(e.target.value)}
+            className={inputClass}
+            disabled={!futureIncome}
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={optimize}
+        disabled={isLoading || !income}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mb-6"
+      >
+        {isLoading ? 'Optimizing...' : 'Optimize Contribution'}
+      </button>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <div className="text-sm text-blue-700">Deduction Room</div>
+              <div className="text-2xl font-bold text-blue-900">${result.room.toLocaleString()}</div>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <div className="text-sm text-green-700">Tax Saved Using All Room</div>
+              <div className="text-2xl font-bold text-green-900">${result.maximumSavings.toLocaleString()}</div>
+            </div>
+            <div className="p-4 bg-yellow-50 rounded-lg">
+              <div className="text-sm text-yellow-700">Marginal Benefit Drops After</div>
+              <div className="text-2xl font-bold text-yellow-900">
+                {result.dropOff ? `$${result.dropOff.contribution.toLocaleString()}` : 'No drop-off'}
+              </div>
+            </div>
+          </div>
+
+          {result.points.length > 1 && renderChart(result)}
+
+          <div className="space-y-2">
+            {result.recommendations.map((recommendation, index) => (
+              <div key={index} className="flex items-start space-x-2 text-sm text-gray-700">
+                <TrendingDown className="w-4 h-4 text-blue-600 mt-0.5" />
+                <span>{recommendation}</span>
+              </div>
+            ))}
+          </div>
+
+          {result.deferral && (
+            <div className={`p-4 rounded-lg ${result.deferral.recommendation === 'defer' ? 'bg-green-50 border border-green-200' : 'bg-gray-50'}`}>
+              <div className="font-semibold text-gray-900 mb-2">
+                Deferring ${result.deferral.amount.toLocaleString()} of the deduction to {result.deferral.futureTaxYear}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                <div>Saved if deducted now: <span className="font-mono">${result.deferral.savingsNow.toLocaleString()}</span></div>
+                <div>Saved in {result.deferral.futureTaxYear}: <span className="font-mono">${result.deferral.futureSavings.toLocaleString()}</span></div>
+                <div>Worth today: <span className="font-mono">${result.deferral.presentValue.toLocaleString()}</span></div>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-700">
+                  <th className="py-2 pr-4">Contribution</th>
+                  <th className="py-2 pr-4">Taxable Income</th>
+                  <th className="py-2 pr-4">Total Tax</th>
+                  <th className="py-2 pr-4">Tax Saved</th>
+                  <th className="py-2 pr-4">Refund / Owing</th>
+                  <th className="py-2 pr-4">Rate on Last Step</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.points.map(point => (
+                  <tr
+                    key={point.contribution}
+                    className={`border-b ${result.dropOff && point.contribution === result.dropOff.contribution ? 'bg-yellow-50' : ''}`}
+                  >
+                    <td className="py-2 pr-4 font-mono">${point.contribution.toLocaleString()}</td>
+                    <td className="py-2 pr-4 font-mono">${point.taxableIncome.toLocaleString()}</td>
+                    <td className="py-2 pr-4 font-mono">${point.tax.toLocaleString()}</td>
+                    <td className="py-2 pr-4 font-mono text-green-700">${point.taxSavings.toLocaleString()}</td>
+                    <td className="py-2 pr-4 font-mono">
+                      {point.balanceOwing > 0
+                        ? <span className="text-red-600">-${point.balanceOwing.toLocaleString()}</span>
+                        : `$${point.refund.toLocaleString()}`}
+                    </td>
+                    <td className="py-2 pr-4">{formatPercent(point.marginalRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RRSPOptimizer;
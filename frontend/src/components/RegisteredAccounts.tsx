@@ -0,0 +1,378 @@
+// components/RegisteredAccounts.tsx - RRSP, TFSA and FHSA contribution room with over-contribution penalties
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, AlertTriangle } from 'lucide-react';
+import {
+  RegisteredAccountTransaction,
+  RegisteredAccountsLedger,
+  RegisteredAccountsProps,
+  RRSPIncomeYear
+} from '../types';
+import { apiRequest } from '../utils/auth';
+import {
+  ACCOUNT_TYPES,
+  REGISTERED_TRANSACTION_TYPES,
+  createIncomeYear,
+  createRegisteredAccounts,
+  createRegisteredTransaction
+} from '../utils/registeredAccounts';
+import { SUPPORTED_TAX_YEARS } from '../utils/taxRules';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Saved ledgers come back with server ids and timestamps
+const toRegisteredAccounts = (ledger: Partial<RegisteredAccountsLedger>): RegisteredAccountsLedger => {
+  const empty = createRegisteredAccounts();
+  return {
+    rrsp: { ...empty.rrsp, ...ledger.rrsp, incomeHistory: ledger.rrsp?.incomeHistory || [] },
+    tfsa: { ...empty.tfsa, ...ledger.tfsa },
+    fhsa: { ...empty.fhsa, ...ledger.fhsa },
+    transactions: (ledger.transactions || []).map(transaction => ({
+      ...createRegisteredTransaction(transaction.account),
+      ...transaction
+    }))
+  };
+};
+
+const SummaryRow: React.FC<{ label: string; amount: number | null; highlight?: boolean }> = ({ label, amount, highlight }) => (
+  <div className={`flex justify-between ${highlight ? 'font-medium text-gray-800' : ''}`}>
+    <span>{label}</span>
+    <span className="font-mono">{amount === null ? 'n/a' : `$${formatAmount(amount)}`}</span>
+  </div>
+);
+
+const RegisteredAccounts: React.FC<RegisteredAccountsProps> = ({ registeredAccounts, onChange, taxYear, accounts, setError }) => {
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  const { rrsp, tfsa, fhsa, transactions } = registeredAccounts;
+  const incomeYears = SUPPORTED_TAX_YEARS.filter(year => rrsp.noaYear && year >= rrsp.noaYear && year < taxYear);
+
+  const updateTransaction = (index: number, changes: Partial<RegisteredAccountTransaction>) => {
+    onChange({
+      ...registeredAccounts,
+      transactions: transactions.map((transaction, i) => (i === index ? { ...transaction, ...changes } : transaction))
+    });
+  };
+
+  // Earned income and pension adjustments for the years between the Notice of Assessment and this return
+  const updateIncomeYear = (year: string, changes: Partial<RRSPIncomeYear>) => {
+    const existing = rrsp.incomeHistory.find(entry => entry.taxYear === year) || createIncomeYear(year);
+    onChange({
+      ...registeredAccounts,
+      rrsp: {
+        ...rrsp,
+        incomeHistory: [...rrsp.incomeHistory.filter(entry => entry.taxYear !== year), { ...existing, ...changes }]
+          .sort((a, b) => a.taxYear.localeCompare(b.taxYear))
+      }
+    });
+  };
+
+  const requestLedger = async <T,>(init: RequestInit = {}): Promise<T | null> => {
+    setIsSyncing(true);
+    setError('');
+    setStatus('');
+    const result = await apiRequest<T>(`/registered-accounts?taxYear=${taxYear}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setError(result.message || 'Registered accounts request failed');
+      return null;
+    }
+    return result.data;
+  };
+
+  const saveLedger = async () => {
+    const saved = await requestLedger<RegisteredAccountsLedger>({ method: 'PUT', body: JSON.stringify({ ...registeredAccounts, taxYear }) });
+    if (saved) {
+      onChange(toRegisteredAccounts(saved));
+      setStatus('Saved registered accounts');
+    }
+  };
+
+  const loadLedger = async () => {
+    const saved = await requestLedger<RegisteredAccountsLedger>();
+    if (saved) {
+      onChange(toRegisteredAccounts(saved));
+      setStatus(`Loaded ${saved.transactions.length} contribution(s) and withdrawal(s)`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Registered Accounts - RRSP, TFSA and FHSA Room</label>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            type="button"
+            onClick={loadLedger}
+            disabled={isSyncing}
+            className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Load saved
+          </button>
+          <button
+            type="button"
+            onClick={saveLedger}
+            disabled={isSyncing}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save accounts</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({ ...registeredAccounts, transactions: [...transactions, createRegisteredTransaction()] })}
+            className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add contribution</span>
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-green-700">{status}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <p className="text-xs font-semibold text-gray-700">RRSP (Notice of Assessment)</p>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Deduction limit for year</label>
+            <select
+              value={rrsp.noaYear}
+              onChange={(e) => onChange({ ...registeredAccounts, rrsp: { ...rrsp, noaYear: e.target.value } })}
+              className={inputClass}
+            >
+              <option value="">Not tracked</option>
+              {SUPPORTED_TAX_YEARS.filter(year => year <= taxYear).map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">RRSP deduction limit</label>
+            <input
+              type="number"
+              value={rrsp.deductionLimit}
+              onChange={(e) => onChange({ ...registeredAccounts, rrsp: { ...rrsp, deductionLimit: e.target.value } })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Unused RRSP contributions</label>
+            <input
+              type="number"
+              value={rrsp.unusedContributions}
+              onChange={(e) => onChange({ ...registeredAccounts, rrsp: { ...rrsp, unusedContributions: e.target.value } })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+        </div>
+
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <p className="text-xs font-semibold text-gray-700">TFSA (CRA My Account)</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Room on Jan 1 of</label>
+              <input
+                type="number"
+                value={tfsa.roomYear}
+                onChange={(e) => onChange({ ...registeredAccounts, tfsa: { ...tfsa, roomYear: e.target.value } })}
+                className={inputClass}
+                placeholder={taxYear}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Room</label>
+              <input
+                type="number"
+                value={tfsa.room}
+                onChange={(e) => onChange({ ...registeredAccounts, tfsa: { ...tfsa, room: e.target.value } })}
+                className={inputClass}
+                placeholder="0"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Or: year you turned 18 and were resident</label>
+            <input
+              type="number"
+              value={tfsa.eligibleSince}
+              onChange={(e) => onChange({ ...registeredAccounts, tfsa: { ...tfsa, eligibleSince: e.target.value } })}
+              className={inputClass}
+              placeholder="2009"
+              disabled={Boolean(tfsa.roomYear && tfsa.room)}
+            />
+          </div>
+        </div>
+
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <p className="text-xs font-semibold text-gray-700">FHSA</p>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Year opened</label>
+            <input
+              type="number"
+              value={fhsa.openedYear}
+              onChange={(e) => onChange({ ...registeredAccounts, fhsa: { ...fhsa, openedYear: e.target.value } })}
+              className={inputClass}
+              placeholder="2023"
+            />
+          </div>
+        </div>
+      </div>
+
+      {incomeYears.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-600">
+            Earned income and pension adjustments (T4 box 52) after your Notice of Assessment set each following year's RRSP room.
+          </p>
+          {incomeYears.map(year => {
+            const entry = rrsp.incomeHistory.find(history => history.taxYear === year) || createIncomeYear(year);
+            return (
+              <div key={year} className="grid grid-cols-3 gap-2 items-end">
+                <span className="text-xs text-gray-700 pb-1">{year}</span>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Earned income</label>
+                  <input
+                    type="number"
+                    value={entry.earnedIncome}
+                    onChange={(e) => updateIncomeYear(year, { earnedIncome: e.target.value })}
+                    className={inputClass}
+                    placeholder="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Pension adjustment</label>
+                  <input
+                    type="number"
+                    value={entry.pensionAdjustment}
+                    onChange={(e) => updateIncomeYear(year, { pensionAdjustment: e.target.value })}
+                    className={inputClass}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {transactions.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No contributions. Record dated contributions and withdrawals; RRSP contributions in the first 60 days of {Number(taxYear) + 1} count for {taxYear}.
+        </p>
+      )}
+
+      {transactions.map((transaction, index) => (
+        <div key={transaction.id || index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Account</label>
+            <select
+              value={transaction.account}
+              onChange={(e) => updateTransaction(index, { account: e.target.value as RegisteredAccountTransaction['account'] })}
+              className={inputClass}
+            >
+              {ACCOUNT_TYPES.map(account => (
+                <option key={account.value} value={account.value}>{account.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Type</label>
+            <select
+              value={transaction.type}
+              onChange={(e) => updateTransaction(index, { type: e.target.value as RegisteredAccountTransaction['type'] })}
+              className={inputClass}
+            >
+              {REGISTERED_TRANSACTION_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Date</label>
+            <input
+              type="date"
+              value={transaction.date}
+              onChange={(e) => updateTransaction(index, { date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Amount</label>
+            <input
+              type="number"
+              value={transaction.amount}
+              onChange={(e) => updateTransaction(index, { amount: e.target.value })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+          <div className="flex justify-end pb-1">
+            <button
+              type="button"
+              onClick={() => onChange({ ...registeredAccounts, transactions: transactions.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove contribution"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {accounts && (accounts.rrsp || accounts.tfsa || accounts.fhsa) && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs text-gray-600">
+          {accounts.rrsp && (
+            <div className="bg-gray-50 rounded-md p-3 space-y-1">
+              <p className="font-semibold text-gray-700">
+                RRSP {taxYear} ({accounts.rrsp.contributionPeriod.start} to {accounts.rrsp.contributionPeriod.end})
+              </p>
+              <SummaryRow label="Deduction limit" amount={accounts.rrsp.deductionLimit} />
+              <SummaryRow label="Unused contributions brought forward" amount={accounts.rrsp.unusedContributions} />
+              <SummaryRow label="Contributions" amount={accounts.rrsp.contributions} />
+              {accounts.rrsp.first60DayContributions > 0 && (
+                <SummaryRow label={`Of which first 60 days of ${Number(taxYear) + 1}`} amount={accounts.rrsp.first60DayContributions} />
+              )}
+              <SummaryRow label="RRSP deduction (line 20800)" amount={accounts.rrsp.deduction} highlight />
+              <SummaryRow label="Unused contributions carried forward" amount={accounts.rrsp.unusedContributionsCarriedForward} />
+              <SummaryRow label={`${Number(taxYear) + 1} deduction limit`} amount={accounts.rrsp.nextYearDeductionLimit} />
+            </div>
+          )}
+          {accounts.tfsa && (
+            <div className="bg-gray-50 rounded-md p-3 space-y-1">
+              <p className="font-semibold text-gray-700">TFSA {taxYear}</p>
+              <SummaryRow label="Room on January 1" amount={accounts.tfsa.roomAtStart} />
+              <SummaryRow label="Contributions" amount={accounts.tfsa.contributions} />
+              <SummaryRow label="Withdrawals" amount={accounts.tfsa.withdrawals} />
+              <SummaryRow label="Room left" amount={accounts.tfsa.availableRoom} highlight />
+              <SummaryRow label="Added back next January 1" amount={accounts.tfsa.recontributionRoom} />
+              <SummaryRow label={`Room on January 1, ${Number(taxYear) + 1}`} amount={accounts.tfsa.nextYearRoom} />
+            </div>
+          )}
+          {accounts.fhsa && (
+            <div className="bg-gray-50 rounded-md p-3 space-y-1">
+              <p className="font-semibold text-gray-700">FHSA {taxYear}</p>
+              <SummaryRow label="Participation room" amount={accounts.fhsa.participationRoom} />
+              <SummaryRow label="Contributions" amount={accounts.fhsa.contributions} />
+              <SummaryRow label="Room left" amount={accounts.fhsa.availableRoom} highlight />
+              <SummaryRow label="Lifetime contributions" amount={accounts.fhsa.lifetimeContributions} />
+              <SummaryRow label={`${Number(taxYear) + 1} participation room`} amount={accounts.fhsa.nextYearRoom} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {accounts && accounts.warnings.map(warning => (
+        <div key={warning} className="flex items-start space-x-2 text-xs text-red-700 bg-red-50 rounded-md p-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RegisteredAccounts;
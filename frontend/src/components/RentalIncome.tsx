@@ -0,0 +1,343 @@
+// components/RentalIncome.tsx - T776 rental properties with CCA, saved per tax year with UCC carried forward
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, History } from 'lucide-react';
+import { RentalAsset, RentalIncomeProps, RentalProperty } from '../types';
+import { apiRequest } from '../utils/auth';
+import { T2125 } from '../utils/businessIncome';
+import { RENTAL_EXPENSE_KEYS, T776, createRentalProperty } from '../utils/rentalIncome';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const AmountInput: React.FC<{ label: string; value: string | undefined; onChange: (value: string) => void; placeholder?: string }> = ({
+  label,
+  value,
+  onChange,
+  placeholder = '0'
+}) => (
+  <div>
+    <label className="block text-xs text-gray-600 mb-1" title={label}>{label}</label>
+    <input
+      type="number"
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+      placeholder={placeholder}
+    />
+  </div>
+);
+
+// Saved schedules come back as stored; fill in any fields the form expects
+const toRentalProperty = (property: Partial<RentalProperty>): RentalProperty => ({
+  ...createRentalProperty(),
+  ...property,
+  expenses: property.expenses || {},
+  assets: (property.assets || []).map(asset => ({
+    ...asset,
+    description: asset.description || '',
+    openingUcc: asset.openingUcc || '',
+    additions: asset.additions || '',
+    dispositions: asset.dispositions || '',
+    ccaClaim: asset.ccaClaim || ''
+  }))
+});
+
+const RentalIncome: React.FC<RentalIncomeProps> = ({ rentals, schedule, onChange, taxYear, setError }) => {
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  const updateProperty = (index: number, changes: Partial<RentalProperty>) => {
+    onChange(rentals.map((property, i) => (i === index ? { ...property, ...changes } : property)));
+  };
+
+  const updateAsset = (index: number, assetIndex: number, changes: Partial<RentalAsset>) => {
+    updateProperty(index, {
+      assets: rentals[index].assets.map((asset, i) => (i === assetIndex ? { ...asset, ...changes } : asset))
+    });
+  };
+
+  const addAsset = (index: number) => {
+    updateProperty(index, {
+      assets: [
+        ...rentals[index].assets,
+        { ccaClass: T776.ccaClasses[0], description: '', openingUcc: '', additions: '', dispositions: '', ccaClaim: '' }
+      ]
+    });
+  };
+
+  const removeAsset = (index: number, assetIndex: number) => {
+    updateProperty(index, { assets: rentals[index].assets.filter((_, i) => i !== assetIndex) });
+  };
+
+  const requestSchedule = async <T,>(path: string, init: RequestInit = {}): Promise<T | null> => {
+    setIsSyncing(true);
+    setError('');
+    setStatus('');
+    const result = await apiRequest<T>(`/tax-forms/rentals/${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setError(result.message || 'Rental schedule request failed');
+      return null;
+    }
+    return result.data;
+  };
+
+  const saveSchedule = async () => {
+    const saved = await requestSchedule<{ properties: RentalProperty[] }>(taxYear, { method: 'PUT', body: JSON.stringify({ properties: rentals }) });
+    if (saved) {
+      onChange(saved.properties.map(toRentalProperty));
+      setStatus(`Saved ${taxYear} rental schedule`);
+    }
+  };
+
+  const loadSchedule = async () => {
+    const saved = await requestSchedule<{ properties: RentalProperty[] }>(taxYear);
+    if (saved) {
+      onChange(saved.properties.map(toRentalProperty));
+      setStatus(`Loaded ${taxYear} rental schedule`);
+    }
+  };
+
+  const carryForward = async () => {
+    const carried = await requestSchedule<{ carriedForwardFrom: string; properties: RentalProperty[] }>(`${taxYear}/carryforward`);
+    if (carried) {
+      onChange(carried.properties.map(toRentalProperty));
+      setStatus(`Started from ${carried.carriedForwardFrom} closing UCC`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Rental Properties (T776)</label>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            type="button"
+            onClick={carryForward}
+            disabled={isSyncing}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <History className="h-4 w-4" />
+            <span>Carry forward {Number(taxYear) - 1}</span>
+          </button>
+          <button
+            type="button"
+            onClick={loadSchedule}
+            disabled={isSyncing}
+            className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Load saved
+          </button>
+          <button
+            type="button"
+            onClick={saveSchedule}
+            disabled={isSyncing}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save schedule</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([...rentals, createRentalProperty()])}
+            className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add property</span>
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-green-700">{status}</p>}
+
+      {rentals.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No rental properties. Add each property you rent out, or carry forward last year's schedule to continue its UCC.
+        </p>
+      )}
+
+      {rentals.map((property, index) => {
+        // A property added since the last calculation has no result yet
+        const result = schedule && schedule.properties[index];
+
+        return (
+          <div key={index} className="border border-gray-200 rounded-md p-3 space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={property.address}
+                onChange={(e) => updateProperty(index, { address: e.target.value })}
+                className={inputClass}
+                placeholder="Property address"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(rentals.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700"
+                aria-label="Remove property"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <AmountInput
+                label={`${T776.income.grossRents.line} · ${T776.income.grossRents.label}`}
+                value={property.grossRents}
+                onChange={(grossRents) => updateProperty(index, { grossRents })}
+              />
+              <AmountInput
+                label={`${T776.income.otherIncome.line} · ${T776.income.otherIncome.label}`}
+                value={property.otherIncome}
+                onChange={(otherIncome) => updateProperty(index, { otherIncome })}
+              />
+              <AmountInput
+                label="Your ownership %"
+                value={property.ownershipPercent}
+                onChange={(ownershipPercent) => updateProperty(index, { ownershipPercent })}
+                placeholder="100"
+              />
+              <AmountInput
+                label="Personal use % of expenses"
+                value={property.personalUsePercent}
+                onChange={(personalUsePercent) => updateProperty(index, { personalUsePercent })}
+              />
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-1">Expenses (whole property)</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {RENTAL_EXPENSE_KEYS.map(key => (
+                  <AmountInput
+                    key={key}
+                    label={`${T776.expenses[key].line} · ${T776.expenses[key].label}`}
+                    value={property.expenses[key]}
+                    onChange={(value) => updateProperty(index, { expenses: { ...property.expenses, [key]: value } })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-semibold text-gray-700">Capital cost allowance (your share)</p>
+                <button
+                  type="button"
+                  onClick={() => addAsset(index)}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="h-3 w-3" />
+                  <span>Add asset</span>
+                </button>
+              </div>
+              {property.assets.map((asset, assetIndex) => (
+                <div key={assetIndex} className="grid grid-cols-2 md:grid-cols-7 gap-2 mb-2 items-end">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Class</label>
+                    <select
+                      value={asset.ccaClass}
+                      onChange={(e) => updateAsset(index, assetIndex, { ccaClass: e.target.value as RentalAsset['ccaClass'] })}
+                      className={inputClass}
+                      title={T2125.ccaClasses[asset.ccaClass].label}
+                    >
+                      {T776.ccaClasses.map(ccaClass => (
+                        <option key={ccaClass} value={ccaClass}>
+                          {ccaClass} ({T2125.ccaClasses[ccaClass].rate * 100}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Description</label>
+                    <input
+                      type="text"
+                      value={asset.description}
+                      onChange={(e) => updateAsset(index, assetIndex, { description: e.target.value })}
+                      className={inputClass}
+                      placeholder={T2125.ccaClasses[asset.ccaClass].label}
+                    />
+                  </div>
+                  <AmountInput
+                    label="Opening UCC"
+                    value={asset.openingUcc}
+                    onChange={(openingUcc) => updateAsset(index, assetIndex, { openingUcc })}
+                    placeholder="From last year"
+                  />
+                  <AmountInput
+                    label="Additions"
+                    value={asset.additions}
+                    onChange={(additions) => updateAsset(index, assetIndex, { additions })}
+                  />
+                  <AmountInput
+                    label="Dispositions"
+                    value={asset.dispositions}
+                    onChange={(dispositions) => updateAsset(index, assetIndex, { dispositions })}
+                  />
+                  <AmountInput
+                    label="CCA to claim"
+                    value={asset.ccaClaim}
+                    onChange={(ccaClaim) => updateAsset(index, assetIndex, { ccaClaim })}
+                    placeholder="Maximum"
+                  />
+                  <div className="flex items-center justify-between text-xs text-gray-600 pb-1">
+                    <span title="CCA claimed / closing UCC">
+                      {result && result.assets[assetIndex]
+                        ? `$${Math.round(result.assets[assetIndex].claim).toLocaleString()} / $${Math.round(result.assets[assetIndex].closingUcc).toLocaleString()}`
+                        : '—'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeAsset(index, assetIndex)}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label="Remove asset"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {result && (
+              <div className="text-xs text-gray-600 border-t border-gray-100 pt-2">
+                <div className="flex justify-between">
+                  <span>Net income before CCA{result.ownershipRate < 1 ? ` (your ${Math.round(result.ownershipRate * 100)}% share)` : ''}</span>
+                  <span className="font-mono">${formatAmount(result.shareOfNetIncome)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>CCA claimed</span>
+                  <span className="font-mono">${formatAmount(result.cca)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {schedule && rentals.length > 0 && (
+        <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-3">
+          {schedule.recapture > 0 && (
+            <div className="flex justify-between">
+              <span>Recaptured CCA</span>
+              <span className="font-mono">${formatAmount(schedule.recapture)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>CCA claimed of ${formatAmount(schedule.maximumCca)} available</span>
+            <span className="font-mono">${formatAmount(schedule.cca)}</span>
+          </div>
+          {schedule.ccaRestricted && (
+            <p className="text-amber-700">CCA is limited to rental income before CCA; the unclaimed balance stays in UCC for next year.</p>
+          )}
+          <div className="flex justify-between font-medium text-gray-800">
+            <span>Net rental income (line 12600)</span>
+            <span className="font-mono">${formatAmount(schedule.netIncome)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RentalIncome;
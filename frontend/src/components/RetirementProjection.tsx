@@ -0,0 +1,265 @@
+// components/RetirementProjection.tsx - Multi-year tax projection with RRIF drawdown, CPP/OAS and OAS clawback
+import React, { useState } from 'react';
+import { LineChart, AlertTriangle } from 'lucide-react';
+import { DrawdownOrder, RetirementProjectionProps, RetirementProjectionResult } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+
+interface ProjectionInputs {
+  currentAge: string;
+  retirementAge: string;
+  endAge: string;
+  incomeGrowth: string;
+  inflation: string;
+  expectedReturn: string;
+  rrspBalance: string;
+  tfsaBalance: string;
+  rrspContribution: string;
+  tfsaContribution: string;
+  retirementSpending: string;
+  cppStartAge: string;
+  oasStartAge: string;
+  cppAt65: string;
+  oasAt65: string;
+  drawdownOrder: DrawdownOrder;
+}
+
+// Rates are entered as percentages and sent as decimals
+const PERCENT_FIELDS: Array<keyof ProjectionInputs> = ['incomeGrowth', 'inflation', 'expectedReturn'];
+
+const INPUT_FIELDS: Array<{ key: keyof ProjectionInputs; label: string; placeholder?: string }> = [
+  { key: 'currentAge', label: 'Current Age' },
+  { key: 'retirementAge', label: 'Retirement Age' },
+  { key: 'endAge', label: 'Plan To Age' },
+  { key: 'incomeGrowth', label: 'Income Growth (%)' },
+  { key: 'inflation', label: 'Inflation (%)' },
+  { key: 'expectedReturn', label: 'Expected Return (%)' },
+  { key: 'rrspBalance', label: 'RRSP Balance' },
+  { key: 'tfsaBalance', label: 'TFSA Balance' },
+  { key: 'rrspContribution', label: 'Annual RRSP Contribution' },
+  { key: 'tfsaContribution', label: 'Annual TFSA Contribution' },
+  { key: 'retirementSpending', label: 'Retirement Spending (after tax, today\'s $)' },
+  { key: 'cppStartAge', label: 'CPP Start Age (60-70)' },
+  { key: 'oasStartAge', label: 'OAS Start Age (65-70)' },
+  { key: 'cppAt65', label: 'CPP at 65 (annual, today\'s $)', placeholder: 'Maximum' },
+  { key: 'oasAt65', label: 'OAS at 65 (annual, today\'s $)', placeholder: 'Maximum' }
+];
+
+const formatCurrency = (amount: number): string => `$${Math.round(amount).toLocaleString()}`;
+
+const RetirementProjection: React.FC<RetirementProjectionProps> = ({ income, province, taxYear }) => {
+  const [inputs, setInputs] = useState<ProjectionInputs>({
+    currentAge: '45',
+    retirementAge: '65',
+    endAge: '95',
+    incomeGrowth: '2',
+    inflation: '2',
+    expectedReturn: '5',
+    rrspBalance: '',
+    tfsaBalance: '',
+    rrspContribution: '',
+    tfsaContribution: '',
+    retirementSpending: '',
+    cppStartAge: '65',
+    oasStartAge: '65',
+    cppAt65: '',
+    oasAt65: '',
+    drawdownOrder: 'rrspFirst'
+  });
+  const [result, setResult] = useState<RetirementProjectionResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const project = async (): Promise<void> => {
+    setIsLoading(true);
+    try {
+      const payload: Record<string, string> = { ...inputs };
+      PERCENT_FIELDS.forEach(key => {
+        payload[key] = inputs[key] === '' ? '' : String((parseFloat(inputs[key]) || 0) / 100);
+      });
+
+      const data = await apiRequest<RetirementProjectionResult>('/tax/projection', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...payload,
+          employmentIncome: income,
+          province,
+          taxYear
+        })
+      });
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        alert('Error projecting taxes: ' + data.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  // Year-end RRSP/RRIF and TFSA balances by age
+  const renderChart = (projection: RetirementProjectionResult) => {
+    const { years } = projection;
+    const maxBalance = Math.max(1, ...years.map(year => Math.max(year.rrspBalance, year.tfsaBalance)));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (index: number) => CHART_PADDING.left + (years.length > 1 ? index / (years.length - 1) : 0) * plotWidth;
+    const y = (balance: number) => CHART_PADDING.top + plotHeight - (balance / maxBalance) * plotHeight;
+    const line = (key: 'rrspBalance' | 'tfsaBalance') =>
+      years.map((year, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(year[key])}`).join(' ');
+
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Projected account balances">
+        <line x1={CHART_PADDING.left} y1={y(0)} x2={CHART_WIDTH - CHART_PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={y(0)} stroke="#d1d5db" />
+        <text x={CHART_PADDING.left - 8} y={CHART_PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-xs">
+          {formatCurrency(maxBalance)}
+        </text>
+        <text x={CHART_PADDING.left - 8} y={y(0)} textAnchor="end" className="fill-gray-500 text-xs">$0</text>
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} className="fill-gray-500 text-xs">Age {years[0].age}</text>
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-xs">
+          Age {years[years.length - 1].age}
+        </text>
+        <path d={line('rrspBalance')} fill="none" stroke="#2563eb" strokeWidth={2} />
+        <path d={line('tfsaBalance')} fill="none" stroke="#16a34a" strokeWidth={2} />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <LineChart className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Retirement Projection</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Projects your return year by year with brackets indexed to inflation: RRSP and TFSA growth, conversion
+        to a RRIF at 71 with minimum withdrawals, CPP and OAS from your chosen start ages and the OAS clawback.
+        Starts from the income, province and tax year entered above.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        {INPUT_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+            <input
+              type="number"
+              value={inputs[field.key]}
+              onChange={(e) => setInputs({ ...inputs, [field.key]: e.target.value })}
+              className={inputClass}
+              placeholder={field.placeholder || '0'}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Withdraw First From</label>
+          <select
+            value={inputs.drawdownOrder}
+            onChange={(e) => setInputs({ ...inputs, drawdownOrder: e.target.value as DrawdownOrder })}
+            className={inputClass}
+          >
+            <option value="rrspFirst">RRSP / RRIF</option>
+            <option value="tfsaFirst">TFSA</option>
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={project}
+        disabled={isLoading || !inputs.currentAge}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mb-6"
+      >
+        {isLoading ? 'Projecting...' : 'Project Years'}
+      </button>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <div className="text-sm text-blue-700">Lifetime Tax</div>
+              <div className="text-2xl font-bold text-blue-900">{formatCurrency(result.summary.totalTax)}</div>
+            </div>
+            <div className="p-4 bg-red-50 rounded-lg">
+              <div className="text-sm text-red-700">OAS Clawed Back</div>
+              <div className="text-2xl font-bold text-red-900">{formatCurrency(result.summary.totalOASRecovery)}</div>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <div className="text-sm text-green-700">Lifetime Spending</div>
+              <div className="text-2xl font-bold text-green-900">{formatCurrency(result.summary.totalSpending)}</div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-700">RRIF Conversion</div>
+              <div className="text-2xl font-bold text-gray-900">{result.assumptions.rrifConversionYear}</div>
+            </div>
+          </div>
+
+          {result.summary.depletionAge !== null && (
+            <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5" />
+              <span>Savings no longer cover your retirement spending from age {result.summary.depletionAge}.</span>
+            </div>
+          )}
+
+          {result.years.length > 1 && (
+            <div>
+              {renderChart(result)}
+              <div className="flex justify-center space-x-6 text-xs text-gray-600">
+                <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-600 mr-1" />RRSP / RRIF</span>
+                <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-green-600 mr-1" />TFSA</span>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-700">
+                  <th className="py-2 pr-3">Year</th>
+                  <th className="py-2 pr-3">Age</th>
+                  <th className="py-2 pr-3">Employment</th>
+                  <th className="py-2 pr-3">CPP + OAS</th>
+                  <th className="py-2 pr-3">RRSP/RRIF Out</th>
+                  <th className="py-2 pr-3">TFSA Out</th>
+                  <th className="py-2 pr-3">Tax</th>
+                  <th className="py-2 pr-3">OAS Clawback</th>
+                  <th className="py-2 pr-3">After-Tax Income</th>
+                  <th className="py-2 pr-3">Spending (today's $)</th>
+                  <th className="py-2 pr-3">RRSP/RRIF</th>
+                  <th className="py-2 pr-3">TFSA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.years.map(year => (
+                  <tr key={year.year} className={`border-b ${year.shortfall > 0 ? 'bg-yellow-50' : ''}`}>
+                    <td className="py-2 pr-3">{year.year}</td>
+                    <td className="py-2 pr-3">{year.age}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.employmentIncome)}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.cppIncome + year.oasIncome)}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.rrspWithdrawal + year.rrifWithdrawal)}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.tfsaWithdrawal)}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.tax)}</td>
+                    <td className="py-2 pr-3 font-mono text-red-600">
+                      {year.oasRecovery > 0 ? formatCurrency(year.oasRecovery) : '—'}
+                    </td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.afterTaxIncome)}</td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.spendingToday)}</td>
+                    <td className="py-2 pr-3 font-mono">
+                      {formatCurrency(year.rrspBalance)} <span className="text-xs text-gray-500">{year.rrspAccount}</span>
+                    </td>
+                    <td className="py-2 pr-3 font-mono">{formatCurrency(year.tfsaBalance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetirementProjection;
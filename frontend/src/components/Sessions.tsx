@@ -0,0 +1,118 @@
+// components/Sessions.tsx - Signed-in devices with per-session and "log out everywhere" sign-out
+import React, { useEffect, useState } from 'react';
+import { Monitor, LogOut, RefreshCw } from 'lucide-react';
+import { ApiResult, SessionInfo, SessionsProps } from '../types';
+import { apiRequest } from '../utils/auth';
+
+// A short device label from the browser's user agent
+const describeUserAgent = (userAgent: string) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = ['Edg', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(`${name}/`));
+  const platform = ['Windows', 'Mac OS X', 'Android', 'iPhone', 'iPad', 'Linux'].find(name => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser;
+  return [browserName, platform === 'Mac OS X' ? 'macOS' : platform].filter(Boolean).join(' on ') || userAgent.slice(0, 40);
+};
+
+const Sessions: React.FC<SessionsProps> = ({ onSignedOutEverywhere }) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const requestSessions = async <T,>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> => {
+    setIsSyncing(true);
+    setStatus('');
+    const result = await apiRequest<T>(`/auth/${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setStatus(result.message || 'Session request failed');
+    }
+    return result;
+  };
+
+  const loadSessions = async () => {
+    const result = await requestSessions<SessionInfo[]>('sessions');
+    if (result.success) {
+      setSessions(result.data);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const revokeSession = async (session: SessionInfo) => {
+    const result = await requestSessions(`sessions/${session.id}`, { method: 'DELETE' });
+    if (result.success) {
+      setSessions(sessions.filter(candidate => candidate.id !== session.id));
+      setStatus(result.message || '');
+    }
+  };
+
+  const logOutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    const result = await requestSessions('logout-all', { method: 'POST' });
+    if (result.success) {
+      onSignedOutEverywhere();
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Monitor className="h-5 w-5 text-blue-600 mr-2" />
+          Signed-in Devices
+        </h3>
+        <button
+          type="button"
+          onClick={loadSessions}
+          disabled={isSyncing}
+          className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {sessions.map(session => (
+          <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium text-gray-900">
+                {describeUserAgent(session.userAgent)}
+                {session.current && <span className="ml-2 text-xs text-green-600">This device</span>}
+              </p>
+              <p className="text-sm text-gray-500">
+                {session.ip} · Signed in {new Date(session.createdAt).toLocaleDateString('en-CA')} · Last active {new Date(session.lastUsedAt).toLocaleString('en-CA')}
+              </p>
+            </div>
+            {!session.current && (
+              <button
+                type="button"
+                onClick={() => revokeSession(session)}
+                disabled={isSyncing}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Sign out
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {status && <p className="mt-2 text-sm text-gray-600">{status}</p>}
+
+      <button
+        type="button"
+        onClick={logOutEverywhere}
+        disabled={isSyncing}
+        className="mt-4 w-full flex items-center justify-center border border-red-300 text-red-700 py-2 px-4 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Log out everywhere
+      </button>
+    </div>
+  );
+};
+
+export default Sessions;
@@ -0,0 +1,105 @@
+// components/StepUpModal.tsx - Password (and 2FA code) confirmation before sensitive operations
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, RefreshCw, AlertCircle, X } from 'lucide-react';
+import { StepUpModalProps, TwoFactorStatus } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const StepUpModal: React.FC<StepUpModalProps> = ({ onConfirmed, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchTwoFactorStatus = async () => {
+      const data = await apiRequest<TwoFactorStatus>('/auth/2fa');
+      if (data.success) {
+        setTwoFactorEnabled(data.data.enabled);
+      }
+    };
+    fetchTwoFactorStatus();
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsConfirming(true);
+    setError('');
+    const data = await apiRequest<{ expiresAt: string }>('/auth/step-up', {
+      method: 'POST',
+      body: JSON.stringify(twoFactorEnabled ? { password, code } : { password })
+    });
+    if (data.success) {
+      onConfirmed();
+      return;
+    }
+    if (data.twoFactorRequired) {
+      setTwoFactorEnabled(true);
+    }
+    setError(data.message || 'Could not confirm your identity');
+    setIsConfirming(false);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <ShieldCheck className="h-5 w-5 text-blue-600 mr-2" />
+            Confirm it's you
+          </h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Re-enter your password{twoFactorEnabled ? ' and an authentication code' : ''} to continue.
+        </p>
+
+        <form onSubmit={handleConfirm} className="space-y-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Password"
+            autoComplete="current-password"
+            required
+            disabled={isConfirming}
+          />
+          {twoFactorEnabled && (
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClass}
+              placeholder="Authenticator or backup code"
+              autoComplete="one-time-code"
+              required
+              disabled={isConfirming}
+            />
+          )}
+          <button
+            type="submit"
+            disabled={isConfirming}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center transition-colors"
+          >
+            {isConfirming && <RefreshCw className="animate-spin h-4 w-4 mr-2" />}
+            Confirm
+          </button>
+        </form>
+
+        {error && (
+          <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded flex items-start">
+            <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StepUpModal;
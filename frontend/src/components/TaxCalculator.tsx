@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Calculator, MapPin, TrendingUp, DollarSign} from 'lucide-react';
-import { TaxCalculatorProps } from '../types';
+import {
+  BracketBreakdown, Dependant, MaritalStatus, ProvincialBreakdown, TaxCalculatorProps, TaxCreditInputs, TaxCreditSummary, TaxResults
+} from '../types';
+import { DEFAULT_TAX_YEAR, SUPPORTED_TAX_YEARS } from '../utils/taxRules';
+import { apiRequest } from '../utils/auth';
+import HouseholdInputs from './HouseholdInputs';
+import HouseholdReturn from './HouseholdReturn';
+import RRSPOptimizer from './RRSPOptimizer';
+import METRCurve from './METRCurve';
+import PayrollSimulator from './PayrollSimulator';
+import RetirementProjection from './RetirementProjection';
 
 interface Province {
   code: string;
@@ -9,26 +19,14 @@ interface Province {
   salesTax: string;
 }
 
-interface TaxResult {
-  tax: number;
-  federalTax: number;
-  provincialTax: number;
-  cppContribution: number;
-  eiContribution: number;
-  refund: number;
-  effectiveRate: number;
-  taxableIncome: number;
-  basicPersonalAmount: number;
-  rrspRoom: number;
-  tfsaRoom: number;
-  marginalRate: number;
-  provinceName: string;
-  salesTax: string;
+interface TaxResult extends TaxResults {
   inputData: {
     income: number;
     deductions: number;
     province: string;
-    filingStatus: string;
+    maritalStatus: MaritalStatus;
+    taxYear: string;
+    credits: TaxCreditInputs;
   };
 }
 
@@ -41,7 +39,11 @@ interface ComparisonData {
     provincialTax: number;
     netIncome: number;
     marginalRate: number;
+    provincialMarginalRate: number;
     basicPersonal: number;
+    surtax: number;
+    healthPremium: number;
+    provincialBreakdown: ProvincialBreakdown;
     salesTax: string;
   }>;
   summary: {
@@ -67,15 +69,30 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
 
   const [provinces, setProvinces] = useState<Province[]>([]);
   const [income, setIncome] = useState<string>('');
-  const [deductions, setDeductions] = useState<string>('15705');
-  const [filingStatus, setFilingStatus] = useState<string>('single');
+  const [deductions, setDeductions] = useState<string>('0');
+  const [household, setHousehold] = useState<{
+    maritalStatus: MaritalStatus;
+    spouseNetIncome: string;
+    dependants: Dependant[];
+  }>({
+    maritalStatus: 'single',
+    spouseNetIncome: '',
+    dependants: []
+  });
+  const [taxYear, setTaxYear] = useState<string>(DEFAULT_TAX_YEAR);
+  const [credits, setCredits] = useState<TaxCreditInputs>({
+    age: '',
+    tuition: '',
+    medicalExpenses: '',
+    donations: '',
+    disability: false
+  });
   const [taxResult, setTaxResult] = useState<TaxResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [showComparison, setShowComparison] = useState<boolean>(false);
   const [comparisonData, setComparisonData] = useState<ComparisonData | null>(null);
 
   useEffect(() => {
-    fetchProvinces();
     // Get user's saved province if logged in
     const savedProvince = localStorage.getItem('userProvince');
     if (savedProvince) {
@@ -83,9 +100,13 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
     }
   }, []);
 
+  useEffect(() => {
+    fetchProvinces();
+  }, [taxYear]);
+
   const fetchProvinces = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:3001/api/provinces');
+      const response = await fetch(`http://localhost:3001/api/provinces?taxYear=${taxYear}`);
       const data = await response.json();
       if (data.success) {
         setProvinces(data.data);
@@ -99,23 +120,13 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
     setSelectedProvince(provinceCode);
     localStorage.setItem('userProvince', provinceCode);
     
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      try {
-        const response = await fetch('http://localhost:3001/api/user/province', {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({ province: provinceCode })
-        });
-        
-        if (!response.ok) {
-          console.warn('Could not save province preference');
-        }
-      } catch (error) {
-        console.error('Error updating province:', error);
+    if (localStorage.getItem('token')) {
+      const data = await apiRequest('/user/province', {
+        method: 'PUT',
+        body: JSON.stringify({ province: provinceCode })
+      });
+      if (!data.success) {
+        console.warn('Could not save province preference');
       }
     }
   };
@@ -128,30 +139,22 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
 
     setIsLoading(true);
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('http://localhost:3001/api/tax/calculate-by-province', {
+      const data = await apiRequest<TaxResult>('/tax/calculate-by-province', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : ''
-        },
         body: JSON.stringify({
           income: parseFloat(income),
           deductions: parseFloat(deductions),
           province: selectedProvince,
-          filingStatus
+          ...household,
+          taxYear,
+          credits
         })
       });
-
-      const data = await response.json();
       if (data.success) {
         setTaxResult(data.data);
       } else {
         alert('Error calculating taxes: ' + data.message);
       }
-    } catch (error) {
-      console.error('Error calculating taxes:', error);
-      alert('Error calculating taxes. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -165,29 +168,23 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
 
     setIsLoading(true);
     try {
-      const token = localStorage.getItem('token');
       const selectedProvinces = ['ON', 'BC', 'AB', 'QC']; // Top 4 provinces
       
-      const response = await fetch('http://localhost:3001/api/tax/compare-provinces', {
+      const data = await apiRequest<ComparisonData>('/tax/compare-provinces', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : ''
-        },
         body: JSON.stringify({
           income: parseFloat(income),
           deductions: parseFloat(deductions),
-          provinces: selectedProvinces
+          provinces: selectedProvinces,
+          ...household,
+          taxYear,
+          credits
         })
       });
-      
-      const data = await response.json();
       if (data.success) {
         setComparisonData(data.data);
         setShowComparison(true);
       }
-    } catch (error) {
-      console.error('Error comparing provinces:', error);
     } finally {
       setIsLoading(false);
     }
@@ -206,12 +203,53 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
     return provinces.find(p => p.code === selectedProvince)?.name || 'Ontario';
   };
 
+  const formatAmount = (amount: number): string => {
+    return amount.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  };
+
+  const formatRate = (rate: number): string => `${Math.round(rate * 10000) / 100}%`;
+
+  const renderCreditRows = (summary: TaxCreditSummary) => (
+    <div className="mt-2 pt-2 border-t space-y-1 text-gray-600">
+      {summary.lines.map((line) => (
+        <div key={line.key} className="flex justify-between text-xs">
+          <span>{line.line} {line.label}</span>
+          <span className="font-mono">${formatAmount(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span>
+          Credits (${formatAmount(summary.totalAmount)} × {formatRate(summary.rate)}
+          {summary.donationCredit > 0 ? ' + donations' : ''})
+        </span>
+        <span className="font-mono">-${formatAmount(summary.value)}</span>
+      </div>
+    </div>
+  );
+
+  const renderBracketRows = (brackets: BracketBreakdown[]) => (
+    <div className="space-y-1">
+      {brackets.map((bracket) => (
+        <div
+          key={bracket.min}
+          className={`flex justify-between ${bracket.taxableAmount > 0 ? 'text-gray-700' : 'text-gray-400'}`}
+        >
+          <span>
+            {formatRate(bracket.rate)} on ${bracket.min.toLocaleString()}
+            {bracket.max === null ? '+' : ` - $${bracket.max.toLocaleString()}`}
+          </span>
+          <span className="font-mono">${formatAmount(bracket.tax)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="container mx-auto px-4 max-w-6xl">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">🇨🇦 Canadian Tax Calculator</h1>
-          <p className="text-xl text-gray-600">Calculate your 2024 taxes for any Canadian province</p>
+          <p className="text-xl text-gray-600">Calculate your {taxYear} taxes for any Canadian province</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -305,27 +343,87 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
                     />
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Basic personal amount for {getCurrentProvinceName()}
+                    RRSP, union dues, child care, etc. Basic personal amounts are applied as credits
                   </p>
                 </div>
 
-                {/* Filing Status */}
+                {/* Credit Inputs */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Age at Dec 31
+                  </label>
+                  <input
+                    type="number"
+                    value={credits.age}
+                    onChange={(e) => setCredits({ ...credits, age: e.target.value })}
+                    className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-lg"
+                    placeholder="Age amount applies at 65+"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tuition, Medical & Donations
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <input
+                      type="number"
+                      value={credits.tuition}
+                      onChange={(e) => setCredits({ ...credits, tuition: e.target.value })}
+                      className="w-full px-2 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="Tuition"
+                    />
+                    <input
+                      type="number"
+                      value={credits.medicalExpenses}
+                      onChange={(e) => setCredits({ ...credits, medicalExpenses: e.target.value })}
+                      className="w-full px-2 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="Medical"
+                    />
+                    <input
+                      type="number"
+                      value={credits.donations}
+                      onChange={(e) => setCredits({ ...credits, donations: e.target.value })}
+                      className="w-full px-2 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="Donations"
+                    />
+                  </div>
+                  <label className="mt-2 flex items-center space-x-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={credits.disability}
+                      onChange={(e) => setCredits({ ...credits, disability: e.target.checked })}
+                    />
+                    <span>Eligible for the disability tax credit</span>
+                  </label>
+                </div>
+
+                {/* Tax Year */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Filing Status
+                    Tax Year
                   </label>
                   <select
-                    value={filingStatus}
-                    onChange={(e) => setFilingStatus(e.target.value)}
+                    value={taxYear}
+                    onChange={(e) => setTaxYear(e.target.value)}
                     className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-lg"
                   >
-                    <option value="single">Single</option>
-                    <option value="married_joint">Married (Joint)</option>
-                    <option value="married_separate">Married (Separate)</option>
-                    <option value="head_of_household">Head of Household</option>
+                    {[...SUPPORTED_TAX_YEARS].reverse().map(year => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
                   </select>
                 </div>
 
+                {/* Household */}
+                <div className="md:col-span-2">
+                  <HouseholdInputs
+                    maritalStatus={household.maritalStatus}
+                    spouseNetIncome={household.spouseNetIncome}
+                    dependants={household.dependants}
+                    onChange={(changes) => setHousehold({ ...household, ...changes })}
+                  />
+                </div>
+
                 {/* Province Display */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -364,7 +462,7 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
                 <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-lg p-6">
                   <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                     <DollarSign className="w-5 h-5 text-green-600" />
-                    <span>Tax Calculation Results for {taxResult.provinceName}</span>
+                    <span>{taxResult.taxYear} Tax Calculation Results for {taxResult.provinceName}</span>
                   </h3>
                   
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
@@ -404,9 +502,72 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
                       <div className="font-semibold">${taxResult.provincialTax.toLocaleString()}</div>
                     </div>
                     <div>
-                      <div className="text-gray-600">CPP + EI</div>
+                      <div className="text-gray-600">
+                        {taxResult.pensionPlan} + EI{taxResult.qpipPremium > 0 ? ' + QPIP' : ''}
+                      </div>
                       <div className="font-semibold">
-                        ${(taxResult.cppContribution + taxResult.eiContribution).toLocaleString()}
+                        ${(taxResult.cppContribution + taxResult.eiContribution + taxResult.qpipPremium).toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Bracket-by-bracket breakdown */}
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div className="bg-white p-3 rounded-lg">
+                      <div className="font-medium text-gray-900 mb-2">Federal Brackets</div>
+                      {renderBracketRows(taxResult.federalBrackets)}
+                      {renderCreditRows(taxResult.federalCredits)}
+                      {taxResult.federalAbatement > 0 && (
+                        <div className="mt-2 pt-2 border-t space-y-1">
+                          <div className="flex justify-between text-gray-600">
+                            <span>Basic federal tax</span>
+                            <span className="font-mono">${taxResult.basicFederalTax.toLocaleString()}</span>
+                          </div>
+                          <div className="flex justify-between text-gray-600">
+                            <span>Refundable Quebec abatement</span>
+                            <span className="font-mono">-${taxResult.federalAbatement.toLocaleString()}</span>
+                          </div>
+                          <div className="flex justify-between font-semibold">
+                            <span>Federal tax</span>
+                            <span className="font-mono">${taxResult.federalTax.toLocaleString()}</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                    <div className="bg-white p-3 rounded-lg">
+                      <div className="font-medium text-gray-900 mb-2">
+                        {taxResult.provincialBreakdown.provinceName} Brackets
+                        {taxResult.provincialBreakdown.returnType && ` (${taxResult.provincialBreakdown.returnType})`}
+                      </div>
+                      {taxResult.provincialBreakdown.deductions && (
+                        <div className="mb-2 text-xs text-gray-500">
+                          After deductions for enhanced QPP (${formatAmount(taxResult.provincialBreakdown.deductions.qppEnhanced)})
+                          {' '}and workers (${formatAmount(taxResult.provincialBreakdown.deductions.workersDeduction)})
+                        </div>
+                      )}
+                      {renderBracketRows(taxResult.provincialBreakdown.brackets)}
+                      <div className="mt-2 pt-2 border-t space-y-1">
+                        <div className="flex justify-between text-gray-600">
+                          <span>Basic provincial tax</span>
+                          <span className="font-mono">${formatAmount(taxResult.provincialBreakdown.basicTax)}</span>
+                        </div>
+                        {renderCreditRows(taxResult.provincialBreakdown.credits)}
+                        {taxResult.provincialBreakdown.surtax > 0 && (
+                          <div className="flex justify-between text-gray-600">
+                            <span>Surtax</span>
+                            <span className="font-mono">${formatAmount(taxResult.provincialBreakdown.surtax)}</span>
+                          </div>
+                        )}
+                        {taxResult.provincialBreakdown.healthPremium > 0 && (
+                          <div className="flex justify-between text-gray-600">
+                            <span>Health Premium</span>
+                            <span className="font-mono">${formatAmount(taxResult.provincialBreakdown.healthPremium)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between font-semibold">
+                          <span>Provincial tax</span>
+                          <span className="font-mono">${formatAmount(taxResult.provincialBreakdown.totalTax)}</span>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -462,7 +623,9 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
                         <tr className="border-b">
                           <th className="text-left py-2">Province</th>
                           <th className="text-right py-2">Total Tax</th>
+                          <th className="text-right py-2">Provincial Tax</th>
                           <th className="text-right py-2">Net Income</th>
+                          <th className="text-right py-2">Provincial Rate</th>
                           <th className="text-right py-2">Marginal Rate</th>
                         </tr>
                       </thead>
@@ -480,9 +643,20 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
                             <td className="text-right py-2 font-mono">
                               ${comp.totalTax.toLocaleString()}
                             </td>
+                            <td className="text-right py-2 font-mono">
+                              ${comp.provincialTax.toLocaleString()}
+                              {(comp.surtax > 0 || comp.healthPremium > 0) && (
+                                <div className="text-xs text-gray-500">
+                                  incl. ${formatAmount(comp.surtax + comp.healthPremium)} surtax/premium
+                                </div>
+                              )}
+                            </td>
                             <td className="text-right py-2 font-mono text-green-600">
                               ${comp.netIncome.toLocaleString()}
                             </td>
+                            <td className="text-right py-2">
+                              {comp.provincialMarginalRate}%
+                            </td>
                             <td className="text-right py-2">
                               {comp.marginalRate}%
                             </td>
@@ -496,6 +670,41 @@ const TaxCalculator: React.FC<TaxCalculatorProps> = ({ selectedProvince, setSele
             </div>
           </div>
         </div>
+
+        <RRSPOptimizer
+          income={income}
+          deductions={deductions}
+          province={selectedProvince}
+          taxYear={taxYear}
+          household={household}
+          credits={credits}
+        />
+
+        <METRCurve
+          income={income}
+          deductions={deductions}
+          province={selectedProvince}
+          taxYear={taxYear}
+          household={household}
+          credits={credits}
+        />
+
+        <PayrollSimulator
+          income={income}
+          deductions={deductions}
+          province={selectedProvince}
+          taxYear={taxYear}
+          household={household}
+          credits={credits}
+        />
+
+        <RetirementProjection
+          income={income}
+          province={selectedProvince}
+          taxYear={taxYear}
+        />
+
+        <HouseholdReturn province={selectedProvince} taxYear={taxYear} />
       </div>
     </div>
   );
@@ -0,0 +1,208 @@
+// components/TaxFormRevisions.tsx - Revision history of a saved return with compare and restore
+import React, { useEffect, useState } from 'react';
+import { History, GitCompare, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { ApiResult, SavedTaxForm, TaxFormChange, TaxFormComparison, TaxFormRevision, TaxFormRevisionsProps } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const ACTION_LABELS: Record<TaxFormRevision['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  restore: 'Restored'
+};
+
+const CHANGE_STYLES: Record<TaxFormChange['type'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-blue-700'
+};
+
+// 'slips.0.boxes.14' -> 'slips #1 › boxes › 14'
+const formatPath = (path: string) => {
+  return path
+    .split('.')
+    .reduce<string[]>((parts, part) => {
+      if (/^\d+$/.test(part) && parts.length > 0) {
+        parts[parts.length - 1] = `${parts[parts.length - 1]} #${Number(part) + 1}`;
+        return parts;
+      }
+      return [...parts, part];
+    }, [])
+    .join(' › ');
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ChangeList: React.FC<{ diff: TaxFormChange[] }> = ({ diff }) => {
+  if (diff.length === 0) {
+    return <p className="text-xs text-gray-500">No differences</p>;
+  }
+  return (
+    <ul className="space-y-1 text-xs">
+      {diff.map(change => (
+        <li key={`${change.type}-${change.path}`} className="flex flex-wrap gap-x-2">
+          <span className={`font-medium ${CHANGE_STYLES[change.type]}`}>{formatPath(change.path)}</span>
+          <span className="text-gray-500 break-all">{formatValue(change.before)}</span>
+          <span className="text-gray-400">→</span>
+          <span className="text-gray-800 break-all">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const TaxFormRevisions: React.FC<TaxFormRevisionsProps> = ({ taxForm, onLoad, setError }) => {
+  const [revisions, setRevisions] = useState<TaxFormRevision[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+  const [comparison, setComparison] = useState<TaxFormComparison | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const requestRevisions = async <T,>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> => {
+    setIsSyncing(true);
+    setError('');
+    const result = await apiRequest<T>(`/tax-forms/${taxForm.id}/revisions${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      setError(result.message || 'Revision request failed');
+    }
+    return result;
+  };
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      const result = await requestRevisions<TaxFormRevision[]>('');
+      if (result.success) {
+        setRevisions(result.data);
+        setComparison(null);
+        if (result.data.length > 1) {
+          setCompareFrom(String(result.data[1].revision));
+          setCompareTo(String(result.data[0].revision));
+        }
+      }
+    };
+    loadRevisions();
+  }, [taxForm.id, taxForm.revision]);
+
+  const compareRevisions = async () => {
+    const result = await requestRevisions<TaxFormComparison>(`/compare?from=${compareFrom}&to=${compareTo}`);
+    if (result.success) {
+      setComparison(result.data);
+    }
+  };
+
+  const restoreRevision = async (revision: number) => {
+    if (!window.confirm(`Restore revision ${revision}? Your current return is kept in the history.`)) return;
+    const result = await requestRevisions<SavedTaxForm>(`/${revision}/restore`, { method: 'POST' });
+    if (result.success) {
+      onLoad(result.data);
+      alert(`✅ ${result.message || ''}`);
+    }
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Revision History</h3>
+          <span className="text-sm text-gray-500">{taxForm.taxYear} return, revision {taxForm.revision}</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onLoad(taxForm)}
+          disabled={isSyncing}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          Load saved return
+        </button>
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-700">Compare revision</span>
+            <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} className={selectClass}>
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.revision}>{revision.revision}</option>
+              ))}
+            </select>
+            <span className="text-gray-700">with</span>
+            <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)} className={selectClass}>
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.revision}>{revision.revision}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={compareRevisions}
+              disabled={isSyncing}
+              className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <GitCompare className="h-4 w-4" />
+              <span>Compare</span>
+            </button>
+          </div>
+          {comparison && (
+            <div className="bg-gray-50 rounded-md p-3 space-y-2">
+              <p className="text-xs font-medium text-gray-700">
+                Revision {comparison.from.revision} → {comparison.to.revision}: {comparison.diff.length} change{comparison.diff.length === 1 ? '' : 's'}
+              </p>
+              <ChangeList diff={comparison.diff} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {revisions.map(revision => (
+          <li key={revision.id} className="py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => setExpanded(expanded === revision.revision ? null : revision.revision)}
+                className="flex items-center space-x-2 text-left"
+              >
+                {expanded === revision.revision
+                  ? <ChevronDown className="h-4 w-4 text-gray-400" />
+                  : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                <span className="font-medium text-gray-900">#{revision.revision}</span>
+                <span className="text-gray-700">
+                  {ACTION_LABELS[revision.action]}
+                  {revision.restoredFrom !== null && ` from #${revision.restoredFrom}`}
+                </span>
+                <span className="text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString('en-CA')} · {revision.author.name || 'Unknown'} · {revision.changeCount} change{revision.changeCount === 1 ? '' : 's'}
+                </span>
+              </button>
+              {revision.revision !== taxForm.revision && (
+                <button
+                  type="button"
+                  onClick={() => restoreRevision(revision.revision)}
+                  disabled={isSyncing}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Restore</span>
+                </button>
+              )}
+            </div>
+            {expanded === revision.revision && (
+              <div className="mt-2 ml-6">
+                <ChangeList diff={revision.diff} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaxFormRevisions;
@@ -1,76 +1,81 @@
 // components/TaxForms.tsx - Fixed Version
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Brain, BarChart3, Download, Target, RefreshCw, Zap, CheckCircle } from 'lucide-react';
-import { TaxFormsProps, TaxResults } from '../types';
+import { SavedTaxForm, TaxFormData, TaxFormsProps } from '../types';
+import { hasSpouse } from '../utils/taxCalculations';
+import HouseholdInputs from './HouseholdInputs';
+import IncomeSlips from './IncomeSlips';
+import BusinessIncome from './BusinessIncome';
+import RentalIncome from './RentalIncome';
+import InvestmentLedger from './InvestmentLedger';
+import RegisteredAccounts from './RegisteredAccounts';
+import Installments from './Installments';
+import LateFiling from './LateFiling';
+import Benefits from './Benefits';
+import TaxFormRevisions from './TaxFormRevisions';
+import { SUPPORTED_TAX_YEARS, isSupportedTaxYear } from '../utils/taxRules';
+import { apiRequest, getFailureMessage } from '../utils/auth';
+import { toReturnPayload } from '../utils/taxReturn';
 
 const TaxForms: React.FC<TaxFormsProps> = ({
   taxFormData,
   setTaxFormData,
+  selectedProvince,
+  setSelectedProvince,
+  preview,
   setError,
   setIsLoading
 }) => {
+  const [savedForm, setSavedForm] = useState<SavedTaxForm | null>(null);
 
-  // Canadian Tax Calculation Function
-  const calculateTax = (): TaxResults => {
-    const income = parseFloat(taxFormData.income) || 0;
-    const deductions = parseFloat(taxFormData.deductions) || 0;
-    const basicPersonalAmount = 15705; // 2024 Canadian Basic Personal Amount
-    const totalDeductions = Math.max(deductions, basicPersonalAmount);
-    const taxableIncome = Math.max(0, income - totalDeductions);
-    
-    // Canadian Federal Tax Brackets 2024
-    let federalTax = 0;
-    if (taxableIncome > 0) {
-      if (taxableIncome <= 55867) {
-        federalTax = taxableIncome * 0.15;
-      } else if (taxableIncome <= 111733) {
-        federalTax = 8380 + (taxableIncome - 55867) * 0.205;
-      } else if (taxableIncome <= 173205) {
-        federalTax = 19822 + (taxableIncome - 111733) * 0.26;
-      } else if (taxableIncome <= 246752) {
-        federalTax = 35814 + (taxableIncome - 173205) * 0.29;
-      } else {
-        federalTax = 57168 + (taxableIncome - 246752) * 0.33;
-      }
-    }
+  const taxResults = preview && preview.calculation.success ? preview.calculation.data : null;
+  // Federal plus provincial bracket rate on the next dollar of taxable income
+  const marginalRate = taxResults ? taxResults.marginalRate / 100 + taxResults.provincialBreakdown.marginalBracketRate : 0;
 
-    const provincialTax = taxableIncome * 0.10;
-    const totalTax = federalTax + provincialTax;
-
-    const maxCppEarnings = 68500;
-    const cppRate = 0.0595;
-    const cppContribution = Math.min((income - 3500) * cppRate, (maxCppEarnings - 3500) * cppRate);
-    
-    const maxEiEarnings = 65700;
-    const eiRate = 0.0229;
-    const eiContribution = Math.min(income * eiRate, maxEiEarnings * eiRate);
-
-    const totalTaxAndContributions = totalTax + cppContribution + eiContribution;
-
-    return {
-      tax: Math.round(totalTaxAndContributions),
-      taxableIncome: Math.round(taxableIncome),
-      effectiveRate: income > 0 ? ((totalTaxAndContributions / income) * 100) : 0,
-      estimatedRefund: Math.max(0, Math.round(income * 0.18 - totalTaxAndContributions)),
-      federalTax: Math.round(federalTax),
-      provincialTax: Math.round(provincialTax),
-      cppContribution: Math.round(cppContribution),
-      eiContribution: Math.round(eiContribution)
-    };
+  const updateCredits = (changes: Partial<TaxFormData['credits']>) => {
+    setTaxFormData({ ...taxFormData, credits: { ...taxFormData.credits, ...changes } });
   };
 
-  const taxResults = calculateTax();
+  // The most recently saved return for the selected tax year, if any
+  useEffect(() => {
+    const fetchSavedForm = async () => {
+      if (!localStorage.getItem('token')) return;
+      const data = await apiRequest<SavedTaxForm[]>('/tax-forms');
+      if (data.success) {
+        const forms = data.data
+          .filter(form => form.taxYear === taxFormData.taxYear)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        setSavedForm(forms[0] || null);
+      }
+    };
+    fetchSavedForm();
+  }, [taxFormData.taxYear]);
+
+  // Replace the wizard's entries with a saved (or restored) return
+  const loadSavedForm = (saved: SavedTaxForm) => {
+    const entries = Object.fromEntries(
+      Object.keys(taxFormData)
+        .filter(key => key in saved)
+        .map(key => [key, saved[key as keyof TaxFormData]])
+    );
+    setSavedForm(saved);
+    setTaxFormData({ ...taxFormData, ...entries });
+    setSelectedProvince(saved.province);
+  };
 
-  // Handle form save
+  // Handle form save: the first save creates the return, later saves add revisions
   const handleSaveTaxForm = async () => {
     setIsLoading(true);
     setError('');
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      alert('✅ Tax form saved successfully!');
-    } catch (err: any) {
-      setError(err.message || 'Failed to save tax form. Please try again.');
+    const data = await apiRequest<SavedTaxForm>(`/tax-forms${savedForm ? `/${savedForm.id}` : ''}`, {
+      method: savedForm ? 'PUT' : 'POST',
+      body: JSON.stringify(toReturnPayload(taxFormData, selectedProvince))
+    });
+    if (data.success) {
+      setSavedForm(data.data);
+      alert(`✅ ${data.message} (revision ${data.data.revision})`);
+    } else {
+      setError(data.message || 'Failed to save tax form');
     }
     setIsLoading(false);
   };
@@ -101,30 +106,16 @@ const TaxForms: React.FC<TaxFormsProps> = ({
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Annual Income (CAD)</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Employment Income Without a Slip (CAD)</label>
             <input
               type="number"
               value={taxFormData.income}
               onChange={(e) => setTaxFormData({...taxFormData, income: e.target.value})}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Enter your annual income"
+              placeholder="Income not reported on a T4"
             />
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Filing Status</label>
-            <select
-              value={taxFormData.filingStatus}
-              onChange={(e) => setTaxFormData({...taxFormData, filingStatus: e.target.value as any})}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="single">Single</option>
-              <option value="married_joint">Married Filing Jointly</option>
-              <option value="married_separate">Married Filing Separately</option>
-              <option value="head_of_household">Head of Household</option>
-            </select>
-          </div>
-          
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Total Deductions (CAD)</label>
             <input
@@ -143,79 +134,332 @@ const TaxForms: React.FC<TaxFormsProps> = ({
               onChange={(e) => setTaxFormData({...taxFormData, taxYear: e.target.value})}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="2024">2024</option>
-              <option value="2023">2023</option>
-              <option value="2022">2022</option>
+              {!isSupportedTaxYear(taxFormData.taxYear) && (
+                <option value={taxFormData.taxYear} disabled>{taxFormData.taxYear}</option>
+              )}
+              {[...SUPPORTED_TAX_YEARS].reverse().map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
             </select>
+            {!isSupportedTaxYear(taxFormData.taxYear) && (
+              <p className="mt-1 text-sm text-amber-700">
+                {taxFormData.taxYear} is not a supported tax year, so this return cannot be calculated. Choose one of {SUPPORTED_TAX_YEARS.join(', ')}.
+              </p>
+            )}
           </div>
         </div>
 
-        {/* Canadian Tax Calculation Results */}
-        <div className="bg-green-50 rounded-lg p-4 mb-6">
-          <h3 className="text-lg font-medium text-green-800 mb-3 flex items-center">
-            <BarChart3 className="h-5 w-5 mr-2" />
-            CRA Tax Calculation Preview
-          </h3>
+        {/* Income slips by box number */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-gray-800 mb-3">Income</h3>
+          <IncomeSlips
+            slips={taxFormData.slips}
+            onChange={(slips) => setTaxFormData({ ...taxFormData, slips })}
+          />
+        </div>
+
+        {/* Self-employment: one T2125 per business */}
+        <div className="mb-6">
+          <BusinessIncome
+            businesses={taxFormData.businesses}
+            results={taxResults ? taxResults.selfEmployment.businesses : null}
+            onChange={(businesses) => setTaxFormData({ ...taxFormData, businesses })}
+            taxYear={taxFormData.taxYear}
+          />
+        </div>
+
+        {/* Rental properties: T776 with CCA tracked across years */}
+        <div className="mb-6">
+          <RentalIncome
+            rentals={taxFormData.rentals}
+            schedule={taxResults ? taxResults.rental : null}
+            onChange={(rentals) => setTaxFormData({ ...taxFormData, rentals })}
+            taxYear={taxFormData.taxYear}
+            setError={setError}
+          />
+        </div>
+
+        {/* Non-registered investments: ACB ledger feeding Schedule 3 */}
+        <div className="mb-6">
+          <InvestmentLedger
+            investments={taxFormData.investments}
+            capitalGains={taxResults ? taxResults.capitalGains : null}
+            onChange={(investments) => setTaxFormData({ ...taxFormData, investments })}
+            taxYear={taxFormData.taxYear}
+            setError={setError}
+          />
+        </div>
+
+        {/* Registered accounts: RRSP/TFSA/FHSA room and over-contribution penalties */}
+        <div className="mb-6">
+          <RegisteredAccounts
+            registeredAccounts={taxFormData.registeredAccounts}
+            onChange={(registeredAccounts) => setTaxFormData({ ...taxFormData, registeredAccounts })}
+            taxYear={taxFormData.taxYear}
+            accounts={taxResults ? taxResults.registeredAccounts : null}
+            setError={setError}
+          />
+        </div>
+
+        {/* Installments: quarterly payments for the following year and installment interest */}
+        <div className="mb-6">
+          <Installments
+            installments={taxFormData.installments}
+            onChange={(installments) => setTaxFormData({ ...taxFormData, installments })}
+            taxYear={taxFormData.taxYear}
+            schedule={preview && preview.installments}
+          />
+        </div>
+
+        {/* Late filing: penalty and arrears interest on the balance owing */}
+        <div className="mb-6">
+          <LateFiling
+            lateFiling={taxFormData.lateFiling}
+            onChange={(lateFiling) => setTaxFormData({ ...taxFormData, lateFiling })}
+            taxYear={taxFormData.taxYear}
+            arrears={preview && preview.arrears}
+          />
+        </div>
+
+        {/* Household: marital status, spouse and dependants */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-gray-800 mb-3">Household</h3>
+          <HouseholdInputs
+            maritalStatus={taxFormData.maritalStatus}
+            spouseNetIncome={taxFormData.spouseNetIncome}
+            dependants={taxFormData.dependants}
+            onChange={(changes) => setTaxFormData({ ...taxFormData, ...changes })}
+          />
+        </div>
+
+        {/* Non-refundable credits (Schedule 1) */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-gray-800 mb-3">Non-Refundable Tax Credits</h3>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="text-center">
-              <p className="text-2xl font-bold text-red-600">${taxResults.tax.toLocaleString()}</p>
-              <p className="text-sm text-gray-600">Total Tax + CPP/EI</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Age at Dec 31</label>
+              <input
+                type="number"
+                value={taxFormData.credits.age}
+                onChange={(e) => updateCredits({ age: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g. 42"
+              />
             </div>
-            <div className="text-center">
-              <p className="text-2xl font-bold text-blue-600">${(parseFloat(taxFormData.deductions) || 15705).toLocaleString()}</p>
-              <p className="text-sm text-gray-600">Deductions + BPA</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tuition (T2202)</label>
+              <input
+                type="number"
+                value={taxFormData.credits.tuition}
+                onChange={(e) => updateCredits({ tuition: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0"
+              />
             </div>
-            <div className="text-center">
-              <p className="text-2xl font-bold text-purple-600">${taxResults.taxableIncome.toLocaleString()}</p>
-              <p className="text-sm text-gray-600">Taxable Income</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Medical Expenses</label>
+              <input
+                type="number"
+                value={taxFormData.credits.medicalExpenses}
+                onChange={(e) => updateCredits({ medicalExpenses: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0"
+              />
             </div>
-            <div className="text-center">
-              <p className="text-2xl font-bold text-green-600">${taxResults.estimatedRefund.toLocaleString()}</p>
-              <p className="text-sm text-gray-600">Est. Refund</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Charitable Donations</label>
+              <input
+                type="number"
+                value={taxFormData.credits.donations}
+                onChange={(e) => updateCredits({ donations: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0"
+              />
             </div>
           </div>
-          
-          {/* Additional Canadian Tax Details */}
-          <div className="mt-4 pt-4 border-t border-green-200">
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div className="text-center">
-                <p className="font-bold text-blue-600">${taxResults.federalTax.toLocaleString()}</p>
-                <p className="text-gray-600">Federal Tax</p>
-              </div>
-              <div className="text-center">
-                <p className="font-bold text-purple-600">${taxResults.provincialTax.toLocaleString()}</p>
-                <p className="text-gray-600">Provincial Tax</p>
-              </div>
-              <div className="text-center">
-                <p className="font-bold text-orange-600">${taxResults.cppContribution.toLocaleString()}</p>
-                <p className="text-gray-600">CPP Contribution</p>
+          <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={taxFormData.credits.disability}
+              onChange={(e) => updateCredits({ disability: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span>Approved Disability Tax Credit certificate (T2201)</span>
+          </label>
+        </div>
+
+        {/* Benefits: CCB, GST/HST credit, CWB and provincial benefits from family net income */}
+        <div className="mb-6">
+          <Benefits
+            benefits={taxFormData.benefits}
+            onChange={(benefits) => setTaxFormData({ ...taxFormData, benefits })}
+            taxYear={taxFormData.taxYear}
+            province={selectedProvince}
+            isPartnered={hasSpouse(taxFormData.maritalStatus)}
+            estimate={preview && preview.benefits}
+          />
+        </div>
+
+        {/* Canadian Tax Calculation Results */}
+        <div className="bg-green-50 rounded-lg p-4 mb-6">
+          <h3 className="text-lg font-medium text-green-800 mb-3 flex items-center">
+            <BarChart3 className="h-5 w-5 mr-2" />
+            CRA Tax Calculation Preview
+            {!preview && <RefreshCw className="animate-spin h-4 w-4 ml-2 text-green-700" />}
+          </h3>
+          {preview && !preview.calculation.success && (
+            <p className="text-sm text-amber-700">Return not calculated: {getFailureMessage(preview.calculation)}</p>
+          )}
+          {taxResults && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-red-600">${taxResults.tax.toLocaleString()}</p>
+                  <p className="text-sm text-gray-600">Total Tax + CPP/EI</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-blue-600">${Math.round(taxResults.federalCredits.value).toLocaleString()}</p>
+                  <p className="text-sm text-gray-600">Federal Credits</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-purple-600">${taxResults.taxableIncome.toLocaleString()}</p>
+                  <p className="text-sm text-gray-600">Taxable Income</p>
+                </div>
+                <div className="text-center">
+                  {taxResults.balanceOwing > 0 ? (
+                    <>
+                      <p className="text-2xl font-bold text-red-600">${taxResults.balanceOwing.toLocaleString()}</p>
+                      <p className="text-sm text-gray-600">Balance Owing</p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-2xl font-bold text-green-600">${taxResults.refund.toLocaleString()}</p>
+                      <p className="text-sm text-gray-600">Refund</p>
+                    </>
+                  )}
+                  <p className="text-xs text-gray-500">after ${taxResults.taxWithheld.toLocaleString()} tax withheld</p>
+                </div>
               </div>
-              <div className="text-center">
-                <p className="font-bold text-teal-600">${taxResults.eiContribution.toLocaleString()}</p>
-                <p className="text-gray-600">EI Premium</p>
+
+              {/* Additional Canadian Tax Details */}
+              <div className="mt-4 pt-4 border-t border-green-200">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div className="text-center">
+                    <p className="font-bold text-blue-600">${taxResults.federalTax.toLocaleString()}</p>
+                    <p className="text-gray-600">Federal Tax</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="font-bold text-purple-600">${taxResults.provincialTax.toLocaleString()}</p>
+                    <p className="text-gray-600">Provincial Tax</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="font-bold text-orange-600">${taxResults.cppContribution.toLocaleString()}</p>
+                    <p className="text-gray-600">{taxResults.pensionPlan} Contribution</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="font-bold text-teal-600">${taxResults.eiContribution.toLocaleString()}</p>
+                    <p className="text-gray-600">EI Premium</p>
+                  </div>
+                </div>
+                {taxResults.pensionPlan === 'QPP' && (
+                  <p className="mt-3 text-xs text-gray-600 text-center">
+                    Quebec return (TP-1): includes ${taxResults.qpipPremium.toLocaleString()} QPIP premium; federal tax is net of the ${taxResults.federalAbatement.toLocaleString()} Quebec abatement
+                  </p>
+                )}
+                {taxResults.selfEmployment.cppContribution > 0 && (
+                  <p className="mt-3 text-xs text-gray-600 text-center">
+                    Includes ${taxResults.selfEmployment.cppContribution.toLocaleString()} {taxResults.pensionPlan} on self-employment earnings (both halves), payable with your return;
+                    ${taxResults.selfEmployment.cppDeduction.toLocaleString()} is deducted from income and ${taxResults.selfEmployment.cppCredit.toLocaleString()} claimed as a credit (line 31000)
+                  </p>
+                )}
+                {(taxResults.provincialBreakdown.surtax > 0 || taxResults.provincialBreakdown.healthPremium > 0) && (
+                  <p className="mt-3 text-xs text-gray-600 text-center">
+                    Provincial tax includes ${taxResults.provincialBreakdown.surtax.toLocaleString()} surtax and ${taxResults.provincialBreakdown.healthPremium.toLocaleString()} health premium
+                  </p>
+                )}
+                {taxResults.oasRecovery > 0 && (
+                  <p className="mt-1 text-xs text-gray-600 text-center">
+                    Includes ${taxResults.oasRecovery.toLocaleString()} OAS pension recovery (line 42200)
+                  </p>
+                )}
+                {(taxFormData.slips.length > 0 || taxFormData.businesses.length > 0 || taxFormData.rentals.length > 0 ||
+                  taxFormData.investments.transactions.length > 0) && (
+                  <div className="mt-4 text-xs text-gray-600">
+                    <p className="font-medium text-gray-800 mb-1">Income by source</p>
+                    {[
+                      { label: 'Employment income', amount: taxResults.incomeSources.employmentIncome },
+                      { label: 'Net business income', amount: taxResults.incomeSources.businessIncome },
+                      { label: 'Net rental income', amount: taxResults.incomeSources.rentalIncome },
+                      { label: 'Pension and RRSP/RRIF income', amount: taxResults.incomeSources.pensionIncome + taxResults.incomeSources.rrspIncome },
+                      { label: 'EI benefits', amount: taxResults.incomeSources.eiBenefits },
+                      { label: 'OAS pension and CPP/QPP benefits', amount: taxResults.incomeSources.oasPension + taxResults.incomeSources.cppBenefits },
+                      { label: 'Interest and other investment income', amount: taxResults.incomeSources.interestIncome },
+                      { label: 'Taxable dividends (grossed up)', amount: taxResults.incomeSources.taxableEligibleDividends + taxResults.incomeSources.taxableNonEligibleDividends },
+                      { label: 'Taxable capital gains', amount: taxResults.incomeSources.taxableCapitalGains },
+                      { label: 'Other income', amount: taxResults.incomeSources.otherIncome }
+                    ]
+                      .filter(source => source.amount !== 0)
+                      .map(source => (
+                        <div key={source.label} className="flex justify-between">
+                          <span>{source.label}</span>
+                          <span className="font-mono">${source.amount.toLocaleString('en-CA', { minimumFractionDigits: 2 })}</span>
+                        </div>
+                      ))}
+                    <div className="flex justify-between font-medium text-gray-800 mt-1">
+                      <span>Total income (line 15000)</span>
+                      <span className="font-mono">${taxResults.incomeSources.totalIncome.toLocaleString('en-CA', { minimumFractionDigits: 2 })}</span>
+                    </div>
+                    {taxResults.capitalGains.netCapitalLossDeduction > 0 && (
+                      <div className="flex justify-between">
+                        <span>Net capital losses of other years (line 25300)</span>
+                        <span className="font-mono">-${taxResults.capitalGains.netCapitalLossDeduction.toLocaleString('en-CA', { minimumFractionDigits: 2 })}</span>
+                      </div>
+                    )}
+                    {taxResults.incomeSources.capitalLoss > 0 && (
+                      <p className="mt-1">Net capital loss of ${taxResults.incomeSources.capitalLoss.toLocaleString()} can be carried to other years</p>
+                    )}
+                  </div>
+                )}
+                <div className="mt-4 text-xs text-gray-600">
+                  <p className="font-medium text-gray-800 mb-1">Schedule 1 credits</p>
+                  {taxResults.federalCredits.lines.map(line => (
+                    <div key={line.key} className="flex justify-between">
+                      <span>Line {line.line} · {line.label}</span>
+                      <span className="font-mono">${line.amount.toLocaleString('en-CA', { minimumFractionDigits: 2 })}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-medium text-gray-800 mt-1">
+                    <span>
+                      Credit value at {(taxResults.federalCredits.rate * 100).toFixed(1)}%
+                      {taxResults.federalCredits.donationCredit > 0 ? ' + donations' : ''}
+                      {taxResults.federalCredits.dividendTaxCredit > 0 ? ' + dividend tax credit' : ''}
+                    </span>
+                    <span className="font-mono">${taxResults.federalCredits.value.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
 
         {/* Canadian AI Optimization Suggestions */}
-        {parseFloat(taxFormData.income) > 50000 && (
+        {taxResults && taxResults.totalIncome > 50000 && (
           <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg p-4 mb-6">
             <h4 className="font-semibold mb-2 flex items-center">
               <Zap className="h-4 w-4 mr-2 text-yellow-500" />
               Canadian Tax Optimization Opportunities
             </h4>
             <p className="text-green-600 font-medium mb-2">
-              🍁 Potential Additional Savings: ${(parseFloat(taxFormData.income) * 0.18 * 0.35).toFixed(0)} (35% marginal rate)
+              🍁 Potential Additional Savings: ${Math.round(taxResults.rrspRoom * marginalRate).toLocaleString()} ({(marginalRate * 100).toFixed(1)}% marginal rate)
             </p>
             <ul className="text-sm text-gray-700 space-y-1">
               <li className="flex items-center">
                 <CheckCircle className="h-3 w-3 mr-2 text-green-500" />
-                Maximize your RRSP contribution (18% of income, max $31,560)
+                Maximize your RRSP contribution (${taxResults.rrspRoom.toLocaleString()} of room)
               </li>
               <li className="flex items-center">
                 <CheckCircle className="h-3 w-3 mr-2 text-green-500" />
-                Use your TFSA contribution room ($7,000 for 2024)
+                Use your TFSA contribution room (${taxResults.tfsaRoom.toLocaleString()} for {taxFormData.taxYear})
               </li>
               <li className="flex items-center">
                 <CheckCircle className="h-3 w-3 mr-2 text-green-500" />
@@ -245,6 +489,10 @@ const TaxForms: React.FC<TaxFormsProps> = ({
             Generate CRA Strategy
           </button>
         </div>
+
+        {savedForm && (
+          <TaxFormRevisions taxForm={savedForm} onLoad={loadSavedForm} setError={setError} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,172 @@
+// components/TwoFactorSettings.tsx - TOTP enrolment, backup codes and disabling two-factor authentication
+import React, { useEffect, useState } from 'react';
+import { KeyRound, ShieldCheck, ShieldOff, RefreshCw } from 'lucide-react';
+import { ApiResult, TwoFactorSettingsProps, TwoFactorSetup, TwoFactorStatus } from '../types';
+import { apiRequest } from '../utils/auth';
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ requestStepUp }) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Operations that need a recent password confirmation are retried once it has been given
+  const requestTwoFactor = async <T = undefined,>(path: string, init: RequestInit = {}, retry?: () => Promise<void>): Promise<ApiResult<T>> => {
+    setIsSyncing(true);
+    setMessage('');
+    const result = await apiRequest<T>(`/auth/2fa${path}`, init);
+    setIsSyncing(false);
+    if (!result.success) {
+      if (result.stepUpRequired && retry) {
+        requestStepUp(retry);
+      } else {
+        setMessage(result.message || 'Two-factor request failed');
+      }
+    }
+    return result;
+  };
+
+  const loadStatus = async () => {
+    const result = await requestTwoFactor<TwoFactorStatus>('');
+    if (result.success) {
+      setStatus(result.data);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const startSetup = async () => {
+    const result = await requestTwoFactor<TwoFactorSetup>('/setup', { method: 'POST' }, startSetup);
+    if (result.success) {
+      setSetup(result.data);
+      setBackupCodes([]);
+    }
+  };
+
+  const enable = async () => {
+    const result = await requestTwoFactor<{ backupCodes: string[] }>('/enable', { method: 'POST', body: JSON.stringify({ code }) });
+    if (result.success) {
+      setSetup(null);
+      setCode('');
+      setBackupCodes(result.data.backupCodes);
+      setMessage(result.message || '');
+      loadStatus();
+    }
+  };
+
+  const regenerateBackupCodes = async () => {
+    const result = await requestTwoFactor<{ backupCodes: string[] }>('/backup-codes', { method: 'POST' }, regenerateBackupCodes);
+    if (result.success) {
+      setBackupCodes(result.data.backupCodes);
+      setMessage(result.message || '');
+      loadStatus();
+    }
+  };
+
+  const disable = async () => {
+    const result = await requestTwoFactor('', { method: 'DELETE' }, disable);
+    if (result.success) {
+      setBackupCodes([]);
+      setMessage(result.message || '');
+      loadStatus();
+    }
+  };
+
+  const buttonClass = 'flex items-center justify-center py-2 px-4 rounded-lg transition-colors disabled:opacity-50';
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <KeyRound className="h-5 w-5 text-blue-600 mr-2" />
+        Two-Factor Authentication
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {status?.enabled
+          ? `On since ${new Date(status.enabledAt || '').toLocaleDateString('en-CA')} · ${status.backupCodesRemaining} backup code${status.backupCodesRemaining === 1 ? '' : 's'} left`
+          : 'Ask for a code from an authenticator app when signing in and before sensitive changes.'}
+      </p>
+
+      {setup && (
+        <div className="space-y-3 mb-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-gray-700">
+            Open <a href={setup.otpauthUri} className="text-blue-600 underline">this link</a> on the device with your
+            authenticator app, or add an account manually with this key:
+          </p>
+          <p className="font-mono text-sm break-all bg-white rounded px-3 py-2">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="6-digit code"
+              autoComplete="one-time-code"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={enable}
+              disabled={isSyncing || code.trim().length < 6}
+              className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              Turn on
+            </button>
+          </div>
+        </div>
+      )}
+
+      {backupCodes.length > 0 && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm font-medium text-yellow-800 mb-2">
+            Save these backup codes somewhere safe. Each works once, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {backupCodes.map(backupCode => <li key={backupCode}>{backupCode}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {message && <p className="mb-3 text-sm text-gray-600">{message}</p>}
+
+      {status && !status.enabled && !setup && (
+        <button
+          type="button"
+          onClick={startSetup}
+          disabled={isSyncing}
+          className={`${buttonClass} w-full bg-blue-600 text-white hover:bg-blue-700`}
+        >
+          {isSyncing ? <RefreshCw className="animate-spin h-4 w-4 mr-2" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Set up two-factor authentication
+        </button>
+      )}
+
+      {status?.enabled && (
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={regenerateBackupCodes}
+            disabled={isSyncing}
+            className={`${buttonClass} flex-1 border border-gray-300 text-gray-700 hover:bg-gray-50`}
+          >
+            New backup codes
+          </button>
+          <button
+            type="button"
+            onClick={disable}
+            disabled={isSyncing}
+            className={`${buttonClass} flex-1 border border-red-300 text-red-700 hover:bg-red-50`}
+          >
+            <ShieldOff className="h-4 w-4 mr-2" />
+            Turn off
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
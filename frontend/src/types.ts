@@ -1,8 +1,724 @@
+export type MaritalStatus = 'single' | 'married' | 'common_law' | 'separated' | 'divorced' | 'widowed';
+
+export type DependantRelationship = 'child' | 'grandchild' | 'sibling' | 'parent' | 'grandparent' | 'other';
+
+export interface Dependant {
+  age: string;
+  netIncome: string;
+  relationship: DependantRelationship;
+  infirm: boolean;
+}
+
+export type SlipType = 'T4' | 'T4A' | 'T4A(OAS)' | 'T4A(P)' | 'T5' | 'T3' | 'T5008' | 'T4E' | 'T4RSP' | 'T4RIF';
+
+export type SlipCategory =
+  | 'employmentIncome'
+  | 'pensionIncome'
+  | 'registeredAnnuityIncome'
+  | 'rrspIncome'
+  | 'eiBenefits'
+  | 'oasPension'
+  | 'cppBenefits'
+  | 'interestIncome'
+  | 'eligibleDividends'
+  | 'nonEligibleDividends'
+  | 'capitalGains'
+  | 'dispositionProceeds'
+  | 'dispositionCost'
+  | 'otherIncome'
+  | 'rppContributions'
+  | 'unionDues'
+  | 'taxWithheld'
+  | 'cppWithheld'
+  | 'eiWithheld'
+  | 'qpipWithheld'
+  | 'pensionAdjustment';
+
+export interface SlipDefinition {
+  label: string;
+  boxes: Record<string, { label: string; category: SlipCategory }>;
+}
+
+export interface IncomeSlip {
+  type: SlipType;
+  issuer: string;
+  boxes: Record<string, string>;
+}
+
+export interface IncomeSources {
+  employmentIncome: number;
+  pensionIncome: number;
+  rrspIncome: number;
+  eiBenefits: number;
+  oasPension: number;
+  cppBenefits: number;
+  interestIncome: number;
+  eligibleDividends: number;
+  taxableEligibleDividends: number;
+  nonEligibleDividends: number;
+  taxableNonEligibleDividends: number;
+  capitalGains: number;
+  taxableCapitalGains: number;
+  capitalLoss: number;
+  otherIncome: number;
+  businessIncome: number;
+  rentalIncome: number;
+  totalIncome: number;
+}
+
+export type BusinessExpenseKey =
+  | 'advertising'
+  | 'mealsEntertainment'
+  | 'badDebts'
+  | 'insurance'
+  | 'interest'
+  | 'businessTaxes'
+  | 'officeExpenses'
+  | 'supplies'
+  | 'professionalFees'
+  | 'managementFees'
+  | 'rent'
+  | 'repairs'
+  | 'salaries'
+  | 'propertyTaxes'
+  | 'travel'
+  | 'utilities'
+  | 'other';
+
+export type CcaClass = '1' | '8' | '10' | '10.1' | '12' | '14.1' | '50' | '54';
+
+export interface T2125Catalog {
+  expenses: Record<BusinessExpenseKey, { line: string; label: string; deductibleRate?: number }>;
+  vehicleExpenses: Record<string, { label: string }>;
+  homeOfficeExpenses: Record<string, { label: string }>;
+  ccaClasses: Record<CcaClass, {
+    label: string;
+    rate: number;
+    halfYearRule: boolean;
+    costLimit?: 'passengerVehicle' | 'zeroEmissionVehicle';
+  }>;
+}
+
+export interface CapitalAsset {
+  ccaClass: CcaClass;
+  description: string;
+  openingUcc: string;
+  additions: string;
+  dispositions: string;
+  businessUsePercent: string;
+}
+
+export interface BusinessStatement {
+  name: string;
+  grossIncome: string;
+  expenses: Partial<Record<BusinessExpenseKey, string>>;
+  vehicle: {
+    businessKm: string;
+    totalKm: string;
+    expenses: Record<string, string>;
+  };
+  homeOffice: {
+    businessUsePercent: string;
+    priorYearCarryforward: string;
+    expenses: Record<string, string>;
+  };
+  assets: CapitalAsset[];
+}
+
+export interface AssetCCA {
+  ccaClass: CcaClass;
+  description: string;
+  rate: number;
+  openingUcc: number;
+  additions: number;
+  dispositions: number;
+  halfYearAdjustment: number;
+  cca: number;
+  claim: number;
+  recapture: number;
+  closingUcc: number;
+}
+
+export interface BusinessIncomeResult {
+  name: string;
+  grossIncome: number;
+  expenses: { key: BusinessExpenseKey; line: string; label: string; amount: number; deductible: number }[];
+  totalExpenses: number;
+  vehicle: { businessKm: number; totalKm: number; businessUseRate: number; expenses: number; deductible: number };
+  assets: AssetCCA[];
+  cca: number;
+  recapture: number;
+  homeOffice: { businessUseRate: number; expenses: number; deductible: number; carryforward: number };
+  netIncome: number;
+}
+
+export type RentalExpenseKey =
+  | 'advertising'
+  | 'insurance'
+  | 'interest'
+  | 'officeExpenses'
+  | 'professionalFees'
+  | 'managementFees'
+  | 'repairs'
+  | 'salaries'
+  | 'propertyTaxes'
+  | 'travel'
+  | 'utilities'
+  | 'motorVehicle'
+  | 'other';
+
+export interface T776Catalog {
+  income: Record<'grossRents' | 'otherIncome', { line: string; label: string }>;
+  expenses: Record<RentalExpenseKey, { line: string; label: string }>;
+  ccaClasses: CcaClass[];
+}
+
+export interface RentalAsset {
+  ccaClass: CcaClass;
+  description: string;
+  openingUcc: string;
+  additions: string;
+  dispositions: string;
+  ccaClaim: string;
+}
+
+export interface RentalProperty {
+  address: string;
+  ownershipPercent: string;
+  grossRents: string;
+  otherIncome: string;
+  personalUsePercent: string;
+  expenses: Partial<Record<RentalExpenseKey, string>>;
+  assets: RentalAsset[];
+}
+
+export interface RentalPropertyResult {
+  address: string;
+  ownershipRate: number;
+  grossRents: number;
+  otherIncome: number;
+  expenses: { key: RentalExpenseKey; line: string; label: string; amount: number }[];
+  totalExpenses: number;
+  personalPortion: number;
+  netIncome: number;
+  shareOfNetIncome: number;
+  assets: AssetCCA[];
+  recapture: number;
+  cca: number;
+  netRentalIncome: number;
+}
+
+export interface RentalScheduleResult {
+  properties: RentalPropertyResult[];
+  grossRents: number;
+  netIncomeBeforeCca: number;
+  recapture: number;
+  maximumCca: number;
+  cca: number;
+  ccaRestricted: boolean;
+  netIncome: number;
+}
+
+export type InvestmentTransactionType = 'buy' | 'sell' | 'returnOfCapital' | 'split';
+
+export interface InvestmentTransaction {
+  id: string;
+  security: string;
+  date: string;
+  type: InvestmentTransactionType;
+  quantity: string;
+  amount: string;
+  commission: string;
+  ratio?: string;
+  source?: string;
+}
+
+export interface InvestmentLedger {
+  transactions: InvestmentTransaction[];
+  priorNetCapitalLosses: string;
+}
+
+export interface SecurityPosition {
+  security: string;
+  shares: number;
+  acb: number;
+  acbPerShare: number;
+  pendingSuperficialLoss: number;
+}
+
+export interface Disposition {
+  id: string;
+  security: string;
+  date: string;
+  taxYear: string;
+  type: 'sell' | 'negativeAcb';
+  quantity: number;
+  proceeds: number;
+  acb: number;
+  outlays: number;
+  superficialLoss: number;
+  gain: number;
+}
+
+export interface CapitalLossYear {
+  taxYear: string;
+  proceeds: number;
+  acb: number;
+  outlays: number;
+  superficialLosses: number;
+  netGain: number;
+  inclusionRate: number;
+  taxableGain: number;
+  netCapitalLoss: number;
+  openingBalance: number;
+  lossApplied: number;
+  carriedBack: { taxYear: string; amount: number }[];
+  closingBalance: number;
+}
+
+export interface CapitalGainsResult {
+  dispositions: Disposition[];
+  proceeds: number;
+  acb: number;
+  outlays: number;
+  superficialLosses: number;
+  netGain: number;
+  netCapitalLossAvailable: number;
+  netCapitalLossDeduction: number;
+  // The year's net capital loss carried back to the three prior years (form T1A)
+  carriedBack: { taxYear: string; amount: number }[];
+  holdings: SecurityPosition[];
+}
+
+export type RegisteredAccountType = 'rrsp' | 'tfsa' | 'fhsa';
+
+export type RegisteredTransactionType = 'contribution' | 'withdrawal';
+
+export interface RegisteredAccountTransaction {
+  id: string;
+  account: RegisteredAccountType;
+  type: RegisteredTransactionType;
+  date: string;
+  amount: string;
+}
+
+export interface RRSPIncomeYear {
+  taxYear: string;
+  earnedIncome: string;
+  pensionAdjustment: string;
+}
+
+export interface RegisteredAccountsLedger {
+  rrsp: {
+    noaYear: string;
+    deductionLimit: string;
+    unusedContributions: string;
+    incomeHistory: RRSPIncomeYear[];
+  };
+  tfsa: {
+    roomYear: string;
+    room: string;
+    eligibleSince: string;
+  };
+  fhsa: {
+    openedYear: string;
+  };
+  transactions: RegisteredAccountTransaction[];
+}
+
+export interface MonthlyExcess {
+  month: string;
+  excess: number;
+}
+
+export interface RRSPRoomResult {
+  noaYear: string;
+  contributionPeriod: { start: string; end: string };
+  deductionLimit: number;
+  unusedContributions: number;
+  contributions: number;
+  first60DayContributions: number;
+  withdrawals: number;
+  deduction: number;
+  unusedContributionsCarriedForward: number;
+  overContribution: number;
+  excess: number;
+  monthlyExcess: MonthlyExcess[];
+  penalty: number;
+  nextYearDeductionLimit: number | null;
+}
+
+export interface TFSARoomResult {
+  roomAtStart: number;
+  contributions: number;
+  withdrawals: number;
+  availableRoom: number;
+  excess: number;
+  highestExcess: number;
+  recontributionRoom: number;
+  monthlyExcess: MonthlyExcess[];
+  penalty: number;
+  nextYearRoom: number | null;
+}
+
+export interface FHSARoomResult {
+  openedYear: string;
+  participationRoom: number;
+  contributions: number;
+  withdrawals: number;
+  lifetimeContributions: number;
+  availableRoom: number;
+  excess: number;
+  monthlyExcess: MonthlyExcess[];
+  penalty: number;
+  nextYearRoom: number;
+}
+
+export interface RegisteredAccountsResult {
+  taxYear: string;
+  rrsp: RRSPRoomResult | null;
+  tfsa: TFSARoomResult | null;
+  fhsa: FHSARoomResult | null;
+  totalPenalty: number;
+  warnings: string[];
+}
+
+export interface InstallmentPayment {
+  id: string;
+  date: string;
+  amount: string;
+}
+
+export interface InstallmentInputs {
+  twoYearsAgoNetTaxOwing: string;
+  currentYearEstimate: string;
+  payments: InstallmentPayment[];
+}
+
+export type InstallmentOptionKey = 'noCalculation' | 'priorYear' | 'currentYear';
+
+export interface InstallmentOption {
+  key: InstallmentOptionKey;
+  label: string;
+  amounts: number[];
+  total: number;
+}
+
+export interface InstallmentResult {
+  installmentYear: string;
+  province: string;
+  threshold: number;
+  netTaxOwing: { currentYear: number; previousYear: number; twoYearsAgo: number };
+  required: boolean;
+  dueDates: string[];
+  balanceDue: string;
+  options: InstallmentOption[];
+  recommended: InstallmentOptionKey | null;
+  paid: number;
+  interest: {
+    option: InstallmentOptionKey | null;
+    calculated: number;
+    charged: number;
+    penalty: number;
+    byOption: Array<{ key: InstallmentOptionKey; interest: number }>;
+  };
+  upcoming: Array<{ dueDate: string; amount: number }>;
+}
+
+export interface BalancePayment {
+  id: string;
+  date: string;
+  amount: string;
+}
+
+export interface LateFilingInputs {
+  filingDate: string;
+  repeatOffender: boolean;
+  payments: BalancePayment[];
+}
+
+export interface LateFilingResult {
+  taxYear: string;
+  filingDeadline: string;
+  balanceDue: string;
+  filingDate: string;
+  filed: boolean;
+  asOf: string;
+  repeatOffender: boolean;
+  balanceOwing: number;
+  paid: number;
+  unpaidAtFilingDeadline: number;
+  monthsLate: number;
+  penaltyMonths: number;
+  penaltyRate: number;
+  penalty: number;
+  interest: number;
+  outstanding: number;
+}
+
+export interface BenefitInputs {
+  rentPaid: string;
+  propertyTaxPaid: string;
+  spouseWorkingIncome: string;
+  rural: boolean;
+}
+
+export interface BenefitYearRules {
+  ccb: {
+    maxUnder6: number;
+    max6to17: number;
+    thresholds: number[];
+    reductionRates: number[][];
+    disability: { max: number; reductionRates: number[] };
+  };
+  gstCredit: {
+    adult: number;
+    child: number;
+    singleSupplement: number;
+    supplementPhaseIn: number;
+    supplementRate: number;
+    threshold: number;
+    reductionRate: number;
+  };
+  cwb: {
+    phaseInRate: number;
+    workingIncomeThreshold: number;
+    reductionRate: number;
+    single: { max: number; threshold: number };
+    family: { max: number; threshold: number };
+    disability: { max: number; workingIncomeThreshold: number; singleThreshold: number; familyThreshold: number };
+  };
+  provincial: {
+    ON: {
+      ocb: { max: number; threshold: number; reductionRate: number };
+      ostc: { max: number; singleThreshold: number; familyThreshold: number; reductionRate: number };
+      oeptc: {
+        maxNonSenior: number;
+        maxSenior: number;
+        rentRate: number;
+        singleThreshold: number;
+        familyThreshold: number;
+        reductionRate: number;
+      };
+    };
+  };
+}
+
+export type BenefitKey = 'ccb' | 'gstCredit' | 'cwb' | 'ocb' | 'otb';
+
+export interface BenefitPayment {
+  date: string;
+  amount: number;
+}
+
+export interface BenefitEstimateItem {
+  key: BenefitKey;
+  label: string;
+  annual: number;
+  payments: BenefitPayment[];
+  projected: boolean;
+  note: string | null;
+}
+
+export interface BenefitEstimate {
+  taxYear: string;
+  province: string;
+  benefitYear: { start: string; end: string };
+  adjustedFamilyNetIncome: number;
+  workingIncome: number;
+  children: { under6: number; under18: number; under19: number };
+  benefits: BenefitEstimateItem[];
+  schedule: Array<{ month: string; amounts: Partial<Record<BenefitKey, number>>; total: number }>;
+  total: number;
+  projected: boolean;
+  climateRebate: {
+    eligible: boolean;
+    periods: Array<{ label: string; payments: BenefitPayment[]; total: number }>;
+    total: number;
+  };
+}
+
+export interface SelfEmploymentResult {
+  businesses: BusinessIncomeResult[];
+  netIncome: number;
+  cppContribution: number;
+  cpp2Contribution: number;
+  cppDeduction: number;
+  cppCredit: number;
+  qpipPremium: number;
+  qpipDeduction: number;
+  qpipCredit: number;
+}
+
 export interface TaxFormData {
   income: string;
   deductions: string;
-  filingStatus: 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+  maritalStatus: MaritalStatus;
+  spouseNetIncome: string;
+  dependants: Dependant[];
+  slips: IncomeSlip[];
+  businesses: BusinessStatement[];
+  rentals: RentalProperty[];
+  investments: InvestmentLedger;
+  registeredAccounts: RegisteredAccountsLedger;
+  installments: InstallmentInputs;
+  lateFiling: LateFilingInputs;
+  benefits: BenefitInputs;
   taxYear: string;
+  credits: TaxCreditInputs;
+}
+
+export interface TaxCreditInputs {
+  age: string;
+  tuition: string;
+  medicalExpenses: string;
+  donations: string;
+  disability: boolean;
+  pensionIncome?: string;
+}
+
+export interface TaxCreditLine {
+  key: string;
+  line: string;
+  label: string;
+  amount: number;
+}
+
+export interface TaxCreditSummary {
+  lines: TaxCreditLine[];
+  totalAmount: number;
+  rate: number;
+  amountsValue: number;
+  donations: number;
+  donationCredit: number;
+  dividendTaxCredit: number;
+  value: number;
+}
+
+export interface TaxBracket {
+  min: number;
+  max: number | null;
+  rate: number;
+}
+
+export interface ProvincialTaxRules {
+  name: string;
+  brackets: TaxBracket[];
+  basicPersonalAmount: number;
+  tuitionCredit?: boolean;
+  followsFederalBasicPersonal?: boolean;
+  basicPersonalSupplement?: {
+    amount: number;
+    phaseOutStart: number;
+    phaseOutEnd: number;
+  };
+  creditRate?: number;
+  credits: {
+    ageAmount: { amount: number; phaseOutStart: number; reductionRate: number; minAge: number };
+    pensionIncomeAmount: number;
+    disabilityAmount: number;
+    // Quebec's medical expense threshold has no cap
+    medicalExpenses: { thresholdRate: number; maxThreshold: number | null };
+    // Up to $200, above it, and (BC and Quebec) on the part matched by income in the top bracket
+    donations: { lowRate: number; highRate: number; topRate: number | null };
+  };
+  dividendTaxCredit: { eligible: number; nonEligible: number };
+  surtax?: { threshold: number; rate: number }[];
+  healthPremium?: { threshold: number; rate: number; maxPremium: number }[];
+}
+
+export interface TaxYearRules {
+  provincialRatesProjected?: boolean;
+  federal: {
+    brackets: TaxBracket[];
+    basicPersonalAmount: {
+      max: number;
+      min: number;
+      phaseOutStart: number;
+      phaseOutEnd: number;
+    };
+    oasRecovery: {
+      threshold: number;
+      rate: number;
+    };
+    credits: {
+      canadaEmploymentAmount: number;
+      ageAmount: {
+        amount: number;
+        phaseOutStart: number;
+        reductionRate: number;
+        minAge: number;
+      };
+      pensionIncomeAmount: number;
+      disabilityAmount: number;
+      tuitionTransferLimit: number;
+      medicalExpenses: {
+        thresholdRate: number;
+        maxThreshold: number;
+      };
+      donations: {
+        lowRateLimit: number;
+        highRate: number;
+        topRate: number;
+        netIncomeLimitRate: number;
+      };
+    };
+  };
+  cpp: {
+    ympe: number;
+    basicExemption: number;
+    rate: number;
+    baseRate: number;
+    maxContribution: number;
+    yampe: number | null;
+    cpp2Rate: number;
+    cpp2MaxContribution: number;
+  };
+  ei: {
+    maxInsurableEarnings: number;
+    rate: number;
+    maxPremium: number;
+  };
+  rrsp: {
+    rate: number;
+    limit: number;
+  };
+  tfsa: {
+    limit: number;
+  };
+  investmentIncome: {
+    capitalGainsInclusionRate: number;
+    dividends: {
+      eligible: { grossUp: number; federalCreditRate: number };
+      nonEligible: { grossUp: number; federalCreditRate: number };
+    };
+  };
+  selfEmployment: {
+    passengerVehicleCostLimit: number;
+    zeroEmissionVehicleCostLimit: number;
+  };
+  provinces: Record<string, ProvincialTaxRules>;
+  quebec: {
+    qpp: {
+      rate: number;
+      baseRate: number;
+      maxContribution: number;
+    };
+    qpip: {
+      rate: number;
+      maxInsurableEarnings: number;
+      maxPremium: number;
+    };
+    ei: {
+      rate: number;
+      maxPremium: number;
+    };
+    workersDeduction: {
+      rate: number;
+      max: number;
+    };
+    federalAbatementRate: number;
+  };
 }
 
 export interface ChatMessage {
@@ -19,6 +735,7 @@ export interface ChatMessage {
 
 export interface UploadedFile {
   id: string;
+  documentId?: string;
   name: string;
   size: string;
   type: string;
@@ -44,27 +761,259 @@ export interface AIInsight {
   completed: boolean;
 }
 
+export type UserRole = 'client' | 'preparer';
+
+export interface PreparerApplicationStatus {
+  status: 'pending' | 'approved';
+  details: string;
+  appliedAt: string;
+  approvedAt?: string;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
+  role?: UserRole;
   phone?: string;
+  province?: string;
+  emailVerified?: boolean;
+  pendingEmail?: string | null;
+  twoFactorEnabled?: boolean;
+  preparerApplication?: PreparerApplicationStatus | null;
+}
+
+export interface BracketBreakdown {
+  min: number;
+  max: number | null;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
 }
 
+export interface ProvincialBreakdown {
+  provinceName: string;
+  returnType?: 'TP-1';
+  deductions?: {
+    qppEnhanced: number;
+    qpipSelfEmployed: number;
+    workersDeduction: number;
+    netCapitalLosses: number;
+  };
+  brackets: BracketBreakdown[];
+  basicTax: number;
+  credits: TaxCreditSummary;
+  taxAfterCredits: number;
+  surtax: number;
+  healthPremium: number;
+  totalTax: number;
+  marginalBracketRate: number;
+}
+
+// A return as the backend calculates it (POST /api/tax/calculate-by-province)
 export interface TaxResults {
+  taxYear: string;
   tax: number;
-  taxableIncome: number;
-  effectiveRate: number;
-  estimatedRefund: number;
   federalTax: number;
+  basicFederalTax: number;
+  federalAbatement: number;
+  federalCredits: TaxCreditSummary;
+  federalBrackets: BracketBreakdown[];
   provincialTax: number;
+  provincialBreakdown: ProvincialBreakdown;
+  oasRecovery: number;
+  pensionPlan: 'CPP' | 'QPP';
   cppContribution: number;
+  cpp2Contribution: number;
   eiContribution: number;
+  qpipPremium: number;
+  selfEmployment: SelfEmploymentResult;
+  rental: RentalScheduleResult;
+  capitalGains: CapitalGainsResult;
+  registeredAccounts: RegisteredAccountsResult;
+  effectiveRate: number;
+  incomeSources: IncomeSources;
+  totalIncome: number;
+  pensionIncome: number;
+  netIncome: number;
+  taxableIncome: number;
+  basicPersonalAmount: number;
+  taxWithheld: number;
+  overpayments: { cpp: number; ei: number; qpip: number };
+  balanceOwing: number;
+  refund: number;
+  // Net tax owing as installments define it: this return is "last year" for next year's installments
+  netTaxOwing: number;
+  rrspRoom: number;
+  tfsaRoom: number;
+  marginalRate: number;
+  provinceName: string;
+  salesTax: string;
+}
+
+// The form's return as the backend last calculated it, recalculated as the form changes
+export interface ReturnPreview {
+  calculation: ApiResult<TaxResults>;
+  // Worked out from the calculation, so null when the return could not be calculated
+  installments: ApiResult<InstallmentResult> | null;
+  arrears: ApiResult<LateFilingResult> | null;
+  benefits: ApiResult<BenefitEstimate> | null;
+}
+
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: User;
+}
+
+// Outcome of swapping the refresh token: the server turned it down (the session has ended), or could
+// not be reached or failed, in which case the stored session is kept and the refresh can be retried
+export type RefreshResult =
+  | { status: 'refreshed'; session: AuthSession }
+  | { status: 'rejected' }
+  | { status: 'unavailable' };
+
+export interface ApiValidationError {
+  msg: string;
+  path?: string;
+}
+
+// Every API response carries `success`; failures explain themselves in `message`
+export type ApiResult<T> =
+  | { success: true; message?: string; data: T }
+  | { success: false; message: string; errors?: ApiValidationError[]; stepUpRequired?: boolean; twoFactorRequired?: boolean };
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface SessionsProps {
+  onSignedOutEverywhere: () => void;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorSettingsProps {
+  requestStepUp: (action: () => Promise<void>) => void;
+}
+
+export interface PasswordResetProps {
+  resetToken: string;
+  onDone: (message: string) => void;
+  setError: (error: string) => void;
+}
+
+// A preparer's access to a client account; pending until the client answers the invitation
+export type AccessScope = 'returns' | 'documents' | 'chat';
+
+export interface ClientGrant {
+  id: string;
+  preparerId: string;
+  preparerName: string;
+  preparerEmail: string;
+  clientId: string | null;
+  clientEmail: string;
+  requestedScopes: AccessScope[];
+  scopes: AccessScope[];
+  status: 'pending' | 'active' | 'declined' | 'revoked';
+  createdAt: string;
+  expiresAt: string;
+  respondedAt: string | null;
+}
+
+export interface RosterClient extends ClientGrant {
+  client: { id: string; name: string; email: string };
+}
+
+// A client's data as a preparer sees it, for the scopes the client granted
+export interface ClientDocument {
+  id: string;
+  originalName: string;
+  size: number;
+  category: string;
+  uploadDate: string;
+  uploadedBy?: string;
+}
+
+export interface ChatHistoryEntry {
+  id: string;
+  message: string;
+  response: string;
+  timestamp: string;
+}
+
+export interface ClientWorkspace {
+  returns: SavedTaxForm[] | null;
+  documents: ClientDocument[] | null;
+  chat: ChatHistoryEntry[] | null;
+}
+
+// Audit log entries; each user's entries are hash-chained so edits or deletions show up as a broken chain
+// Changes are the same snapshot diff that tax form revisions use (storage/revisions.js)
+export type AuditChange = TaxFormChange;
+
+export interface AuditEntry {
+  id: string;
+  sequence: number;
+  timestamp: string;
+  action: string;
+  // Preparer approvals are made by the reviewer, who has no account
+  actor: { id: string | null; role: UserRole | 'reviewer'; name: string | null; self: boolean };
+  resource: { type: string; id?: string | null; name?: string; taxYear?: string | null; path?: string; preparerName?: string };
+  ip: string | null;
+  changes: AuditChange[];
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditIntegrity {
+  valid: boolean;
+  length: number;
+  brokenAt: number | null;
+}
+
+export interface PreparerAccessProps {
+  emailVerified: boolean;
+}
+
+export interface PreparerApplicationProps {
+  user: User;
+  onUserUpdated: (user: User) => void;
+}
+
+export interface StepUpModalProps {
+  onConfirmed: () => void;
+  onCancel: () => void;
+}
+
+export interface RegisterData {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
 }
 
 export interface AuthModalProps {
-  onLogin: (loginData: { email: string; password: string }) => void;
-  onRegister: (registerData: { name: string; email: string; password: string; confirmPassword: string }) => void;
+  onLogin: (loginData: { email: string; password: string; code?: string }) => void;
+  twoFactorRequired: boolean;
+  onRegister: (registerData: RegisterData) => void;
+  onSessionRestored: (session: AuthSession) => void;
   isLoading: boolean;
   error: string;
   setError: (error: string) => void;
@@ -85,6 +1034,8 @@ export interface ChatModalProps {
 export interface DashboardProps {
   aiInsights: AIInsight[];
   uploadedFiles: UploadedFile[];
+  taxFormData: TaxFormData;
+  selectedProvince: string;
   setActiveTab: (tab: string) => void;
   setShowChat: (show: boolean) => void;
 }
@@ -101,10 +1052,376 @@ export interface DocumentsProps {
 export interface TaxFormsProps {
   taxFormData: TaxFormData;
   setTaxFormData: React.Dispatch<React.SetStateAction<TaxFormData>>;
+  selectedProvince: string;
+  setSelectedProvince: (province: string) => void;
+  preview: ReturnPreview | null;
   setError: (error: string) => void;
   setIsLoading: (loading: boolean) => void;
 }
 
+// Saved returns keep every save as a revision (timestamp, author and the changes from the one before)
+export interface SavedTaxForm extends TaxFormData {
+  id: string;
+  userId: string;
+  province: string;
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaxFormRevisionAction = 'create' | 'update' | 'restore';
+
+export interface TaxFormChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+}
+
+export interface TaxFormRevision {
+  id: string;
+  taxFormId: string;
+  revision: number;
+  action: TaxFormRevisionAction;
+  restoredFrom: number | null;
+  author: { id: string; name: string | null };
+  createdAt: string;
+  diff: TaxFormChange[];
+  changeCount: number;
+}
+
+export interface TaxFormComparison {
+  from: TaxFormRevision;
+  to: TaxFormRevision;
+  diff: TaxFormChange[];
+}
+
+export interface TaxFormRevisionsProps {
+  taxForm: SavedTaxForm;
+  onLoad: (taxForm: SavedTaxForm) => void;
+  setError: (error: string) => void;
+}
+
+export interface IncomeSlipsProps {
+  slips: IncomeSlip[];
+  onChange: (slips: IncomeSlip[]) => void;
+}
+
+export interface BusinessIncomeProps {
+  businesses: BusinessStatement[];
+  // Each statement's T2125 as the backend last calculated it
+  results: BusinessIncomeResult[] | null;
+  onChange: (businesses: BusinessStatement[]) => void;
+  taxYear: string;
+}
+
+export interface RentalIncomeProps {
+  rentals: RentalProperty[];
+  // The T776 as the backend last calculated it
+  schedule: RentalScheduleResult | null;
+  onChange: (rentals: RentalProperty[]) => void;
+  taxYear: string;
+  setError: (error: string) => void;
+}
+
+export interface InvestmentLedgerProps {
+  investments: InvestmentLedger;
+  // The tax year's Schedule 3 as the backend last calculated it
+  capitalGains: CapitalGainsResult | null;
+  onChange: (investments: InvestmentLedger) => void;
+  taxYear: string;
+  setError: (error: string) => void;
+}
+
+export interface RegisteredAccountsProps {
+  registeredAccounts: RegisteredAccountsLedger;
+  onChange: (registeredAccounts: RegisteredAccountsLedger) => void;
+  taxYear: string;
+  accounts: RegisteredAccountsResult | null;
+  setError: (error: string) => void;
+}
+
+export interface InstallmentsProps {
+  installments: InstallmentInputs;
+  onChange: (installments: InstallmentInputs) => void;
+  taxYear: string;
+  schedule: ApiResult<InstallmentResult> | null;
+}
+
+export interface LateFilingProps {
+  lateFiling: LateFilingInputs;
+  onChange: (lateFiling: LateFilingInputs) => void;
+  taxYear: string;
+  arrears: ApiResult<LateFilingResult> | null;
+}
+
+export interface BenefitsProps {
+  benefits: BenefitInputs;
+  onChange: (benefits: BenefitInputs) => void;
+  taxYear: string;
+  province: string;
+  isPartnered: boolean;
+  estimate: ApiResult<BenefitEstimate> | null;
+}
+
+export interface HouseholdInputsProps {
+  maritalStatus: MaritalStatus;
+  spouseNetIncome: string;
+  dependants: Dependant[];
+  onChange: (changes: { maritalStatus?: MaritalStatus; spouseNetIncome?: string; dependants?: Dependant[] }) => void;
+}
+
+export interface HouseholdSpouse {
+  name: string;
+  income: string;
+  deductions: string;
+  pensionIncome: string;
+  age: string;
+  tuition: string;
+  disability: boolean;
+}
+
+export interface HouseholdScenario {
+  pensionSplit: { from: string; to: string; amount: number; percent: number } | null;
+  medicalExpensesClaimedBy: string | null;
+  donationsClaimedBy: string | null;
+  spouses: Array<{
+    name: string;
+    totalIncome: number;
+    pensionIncome: number;
+    netIncome: number;
+    federalTax: number;
+    provincialTax: number;
+    tax: number;
+    afterTaxIncome: number;
+    transferredToSpouse: { federal: number; provincial: number };
+  }>;
+  combinedTax: number;
+  combinedAfterTaxIncome: number;
+}
+
+export interface HouseholdResult {
+  province: string;
+  taxYear: string;
+  maritalStatus: 'married' | 'common_law';
+  baseline: HouseholdScenario;
+  optimized: HouseholdScenario;
+  savings: number;
+  splitScenarios: Array<{ from: string | null; percent: number; amount: number; combinedTax: number }>;
+}
+
+export interface HouseholdReturnProps {
+  province: string;
+  taxYear: string;
+}
+
+export interface RRSPOptimizerPoint {
+  contribution: number;
+  taxableIncome: number;
+  tax: number;
+  taxSavings: number;
+  refund: number;
+  balanceOwing: number;
+  averageRate: number | null;
+  marginalRate: number | null;
+}
+
+export interface RRSPOptimizationResult {
+  taxYear: string;
+  province: string;
+  room: number;
+  baseline: { tax: number; refund: number; balanceOwing: number; marginalRate: number };
+  points: RRSPOptimizerPoint[];
+  maximumSavings: number;
+  dropOff: { contribution: number; rateBefore: number; rateAfter: number } | null;
+  deferral: {
+    amount: number;
+    futureIncome: number;
+    futureTaxYear: string;
+    years: number;
+    discountRate: number;
+    savingsNow: number;
+    futureSavings: number;
+    presentValue: number;
+    recommendation: 'defer' | 'deductNow';
+  } | null;
+  recommendations: string[];
+}
+
+export interface RRSPOptimizerProps {
+  income: string;
+  deductions: string;
+  province: string;
+  taxYear: string;
+  household: { maritalStatus: MaritalStatus; spouseNetIncome: string; dependants: Dependant[] };
+  credits: TaxCreditInputs;
+}
+
+export type DrawdownOrder = 'rrspFirst' | 'tfsaFirst';
+
+export interface ProjectionYear {
+  year: number;
+  age: number;
+  rulesYear: string;
+  indexation: number;
+  employmentIncome: number;
+  cppIncome: number;
+  oasIncome: number;
+  rrspContribution: number;
+  tfsaContribution: number;
+  rrspWithdrawal: number;
+  rrifWithdrawal: number;
+  rrifMinimum: number;
+  tfsaWithdrawal: number;
+  totalIncome: number;
+  netIncome: number;
+  tax: number;
+  oasRecovery: number;
+  afterTaxIncome: number;
+  spending: number;
+  spendingToday: number;
+  shortfall: number;
+  rrspAccount: 'RRSP' | 'RRIF';
+  rrspBalance: number;
+  tfsaBalance: number;
+}
+
+export interface RetirementProjectionResult {
+  startYear: string;
+  province: string;
+  assumptions: {
+    incomeGrowth: number;
+    inflation: number;
+    expectedReturn: number;
+    retirementAge: number;
+    cppStartAge: number;
+    oasStartAge: number;
+    cppAt65: number;
+    oasAt65: number;
+    retirementSpending: number;
+    drawdownOrder: DrawdownOrder;
+    rrifConversionYear: number;
+  };
+  years: ProjectionYear[];
+  summary: {
+    totalTax: number;
+    totalOASRecovery: number;
+    totalAfterTaxIncome: number;
+    totalSpending: number;
+    depletionAge: number | null;
+    finalRRSPBalance: number;
+    finalTFSABalance: number;
+  };
+}
+
+export interface RetirementProjectionProps {
+  income: string;
+  province: string;
+  taxYear: string;
+}
+
+export interface METRComponents {
+  federalTax: number;
+  provincialTax: number;
+  payroll: number;
+  oasRecovery: number;
+  benefits: number;
+}
+
+export interface METRPoint {
+  income: number;
+  marginalRate: number;
+  components: METRComponents;
+  benefitClawback: Partial<Record<BenefitKey, number>>;
+  averageRate: number;
+  tax: number;
+  benefits: number;
+  disposableIncome: number;
+}
+
+export interface METRCurveResult {
+  taxYear: string;
+  province: string;
+  delta: number;
+  range: { minIncome: number; maxIncome: number };
+  current: METRPoint;
+  peak: { income: number; marginalRate: number };
+  raise: {
+    amount: number;
+    fromIncome: number;
+    toIncome: number;
+    taxIncrease: number;
+    payrollIncrease: number;
+    benefitLoss: number;
+    kept: number;
+    effectiveRate: number;
+  } | null;
+  points: METRPoint[];
+}
+
+export interface METRCurveProps {
+  income: string;
+  deductions: string;
+  province: string;
+  taxYear: string;
+  household: { maritalStatus: MaritalStatus; spouseNetIncome: string; dependants: Dependant[] };
+  credits: TaxCreditInputs;
+}
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semiMonthly' | 'monthly';
+
+export interface PayrollCheque {
+  period: number;
+  gross: number;
+  federalTax: number;
+  provincialTax: number;
+  tax: number;
+  cpp: number;
+  cpp2: number;
+  ei: number;
+  pensionContributions: number;
+  unionDues: number;
+  net: number;
+  annualTaxableIncome: number;
+  federalClaim: number;
+  provincialClaim: number;
+}
+
+export interface PayrollAmounts {
+  tax: number;
+  cpp: number;
+  ei: number;
+}
+
+export interface PayrollSimulation {
+  taxYear: string;
+  province: string;
+  payFrequency: PayFrequency;
+  periodsPerYear: number;
+  periodNumber: number;
+  yearToDate: { earnings: number; cpp: number; cpp2: number; ei: number; tax: number };
+  cheque: PayrollCheque;
+  schedule: PayrollCheque[];
+  annual: {
+    employmentIncome: number;
+    withheld: PayrollAmounts;
+    payable: PayrollAmounts;
+    difference: PayrollAmounts;
+    balanceOwing: number;
+    refund: number;
+  };
+  notes: string[];
+}
+
+export interface PayrollSimulatorProps {
+  income: string;
+  deductions: string;
+  province: string;
+  taxYear: string;
+  household: { maritalStatus: MaritalStatus; spouseNetIncome: string; dependants: Dependant[] };
+  credits: TaxCreditInputs;
+}
+
 export interface TaxCalculatorProps {
   selectedProvince: string;
   setSelectedProvince: (province: string) => void;
@@ -114,6 +1431,10 @@ export interface ProfileProps {
   uploadedFiles: UploadedFile[];
   aiInsights: AIInsight[];
   setIsLoading: (loading: boolean) => void;
+  onUserUpdated: (user: User) => void;
+  onSignedOutEverywhere: () => void;
 }
 
+export type ProfileTab = 'account' | 'activity';
+
 export type ActiveTab = 'Dashboard' | 'Documents' | 'Tax Forms' | 'Calculator' | 'Profile';
\ No newline at end of file
@@ -0,0 +1,16 @@
+// utils/access.ts - Scopes a client can grant a preparer
+import { AccessScope } from '../types';
+
+export const ACCESS_SCOPES: AccessScope[] = ['returns', 'documents', 'chat'];
+
+export const ACCESS_SCOPE_LABELS: Record<AccessScope, string> = {
+  returns: 'Returns, schedules and ledgers',
+  documents: 'Documents',
+  chat: 'Tax assistant chat'
+};
+
+// Adds or removes a scope, keeping ACCESS_SCOPES order
+export const toggleScope = (scopes: AccessScope[], scope: AccessScope): AccessScope[] => {
+  const next = scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope];
+  return ACCESS_SCOPES.filter(s => next.includes(s));
+};
@@ -0,0 +1,160 @@
+// utils/auth.ts - Access and refresh token storage, silent refresh and authenticated API requests
+import { ApiResult, ApiValidationError, AuthSession, RefreshResult } from '../types';
+
+export const API_BASE = 'http://localhost:3001/api';
+const AUTH_API = `${API_BASE}/auth`;
+
+export const SERVER_UNREACHABLE_MESSAGE = 'Failed to reach the server. Please try again.';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const EXPIRES_AT_KEY = 'tokenExpiresAt';
+
+let pendingRefresh: Promise<RefreshResult> | null = null;
+const sessionEndedListeners = new Set<() => void>();
+
+export const hasStoredSession = (): boolean => Boolean(localStorage.getItem(REFRESH_TOKEN_KEY));
+
+export const storeSession = (session: AuthSession): void => {
+  localStorage.setItem(TOKEN_KEY, session.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  localStorage.setItem(EXPIRES_AT_KEY, String(Date.now() + session.expiresIn * 1000));
+};
+
+export const clearSession = (): void => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_AT_KEY);
+};
+
+/**
+ * Milliseconds until the stored access token should be refreshed (0 when it already should be)
+ */
+export const getRefreshDelay = (): number => {
+  const expiresAt = Number(localStorage.getItem(EXPIRES_AT_KEY)) || 0;
+  return Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS);
+};
+
+/**
+ * Calls `listener` whenever the server turns down the refresh token, i.e. the session has ended
+ * (expired, signed out elsewhere, or revoked). Returns the unsubscribe function.
+ */
+export const onSessionEnded = (listener: () => void): (() => void) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+const endSession = (): RefreshResult => {
+  clearSession();
+  sessionEndedListeners.forEach(listener => listener());
+  return { status: 'rejected' };
+};
+
+const requestRefresh = async (): Promise<RefreshResult> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return endSession();
+
+  try {
+    const response = await fetch(`${AUTH_API}/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+    // Only a 400/401 means the refresh token itself is no good; a server error says nothing about it
+    if (response.status === 400 || response.status === 401) return endSession();
+    const data = await response.json();
+    if (!data.success) return { status: 'unavailable' };
+    const session: AuthSession = {
+      token: data.token,
+      refreshToken: data.refreshToken,
+      expiresIn: data.expiresIn,
+      user: data.user
+    };
+    storeSession(session);
+    return { status: 'refreshed', session };
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return { status: 'unavailable' };
+  }
+};
+
+/**
+ * Swaps the stored refresh token for a new access and refresh token. Concurrent callers share one
+ * request, since each refresh token can only be used once.
+ */
+export const refreshSession = (): Promise<RefreshResult> => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestRefresh().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+const sendRequest = (path: string, init: RequestInit, clientId?: string): Promise<Response> => {
+  const token = localStorage.getItem(TOKEN_KEY);
+  return fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      // Requests for a client's data name the client; the server checks the grant on every request
+      ...(clientId ? { 'X-Client-Id': clientId } : {})
+    }
+  });
+};
+
+/**
+ * Sends a request to `API_BASE + path` as the signed-in user (acting for `clientId` when given). An
+ * access token that expired mid-session is refreshed once and the request sent again. Rejects when the
+ * server cannot be reached.
+ */
+export const apiFetch = async (path: string, init: RequestInit = {}, clientId?: string): Promise<Response> => {
+  const response = await sendRequest(path, init, clientId);
+  if (response.status !== 401) return response;
+
+  const { message } = await response.clone().json().catch(() => ({ message: '' }));
+  if (message !== 'Access token expired') return response;
+
+  const refresh = await refreshSession();
+  if (refresh.status === 'unavailable') throw new Error('Could not refresh the session');
+  return refresh.status === 'refreshed' ? sendRequest(path, init, clientId) : response;
+};
+
+/**
+ * `apiFetch` for JSON endpoints. Never rejects: an unreachable server resolves to a failure result.
+ */
+export const apiRequest = async <T = undefined>(path: string, init: RequestInit = {}, clientId?: string): Promise<ApiResult<T>> => {
+  try {
+    const response = await apiFetch(path, init, clientId);
+    return await response.json();
+  } catch (error) {
+    console.error(`API request error (${path}):`, error);
+    return { success: false, message: SERVER_UNREACHABLE_MESSAGE };
+  }
+};
+
+/**
+ * Why a request failed: the first field the server rejected, or the server's message
+ */
+export const getFailureMessage = (result: { message: string; errors?: ApiValidationError[] }): string => {
+  const [rejected] = result.errors || [];
+  if (!rejected) return result.message;
+  return rejected.path ? `${rejected.msg} (${rejected.path})` : rejected.msg;
+};
+
+export const signOut = async (everywhere = false): Promise<void> => {
+  if (localStorage.getItem(TOKEN_KEY)) {
+    try {
+      await apiFetch(`/auth/${everywhere ? 'logout-all' : 'logout'}`, { method: 'POST' });
+    } catch (error) {
+      console.error('Sign out error:', error);
+    }
+  }
+  clearSession();
+};
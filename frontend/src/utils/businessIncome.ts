@@ -0,0 +1,18 @@
+// utils/businessIncome.ts - T2125 expense and CCA class catalogue, shared with the backend
+import t2125Table from '../../../shared/t2125.json';
+import { BusinessExpenseKey, BusinessStatement, CcaClass, T2125Catalog } from '../types';
+
+export const T2125 = t2125Table as T2125Catalog;
+
+export const EXPENSE_KEYS = Object.keys(T2125.expenses) as BusinessExpenseKey[];
+
+export const CCA_CLASSES = Object.keys(T2125.ccaClasses) as CcaClass[];
+
+export const createBusinessStatement = (): BusinessStatement => ({
+  name: '',
+  grossIncome: '',
+  expenses: {},
+  vehicle: { businessKm: '', totalKm: '', expenses: {} },
+  homeOffice: { businessUsePercent: '', priorYearCarryforward: '', expenses: {} },
+  assets: []
+});
@@ -0,0 +1,45 @@
+// utils/capitalGains.ts - ACB ledger transactions and T5008 import
+import { InvestmentLedger, InvestmentTransaction, InvestmentTransactionType } from '../types';
+
+export const TRANSACTION_TYPES: { value: InvestmentTransactionType; label: string }[] = [
+  { value: 'buy', label: 'Buy' },
+  { value: 'sell', label: 'Sell' },
+  { value: 'returnOfCapital', label: 'Return of capital' },
+  { value: 'split', label: 'Split / consolidation' }
+];
+
+export const createInvestmentLedger = (): InvestmentLedger => ({ transactions: [], priorNetCapitalLosses: '' });
+
+export const createTransaction = (type: InvestmentTransactionType = 'buy', security: string = ''): InvestmentTransaction => ({
+  id: Math.random().toString(36).substr(2, 9),
+  security,
+  date: '',
+  type,
+  quantity: '',
+  amount: '',
+  commission: '',
+  ratio: ''
+});
+
+/**
+ * T5008 records pasted as CSV: settlement date, security, quantity, proceeds (box 21), cost (box 20)
+ */
+export const parseT5008Csv = (text: string): {
+  slips: { settlementDate: string; security: string; quantity: string; proceeds: string; cost: string }[];
+  errors: string[];
+} => {
+  const slips: { settlementDate: string; security: string; quantity: string; proceeds: string; cost: string }[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach((line, index) => {
+    const [settlementDate = '', security = '', quantity = '', proceeds = '', cost = ''] = line.split(',').map(cell => cell.trim());
+    if (index === 0 && isNaN(Date.parse(settlementDate))) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(settlementDate) || !security || !(parseFloat(quantity) > 0) || isNaN(parseFloat(proceeds))) {
+      errors.push(`Line ${index + 1}: expected date (YYYY-MM-DD), security, quantity, proceeds, cost`);
+      return;
+    }
+    slips.push({ settlementDate, security, quantity, proceeds, cost });
+  });
+
+  return { slips, errors };
+};
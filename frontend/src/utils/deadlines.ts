@@ -0,0 +1,40 @@
+// utils/deadlines.ts - CRA filing and payment deadlines
+
+const toDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+/**
+ * Due dates on a weekend move to the next business day
+ */
+export const nextBusinessDay = (date: Date): Date => {
+  const result = new Date(date);
+  while (result.getUTCDay() === 0 || result.getUTCDay() === 6) {
+    result.setUTCDate(result.getUTCDate() + 1);
+  }
+  return result;
+};
+
+/**
+ * Filing deadlines for a tax year: April 30 (June 15 for the self-employed, with any balance still
+ * due April 30) and the RRSP deadline on the 60th day of the following year
+ */
+export const getFilingDeadlines = (taxYear: string): {
+  filingDeadline: Date;
+  selfEmployedFilingDeadline: Date;
+  balanceDue: Date;
+  rrspContributionDeadline: Date;
+} => {
+  const filingYear = Number(taxYear) + 1;
+  return {
+    filingDeadline: nextBusinessDay(toDate(filingYear, 4, 30)),
+    selfEmployedFilingDeadline: nextBusinessDay(toDate(filingYear, 6, 15)),
+    balanceDue: nextBusinessDay(toDate(filingYear, 4, 30)),
+    rrspContributionDeadline: nextBusinessDay(toDate(filingYear, 1, 60))
+  };
+};
+
+/**
+ * "April 30, 2025"
+ */
+export const formatDeadline = (date: Date): string => {
+  return date.toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+};
@@ -0,0 +1,7 @@
+// utils/incomeSlips.ts - Information slips (T4, T5, ...) the form can record, shared with the backend
+import incomeSlipTable from '../../../shared/incomeSlips.json';
+import { SlipDefinition, SlipType } from '../types';
+
+export const INCOME_SLIPS = incomeSlipTable as Record<SlipType, SlipDefinition>;
+
+export const SLIP_TYPES = Object.keys(INCOME_SLIPS) as SlipType[];
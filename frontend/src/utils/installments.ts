@@ -0,0 +1,14 @@
+// utils/installments.ts - Quarterly installment reminder options and payments
+import { InstallmentOptionKey, InstallmentPayment } from '../types';
+
+export const INSTALLMENT_OPTIONS: { value: InstallmentOptionKey; label: string }[] = [
+  { value: 'noCalculation', label: 'No-calculation option' },
+  { value: 'priorYear', label: 'Prior-year option' },
+  { value: 'currentYear', label: 'Current-year option' }
+];
+
+export const createInstallmentPayment = (): InstallmentPayment => ({
+  id: Math.random().toString(36).substr(2, 9),
+  date: '',
+  amount: ''
+});
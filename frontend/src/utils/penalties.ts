@@ -0,0 +1,8 @@
+// utils/penalties.ts - Payments against a balance owing
+import { BalancePayment } from '../types';
+
+export const createBalancePayment = (): BalancePayment => ({
+  id: Math.random().toString(36).substr(2, 9),
+  date: '',
+  amount: ''
+});
@@ -0,0 +1,43 @@
+// utils/registeredAccounts.ts - RRSP, TFSA and FHSA ledger entries and limits, shared with the backend
+import {
+  RRSPIncomeYear,
+  RegisteredAccountTransaction,
+  RegisteredAccountType,
+  RegisteredAccountsLedger,
+  RegisteredTransactionType
+} from '../types';
+import registeredAccountsTable from '../../../shared/registeredAccounts.json';
+
+const REGISTERED_ACCOUNTS = registeredAccountsTable as {
+  fhsa: { lifetimeLimit: number };
+};
+
+export const ACCOUNT_TYPES: { value: RegisteredAccountType; label: string }[] = [
+  { value: 'rrsp', label: 'RRSP' },
+  { value: 'tfsa', label: 'TFSA' },
+  { value: 'fhsa', label: 'FHSA' }
+];
+
+export const REGISTERED_TRANSACTION_TYPES: { value: RegisteredTransactionType; label: string }[] = [
+  { value: 'contribution', label: 'Contribution' },
+  { value: 'withdrawal', label: 'Withdrawal' }
+];
+
+export const FHSA_LIFETIME_LIMIT = REGISTERED_ACCOUNTS.fhsa.lifetimeLimit;
+
+export const createRegisteredAccounts = (): RegisteredAccountsLedger => ({
+  rrsp: { noaYear: '', deductionLimit: '', unusedContributions: '', incomeHistory: [] },
+  tfsa: { roomYear: '', room: '', eligibleSince: '' },
+  fhsa: { openedYear: '' },
+  transactions: []
+});
+
+export const createRegisteredTransaction = (account: RegisteredAccountType = 'rrsp'): RegisteredAccountTransaction => ({
+  id: Math.random().toString(36).substr(2, 9),
+  account,
+  type: 'contribution',
+  date: '',
+  amount: ''
+});
+
+export const createIncomeYear = (taxYear: string = ''): RRSPIncomeYear => ({ taxYear, earnedIncome: '', pensionAdjustment: '' });
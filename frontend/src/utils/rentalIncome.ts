@@ -0,0 +1,17 @@
+// utils/rentalIncome.ts - T776 rental expense catalogue, shared with the backend
+import t776Table from '../../../shared/t776.json';
+import { RentalExpenseKey, RentalProperty, T776Catalog } from '../types';
+
+export const T776 = t776Table as T776Catalog;
+
+export const RENTAL_EXPENSE_KEYS = Object.keys(T776.expenses) as RentalExpenseKey[];
+
+export const createRentalProperty = (): RentalProperty => ({
+  address: '',
+  ownershipPercent: '',
+  grossRents: '',
+  otherIncome: '',
+  personalUsePercent: '',
+  expenses: {},
+  assets: []
+});
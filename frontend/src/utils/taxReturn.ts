@@ -0,0 +1,75 @@
+// utils/taxReturn.ts - The tax form's return as calculated by the backend
+import { BenefitEstimate, InstallmentResult, LateFilingResult, ReturnPreview, TaxFormData, TaxResults } from '../types';
+import { apiRequest } from './auth';
+
+/**
+ * The request body for a tax form: blank income and deductions are sent as zero
+ */
+export const toReturnPayload = (taxFormData: TaxFormData, province: string) => ({
+  ...taxFormData,
+  income: taxFormData.income || '0',
+  deductions: taxFormData.deductions || '0',
+  province
+});
+
+// Payments still missing a date or an amount are left out until they're filled in
+const toPayments = (payments: { date: string; amount: string }[]) => payments
+  .filter(payment => payment.date && payment.amount)
+  .map(({ date, amount }) => ({ date, amount }));
+
+/**
+ * Next year's installments, with this return as the previous year (a blank estimate defaults to it)
+ */
+const requestInstallments = (taxFormData: TaxFormData, province: string, taxResults: TaxResults) => {
+  const { installments } = taxFormData;
+  return apiRequest<InstallmentResult>('/tax/installments', {
+    method: 'POST',
+    body: JSON.stringify({
+      installmentYear: Number(taxFormData.taxYear) + 1,
+      province,
+      currentYear: installments.currentYearEstimate,
+      previousYear: taxResults.netTaxOwing,
+      twoYearsAgo: installments.twoYearsAgoNetTaxOwing,
+      payments: toPayments(installments.payments)
+    })
+  });
+};
+
+/**
+ * Late-filing penalty and arrears interest on this return's balance owing
+ */
+const requestArrears = (taxFormData: TaxFormData, taxResults: TaxResults) => {
+  const { lateFiling } = taxFormData;
+  return apiRequest<LateFilingResult>('/tax/late-filing', {
+    method: 'POST',
+    body: JSON.stringify({
+      taxYear: taxFormData.taxYear,
+      balanceOwing: taxResults.balanceOwing,
+      selfEmployed: taxResults.selfEmployment.businesses.length > 0,
+      filingDate: lateFiling.filingDate,
+      repeatOffender: lateFiling.repeatOffender,
+      payments: toPayments(lateFiling.payments)
+    })
+  });
+};
+
+/**
+ * Calculate the form's return on the backend, then what follows from it
+ */
+export const calculateReturn = async (taxFormData: TaxFormData, province: string): Promise<ReturnPreview> => {
+  const calculation = await apiRequest<TaxResults>('/tax/calculate-by-province', {
+    method: 'POST',
+    body: JSON.stringify(toReturnPayload(taxFormData, province))
+  });
+  if (!calculation.success) return { calculation, installments: null, arrears: null, benefits: null };
+
+  const [installments, arrears, benefits] = await Promise.all([
+    requestInstallments(taxFormData, province, calculation.data),
+    requestArrears(taxFormData, calculation.data),
+    apiRequest<BenefitEstimate>('/tax/benefits', {
+      method: 'POST',
+      body: JSON.stringify(toReturnPayload(taxFormData, province))
+    })
+  ]);
+  return { calculation, installments, arrears, benefits };
+};
@@ -0,0 +1,24 @@
+// utils/taxRules.ts - Year-keyed CRA rule tables shared with the backend
+import taxRulesTable from '../../../shared/taxRules.json';
+import { TaxYearRules } from '../types';
+
+const TAX_RULES = taxRulesTable as {
+  defaultYear: string;
+  years: Record<string, TaxYearRules>;
+};
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_RULES.years);
+export const DEFAULT_TAX_YEAR = TAX_RULES.defaultYear;
+
+export const isSupportedTaxYear = (taxYear: string): boolean => SUPPORTED_TAX_YEARS.includes(taxYear);
+
+/**
+ * Get the rule table for a tax year; like the backend, throws for a year without one
+ */
+export const getTaxYearRules = (taxYear: string = DEFAULT_TAX_YEAR): TaxYearRules => {
+  const rules = TAX_RULES.years[taxYear];
+  if (!rules) {
+    throw new Error(`Unsupported tax year: ${taxYear}`);
+  }
+  return rules;
+};
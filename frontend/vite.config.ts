@@ -5,6 +5,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 5173,
+    fs: {
+      // shared/ (tax rule tables) lives next to the frontend package
+      allow: ['..']
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3001',